@@ -10,20 +10,30 @@ import AuthPage from "@/pages/auth-page";
 import DashboardPage from "@/pages/dashboard-page";
 import InventoryPage from "@/pages/inventory-page";
 import StockMovementPage from "@/pages/stock-movement-page";
+import StockRequestsPage from "@/pages/stock-requests-page";
+import StockRequestDetailPage from "@/pages/stock-request-detail-page";
 import ReportsPage from "@/pages/reports-page";
 import AnalyticsDashboard from "@/pages/analytics-dashboard";
 import UserManagementPage from "@/pages/user-management-page";
 import SettingsPage from "@/pages/settings-page";
 import MobileApp from "@/pages/mobile-app";
+import SharedReportPage from "@/pages/shared-report-page";
+import ResetPasswordPage from "@/pages/reset-password-page";
+import AcceptInvitePage from "@/pages/accept-invite-page";
 import { ProtectedRoute } from "@/lib/protected-route";
 
 function Router() {
   return (
     <Switch>
       <Route path="/auth" component={AuthPage} />
+      <Route path="/shared-report/:token" component={SharedReportPage} />
+      <Route path="/reset-password/:token" component={ResetPasswordPage} />
+      <Route path="/invite/:token" component={AcceptInvitePage} />
       <ProtectedRoute path="/" component={DashboardPage} />
       <ProtectedRoute path="/inventory" component={InventoryPage} />
       <ProtectedRoute path="/stock-movement" component={StockMovementPage} />
+      <ProtectedRoute path="/stock-requests" component={StockRequestsPage} />
+      <ProtectedRoute path="/stock-requests/:id" component={StockRequestDetailPage} />
       <ProtectedRoute path="/reports" component={ReportsPage} />
       <ProtectedRoute path="/analytics" component={AnalyticsDashboard} />
       <ProtectedRoute path="/users" component={UserManagementPage} />
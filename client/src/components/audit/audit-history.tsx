@@ -0,0 +1,90 @@
+import { useQuery } from "@tanstack/react-query";
+import { AuditEvent, User } from "@shared/schema";
+import { Badge } from "@/components/ui/badge";
+import { cn } from "@/lib/utils";
+
+interface AuditHistoryProps {
+  entityType: string;
+  entityId: number;
+}
+
+const ACTION_COLORS: Record<string, string> = {
+  create: "bg-green-100 text-green-800",
+  update: "bg-blue-100 text-blue-800",
+  delete: "bg-red-100 text-red-800",
+};
+
+// Turns a camelCase field name into a label, e.g. "categoryId" -> "Category Id"
+function formatField(field: string): string {
+  const spaced = field.replace(/([A-Z])/g, " $1");
+  return spaced.charAt(0).toUpperCase() + spaced.slice(1);
+}
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined || value === "") return "—";
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+}
+
+export function AuditHistory({ entityType, entityId }: AuditHistoryProps) {
+  const { data: events = [], isLoading } = useQuery<AuditEvent[]>({
+    queryKey: [`/api/audit?entityType=${entityType}&entityId=${entityId}`],
+  });
+
+  const { data: users = [] } = useQuery<User[]>({
+    queryKey: ["/api/users"],
+  });
+
+  const getActorName = (actorId: number | null) => {
+    if (actorId === null) return "System";
+    return users.find(u => u.id === actorId)?.name || "Unknown User";
+  };
+
+  if (isLoading) {
+    return <div className="px-4 py-3 text-sm text-gray-500">Loading history...</div>;
+  }
+
+  if (events.length === 0) {
+    return <div className="px-4 py-3 text-sm text-gray-500">No changes recorded</div>;
+  }
+
+  return (
+    <ul className="divide-y divide-gray-200 border rounded-md">
+      {events.map(event => {
+        const before = (event.before ?? {}) as Record<string, unknown>;
+        const after = (event.after ?? {}) as Record<string, unknown>;
+        // Only updates carry a diff worth listing field by field
+        const fields = Object.keys(after);
+
+        return (
+          <li key={event.id} className="px-4 py-3">
+            <div className="flex justify-between items-start">
+              <div>
+                <Badge variant="outline" className={cn("text-xs capitalize", ACTION_COLORS[event.action])}>
+                  {event.action}
+                </Badge>
+                <span className="ml-2 text-sm font-medium text-gray-900">{getActorName(event.actorId)}</span>
+              </div>
+              <div className="text-right">
+                <div className="text-xs text-gray-500">{new Date(event.createdAt).toLocaleString()}</div>
+                {event.ip && <div className="text-xs text-gray-400">{event.ip}</div>}
+              </div>
+            </div>
+            {event.action === "update" && (
+              <dl className="mt-2 space-y-1">
+                {fields.map(field => (
+                  <div key={field} className="text-sm">
+                    <dt className="inline text-gray-500">{formatField(field)}: </dt>
+                    <dd className="inline text-gray-900">
+                      {formatValue(before[field])} → {formatValue(after[field])}
+                    </dd>
+                  </div>
+                ))}
+              </dl>
+            )}
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
@@ -0,0 +1,105 @@
+import { useState } from "react";
+import { keepPreviousData, useQuery } from "@tanstack/react-query";
+import { LOGIN_EVENT_TYPES, LoginEvent, LoginEventType, Page } from "@shared/schema";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ListPagination } from "@/components/layout/list-pagination";
+import { cn } from "@/lib/utils";
+
+const PAGE_SIZE = 20;
+
+const TYPE_LABELS: Record<LoginEventType, string> = {
+  success: "Signed in",
+  failure: "Failed",
+  lockout: "Locked",
+  logout: "Signed out",
+};
+
+const TYPE_COLORS: Record<LoginEventType, string> = {
+  success: "bg-green-100 text-green-800",
+  failure: "bg-amber-100 text-amber-800",
+  lockout: "bg-red-100 text-red-800",
+  logout: "bg-gray-100 text-gray-800",
+};
+
+// Sign-ins, failures, lockouts and sign-outs, for one user or everyone
+export function LoginHistory({ userId }: { userId?: number }) {
+  const [type, setType] = useState<LoginEventType | "all">("all");
+  const [page, setPage] = useState(1);
+
+  const { data: eventPage, isLoading } = useQuery<Page<LoginEvent>>({
+    queryKey: ["/api/login-events", {
+      userId,
+      type: type === "all" ? undefined : type,
+      page,
+      pageSize: PAGE_SIZE,
+    }],
+    placeholderData: keepPreviousData,
+  });
+  const events = eventPage?.items ?? [];
+
+  return (
+    <div className="space-y-3">
+      <Select
+        value={type}
+        onValueChange={(value) => {
+          setType(value as LoginEventType | "all");
+          setPage(1);
+        }}
+      >
+        <SelectTrigger className="w-48">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="all">All events</SelectItem>
+          {LOGIN_EVENT_TYPES.map((eventType) => (
+            <SelectItem key={eventType} value={eventType}>{TYPE_LABELS[eventType]}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      {isLoading ? (
+        <div className="px-4 py-3 text-sm text-gray-500">Loading sign-ins...</div>
+      ) : events.length === 0 ? (
+        <div className="px-4 py-3 text-sm text-gray-500">No sign-in activity recorded</div>
+      ) : (
+        <ul className="divide-y divide-gray-200 border rounded-md">
+          {events.map((event) => (
+            <li key={event.id} className="px-4 py-3">
+              <div className="flex justify-between items-start">
+                <div>
+                  <Badge variant="outline" className={cn("text-xs", TYPE_COLORS[event.type])}>
+                    {TYPE_LABELS[event.type]}
+                  </Badge>
+                  {userId === undefined && (
+                    <span className="ml-2 text-sm font-medium text-gray-900">{event.username}</span>
+                  )}
+                  {event.reason && <span className="ml-2 text-sm text-gray-500">{event.reason}</span>}
+                </div>
+                <div className="text-right">
+                  <div className="text-xs text-gray-500">{new Date(event.createdAt).toLocaleString()}</div>
+                  {event.ip && <div className="text-xs text-gray-400">{event.ip}</div>}
+                </div>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {eventPage && eventPage.total > PAGE_SIZE && (
+        <ListPagination
+          page={page}
+          pageSize={PAGE_SIZE}
+          total={eventPage.total}
+          onPageChange={setPage}
+        />
+      )}
+    </div>
+  );
+}
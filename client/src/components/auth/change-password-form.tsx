@@ -0,0 +1,152 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { CurrentUser, PasswordPolicy } from "@shared/schema";
+import { passwordPolicyProblems } from "@shared/passwords";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Check, X } from "lucide-react";
+
+// Each rule of the password policy, ticked off once the password follows it
+export function PasswordRules({ password, policy }: { password: string; policy?: PasswordPolicy }) {
+  if (!policy) return null;
+  const problems = passwordPolicyProblems(password, policy);
+  const rules = passwordPolicyProblems("", policy);
+
+  return (
+    <ul className="space-y-1 text-sm">
+      {rules.map((rule) => {
+        const met = !problems.includes(rule);
+        return (
+          <li key={rule} className={`flex items-center gap-2 ${met ? "text-green-600" : "text-gray-500"}`}>
+            {met ? <Check className="h-4 w-4" /> : <X className="h-4 w-4" />}
+            {rule}
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
+
+// Current password, then the new one twice, checked against the server's
+// password policy as it is typed
+export function ChangePasswordForm({ onChanged }: { onChanged?: () => void }) {
+  const { toast } = useToast();
+  const [currentPassword, setCurrentPassword] = useState("");
+  const [newPassword, setNewPassword] = useState("");
+  const [confirmPassword, setConfirmPassword] = useState("");
+
+  const { data: policy } = useQuery<PasswordPolicy>({
+    queryKey: ["/api/password-policy"],
+  });
+
+  const changeMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/user/password", { currentPassword, newPassword });
+      return (await res.json()) as CurrentUser;
+    },
+    onSuccess: (user) => {
+      queryClient.setQueryData(["/api/user"], user);
+      setCurrentPassword("");
+      setNewPassword("");
+      setConfirmPassword("");
+      toast({
+        title: "Password changed",
+        description: "Use your new password next time you sign in.",
+      });
+      onChanged?.();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to change password",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const problems = policy ? passwordPolicyProblems(newPassword, policy) : [];
+  const matches = newPassword.length > 0 && newPassword === confirmPassword;
+  const canSubmit = currentPassword.length > 0 && problems.length === 0 && matches;
+
+  return (
+    <form
+      className="space-y-4"
+      onSubmit={(e) => {
+        e.preventDefault();
+        if (canSubmit) changeMutation.mutate();
+      }}
+    >
+      <div className="space-y-2">
+        <Label htmlFor="current-password">Current password</Label>
+        <Input
+          id="current-password"
+          type="password"
+          autoComplete="current-password"
+          value={currentPassword}
+          onChange={(e) => setCurrentPassword(e.target.value)}
+        />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="new-password">New password</Label>
+        <Input
+          id="new-password"
+          type="password"
+          autoComplete="new-password"
+          value={newPassword}
+          onChange={(e) => setNewPassword(e.target.value)}
+        />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="confirm-password">Confirm new password</Label>
+        <Input
+          id="confirm-password"
+          type="password"
+          autoComplete="new-password"
+          value={confirmPassword}
+          onChange={(e) => setConfirmPassword(e.target.value)}
+        />
+        {confirmPassword.length > 0 && !matches && (
+          <p className="text-sm text-red-600">Passwords don't match</p>
+        )}
+      </div>
+
+      <PasswordRules password={newPassword} policy={policy} />
+
+      <Button type="submit" className="w-full" disabled={!canSubmit || changeMutation.isPending}>
+        {changeMutation.isPending ? "Changing..." : "Change Password"}
+      </Button>
+    </form>
+  );
+}
+
+export function ChangePasswordDialog({
+  open,
+  onOpenChange,
+}: {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}) {
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Change Password</DialogTitle>
+          <DialogDescription>
+            Enter your current password and choose a new one.
+          </DialogDescription>
+        </DialogHeader>
+        <ChangePasswordForm onChanged={() => onOpenChange(false)} />
+      </DialogContent>
+    </Dialog>
+  );
+}
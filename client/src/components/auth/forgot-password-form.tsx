@@ -0,0 +1,78 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { MailCheck } from "lucide-react";
+
+// Asks for a reset link by email. The server answers the same whether or
+// not the address has an account, and so does this.
+export function ForgotPasswordForm({ onBack }: { onBack: () => void }) {
+  const { toast } = useToast();
+  const [email, setEmail] = useState("");
+
+  const requestMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/password-reset", { email });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to send reset link",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (requestMutation.isSuccess) {
+    return (
+      <div className="space-y-4">
+        <div className="flex items-center gap-2">
+          <MailCheck className="h-5 w-5 text-green-600" />
+          <span className="font-medium">Check your email</span>
+        </div>
+        <p className="text-sm text-muted-foreground">
+          If an account uses {email}, we've sent it a link to choose a new password.
+          The link expires in an hour.
+        </p>
+        <Button type="button" variant="outline" className="w-full" onClick={onBack}>
+          Back to sign in
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <form
+      className="space-y-4"
+      onSubmit={(e) => {
+        e.preventDefault();
+        if (email.trim()) requestMutation.mutate();
+      }}
+    >
+      <div className="space-y-2">
+        <Label htmlFor="forgot-password-email">Email</Label>
+        <Input
+          id="forgot-password-email"
+          type="email"
+          autoFocus
+          autoComplete="email"
+          placeholder="you@example.com"
+          value={email}
+          onChange={(e) => setEmail(e.target.value)}
+        />
+        <p className="text-sm text-muted-foreground">
+          Enter the email address on your account and we'll send you a reset link.
+        </p>
+      </div>
+      <Button type="submit" className="w-full" disabled={!email.trim() || requestMutation.isPending}>
+        {requestMutation.isPending ? "Sending..." : "Send Reset Link"}
+      </Button>
+      <Button type="button" variant="ghost" className="w-full" onClick={onBack}>
+        Back to sign in
+      </Button>
+    </form>
+  );
+}
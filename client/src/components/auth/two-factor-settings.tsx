@@ -0,0 +1,290 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import QRCode from "qrcode";
+import { TwoFactorSetup, TwoFactorStatus } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Download, Loader2, ShieldCheck } from "lucide-react";
+
+type RecoveryCodes = { recoveryCodes: string[] };
+
+function downloadRecoveryCodes(codes: string[]) {
+  const blob = new Blob([codes.join("\n") + "\n"], { type: "text/plain" });
+  const link = document.createElement("a");
+  link.href = URL.createObjectURL(blob);
+  link.download = "pharmstock-recovery-codes.txt";
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(link.href);
+}
+
+// Shown once, right after they are made
+function RecoveryCodeList({ codes, onDone }: { codes: string[]; onDone: () => void }) {
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-muted-foreground">
+        Keep these recovery codes somewhere safe. Each one signs you in once if you lose your
+        authenticator. They won't be shown again.
+      </p>
+      <div className="grid grid-cols-2 gap-2 rounded-lg border bg-gray-50 p-4 font-mono text-sm">
+        {codes.map((code) => (
+          <span key={code}>{code}</span>
+        ))}
+      </div>
+      <div className="flex gap-2">
+        <Button type="button" variant="outline" className="flex-1" onClick={() => downloadRecoveryCodes(codes)}>
+          <Download className="h-4 w-4 mr-2" />
+          Download
+        </Button>
+        <Button type="button" className="flex-1" onClick={onDone}>
+          I've saved them
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+// Turning two-factor authentication on and off for the signed-in user, and
+// replacing their recovery codes
+export function TwoFactorSettings({ onEnabled }: { onEnabled?: () => void }) {
+  const { toast } = useToast();
+  const [setup, setSetup] = useState<TwoFactorSetup | null>(null);
+  const [qrDataUrl, setQrDataUrl] = useState<string | null>(null);
+  const [code, setCode] = useState("");
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+
+  const { data: status, isLoading } = useQuery<TwoFactorStatus>({
+    queryKey: ["/api/user/two-factor"],
+  });
+
+  useEffect(() => {
+    if (!setup) {
+      setQrDataUrl(null);
+      return;
+    }
+    QRCode.toDataURL(setup.uri, { width: 200, margin: 1 })
+      .then(setQrDataUrl)
+      .catch((err) => console.error("QR code generation error:", err));
+  }, [setup]);
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Two-factor authentication",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const setupMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/user/two-factor/setup");
+      return (await res.json()) as TwoFactorSetup;
+    },
+    onSuccess: (result) => {
+      setCode("");
+      setSetup(result);
+    },
+    onError,
+  });
+
+  const enableMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/user/two-factor/enable", { code });
+      return (await res.json()) as RecoveryCodes;
+    },
+    onSuccess: (result) => {
+      setCode("");
+      setSetup(null);
+      setRecoveryCodes(result.recoveryCodes);
+      queryClient.invalidateQueries({ queryKey: ["/api/user/two-factor"] });
+      toast({
+        title: "Two-factor authentication is on",
+        description: "You'll be asked for a code each time you sign in.",
+      });
+    },
+    onError,
+  });
+
+  const regenerateMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/user/two-factor/recovery-codes", { code });
+      return (await res.json()) as RecoveryCodes;
+    },
+    onSuccess: (result) => {
+      setCode("");
+      setRecoveryCodes(result.recoveryCodes);
+      queryClient.invalidateQueries({ queryKey: ["/api/user/two-factor"] });
+    },
+    onError,
+  });
+
+  const disableMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/user/two-factor/disable", { code });
+    },
+    onSuccess: () => {
+      setCode("");
+      queryClient.invalidateQueries({ queryKey: ["/api/user/two-factor"] });
+      toast({
+        title: "Two-factor authentication is off",
+        description: "You'll only need your password to sign in.",
+      });
+    },
+    onError,
+  });
+
+  if (isLoading || !status) {
+    return (
+      <div className="flex justify-center py-6">
+        <Loader2 className="h-6 w-6 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (recoveryCodes) {
+    return (
+      <RecoveryCodeList
+        codes={recoveryCodes}
+        onDone={() => {
+          setRecoveryCodes(null);
+          onEnabled?.();
+        }}
+      />
+    );
+  }
+
+  const codeInput = (
+    <div className="space-y-2">
+      <Label htmlFor="two-factor-settings-code">Authentication code</Label>
+      <Input
+        id="two-factor-settings-code"
+        autoComplete="one-time-code"
+        placeholder="123456"
+        value={code}
+        onChange={(e) => setCode(e.target.value)}
+      />
+    </div>
+  );
+
+  if (setup) {
+    return (
+      <form
+        className="space-y-4"
+        onSubmit={(e) => {
+          e.preventDefault();
+          if (code.trim()) enableMutation.mutate();
+        }}
+      >
+        <p className="text-sm text-muted-foreground">
+          Scan this QR code with an authenticator app, then enter the six-digit code it shows.
+        </p>
+        <div className="flex justify-center">
+          {qrDataUrl ? (
+            <img src={qrDataUrl} alt="Two-factor QR code" className="h-48 w-48" />
+          ) : (
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          )}
+        </div>
+        <p className="text-center text-xs text-muted-foreground">
+          Can't scan it? Enter this key instead:
+          <span className="block font-mono text-sm text-gray-700 break-all">{setup.secret}</span>
+        </p>
+        {codeInput}
+        <div className="flex gap-2">
+          <Button type="button" variant="outline" className="flex-1" onClick={() => setSetup(null)}>
+            Cancel
+          </Button>
+          <Button type="submit" className="flex-1" disabled={!code.trim() || enableMutation.isPending}>
+            {enableMutation.isPending ? "Verifying..." : "Turn On"}
+          </Button>
+        </div>
+      </form>
+    );
+  }
+
+  if (!status.enabled) {
+    return (
+      <div className="space-y-4">
+        <p className="text-sm text-muted-foreground">
+          Two-factor authentication asks for a code from an authenticator app after your password.
+          {status.required && " Your role requires it."}
+        </p>
+        <Button onClick={() => setupMutation.mutate()} disabled={setupMutation.isPending}>
+          <ShieldCheck className="h-4 w-4 mr-2" />
+          Set Up Two-Factor Authentication
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <ShieldCheck className="h-5 w-5 text-green-600" />
+          <span className="font-medium">Two-factor authentication is on</span>
+        </div>
+        {status.required && <Badge variant="secondary">Required for your role</Badge>}
+      </div>
+      <p className="text-sm text-muted-foreground">
+        {status.recoveryCodesRemaining} of your recovery codes are unused. Enter a code from your
+        authenticator to get new ones{status.required ? "" : " or to turn two-factor off"}.
+      </p>
+      {codeInput}
+      <div className="flex gap-2">
+        <Button
+          variant="outline"
+          className="flex-1"
+          onClick={() => regenerateMutation.mutate()}
+          disabled={!code.trim() || regenerateMutation.isPending}
+        >
+          New Recovery Codes
+        </Button>
+        {!status.required && (
+          <Button
+            variant="destructive"
+            className="flex-1"
+            onClick={() => disableMutation.mutate()}
+            disabled={!code.trim() || disableMutation.isPending}
+          >
+            Turn Off
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export function TwoFactorDialog({
+  open,
+  onOpenChange,
+}: {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}) {
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Two-Factor Authentication</DialogTitle>
+          <DialogDescription>
+            Protect your account with a code from an authenticator app.
+          </DialogDescription>
+        </DialogHeader>
+        <TwoFactorSettings />
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,171 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { UserSession } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Loader2, Monitor, Smartphone } from "lucide-react";
+
+const BROWSERS: [RegExp, string][] = [
+  [/Edg\//, "Edge"],
+  [/OPR\/|Opera/, "Opera"],
+  [/Firefox\//, "Firefox"],
+  [/Chrome\//, "Chrome"],
+  [/Safari\//, "Safari"],
+];
+
+const SYSTEMS: [RegExp, string][] = [
+  [/Android/, "Android"],
+  [/iPhone|iPad|iPod/, "iOS"],
+  [/Windows/, "Windows"],
+  [/Mac OS X|Macintosh/, "macOS"],
+  [/Linux/, "Linux"],
+];
+
+// "Chrome on Windows" from a user agent string, as far as it can tell
+function describeDevice(userAgent: string | null): string {
+  if (!userAgent) return "Unknown device";
+  const browser = BROWSERS.find(([pattern]) => pattern.test(userAgent))?.[1];
+  const system = SYSTEMS.find(([pattern]) => pattern.test(userAgent))?.[1];
+  if (browser && system) return `${browser} on ${system}`;
+  return browser ?? system ?? "Unknown device";
+}
+
+function isMobile(userAgent: string | null): boolean {
+  return !!userAgent && /Mobile|Android|iPhone|iPad/.test(userAgent);
+}
+
+function formatTimestamp(value: string | null): string {
+  return value ? new Date(value).toLocaleString() : "—";
+}
+
+// The signed-in user's sessions, each of which but the current one can be
+// signed out from here
+export function UserSessions() {
+  const { toast } = useToast();
+
+  const { data: sessions = [], isLoading } = useQuery<UserSession[]>({
+    queryKey: ["/api/user/sessions"],
+  });
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Failed to sign out session",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const revokeMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/user/sessions/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/user/sessions"] });
+      toast({
+        title: "Session signed out",
+        description: "That device will need to sign in again.",
+      });
+    },
+    onError,
+  });
+
+  const revokeOthersMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("DELETE", "/api/user/sessions");
+      return (await res.json()) as { ended: number };
+    },
+    onSuccess: ({ ended }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/user/sessions"] });
+      toast({
+        title: "Other sessions signed out",
+        description: `${ended} session${ended === 1 ? "" : "s"} ended.`,
+      });
+    },
+    onError,
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-6">
+        <Loader2 className="h-6 w-6 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  const hasOthers = sessions.some((session) => !session.current);
+
+  return (
+    <div className="space-y-4">
+      <div className="max-h-[400px] overflow-y-auto divide-y rounded-lg border">
+        {sessions.map((session) => {
+          const Icon = isMobile(session.userAgent) ? Smartphone : Monitor;
+          return (
+            <div key={session.id} className="flex items-start gap-3 p-3">
+              <Icon className="h-5 w-5 mt-0.5 text-gray-500 flex-shrink-0" />
+              <div className="flex-1 min-w-0 text-sm">
+                <div className="flex items-center gap-2 font-medium">
+                  {describeDevice(session.userAgent)}
+                  {session.current && <Badge variant="secondary">This device</Badge>}
+                </div>
+                <div className="text-xs text-gray-500">{session.ip ?? "Unknown IP address"}</div>
+                <div className="text-xs text-gray-500">
+                  Signed in {formatTimestamp(session.signedInAt)} · Last active {formatTimestamp(session.lastSeenAt)}
+                </div>
+              </div>
+              {!session.current && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => revokeMutation.mutate(session.id)}
+                  disabled={revokeMutation.isPending}
+                >
+                  Sign Out
+                </Button>
+              )}
+            </div>
+          );
+        })}
+      </div>
+      {hasOthers && (
+        <Button
+          variant="outline"
+          className="w-full"
+          onClick={() => revokeOthersMutation.mutate()}
+          disabled={revokeOthersMutation.isPending}
+        >
+          Sign Out All Other Sessions
+        </Button>
+      )}
+    </div>
+  );
+}
+
+export function UserSessionsDialog({
+  open,
+  onOpenChange,
+}: {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}) {
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>My Sessions</DialogTitle>
+          <DialogDescription>
+            Devices where you are signed in.
+          </DialogDescription>
+        </DialogHeader>
+        {open && <UserSessions />}
+      </DialogContent>
+    </Dialog>
+  );
+}
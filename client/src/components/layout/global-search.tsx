@@ -0,0 +1,186 @@
+import { useEffect, useState } from "react";
+import { useQuery, keepPreviousData } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { SearchResults } from "@shared/schema";
+import { useAuth } from "@/hooks/use-auth";
+import { useDebouncedValue } from "@/hooks/use-debounced-value";
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from "@/components/ui/command";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import { ArrowLeftRight, Layers, Package, Search, Tag, UserCircle } from "lucide-react";
+import { formatDate, getMovementTypeName, getRoleName } from "@/lib/utils";
+
+// The server rejects shorter terms; they match too much to be useful
+const MIN_SEARCH_LENGTH = 2;
+
+// Header search over items, people, categories, specialties and movement
+// notes. Results open the page that lists them, filtered to the match.
+export function GlobalSearch() {
+  const { hasPermission } = useAuth();
+  const [, navigate] = useLocation();
+  const [open, setOpen] = useState(false);
+  const [query, setQuery] = useState("");
+  const term = useDebouncedValue(query.trim());
+
+  const { data: results, isFetching } = useQuery<SearchResults>({
+    queryKey: ["/api/search", { q: term }],
+    enabled: open && term.length >= MIN_SEARCH_LENGTH,
+    placeholderData: keepPreviousData,
+    staleTime: 30 * 1000,
+  });
+
+  // Ctrl+K or Cmd+K opens the search from anywhere
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key.toLowerCase() === "k" && (e.metaKey || e.ctrlKey)) {
+        e.preventDefault();
+        setOpen(current => !current);
+      }
+    };
+    document.addEventListener("keydown", onKeyDown);
+    return () => document.removeEventListener("keydown", onKeyDown);
+  }, []);
+
+  const go = (url: string) => {
+    setOpen(false);
+    setQuery("");
+    navigate(url);
+  };
+
+  const showResults = results && term.length >= MIN_SEARCH_LENGTH;
+  const users = hasPermission("canManageUsers") ? results?.users ?? [] : [];
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <button
+          type="button"
+          className="relative flex items-center w-64 h-10 px-10 text-sm text-left text-gray-400 bg-gray-100 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary"
+        >
+          <Search className="absolute top-2.5 left-3 w-5 h-5 text-gray-400" />
+          Search...
+          <kbd className="absolute right-3 hidden md:inline text-xs text-gray-400">Ctrl K</kbd>
+        </button>
+      </PopoverTrigger>
+      <PopoverContent align="start" className="w-[26rem] p-0">
+        <Command shouldFilter={false}>
+          <CommandInput
+            placeholder="Search items, people, categories..."
+            value={query}
+            onValueChange={setQuery}
+          />
+          <CommandList className="max-h-[400px]">
+            {term.length < MIN_SEARCH_LENGTH ? (
+              <div className="py-6 text-center text-sm text-gray-500">
+                Type at least {MIN_SEARCH_LENGTH} characters to search
+              </div>
+            ) : (
+              <CommandEmpty>{isFetching ? "Searching..." : "No results found"}</CommandEmpty>
+            )}
+
+            {showResults && results.stockItems.length > 0 && (
+              <CommandGroup heading="Stock Items">
+                {results.stockItems.map((item) => (
+                  <CommandItem
+                    key={`item-${item.id}`}
+                    value={`item-${item.id}`}
+                    onSelect={() => go(`/inventory?search=${encodeURIComponent(item.uniqueNumber || item.name)}`)}
+                  >
+                    <Package />
+                    <div className="flex-1 min-w-0">
+                      <div className="truncate">{item.name}</div>
+                      {item.uniqueNumber && (
+                        <div className="text-xs text-gray-500">{item.uniqueNumber}</div>
+                      )}
+                    </div>
+                    <span className="text-xs text-gray-500">Qty {item.quantity}</span>
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+            )}
+
+            {showResults && users.length > 0 && (
+              <CommandGroup heading="Users">
+                {users.map((user) => (
+                  <CommandItem
+                    key={`user-${user.id}`}
+                    value={`user-${user.id}`}
+                    onSelect={() => go(`/users?search=${encodeURIComponent(user.username)}`)}
+                  >
+                    <UserCircle />
+                    <div className="flex-1 min-w-0">
+                      <div className="truncate">{user.name}</div>
+                      <div className="text-xs text-gray-500">{user.username}</div>
+                    </div>
+                    <span className="text-xs text-gray-500">{getRoleName(user.role)}</span>
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+            )}
+
+            {showResults && results.categories.length > 0 && (
+              <CommandGroup heading="Categories">
+                {results.categories.map((category) => (
+                  <CommandItem
+                    key={`category-${category.id}`}
+                    value={`category-${category.id}`}
+                    onSelect={() => go(`/inventory?categoryId=${category.id}`)}
+                  >
+                    <Tag />
+                    {category.name}
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+            )}
+
+            {showResults && results.specialties.length > 0 && (
+              <CommandGroup heading="Specialties">
+                {results.specialties.map((specialty) => (
+                  <CommandItem
+                    key={`specialty-${specialty.id}`}
+                    value={`specialty-${specialty.id}`}
+                    onSelect={() => go(`/inventory?specialtyId=${specialty.id}`)}
+                  >
+                    <Layers />
+                    {specialty.name}
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+            )}
+
+            {showResults && results.movements.length > 0 && (
+              <CommandGroup heading="Movements">
+                {results.movements.map((movement) => (
+                  <CommandItem
+                    key={`movement-${movement.id}`}
+                    value={`movement-${movement.id}`}
+                    onSelect={() => go(`/stock-movement?stockItemId=${movement.stockItemId}`)}
+                  >
+                    <ArrowLeftRight />
+                    <div className="flex-1 min-w-0">
+                      <div className="truncate">
+                        {getMovementTypeName(movement.type)}: {movement.quantity} x {movement.stockItemName}
+                      </div>
+                      <div className="text-xs text-gray-500 truncate">{movement.notes}</div>
+                    </div>
+                    <span className="text-xs text-gray-500">{formatDate(movement.movedAt)}</span>
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+            )}
+          </CommandList>
+        </Command>
+      </PopoverContent>
+    </Popover>
+  );
+}
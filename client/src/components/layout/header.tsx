@@ -1,9 +1,8 @@
 import { useState } from "react";
 import { useAuth } from "@/hooks/use-auth";
-import { Bell, Search, ChevronDown, ExternalLink, Package, AlertTriangle, Info } from "lucide-react";
+import { Bell, ChevronDown, ExternalLink, Package, AlertTriangle, Info } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
-import { Input } from "@/components/ui/input";
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -12,59 +11,57 @@ import {
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
 import { getRoleName, getPlaceholderAvatar, formatDate } from "@/lib/utils";
-import { Link } from "wouter";
+import { Link, useLocation } from "wouter";
 import { ScrollArea } from "@/components/ui/scroll-area";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Notification } from "@shared/schema";
+import { GlobalSearch } from "./global-search";
+import { ChangePasswordDialog } from "@/components/auth/change-password-form";
+import { TwoFactorDialog } from "@/components/auth/two-factor-settings";
+import { UserSessionsDialog } from "@/components/auth/user-sessions";
 
-interface HeaderProps {
-  onSearch?: (query: string) => void;
-}
-
-// Mock notification data structure - in a real app, this would come from the API
-interface Notification {
-  id: number;
-  title: string;
-  message: string;
-  date: Date;
-  read: boolean;
-  type: 'info' | 'warning' | 'alert' | 'stock';
-  link?: string;
-}
+// How often the bell checks for new notifications
+const NOTIFICATION_POLL_INTERVAL_MS = 60 * 1000;
 
-export function Header({ onSearch }: HeaderProps) {
+export function Header() {
   const { user, logoutMutation } = useAuth();
-  const [searchQuery, setSearchQuery] = useState("");
-  const [notifications, setNotifications] = useState<Notification[]>([
-    {
-      id: 1,
-      title: "Low Stock Alert",
-      message: "Promotional brochures are running low (5 items remaining)",
-      date: new Date(Date.now() - 1000 * 60 * 30), // 30 minutes ago
-      read: false,
-      type: 'warning',
-      link: '/inventory'
-    },
-    {
-      id: 2,
-      title: "Expiring Items",
-      message: "3 items are expiring within the next week",
-      date: new Date(Date.now() - 1000 * 60 * 60 * 2), // 2 hours ago
-      read: false,
-      type: 'alert',
-      link: '/stock-movement'
-    }
-  ]);
-  
-  // Calculate unread notification count
-  const notificationCount = notifications.filter(n => !n.read).length;
+  const [, navigate] = useLocation();
+  const [showChangePassword, setShowChangePassword] = useState(false);
+  const [showTwoFactor, setShowTwoFactor] = useState(false);
+  const [showSessions, setShowSessions] = useState(false);
 
-  const handleSearchChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const value = e.target.value;
-    setSearchQuery(value);
-    if (onSearch) {
-      onSearch(value);
-    }
+  const { data: notifications = [] } = useQuery<Notification[]>({
+    queryKey: ["/api/notifications"],
+    refetchInterval: NOTIFICATION_POLL_INTERVAL_MS,
+  });
+
+  const { data: unread } = useQuery<{ count: number }>({
+    queryKey: ["/api/notifications/unread-count"],
+    refetchInterval: NOTIFICATION_POLL_INTERVAL_MS,
+  });
+
+  const notificationCount = unread?.count ?? 0;
+
+  const onNotificationsChanged = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/notifications"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/notifications/unread-count"] });
   };
 
+  const markReadMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("POST", `/api/notifications/${id}/read`);
+    },
+    onSuccess: onNotificationsChanged,
+  });
+
+  const markAllReadMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/notifications/read-all");
+    },
+    onSuccess: onNotificationsChanged,
+  });
+
   const handleLogout = async () => {
     logoutMutation.mutate();
   };
@@ -72,16 +69,7 @@ export function Header({ onSearch }: HeaderProps) {
   return (
     <div className="flex items-center justify-between h-16 px-4 bg-white border-b">
       <div className="flex items-center ml-14 md:ml-0">
-        <div className="relative">
-          <Input
-            type="text"
-            placeholder="Search..."
-            className="px-10 py-2 text-sm bg-gray-100 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary w-64"
-            value={searchQuery}
-            onChange={handleSearchChange}
-          />
-          <Search className="absolute top-2.5 left-3 w-5 h-5 text-gray-400" />
-        </div>
+        <GlobalSearch />
       </div>
 
       <div className="flex items-center space-x-4">
@@ -96,7 +84,7 @@ export function Header({ onSearch }: HeaderProps) {
                 <Bell className="w-6 h-6" />
                 {notificationCount > 0 && (
                   <span className="absolute -top-2 -right-2 flex items-center justify-center w-4 h-4 text-xs text-white bg-red-500 rounded-full">
-                    {notificationCount}
+                    {notificationCount > 9 ? "9+" : notificationCount}
                   </span>
                 )}
               </div>
@@ -110,12 +98,8 @@ export function Header({ onSearch }: HeaderProps) {
                   variant="ghost" 
                   size="sm"
                   className="text-xs"
-                  onClick={() => {
-                    // Mark all as read
-                    setNotifications(prev => 
-                      prev.map(n => ({ ...n, read: true }))
-                    );
-                  }}
+                  onClick={() => markAllReadMutation.mutate()}
+                  disabled={markAllReadMutation.isPending}
                 >
                   Mark all as read
                 </Button>
@@ -136,17 +120,17 @@ export function Header({ onSearch }: HeaderProps) {
                   let iconColor = 'text-blue-500';
                   
                   switch (notification.type) {
-                    case 'warning':
+                    case 'low_stock':
                       Icon = AlertTriangle;
                       bgColor = 'bg-yellow-50';
                       iconColor = 'text-yellow-500';
                       break;
-                    case 'alert':
+                    case 'expiring_lot':
                       Icon = AlertTriangle;
                       bgColor = 'bg-red-50';
                       iconColor = 'text-red-500';
                       break;
-                    case 'stock':
+                    case 'movement':
                       Icon = Package;
                       bgColor = 'bg-green-50';
                       iconColor = 'text-green-500';
@@ -156,16 +140,13 @@ export function Header({ onSearch }: HeaderProps) {
                   return (
                     <div 
                       key={notification.id}
-                      className={`flex items-start p-3 border-b hover:bg-gray-50 cursor-pointer ${notification.read ? '' : 'bg-blue-50'}`}
+                      className={`flex items-start p-3 border-b hover:bg-gray-50 cursor-pointer ${notification.readAt ? '' : 'bg-blue-50'}`}
                       onClick={() => {
-                        // Mark as read
-                        setNotifications(prev => 
-                          prev.map(n => n.id === notification.id ? { ...n, read: true } : n)
-                        );
-                        
-                        // Redirect if link exists
+                        if (!notification.readAt) {
+                          markReadMutation.mutate(notification.id);
+                        }
                         if (notification.link) {
-                          window.location.href = notification.link;
+                          navigate(notification.link);
                         }
                       }}
                     >
@@ -176,7 +157,7 @@ export function Header({ onSearch }: HeaderProps) {
                         <div className="text-sm font-medium">{notification.title}</div>
                         <div className="text-xs text-gray-500 mt-1">{notification.message}</div>
                         <div className="text-xs text-gray-400 mt-1">
-                          {formatDate(notification.date)}
+                          {formatDate(notification.createdAt)}
                         </div>
                       </div>
                       {notification.link && (
@@ -229,6 +210,15 @@ export function Header({ onSearch }: HeaderProps) {
                 Settings
               </DropdownMenuItem>
             </Link>
+            <DropdownMenuItem onClick={() => setShowChangePassword(true)}>
+              Change Password
+            </DropdownMenuItem>
+            <DropdownMenuItem onClick={() => setShowTwoFactor(true)}>
+              Two-Factor Authentication
+            </DropdownMenuItem>
+            <DropdownMenuItem onClick={() => setShowSessions(true)}>
+              My Sessions
+            </DropdownMenuItem>
             <DropdownMenuSeparator />
             <DropdownMenuItem onClick={handleLogout}>
               Sign out
@@ -236,6 +226,10 @@ export function Header({ onSearch }: HeaderProps) {
           </DropdownMenuContent>
         </DropdownMenu>
       </div>
+
+      <ChangePasswordDialog open={showChangePassword} onOpenChange={setShowChangePassword} />
+      <TwoFactorDialog open={showTwoFactor} onOpenChange={setShowTwoFactor} />
+      <UserSessionsDialog open={showSessions} onOpenChange={setShowSessions} />
     </div>
   );
 }
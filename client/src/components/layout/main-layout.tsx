@@ -4,16 +4,15 @@ import { Header } from "./header";
 
 interface MainLayoutProps {
   children: ReactNode;
-  onSearch?: (query: string) => void;
 }
 
-export function MainLayout({ children, onSearch }: MainLayoutProps) {
+export function MainLayout({ children }: MainLayoutProps) {
   return (
     <div className="h-screen flex overflow-hidden bg-gray-50">
       <Sidebar />
       
       <div className="flex flex-col flex-1 overflow-hidden">
-        <Header onSearch={onSearch} />
+        <Header />
         
         <main className="flex-1 overflow-y-auto bg-gray-100 p-4 md:p-6">
           {children}
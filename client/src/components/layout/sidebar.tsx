@@ -11,7 +11,8 @@ import {
   Menu,
   FlaskRound,
   BarChart3,
-  LineChart
+  LineChart,
+  ClipboardList
 } from "lucide-react";
 import { useAuth } from "@/hooks/use-auth";
 import { Button } from "@/components/ui/button";
@@ -35,7 +36,7 @@ export function Sidebar({ className }: SidebarProps) {
     title: string;
     icon: React.ReactNode;
     href: string;
-    requiredPermission: string | null;
+    requiredPermission: string | string[] | null; // Any one of several permissions
   };
   
   const menuItems: MenuItem[] = [
@@ -57,6 +58,12 @@ export function Sidebar({ className }: SidebarProps) {
       href: "/stock-movement",
       requiredPermission: "canMoveStock"
     },
+    {
+      title: "Stock Requests",
+      icon: <ClipboardList className="mr-3 h-5 w-5" />,
+      href: "/stock-requests",
+      requiredPermission: ["canRequestStock", "canApproveRequests"]
+    },
     {
       title: "Reports",
       icon: <FileChartColumn className="mr-3 h-5 w-5" />,
@@ -83,6 +90,10 @@ export function Sidebar({ className }: SidebarProps) {
     }
   ];
 
+  const requiredPermissions = (item: MenuItem) => {
+    return Array.isArray(item.requiredPermission) ? item.requiredPermission : [item.requiredPermission as string];
+  };
+
   const toggleMobileMenu = () => {
     setIsMobileMenuOpen(!isMobileMenuOpen);
   };
@@ -121,20 +132,20 @@ export function Sidebar({ className }: SidebarProps) {
       };
       
       const rolePermissions: RolePermissions = {
-        'ceo': ['canMoveStock', 'canViewReports', 'canManageUsers', 'canAccessSettings'],
-        'marketer': ['canMoveStock', 'canViewReports'],
-        'salesManager': ['canMoveStock', 'canViewReports', 'canManageUsers'],
+        'ceo': ['canMoveStock', 'canViewReports', 'canManageUsers', 'canAccessSettings', 'canRequestStock', 'canApproveRequests'],
+        'marketer': ['canMoveStock', 'canViewReports', 'canApproveRequests'],
+        'salesManager': ['canMoveStock', 'canViewReports', 'canManageUsers', 'canApproveRequests'],
         'stockManager': ['canMoveStock', 'canAccessSettings'],
         'admin': ['canManageUsers', 'canAccessSettings'],
-        'medicalRep': []
+        'medicalRep': ['canRequestStock']
       };
       
       const permissionList = rolePermissions[activeRole as keyof typeof rolePermissions] || [];
-      return permissionList.includes(item.requiredPermission as string) || false;
+      return requiredPermissions(item).some(permission => permissionList.includes(permission));
     }
     
     // Default behavior using actual permissions
-    return item.requiredPermission ? hasPermission(item.requiredPermission) : true;
+    return requiredPermissions(item).some(permission => hasPermission(permission));
   });
 
   return (
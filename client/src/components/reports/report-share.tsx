@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { 
   Copy,
   Mail,
@@ -24,31 +24,70 @@ import {
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
+import { useMutation } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { formatDate } from "@/lib/utils";
+import { ReportShareSummary } from "@shared/schema";
 
 interface ReportShareProps {
   isOpen: boolean;
   onClose: () => void;
   reportType: string;
-  reportData: any;
+  reportData: any[][];
 }
 
+// A newly created share; the token is only available at creation time
+type CreatedShare = ReportShareSummary & { token: string };
+
 export function ReportShare({ isOpen, onClose, reportType, reportData }: ReportShareProps) {
   const { toast } = useToast();
   const [copied, setCopied] = useState(false);
   const [recipientEmail, setRecipientEmail] = useState("");
   const [message, setMessage] = useState("");
-  
-  // Generate a shareable link for the report
-  const generateShareableLink = () => {
-    // In a real app, this would generate a unique URL with the report ID
-    // For this prototype, we'll simulate it by encoding the report type in the URL
-    const baseUrl = window.location.origin;
-    const encodedData = btoa(JSON.stringify({ type: reportType, timestamp: new Date().toISOString() }));
-    return `${baseUrl}/shared-report/${encodedData}`;
-  };
-  
-  const shareableLink = generateShareableLink();
+  const [expiresInDays, setExpiresInDays] = useState("7");
+  const [sharePassword, setSharePassword] = useState("");
+  const [share, setShare] = useState<CreatedShare | null>(null);
+
+  const reportTitle = `${reportType.charAt(0).toUpperCase() + reportType.slice(1)} Report`;
+
+  // A link shares a snapshot, so a newly generated report needs a new link
+  useEffect(() => {
+    setShare(null);
+  }, [reportType, reportData]);
+
+  const createShareMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/report-shares", {
+        reportType,
+        title: reportTitle,
+        rows: reportData,
+        expiresInDays: parseInt(expiresInDays),
+        password: sharePassword || undefined,
+      });
+      return await res.json();
+    },
+    onSuccess: (created: CreatedShare) => {
+      setShare(created);
+      setSharePassword("");
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to create link",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const shareableLink = share ? `${window.location.origin}/shared-report/${share.token}` : "";
   
   // Copy link to clipboard
   const copyToClipboard = async () => {
@@ -71,8 +110,6 @@ export function ReportShare({ isOpen, onClose, reportType, reportData }: ReportS
   
   // Share via Web Share API (native sharing options)
   const shareNatively = async () => {
-    const reportTitle = `${reportType.charAt(0).toUpperCase() + reportType.slice(1)} Report`;
-    
     if (typeof navigator !== 'undefined' && 'share' in navigator) {
       try {
         await navigator.share({
@@ -97,7 +134,33 @@ export function ReportShare({ isOpen, onClose, reportType, reportData }: ReportS
     }
   };
   
-  // Simulate email sharing (without SendGrid)
+  // Email the report link from the server
+  const shareViaEmailMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/reports/email", {
+        to: recipientEmail,
+        reportType,
+        link: shareableLink,
+        message: message || undefined,
+      });
+    },
+    onSuccess: () => {
+      toast({
+        title: "Email queued",
+        description: `The report will be sent to ${recipientEmail}.`,
+      });
+      setRecipientEmail("");
+      setMessage("");
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to send email",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
   const shareViaEmail = () => {
     if (!recipientEmail) {
       toast({
@@ -107,23 +170,8 @@ export function ReportShare({ isOpen, onClose, reportType, reportData }: ReportS
       });
       return;
     }
-    
-    // Create a mailto URL
-    const subject = encodeURIComponent(`${reportType.charAt(0).toUpperCase() + reportType.slice(1)} Report from PharmStock`);
-    const body = encodeURIComponent(`I'd like to share this report with you: ${shareableLink}\n\n${message}`);
-    const mailtoUrl = `mailto:${recipientEmail}?subject=${subject}&body=${body}`;
-    
-    // Open the default email client
-    window.open(mailtoUrl, '_blank');
-    
-    toast({
-      title: "Email client opened",
-      description: "Your default email client should have opened with the report details.",
-    });
-    
-    // Reset fields
-    setRecipientEmail("");
-    setMessage("");
+
+    shareViaEmailMutation.mutate();
   };
   
   // Simulate messaging platform sharing
@@ -172,36 +220,80 @@ export function ReportShare({ isOpen, onClose, reportType, reportData }: ReportS
           </TabsList>
           
           <TabsContent value="link" className="p-4 border rounded-md">
-            <div className="space-y-4">
-              <div>
-                <Label htmlFor="share-link">Shareable Link</Label>
-                <div className="flex mt-1.5">
-                  <Input 
-                    id="share-link" 
-                    readOnly 
-                    value={shareableLink} 
-                    className="flex-1 text-sm"
+            {!share ? (
+              <div className="space-y-4">
+                <p className="text-sm text-gray-500">
+                  The link shows a read-only copy of the report as it is now. Anyone with the link can open it until it expires or is revoked.
+                </p>
+                <div>
+                  <Label htmlFor="share-expiry">Expires After</Label>
+                  <Select value={expiresInDays} onValueChange={setExpiresInDays}>
+                    <SelectTrigger id="share-expiry" className="mt-1.5">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="1">1 day</SelectItem>
+                      <SelectItem value="7">7 days</SelectItem>
+                      <SelectItem value="30">30 days</SelectItem>
+                      <SelectItem value="90">90 days</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label htmlFor="share-password">Password (Optional)</Label>
+                  <Input
+                    id="share-password"
+                    type="password"
+                    placeholder="Leave empty for no password"
+                    value={sharePassword}
+                    onChange={(e) => setSharePassword(e.target.value)}
+                    className="mt-1.5"
                   />
-                  <Button 
-                    variant="outline" 
-                    size="icon" 
-                    className="ml-2" 
-                    onClick={copyToClipboard}
-                  >
-                    {copied ? <Check className="h-4 w-4" /> : <Copy className="h-4 w-4" />}
-                  </Button>
                 </div>
+                <Button
+                  onClick={() => createShareMutation.mutate()}
+                  className="w-full"
+                  disabled={createShareMutation.isPending || (sharePassword.length > 0 && sharePassword.length < 4)}
+                >
+                  <LinkIcon className="h-4 w-4 mr-2" />
+                  {createShareMutation.isPending ? "Creating..." : "Create Link"}
+                </Button>
               </div>
-              
-              {typeof navigator !== 'undefined' && 'share' in navigator && (
-                <div className="pt-4">
-                  <Button onClick={shareNatively} className="w-full">
-                    <Share2 className="h-4 w-4 mr-2" />
-                    Share via Device
-                  </Button>
+            ) : (
+              <div className="space-y-4">
+                <div>
+                  <Label htmlFor="share-link">Shareable Link</Label>
+                  <div className="flex mt-1.5">
+                    <Input 
+                      id="share-link" 
+                      readOnly 
+                      value={shareableLink} 
+                      className="flex-1 text-sm"
+                    />
+                    <Button 
+                      variant="outline" 
+                      size="icon" 
+                      className="ml-2" 
+                      onClick={copyToClipboard}
+                    >
+                      {copied ? <Check className="h-4 w-4" /> : <Copy className="h-4 w-4" />}
+                    </Button>
+                  </div>
+                  <p className="text-xs text-gray-500 mt-1.5">
+                    Expires {formatDate(share.expiresAt)}{share.hasPassword && " · Password protected"}
+                  </p>
                 </div>
-              )}
-            </div>
+              
+                {typeof navigator !== 'undefined' && 'share' in navigator && (
+                  <div className="pt-4">
+                    <Button onClick={shareNatively} className="w-full">
+                      <Share2 className="h-4 w-4 mr-2" />
+                      Share via Device
+                    </Button>
+                  </div>
+                )}
+              </div>
+            )}
           </TabsContent>
           
           <TabsContent value="email" className="p-4 border rounded-md">
@@ -230,9 +322,12 @@ export function ReportShare({ isOpen, onClose, reportType, reportData }: ReportS
                 />
               </div>
               
-              <Button onClick={shareViaEmail} className="w-full mt-2">
+              {!share && (
+                <p className="text-sm text-gray-500">Create a link on the Copy Link tab first.</p>
+              )}
+              <Button onClick={shareViaEmail} className="w-full mt-2" disabled={!share || shareViaEmailMutation.isPending}>
                 <Mail className="h-4 w-4 mr-2" />
-                Send Email
+                {shareViaEmailMutation.isPending ? "Sending..." : "Send Email"}
               </Button>
             </div>
           </TabsContent>
@@ -251,7 +346,10 @@ export function ReportShare({ isOpen, onClose, reportType, reportData }: ReportS
                 />
               </div>
               
-              <Button onClick={shareViaMessaging} className="w-full mt-2">
+              {!share && (
+                <p className="text-sm text-gray-500">Create a link on the Copy Link tab first.</p>
+              )}
+              <Button onClick={shareViaMessaging} className="w-full mt-2" disabled={!share}>
                 <MessageSquare className="h-4 w-4 mr-2" />
                 Share via WhatsApp
               </Button>
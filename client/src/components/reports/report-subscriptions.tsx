@@ -0,0 +1,575 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Download, Edit, Plus, Send, Trash2 } from "lucide-react";
+import {
+  REPORT_FILE_FORMATS,
+  REPORT_TYPES,
+  InsertReportSubscription,
+  ReportArchiveSummary,
+  ReportFileFormat,
+  ReportSubscription,
+  ReportType,
+} from "@shared/schema";
+import { REPORT_TYPE_NAMES } from "@/lib/reports";
+import { formatFileSize } from "@/lib/utils";
+
+type Frequency = "daily" | "weekly" | "monthly" | "custom";
+
+// The subscription dialog edits the schedule as a frequency and time, which
+// is turned into a cron expression when saved
+type SubscriptionForm = {
+  name: string;
+  reportType: ReportType;
+  format: ReportFileFormat;
+  rangeDays: string;
+  frequency: Frequency;
+  time: string;
+  dayOfWeek: string;
+  dayOfMonth: string;
+  cron: string;
+  recipients: string;
+};
+
+const DAY_NAMES = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+
+const FORMAT_NAMES: Record<ReportFileFormat, string> = {
+  pdf: "PDF",
+  xlsx: "Excel",
+  csv: "CSV",
+};
+
+const EMPTY_FORM: SubscriptionForm = {
+  name: "",
+  reportType: "expiry",
+  format: "pdf",
+  rangeDays: "7",
+  frequency: "weekly",
+  time: "07:00",
+  dayOfWeek: "1",
+  dayOfMonth: "1",
+  cron: "0 7 * * 1",
+  recipients: "",
+};
+
+const pad = (value: string | number) => String(value).padStart(2, "0");
+
+function toSchedule(form: SubscriptionForm): string {
+  if (form.frequency === "custom") return form.cron.trim();
+
+  const [hours = "0", minutes = "0"] = form.time.split(":");
+  const prefix = `${Number(minutes)} ${Number(hours)}`;
+  if (form.frequency === "daily") return `${prefix} * * *`;
+  if (form.frequency === "weekly") return `${prefix} * * ${form.dayOfWeek}`;
+  return `${prefix} ${form.dayOfMonth} * *`;
+}
+
+// Reads a schedule back into the dialog's fields, falling back to the raw
+// expression for anything the presets can't express
+function fromSchedule(schedule: string): Pick<SubscriptionForm, "frequency" | "time" | "dayOfWeek" | "dayOfMonth" | "cron"> {
+  const fields = { time: EMPTY_FORM.time, dayOfWeek: EMPTY_FORM.dayOfWeek, dayOfMonth: EMPTY_FORM.dayOfMonth, cron: schedule };
+  const match = /^(\d+) (\d+) (\*|\d+) \* (\*|\d)$/.exec(schedule);
+  if (!match) return { ...fields, frequency: "custom" };
+
+  const [, minutes, hours, dayOfMonth, dayOfWeek] = match;
+  const time = `${pad(hours)}:${pad(minutes)}`;
+  if (dayOfMonth === "*" && dayOfWeek === "*") return { ...fields, frequency: "daily", time };
+  if (dayOfMonth === "*") return { ...fields, frequency: "weekly", time, dayOfWeek: String(Number(dayOfWeek) % 7) };
+  if (dayOfWeek === "*") return { ...fields, frequency: "monthly", time, dayOfMonth };
+  return { ...fields, frequency: "custom" };
+}
+
+function describeSchedule(schedule: string): string {
+  const { frequency, time, dayOfWeek, dayOfMonth } = fromSchedule(schedule);
+  switch (frequency) {
+    case "daily":
+      return `Daily at ${time}`;
+    case "weekly":
+      return `${DAY_NAMES[Number(dayOfWeek)]}s at ${time}`;
+    case "monthly":
+      return `Monthly on day ${dayOfMonth} at ${time}`;
+    default:
+      return schedule;
+  }
+}
+
+function formatTimestamp(value: Date | string | null | undefined): string {
+  return value ? new Date(value).toLocaleString() : "—";
+}
+
+export function ReportSubscriptions() {
+  const { toast } = useToast();
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editing, setEditing] = useState<ReportSubscription | null>(null);
+  const [deleting, setDeleting] = useState<ReportSubscription | null>(null);
+  const [form, setForm] = useState<SubscriptionForm>(EMPTY_FORM);
+
+  const { data: subscriptions = [], isLoading } = useQuery<ReportSubscription[]>({
+    queryKey: ["/api/report-subscriptions"],
+  });
+
+  const { data: archives = [] } = useQuery<ReportArchiveSummary[]>({
+    queryKey: ["/api/report-archives"],
+  });
+
+  const onError = (title: string) => (error: Error) => {
+    toast({ title, description: error.message, variant: "destructive" });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async (subscription: InsertReportSubscription) => {
+      const res = editing
+        ? await apiRequest("PUT", `/api/report-subscriptions/${editing.id}`, subscription)
+        : await apiRequest("POST", "/api/report-subscriptions", subscription);
+      return await res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/report-subscriptions"] });
+      setIsDialogOpen(false);
+      toast({
+        title: editing ? "Subscription updated" : "Subscription created",
+        description: "The report will be emailed on its schedule.",
+      });
+    },
+    onError: onError("Failed to save subscription"),
+  });
+
+  const toggleMutation = useMutation({
+    mutationFn: async ({ id, active }: { id: number; active: boolean }) => {
+      await apiRequest("PUT", `/api/report-subscriptions/${id}`, { active });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/report-subscriptions"] });
+    },
+    onError: onError("Failed to update subscription"),
+  });
+
+  const sendMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("POST", `/api/report-subscriptions/${id}/send`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/report-subscriptions"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/report-archives"] });
+      toast({
+        title: "Report sent",
+        description: "The report has been generated and queued for email.",
+      });
+    },
+    onError: onError("Failed to send report"),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/report-subscriptions/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/report-subscriptions"] });
+      setDeleting(null);
+      toast({
+        title: "Subscription deleted",
+        description: "Past deliveries stay in the archive.",
+      });
+    },
+    onError: onError("Failed to delete subscription"),
+  });
+
+  const openDialog = (subscription: ReportSubscription | null) => {
+    setEditing(subscription);
+    setForm(subscription ? {
+      name: subscription.name,
+      reportType: subscription.reportType as ReportType,
+      format: subscription.format as ReportFileFormat,
+      rangeDays: String(subscription.rangeDays),
+      recipients: subscription.recipients.join(", "),
+      ...fromSchedule(subscription.schedule),
+    } : EMPTY_FORM);
+    setIsDialogOpen(true);
+  };
+
+  const handleSave = () => {
+    saveMutation.mutate({
+      name: form.name.trim(),
+      reportType: form.reportType,
+      format: form.format,
+      rangeDays: Number(form.rangeDays),
+      schedule: toSchedule(form),
+      recipients: form.recipients.split(/[\s,;]+/).filter(Boolean),
+      active: editing?.active ?? true,
+    });
+  };
+
+  const update = (fields: Partial<SubscriptionForm>) => setForm({ ...form, ...fields });
+  const subscriptionName = (id: number | null) =>
+    subscriptions.find(subscription => subscription.id === id)?.name ?? "Deleted subscription";
+
+  return (
+    <Card className="mt-6">
+      <CardHeader className="flex flex-row items-start justify-between">
+        <div>
+          <CardTitle>Scheduled Reports</CardTitle>
+          <CardDescription>
+            Reports emailed automatically. Every delivery is archived below.
+          </CardDescription>
+        </div>
+        <Button onClick={() => openDialog(null)}>
+          <Plus className="h-4 w-4 mr-2" />
+          New Subscription
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-8">
+        {isLoading ? (
+          <div className="text-sm text-gray-500">Loading subscriptions...</div>
+        ) : subscriptions.length === 0 ? (
+          <div className="text-sm text-gray-500">No scheduled reports yet</div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Subscription</TableHead>
+                <TableHead>Schedule</TableHead>
+                <TableHead>Recipients</TableHead>
+                <TableHead>Last Sent</TableHead>
+                <TableHead>Active</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {subscriptions.map(subscription => (
+                <TableRow key={subscription.id}>
+                  <TableCell>
+                    <div className="text-sm font-medium text-gray-900">{subscription.name}</div>
+                    <div className="text-xs text-gray-500">
+                      {REPORT_TYPE_NAMES[subscription.reportType as ReportType] ?? subscription.reportType}
+                      {" · "}{FORMAT_NAMES[subscription.format as ReportFileFormat] ?? subscription.format}
+                      {" · "}{subscription.rangeDays} days
+                    </div>
+                  </TableCell>
+                  <TableCell>
+                    <div className="text-sm text-gray-900">{describeSchedule(subscription.schedule)}</div>
+                    {subscription.active && (
+                      <div className="text-xs text-gray-500">Next {formatTimestamp(subscription.nextRunAt)}</div>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-sm text-gray-500 max-w-[200px] truncate" title={subscription.recipients.join(", ")}>
+                    {subscription.recipients.join(", ")}
+                  </TableCell>
+                  <TableCell>
+                    <div className="text-sm text-gray-500">{formatTimestamp(subscription.lastRunAt)}</div>
+                    {subscription.lastError && (
+                      <div className="text-xs text-red-600 max-w-[200px] truncate" title={subscription.lastError}>
+                        {subscription.lastError}
+                      </div>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    <Switch
+                      checked={subscription.active}
+                      onCheckedChange={(active) => toggleMutation.mutate({ id: subscription.id, active })}
+                      disabled={toggleMutation.isPending}
+                    />
+                  </TableCell>
+                  <TableCell className="text-right space-x-1 whitespace-nowrap">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      title="Send now"
+                      onClick={() => sendMutation.mutate(subscription.id)}
+                      disabled={sendMutation.isPending}
+                    >
+                      <Send className="h-4 w-4" />
+                    </Button>
+                    <Button variant="outline" size="sm" title="Edit" onClick={() => openDialog(subscription)}>
+                      <Edit className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      title="Delete"
+                      className="text-red-500"
+                      onClick={() => setDeleting(subscription)}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+
+        <div>
+          <h4 className="text-md font-medium text-gray-700 mb-3">Recent Deliveries</h4>
+          {archives.length === 0 ? (
+            <div className="text-sm text-gray-500">No reports have been delivered yet</div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Sent</TableHead>
+                  <TableHead>Subscription</TableHead>
+                  <TableHead>Period</TableHead>
+                  <TableHead>Recipients</TableHead>
+                  <TableHead className="text-right">File</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {archives.map(archive => (
+                  <TableRow key={archive.id}>
+                    <TableCell className="text-sm text-gray-500">{formatTimestamp(archive.generatedAt)}</TableCell>
+                    <TableCell className="text-sm text-gray-900">{subscriptionName(archive.subscriptionId)}</TableCell>
+                    <TableCell className="text-sm text-gray-500">
+                      {new Date(archive.periodFrom).toLocaleDateString()} – {new Date(archive.periodTo).toLocaleDateString()}
+                    </TableCell>
+                    <TableCell className="text-sm text-gray-500">{archive.recipients.length}</TableCell>
+                    <TableCell className="text-right">
+                      <Button variant="ghost" size="sm" asChild>
+                        <a href={`/api/report-archives/${archive.id}/download`} download={archive.filename}>
+                          <Download className="h-4 w-4 mr-1" />
+                          {formatFileSize(archive.size)}
+                        </a>
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </div>
+      </CardContent>
+
+      {/* Create / Edit Subscription Dialog */}
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="sm:max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{editing ? "Edit Subscription" : "New Subscription"}</DialogTitle>
+            <DialogDescription>
+              Choose a report, when to send it and who should receive it.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-2">
+            <div className="space-y-2">
+              <Label htmlFor="subscription-name">Name</Label>
+              <Input
+                id="subscription-name"
+                placeholder="Weekly expiry report"
+                value={form.name}
+                onChange={(e) => update({ name: e.target.value })}
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Report</Label>
+                <Select value={form.reportType} onValueChange={(value) => update({ reportType: value as ReportType })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {REPORT_TYPES.map(type => (
+                      <SelectItem key={type} value={type}>{REPORT_TYPE_NAMES[type]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Format</Label>
+                <Select value={form.format} onValueChange={(value) => update({ format: value as ReportFileFormat })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {REPORT_FILE_FORMATS.map(format => (
+                      <SelectItem key={format} value={format}>{FORMAT_NAMES[format]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="subscription-range">
+                {form.reportType === "expiry" ? "Days ahead" : "Days covered"}
+              </Label>
+              <Input
+                id="subscription-range"
+                type="number"
+                min={1}
+                max={366}
+                value={form.rangeDays}
+                onChange={(e) => update({ rangeDays: e.target.value })}
+              />
+              <p className="text-xs text-gray-500">
+                {form.reportType === "expiry"
+                  ? "Lots expiring within this many days of the delivery."
+                  : "Whole days before the delivery day."}
+              </p>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Frequency</Label>
+                <Select value={form.frequency} onValueChange={(value) => update({ frequency: value as Frequency })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="daily">Daily</SelectItem>
+                    <SelectItem value="weekly">Weekly</SelectItem>
+                    <SelectItem value="monthly">Monthly</SelectItem>
+                    <SelectItem value="custom">Custom (cron)</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              {form.frequency !== "custom" && (
+                <div className="space-y-2">
+                  <Label htmlFor="subscription-time">Time</Label>
+                  <Input
+                    id="subscription-time"
+                    type="time"
+                    value={form.time}
+                    onChange={(e) => update({ time: e.target.value })}
+                  />
+                </div>
+              )}
+            </div>
+
+            {form.frequency === "weekly" && (
+              <div className="space-y-2">
+                <Label>Day of week</Label>
+                <Select value={form.dayOfWeek} onValueChange={(value) => update({ dayOfWeek: value })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {DAY_NAMES.map((day, index) => (
+                      <SelectItem key={day} value={String(index)}>{day}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
+            {form.frequency === "monthly" && (
+              <div className="space-y-2">
+                <Label>Day of month</Label>
+                <Select value={form.dayOfMonth} onValueChange={(value) => update({ dayOfMonth: value })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {/* Days that exist in every month */}
+                    {Array.from({ length: 28 }, (_, index) => String(index + 1)).map(day => (
+                      <SelectItem key={day} value={day}>{day}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
+            {form.frequency === "custom" && (
+              <div className="space-y-2">
+                <Label htmlFor="subscription-cron">Cron expression</Label>
+                <Input
+                  id="subscription-cron"
+                  placeholder="0 7 * * 1"
+                  value={form.cron}
+                  onChange={(e) => update({ cron: e.target.value })}
+                />
+                <p className="text-xs text-gray-500">
+                  Minute, hour, day of month, month and day of week, in server time.
+                </p>
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <Label htmlFor="subscription-recipients">Recipients</Label>
+              <Textarea
+                id="subscription-recipients"
+                placeholder="manager@example.com, warehouse@example.com"
+                value={form.recipients}
+                onChange={(e) => update({ recipients: e.target.value })}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={saveMutation.isPending || !form.name.trim()}>
+              {saveMutation.isPending ? "Saving..." : "Save Subscription"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete Subscription Confirmation */}
+      <AlertDialog open={deleting !== null} onOpenChange={(open) => !open && setDeleting(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete subscription?</AlertDialogTitle>
+            <AlertDialogDescription>
+              &quot;{deleting?.name}&quot; will no longer be sent. Reports it has already delivered stay in the archive.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => deleting && deleteMutation.mutate(deleting.id)}
+              className="bg-red-500 hover:bg-red-600"
+              disabled={deleteMutation.isPending}
+            >
+              {deleteMutation.isPending ? "Deleting..." : "Delete"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
@@ -0,0 +1,253 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { BackupDiff } from "@shared/schema";
+import { queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { FileText, Upload } from "lucide-react";
+
+export type RestoreResult = BackupDiff & { dryRun: boolean };
+
+async function throwIfResNotOk(res: Response) {
+  if (!res.ok) {
+    const text = (await res.text()) || res.statusText;
+    throw new Error(`${res.status}: ${text}`);
+  }
+}
+
+// Fetches a backup file and saves it under the name the server gives it
+export async function downloadBackup(url: string): Promise<void> {
+  const res = await fetch(url, { credentials: "include" });
+  await throwIfResNotOk(res);
+
+  const filename = res.headers.get("Content-Disposition")?.match(/filename="([^"]+)"/)?.[1] ??
+    "pharmstock-backup.json";
+  const objectUrl = URL.createObjectURL(await res.blob());
+  const link = document.createElement("a");
+  link.href = objectUrl;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(objectUrl);
+}
+
+// Sends the backup file as it is; the server checks it and, on a dry run,
+// only reports what restoring it would change
+async function uploadBackup(file: File, dryRun: boolean): Promise<RestoreResult> {
+  const res = await fetch(`/api/admin/restore?dryRun=${dryRun}`, {
+    method: "POST",
+    credentials: "include",
+    headers: { "Content-Type": "application/octet-stream" },
+    body: file,
+  });
+  await throwIfResNotOk(res);
+  return res.json();
+}
+
+// Table names as the server sends them, e.g. stockItems -> stock items
+function tableLabel(table: string) {
+  return table.replace(/([A-Z])/g, " $1").toLowerCase();
+}
+
+// Shows what a restore would change and asks for confirmation
+export function RestorePreviewDialog({
+  preview,
+  isPending,
+  onConfirm,
+  onClose,
+}: {
+  preview: RestoreResult | null;
+  isPending: boolean;
+  onConfirm: () => void;
+  onClose: () => void;
+}) {
+  const changedTables = preview?.tables.filter(
+    (table) => table.added > 0 || table.removed > 0 || table.changed > 0
+  ) ?? [];
+
+  return (
+    <AlertDialog open={preview !== null} onOpenChange={(open) => !open && onClose()}>
+      <AlertDialogContent className="max-w-2xl">
+        <AlertDialogHeader>
+          <AlertDialogTitle>Restore this backup?</AlertDialogTitle>
+          <AlertDialogDescription>
+            The backup was taken {preview && new Date(preview.createdAt).toLocaleString()}.
+            Restoring it replaces all current data with the backup&apos;s. The audit log
+            keeps its current entries and gains any from the backup.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+
+        {changedTables.length === 0 ? (
+          <p className="text-sm text-gray-500">The data matches this backup. Nothing will change.</p>
+        ) : (
+          <div className="max-h-80 overflow-y-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Table</TableHead>
+                  <TableHead className="text-right">Now</TableHead>
+                  <TableHead className="text-right">In Backup</TableHead>
+                  <TableHead className="text-right">Added</TableHead>
+                  <TableHead className="text-right">Removed</TableHead>
+                  <TableHead className="text-right">Changed</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {changedTables.map((table) => (
+                  <TableRow key={table.table}>
+                    <TableCell className="capitalize">{tableLabel(table.table)}</TableCell>
+                    <TableCell className="text-right">{table.current}</TableCell>
+                    <TableCell className="text-right">{table.backup}</TableCell>
+                    <TableCell className="text-right">{table.added}</TableCell>
+                    <TableCell className="text-right">{table.removed}</TableCell>
+                    <TableCell className="text-right">{table.changed}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+
+        {preview && (preview.uploads.added > 0 || preview.uploads.changed > 0) && (
+          <p className="text-sm text-gray-500">
+            {preview.uploads.added} uploaded files will be added and {preview.uploads.changed} replaced.
+          </p>
+        )}
+
+        <AlertDialogFooter>
+          <AlertDialogCancel>Cancel</AlertDialogCancel>
+          <AlertDialogAction
+            onClick={(e) => {
+              e.preventDefault();
+              onConfirm();
+            }}
+            className="bg-red-500 hover:bg-red-600"
+            disabled={isPending}
+          >
+            {isPending ? "Restoring..." : "Restore Backup"}
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
+
+export function BackupRestore() {
+  const { toast } = useToast();
+  const [backupFile, setBackupFile] = useState<File | null>(null);
+  const [preview, setPreview] = useState<RestoreResult | null>(null);
+
+  const backupMutation = useMutation({
+    mutationFn: () => downloadBackup("/api/admin/backup"),
+    onSuccess: () => {
+      toast({
+        title: "Backup created",
+        description: "System backup has been created and downloaded.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to create backup",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const previewMutation = useMutation({
+    mutationFn: (file: File) => uploadBackup(file, true),
+    onSuccess: (result, file) => {
+      setBackupFile(file);
+      setPreview(result);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error restoring backup",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const restoreMutation = useMutation({
+    mutationFn: (file: File) => uploadBackup(file, false),
+    onSuccess: (result) => {
+      setBackupFile(null);
+      setPreview(null);
+      queryClient.invalidateQueries();
+      toast({
+        title: "Backup restored",
+        description: `Backup from ${new Date(result.createdAt).toLocaleString()} has been restored.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error restoring backup",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div className="flex flex-col space-y-2">
+      <Button onClick={() => backupMutation.mutate()} disabled={backupMutation.isPending}>
+        <FileText className="h-4 w-4 mr-2" />
+        {backupMutation.isPending ? "Creating Backup..." : "Create Backup"}
+      </Button>
+
+      {/* File upload button for restoring backups */}
+      <div className="mt-2">
+        <label htmlFor="restore-backup-file" className="cursor-pointer">
+          <div className="flex items-center justify-center px-4 py-2 border border-input rounded-md bg-background hover:bg-accent hover:text-accent-foreground text-sm font-medium">
+            <Upload className="h-4 w-4 mr-2" />
+            {previewMutation.isPending ? "Checking Backup..." : "Restore Backup"}
+          </div>
+        </label>
+        <input
+          id="restore-backup-file"
+          type="file"
+          accept=".json,.gz,.enc"
+          className="hidden"
+          disabled={previewMutation.isPending}
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) previewMutation.mutate(file);
+
+            // Reset file input
+            e.target.value = "";
+          }}
+        />
+      </div>
+
+      <RestorePreviewDialog
+        preview={preview}
+        isPending={restoreMutation.isPending}
+        onConfirm={() => backupFile && restoreMutation.mutate(backupFile)}
+        onClose={() => {
+          setBackupFile(null);
+          setPreview(null);
+        }}
+      />
+    </div>
+  );
+}
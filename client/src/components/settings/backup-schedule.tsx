@@ -0,0 +1,321 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { BackupSettings, StoredBackup } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Download, Lock, RotateCcw, Save } from "lucide-react";
+import { formatFileSize } from "@/lib/utils";
+import { downloadBackup, RestorePreviewDialog, RestoreResult } from "./backup-restore";
+
+type BackupSettingsResponse = {
+  settings: BackupSettings;
+  directory: string;
+  encryptionAvailable: boolean;
+};
+
+const DEFAULT_SETTINGS: BackupSettings = {
+  autoBackupEnabled: false,
+  backupFrequency: "daily",
+  retentionPeriod: 30,
+  compressBackups: true,
+  encryptBackups: false,
+};
+
+async function restoreStoredBackup(name: string, dryRun: boolean): Promise<RestoreResult> {
+  const res = await apiRequest("POST", `/api/admin/backups/${encodeURIComponent(name)}/restore?dryRun=${dryRun}`);
+  return res.json();
+}
+
+export function BackupSchedule() {
+  const { toast } = useToast();
+  const [settings, setSettings] = useState<BackupSettings>(DEFAULT_SETTINGS);
+  const [restoreName, setRestoreName] = useState<string | null>(null);
+  const [preview, setPreview] = useState<RestoreResult | null>(null);
+
+  const { data: config } = useQuery<BackupSettingsResponse>({
+    queryKey: ["/api/admin/backup-settings"],
+  });
+
+  const { data: backups = [], isLoading } = useQuery<StoredBackup[]>({
+    queryKey: ["/api/admin/backups"],
+  });
+
+  useEffect(() => {
+    if (config) setSettings(config.settings);
+  }, [config]);
+
+  const update = <K extends keyof BackupSettings>(key: K, value: BackupSettings[K]) => {
+    setSettings(current => ({ ...current, [key]: value }));
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: BackupSettings) => {
+      await apiRequest("PUT", "/api/admin/backup-settings", data);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/backup-settings"] });
+      toast({
+        title: "Settings saved",
+        description: "Your backup settings have been saved successfully.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Update failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const backupNowMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/admin/backups");
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/backups"] });
+      toast({
+        title: "Backup created",
+        description: "A backup has been saved on the server.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to create backup",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const previewMutation = useMutation({
+    mutationFn: (name: string) => restoreStoredBackup(name, true),
+    onSuccess: (result, name) => {
+      setRestoreName(name);
+      setPreview(result);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error restoring backup",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const restoreMutation = useMutation({
+    mutationFn: (name: string) => restoreStoredBackup(name, false),
+    onSuccess: (result) => {
+      setRestoreName(null);
+      setPreview(null);
+      queryClient.invalidateQueries();
+      toast({
+        title: "Backup restored",
+        description: `Backup from ${new Date(result.createdAt).toLocaleString()} has been restored.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error restoring backup",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const downloadMutation = useMutation({
+    mutationFn: (name: string) => downloadBackup(`/api/admin/backups/${encodeURIComponent(name)}/download`),
+    onError: (error: Error) => {
+      toast({
+        title: "Download failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div className="space-y-4 pt-6">
+      <h3 className="text-lg font-medium">Automated Backups</h3>
+      <div className="flex items-center space-x-2">
+        <Switch
+          id="auto-backup"
+          checked={settings.autoBackupEnabled}
+          onCheckedChange={(checked) => update("autoBackupEnabled", checked)}
+        />
+        <Label htmlFor="auto-backup">Enable automated backups</Label>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="flex items-center justify-between rounded-lg border p-4">
+          <div className="space-y-0.5">
+            <Label className="text-base">Backup Frequency</Label>
+            <p className="text-sm text-muted-foreground">
+              How often to create backups
+            </p>
+          </div>
+          <Select
+            value={settings.backupFrequency}
+            onValueChange={(value) => update("backupFrequency", value as BackupSettings["backupFrequency"])}
+          >
+            <SelectTrigger className="w-32">
+              <SelectValue placeholder="Select" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="hourly">Hourly</SelectItem>
+              <SelectItem value="daily">Daily</SelectItem>
+              <SelectItem value="weekly">Weekly</SelectItem>
+              <SelectItem value="monthly">Monthly</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="flex items-center justify-between rounded-lg border p-4">
+          <div className="space-y-0.5">
+            <Label className="text-base">Retention Period</Label>
+            <p className="text-sm text-muted-foreground">
+              How long to keep backups
+            </p>
+          </div>
+          <Select
+            value={String(settings.retentionPeriod)}
+            onValueChange={(value) => update("retentionPeriod", Number(value))}
+          >
+            <SelectTrigger className="w-32">
+              <SelectValue placeholder="Select" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="7">7 days</SelectItem>
+              <SelectItem value="30">30 days</SelectItem>
+              <SelectItem value="90">90 days</SelectItem>
+              <SelectItem value="365">1 year</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div className="flex flex-col gap-4 mt-4">
+        <div className="flex items-center space-x-2">
+          <Switch
+            checked={settings.compressBackups}
+            onCheckedChange={(checked) => update("compressBackups", checked)}
+            id="compress-backups"
+          />
+          <Label htmlFor="compress-backups">Compress backups</Label>
+        </div>
+        <div className="flex items-center space-x-2">
+          <Switch
+            checked={settings.encryptBackups}
+            onCheckedChange={(checked) => update("encryptBackups", checked)}
+            disabled={!config?.encryptionAvailable && !settings.encryptBackups}
+            id="encrypt-backups"
+          />
+          <Label htmlFor="encrypt-backups">Encrypt backups</Label>
+        </div>
+        {config && !config.encryptionAvailable && (
+          <p className="text-sm text-muted-foreground">
+            Encryption needs BACKUP_ENCRYPTION_KEY to be set on the server.
+          </p>
+        )}
+      </div>
+
+      <div className="flex gap-2">
+        <Button onClick={() => saveMutation.mutate(settings)} disabled={saveMutation.isPending}>
+          <Save className="h-4 w-4 mr-2" />
+          Save Backup Settings
+        </Button>
+        <Button
+          variant="outline"
+          onClick={() => backupNowMutation.mutate()}
+          disabled={backupNowMutation.isPending}
+        >
+          {backupNowMutation.isPending ? "Backing Up..." : "Back Up Now"}
+        </Button>
+      </div>
+
+      <div className="space-y-2 pt-2">
+        <h4 className="text-md font-medium">Available Backups</h4>
+        {config && (
+          <p className="text-sm text-muted-foreground">Kept on the server in {config.directory}</p>
+        )}
+        {isLoading ? (
+          <div className="text-sm text-gray-500">Loading backups...</div>
+        ) : backups.length === 0 ? (
+          <div className="text-sm text-gray-500">No backups have been saved yet</div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Taken</TableHead>
+                <TableHead>Size</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {backups.map(backup => (
+                <TableRow key={backup.name}>
+                  <TableCell>
+                    <div className="flex items-center text-sm font-medium text-gray-900">
+                      {new Date(backup.createdAt).toLocaleString()}
+                      {backup.encrypted && <Lock className="h-3 w-3 ml-1 text-gray-400" />}
+                    </div>
+                    <div className="text-xs text-gray-500">{backup.name}</div>
+                  </TableCell>
+                  <TableCell className="text-sm text-gray-500">{formatFileSize(backup.size)}</TableCell>
+                  <TableCell className="text-right space-x-2">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      title="Download"
+                      onClick={() => downloadMutation.mutate(backup.name)}
+                      disabled={downloadMutation.isPending}
+                    >
+                      <Download className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => previewMutation.mutate(backup.name)}
+                      disabled={previewMutation.isPending}
+                    >
+                      <RotateCcw className="h-4 w-4 mr-1" />
+                      Restore
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </div>
+
+      <RestorePreviewDialog
+        preview={preview}
+        isPending={restoreMutation.isPending}
+        onConfirm={() => restoreName && restoreMutation.mutate(restoreName)}
+        onClose={() => {
+          setRestoreName(null);
+          setPreview(null);
+        }}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,184 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { StoredBackup, WIPE_CONFIRMATIONS } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Card,
+  CardContent,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+
+type WipeAction = keyof typeof WIPE_CONFIRMATIONS;
+
+type WipeResult = {
+  backup: StoredBackup;
+  deleted: Record<string, number>;
+};
+
+const WIPE_ACTIONS: Record<WipeAction, { title: string; url: string; description: string }> = {
+  clear: {
+    title: "Clear All Data",
+    url: "/api/admin/clear-data",
+    description:
+      "This deletes all stock items, lots, movements, allocations, requests, notifications and shared reports. " +
+      "Users, specialties, categories and settings are kept.",
+  },
+  reset: {
+    title: "Reset System",
+    url: "/api/admin/reset",
+    description:
+      "This deletes all data, settings, categories, specialties and every user except you, " +
+      "then restores the default categories and specialties.",
+  },
+};
+
+export function DangerZone() {
+  const { toast } = useToast();
+  const [action, setAction] = useState<WipeAction | null>(null);
+  const [password, setPassword] = useState("");
+  const [confirmation, setConfirmation] = useState("");
+
+  const openDialog = (next: WipeAction) => {
+    setPassword("");
+    setConfirmation("");
+    setAction(next);
+  };
+
+  const wipeMutation = useMutation({
+    mutationFn: async (next: WipeAction) => {
+      const res = await apiRequest("POST", WIPE_ACTIONS[next].url, { password, confirmation });
+      return (await res.json()) as WipeResult;
+    },
+    onSuccess: (result, next) => {
+      setAction(null);
+      queryClient.invalidateQueries();
+
+      toast({
+        title: next === "clear" ? "All data cleared" : "System reset",
+        description: `A backup was saved first as ${result.backup.name}.`,
+      });
+
+      if (next === "reset") {
+        // Settings kept in the browser go back to their defaults too
+        localStorage.removeItem('data_management_settings');
+        localStorage.removeItem('system_settings');
+        setTimeout(() => {
+          window.location.reload();
+        }, 1500);
+      }
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Action failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const phrase = action ? WIPE_CONFIRMATIONS[action] : "";
+  const confirmed = password.length > 0 && confirmation.trim() === phrase;
+
+  return (
+    <>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4 pt-2">
+        <Card className="border-red-200">
+          <CardHeader className="pb-2">
+            <CardTitle className="text-base text-red-600">Clear All Data</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <p className="text-sm text-muted-foreground mb-4">
+              Permanently delete all inventory and activity data.
+            </p>
+            <Button variant="destructive" onClick={() => openDialog("clear")}>
+              Clear All Data
+            </Button>
+          </CardContent>
+        </Card>
+
+        <Card className="border-red-200">
+          <CardHeader className="pb-2">
+            <CardTitle className="text-base text-red-600">Reset System</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <p className="text-sm text-muted-foreground mb-4">
+              Reset the system to factory defaults.
+            </p>
+            <Button variant="destructive" onClick={() => openDialog("reset")}>
+              Reset System
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Dialog open={action !== null} onOpenChange={(open) => !open && setAction(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle className="text-red-600">{action && WIPE_ACTIONS[action].title}</DialogTitle>
+            <DialogDescription>
+              {action && WIPE_ACTIONS[action].description}
+            </DialogDescription>
+          </DialogHeader>
+
+          <form
+            id="wipe-form"
+            className="space-y-4"
+            onSubmit={(e) => {
+              e.preventDefault();
+              if (action && confirmed) wipeMutation.mutate(action);
+            }}
+          >
+            <div className="space-y-2">
+              <Label htmlFor="wipe-password">Your password</Label>
+              <Input
+                id="wipe-password"
+                type="password"
+                autoComplete="current-password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="wipe-confirmation">
+                Type <span className="font-mono font-semibold">{phrase}</span> to confirm
+              </Label>
+              <Input
+                id="wipe-confirmation"
+                autoComplete="off"
+                value={confirmation}
+                onChange={(e) => setConfirmation(e.target.value)}
+              />
+            </div>
+          </form>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setAction(null)}>
+              Cancel
+            </Button>
+            <Button
+              type="submit"
+              form="wipe-form"
+              variant="destructive"
+              disabled={!confirmed || wipeMutation.isPending}
+            >
+              {wipeMutation.isPending ? "Working..." : action && WIPE_ACTIONS[action].title}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
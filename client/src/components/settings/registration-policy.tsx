@@ -0,0 +1,96 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { RegistrationPolicy } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Save } from "lucide-react";
+
+// Whether anyone may register, or accounts only come from invitations
+export function RegistrationPolicySettings() {
+  const { toast } = useToast();
+  const [openRegistration, setOpenRegistration] = useState(true);
+  const [invitationExpiry, setInvitationExpiry] = useState(7);
+
+  const { data: policy } = useQuery<RegistrationPolicy>({
+    queryKey: ["/api/registration-policy"],
+  });
+
+  useEffect(() => {
+    if (policy) {
+      setOpenRegistration(policy.openRegistration);
+      setInvitationExpiry(policy.invitationExpiry);
+    }
+  }, [policy]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: RegistrationPolicy) => {
+      await apiRequest("PUT", "/api/registration-policy", data);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/registration-policy"] });
+      toast({
+        title: "Settings saved",
+        description: "Registration settings have been updated.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Update failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Registration</CardTitle>
+        <CardDescription>
+          With open registration off, new accounts can only be made from an invitation sent from
+          User Management.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-center justify-between">
+          <Label htmlFor="open-registration">Open registration</Label>
+          <Switch
+            id="open-registration"
+            checked={openRegistration}
+            onCheckedChange={setOpenRegistration}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="invitation-expiry">Invitations expire after (days)</Label>
+          <Input
+            id="invitation-expiry"
+            type="number"
+            min={1}
+            max={30}
+            className="w-32"
+            value={invitationExpiry}
+            onChange={(e) => setInvitationExpiry(Number(e.target.value))}
+          />
+        </div>
+        <Button
+          onClick={() => saveMutation.mutate({ openRegistration, invitationExpiry })}
+          disabled={saveMutation.isPending}
+        >
+          <Save className="h-4 w-4 mr-2" />
+          Save Registration Settings
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
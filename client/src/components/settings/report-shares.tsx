@@ -0,0 +1,119 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { ReportShareSummary, User } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Lock } from "lucide-react";
+import { formatDate } from "@/lib/utils";
+
+export function ReportShares() {
+  const { toast } = useToast();
+
+  const { data: shares = [], isLoading } = useQuery<ReportShareSummary[]>({
+    queryKey: ["/api/report-shares"],
+  });
+
+  const { data: users = [] } = useQuery<User[]>({
+    queryKey: ["/api/users"],
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("POST", `/api/report-shares/${id}/revoke`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/report-shares"] });
+      toast({
+        title: "Link revoked",
+        description: "The shared report can no longer be opened.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to revoke link",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const getUserName = (userId: number) => {
+    return users.find(u => u.id === userId)?.name || "Unknown User";
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Shared Report Links</CardTitle>
+        <CardDescription>
+          Links that currently give access to a report without logging in.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="text-sm text-gray-500">Loading shared links...</div>
+        ) : shares.length === 0 ? (
+          <div className="text-sm text-gray-500">No active shared links</div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Report</TableHead>
+                <TableHead>Shared By</TableHead>
+                <TableHead>Expires</TableHead>
+                <TableHead>Views</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {shares.map(share => (
+                <TableRow key={share.id}>
+                  <TableCell>
+                    <div className="flex items-center text-sm font-medium text-gray-900">
+                      {share.title}
+                      {share.hasPassword && <Lock className="h-3 w-3 ml-1 text-gray-400" />}
+                    </div>
+                    <div className="text-xs text-gray-500">Created {formatDate(share.createdAt)}</div>
+                  </TableCell>
+                  <TableCell className="text-sm text-gray-500">{getUserName(share.createdBy)}</TableCell>
+                  <TableCell className="text-sm text-gray-500">{formatDate(share.expiresAt)}</TableCell>
+                  <TableCell>
+                    <div className="text-sm text-gray-900">{share.viewCount}</div>
+                    {share.lastViewedAt && (
+                      <div className="text-xs text-gray-500">Last {formatDate(share.lastViewedAt)}</div>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => revokeMutation.mutate(share.id)}
+                      disabled={revokeMutation.isPending}
+                    >
+                      Revoke
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
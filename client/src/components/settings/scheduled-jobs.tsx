@@ -0,0 +1,98 @@
+import { useQuery } from "@tanstack/react-query";
+import { ScheduledJob } from "@shared/schema";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { cn } from "@/lib/utils";
+
+// A job as returned by /api/jobs. The state fields are missing until the job
+// has been scheduled for the first time.
+type JobInfo = Partial<ScheduledJob> & {
+  name: string;
+  description: string;
+  intervalMs: number;
+};
+
+function formatInterval(intervalMs: number): string {
+  const minutes = Math.round(intervalMs / 60000);
+  if (minutes < 60) return `Every ${minutes} min`;
+  const hours = Math.round(minutes / 60);
+  return hours === 1 ? "Hourly" : `Every ${hours} hours`;
+}
+
+function formatTimestamp(value: Date | string | null | undefined): string {
+  return value ? new Date(value).toLocaleString() : "—";
+}
+
+export function ScheduledJobs() {
+  const { data: jobs = [], isLoading } = useQuery<JobInfo[]>({
+    queryKey: ["/api/jobs"],
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Background Jobs</CardTitle>
+        <CardDescription>
+          Scans that run on the server using the thresholds above.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="text-sm text-gray-500">Loading jobs...</div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Job</TableHead>
+                <TableHead>Schedule</TableHead>
+                <TableHead>Last Run</TableHead>
+                <TableHead>Next Run</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {jobs.map(job => (
+                <TableRow key={job.name}>
+                  <TableCell>
+                    <div className="text-sm font-medium text-gray-900">{job.name}</div>
+                    <div className="text-xs text-gray-500">{job.description}</div>
+                  </TableCell>
+                  <TableCell className="text-sm text-gray-500">{formatInterval(job.intervalMs)}</TableCell>
+                  <TableCell>
+                    <div className="text-sm text-gray-900">{formatTimestamp(job.lastFinishedAt)}</div>
+                    {job.lastStatus && (
+                      <Badge
+                        variant="outline"
+                        className={cn(
+                          "text-xs mt-1",
+                          job.lastStatus === "succeeded" ? "bg-green-100 text-green-800" : "bg-red-100 text-red-800"
+                        )}
+                        title={job.lastError ?? undefined}
+                      >
+                        {job.lastStatus === "succeeded" ? "Succeeded" : "Failed"}
+                      </Badge>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-sm text-gray-500">{formatTimestamp(job.nextRunAt)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,87 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { ROLE_PERMISSIONS, RoleType, TwoFactorPolicy } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { getRoleName } from "@/lib/utils";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Save } from "lucide-react";
+
+const ROLES = Object.keys(ROLE_PERMISSIONS) as RoleType[];
+
+// The roles whose users must set up two-factor authentication
+export function TwoFactorPolicySettings() {
+  const { toast } = useToast();
+  const [requiredRoles, setRequiredRoles] = useState<RoleType[]>([]);
+
+  const { data: policy } = useQuery<TwoFactorPolicy>({
+    queryKey: ["/api/two-factor-policy"],
+  });
+
+  useEffect(() => {
+    if (policy) setRequiredRoles(policy.requiredRoles);
+  }, [policy]);
+
+  const toggleRole = (role: RoleType, required: boolean) => {
+    setRequiredRoles(current => required ? [...current, role] : current.filter(r => r !== role));
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: TwoFactorPolicy) => {
+      await apiRequest("PUT", "/api/two-factor-policy", data);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/two-factor-policy"] });
+      toast({
+        title: "Settings saved",
+        description: "Two-factor requirements apply from each user's next sign-in.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Update failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Two-Factor Authentication</CardTitle>
+        <CardDescription>
+          Users in these roles must set up an authenticator app before they can use the system.
+          Anyone else can turn it on from their account menu.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+          {ROLES.map((role) => (
+            <div key={role} className="flex items-center space-x-2">
+              <Checkbox
+                id={`two-factor-role-${role}`}
+                checked={requiredRoles.includes(role)}
+                onCheckedChange={(checked) => toggleRole(role, checked === true)}
+              />
+              <Label htmlFor={`two-factor-role-${role}`}>{getRoleName(role)}</Label>
+            </div>
+          ))}
+        </div>
+        <Button onClick={() => saveMutation.mutate({ requiredRoles })} disabled={saveMutation.isPending}>
+          <Save className="h-4 w-4 mr-2" />
+          Save Two-Factor Settings
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
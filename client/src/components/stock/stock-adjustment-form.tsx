@@ -0,0 +1,300 @@
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { useQuery } from "@tanstack/react-query";
+import { StockItem, StockLot, User } from "@shared/schema";
+import { useAuth } from "@/hooks/use-auth";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { formatDate, getMovementTypeName, getRoleName } from "@/lib/utils";
+
+interface StockAdjustmentFormProps {
+  onSubmit: (data: any) => void;
+  isLoading?: boolean;
+}
+
+const CENTRAL = "central";
+const FEFO = "fefo";
+
+const WRITE_OFF_REASONS = ["Expired", "Damaged", "Lost", "Other"];
+
+const stockAdjustmentSchema = z.object({
+  type: z.enum(["return", "write_off", "adjustment_in", "adjustment_out"]),
+  stockItemId: z.string().min(1, "Stock item is required"),
+  fromUserId: z.string(),
+  lotId: z.string(),
+  quantity: z.string().min(1, "Quantity is required"),
+  reason: z.string(),
+  notes: z.string().optional(),
+}).superRefine((values, ctx) => {
+  if (values.type === "return" && values.fromUserId === CENTRAL) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["fromUserId"], message: "Select who is returning the stock" });
+  }
+  if (values.type !== "return" && !values.reason.trim()) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["reason"], message: "A reason is required" });
+  }
+});
+
+type FormValues = z.infer<typeof stockAdjustmentSchema>;
+
+export function StockAdjustmentForm({ onSubmit, isLoading = false }: StockAdjustmentFormProps) {
+  const { hasPermission } = useAuth();
+
+  const { data: stockItems = [] } = useQuery<StockItem[]>({
+    queryKey: ["/api/stock-items"],
+  });
+
+  const { data: users = [] } = useQuery<User[]>({
+    queryKey: ["/api/users"],
+  });
+
+  // Returns move stock between people; adjustments and write-offs change what is in stock
+  const availableTypes = [
+    ...(hasPermission("canMoveStock") ? ["return"] : []),
+    ...(hasPermission("canEditItems") ? ["write_off", "adjustment_in", "adjustment_out"] : []),
+  ] as FormValues["type"][];
+
+  const form = useForm<FormValues>({
+    resolver: zodResolver(stockAdjustmentSchema),
+    defaultValues: {
+      type: availableTypes[0] ?? "return",
+      stockItemId: "",
+      fromUserId: CENTRAL,
+      lotId: FEFO,
+      quantity: "",
+      reason: "",
+      notes: "",
+    },
+  });
+
+  const type = form.watch("type");
+  const stockItemId = form.watch("stockItemId");
+  const fromUserId = form.watch("fromUserId");
+
+  const showUserSelect = type === "return" || type === "write_off";
+  const showLotSelect = type === "adjustment_in" || type === "adjustment_out" ||
+    (type === "write_off" && fromUserId === CENTRAL);
+
+  const { data: lots = [] } = useQuery<StockLot[]>({
+    queryKey: [`/api/stock-items/${stockItemId}/lots`],
+    enabled: showLotSelect && !!stockItemId,
+  });
+
+  const handleSubmit = (values: FormValues) => {
+    onSubmit({
+      type: values.type,
+      stockItemId: parseInt(values.stockItemId),
+      fromUserId: showUserSelect && values.fromUserId !== CENTRAL ? parseInt(values.fromUserId) : null,
+      toUserId: null,
+      lotId: showLotSelect && values.lotId !== FEFO ? parseInt(values.lotId) : null,
+      quantity: parseInt(values.quantity),
+      reason: values.type === "return" ? undefined : values.reason,
+      notes: values.notes,
+    });
+  };
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <FormField
+            control={form.control}
+            name="type"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Movement Type*</FormLabel>
+                <Select value={field.value} onValueChange={field.onChange}>
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select a type" />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {availableTypes.map(movementType => (
+                      <SelectItem key={movementType} value={movementType}>
+                        {getMovementTypeName(movementType)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="stockItemId"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Stock Item*</FormLabel>
+                <Select
+                  value={field.value}
+                  onValueChange={(value) => {
+                    field.onChange(value);
+                    form.setValue("lotId", FEFO);
+                  }}
+                >
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select an item" />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {stockItems.map(item => (
+                      <SelectItem key={item.id} value={item.id.toString()}>
+                        {item.name} ({item.quantity} in stock)
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          {showUserSelect && (
+            <FormField
+              control={form.control}
+              name="fromUserId"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>{type === "return" ? "Returned By*" : "Written Off From*"}</FormLabel>
+                  <Select value={field.value} onValueChange={field.onChange}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select a source" />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {type === "write_off" && (
+                        <SelectItem value={CENTRAL}>Central Warehouse</SelectItem>
+                      )}
+                      {users.map(user => (
+                        <SelectItem key={user.id} value={user.id.toString()}>
+                          {user.name} ({getRoleName(user.role)})
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          )}
+
+          {showLotSelect && (
+            <FormField
+              control={form.control}
+              name="lotId"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Lot</FormLabel>
+                  <Select value={field.value} onValueChange={field.onChange} disabled={!stockItemId}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select a lot" />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      <SelectItem value={FEFO}>
+                        {type === "adjustment_in" ? "New adjustment lot" : "Earliest expiry first"}
+                      </SelectItem>
+                      {lots.filter(lot => type === "adjustment_in" || lot.quantity > 0).map(lot => (
+                        <SelectItem key={lot.id} value={lot.id.toString()}>
+                          {lot.lotNumber} (exp. {formatDate(lot.expiry)}, qty {lot.quantity})
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          )}
+
+          <FormField
+            control={form.control}
+            name="quantity"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Quantity*</FormLabel>
+                <FormControl>
+                  <Input type="number" min="1" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          {type !== "return" && (
+            <FormField
+              control={form.control}
+              name="reason"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Reason*</FormLabel>
+                  {type === "write_off" ? (
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select a reason" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {WRITE_OFF_REASONS.map(reason => (
+                          <SelectItem key={reason} value={reason}>{reason}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  ) : (
+                    <FormControl>
+                      <Input {...field} placeholder="e.g. Stock count correction" />
+                    </FormControl>
+                  )}
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          )}
+        </div>
+
+        <FormField
+          control={form.control}
+          name="notes"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Notes (Optional)</FormLabel>
+              <FormControl>
+                <Textarea rows={2} {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <div className="flex justify-end">
+          <Button type="submit" disabled={isLoading || availableTypes.length === 0}>
+            {isLoading ? "Processing..." : `Record ${getMovementTypeName(type)}`}
+          </Button>
+        </div>
+      </form>
+    </Form>
+  );
+}
@@ -0,0 +1,226 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { StockImportResult } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Download } from "lucide-react";
+
+const TEMPLATE_CSV =
+  "Name,Category,Specialty,Quantity,Price,Expiry,Unique Number,Notes\n" +
+  "Example Brochure,Brochures,CNS,100,2.50,2030-12-31,BR-0001,\n";
+
+function downloadTemplate() {
+  const url = URL.createObjectURL(new Blob([TEMPLATE_CSV], { type: "text/csv" }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = "stock-import-template.csv";
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
+
+async function uploadImport(file: File, updateExisting: boolean, commit: boolean): Promise<StockImportResult> {
+  const formData = new FormData();
+  formData.append("file", file);
+  const params = new URLSearchParams({ commit: String(commit), updateExisting: String(updateExisting) });
+  const res = await apiRequest("POST", `/api/stock-items/import?${params}`, formData, true);
+  return res.json();
+}
+
+interface StockImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Imports stock items from a CSV or XLSX file. The file is checked first and
+// the per-row report shown; only then are the valid rows imported.
+export function StockImportDialog({ open, onOpenChange }: StockImportDialogProps) {
+  const { toast } = useToast();
+  const { hasPermission } = useAuth();
+  const [file, setFile] = useState<File | null>(null);
+  const [updateExisting, setUpdateExisting] = useState(false);
+  const [preview, setPreview] = useState<StockImportResult | null>(null);
+
+  const close = () => {
+    setFile(null);
+    setUpdateExisting(false);
+    setPreview(null);
+    onOpenChange(false);
+  };
+
+  const previewMutation = useMutation({
+    mutationFn: (selected: File) => uploadImport(selected, updateExisting, false),
+    onSuccess: (result) => setPreview(result),
+    onError: (error: Error) => {
+      toast({
+        title: "Could not read the file",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const importMutation = useMutation({
+    mutationFn: (selected: File) => uploadImport(selected, updateExisting, true),
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/stock-items"] });
+      toast({
+        title: "Import complete",
+        description: `${result.created} items created and ${result.updated} updated.` +
+          (result.invalid > 0 ? ` ${result.invalid} rows with errors were skipped.` : ""),
+      });
+      close();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Import failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const chooseFile = (selected: File | null) => {
+    setFile(selected);
+    setPreview(null);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => (next ? onOpenChange(true) : close())}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto sm:max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Import Stock Items</DialogTitle>
+          <DialogDescription>
+            Upload a CSV or Excel file with a header row. Name and Category are required;
+            Specialty, Quantity, Price, Expiry, Unique Number and Notes are optional.
+            Categories and specialties are matched by name.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="flex items-end gap-2">
+            <div className="flex-1 space-y-2">
+              <Label htmlFor="stock-import-file">File</Label>
+              <Input
+                id="stock-import-file"
+                type="file"
+                accept=".csv,.xlsx"
+                onChange={(e) => chooseFile(e.target.files?.[0] ?? null)}
+              />
+            </div>
+            <Button variant="outline" onClick={downloadTemplate}>
+              <Download className="h-4 w-4 mr-2" />
+              Template
+            </Button>
+          </div>
+
+          {hasPermission("canEditItems") && (
+            <div className="flex items-center space-x-2">
+              <Checkbox
+                id="stock-import-update"
+                checked={updateExisting}
+                onCheckedChange={(checked) => {
+                  setUpdateExisting(checked === true);
+                  setPreview(null);
+                }}
+              />
+              <Label htmlFor="stock-import-update">
+                Update existing items with the same unique number
+              </Label>
+            </div>
+          )}
+
+          {preview && (
+            <div className="space-y-2">
+              <p className="text-sm text-gray-600">
+                {preview.valid} of {preview.rows.length} rows are ready to import.
+                {preview.invalid > 0 && " Rows with errors will be skipped."}
+              </p>
+              <div className="max-h-80 overflow-y-auto border rounded-md">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Row</TableHead>
+                      <TableHead>Item</TableHead>
+                      <TableHead>Action</TableHead>
+                      <TableHead>Problems</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {preview.rows.map((row) => (
+                      <TableRow key={row.row} className={row.errors.length > 0 ? "bg-red-50" : undefined}>
+                        <TableCell className="text-sm text-gray-500">{row.row}</TableCell>
+                        <TableCell>
+                          <div className="text-sm font-medium text-gray-900">{row.name || "—"}</div>
+                          {row.uniqueNumber && (
+                            <div className="text-xs text-gray-500">{row.uniqueNumber}</div>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          {row.errors.length > 0 ? (
+                            <Badge variant="destructive">Skip</Badge>
+                          ) : (
+                            <Badge variant="outline">{row.action === "update" ? "Update" : "Create"}</Badge>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-sm text-red-600">
+                          {row.errors.map((error) => (
+                            <div key={error}>{error}</div>
+                          ))}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={close}>
+            Cancel
+          </Button>
+          {preview ? (
+            <Button
+              onClick={() => file && importMutation.mutate(file)}
+              disabled={preview.valid === 0 || importMutation.isPending}
+            >
+              {importMutation.isPending ? "Importing..." : `Import ${preview.valid} Rows`}
+            </Button>
+          ) : (
+            <Button
+              onClick={() => file && previewMutation.mutate(file)}
+              disabled={!file || previewMutation.isPending}
+            >
+              {previewMutation.isPending ? "Checking..." : "Check File"}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
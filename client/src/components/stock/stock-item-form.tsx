@@ -3,11 +3,12 @@ import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
 import { useQuery } from "@tanstack/react-query";
-import { Category, StockItem, Specialty } from "@shared/schema";
+import { Category, StockItem, StockLot, Specialty } from "@shared/schema";
 import { useAuth } from "@/hooks/use-auth";
 import {
   Form,
   FormControl,
+  FormDescription,
   FormField,
   FormItem,
   FormLabel,
@@ -41,6 +42,7 @@ const stockItemSchema = z.object({
   price: z.string().default("0"),
   expiry: z.string().nullish(),
   uniqueNumber: z.string().optional(),
+  lotNumber: z.string().optional(),
   imageFile: z.any().optional(),
   notes: z.string().optional(),
 });
@@ -57,6 +59,13 @@ export function StockItemForm({ onSubmit, initialData, isLoading = false }: Stoc
     queryKey: ["/api/specialties"],
   });
 
+  // An item held in several lots takes its expiry from the earliest of them
+  const { data: lots = [] } = useQuery<StockLot[]>({
+    queryKey: [`/api/stock-items/${initialData?.id}/lots`],
+    enabled: !!initialData,
+  });
+  const expiryFollowsLots = lots.length > 1;
+
   const form = useForm<FormValues>({
     resolver: zodResolver(stockItemSchema),
     defaultValues: {
@@ -130,6 +139,10 @@ export function StockItemForm({ onSubmit, initialData, isLoading = false }: Stoc
       formData.append("uniqueNumber", values.uniqueNumber);
     }
     
+    if (!initialData && values.lotNumber) {
+      formData.append("lotNumber", values.lotNumber);
+    }
+    
     if (values.notes) {
       formData.append("notes", values.notes);
     }
@@ -268,11 +281,17 @@ export function StockItemForm({ onSubmit, initialData, isLoading = false }: Stoc
                   type="date" 
                   {...field} 
                   value={field.value || ''}
+                  disabled={expiryFollowsLots}
                   onChange={(e) => {
                     field.onChange(e.target.value);
                   }}
                 />
               </FormControl>
+              {expiryFollowsLots && (
+                <FormDescription>
+                  This item is held in several lots, so its expiry follows the earliest one. Change it on the lots.
+                </FormDescription>
+              )}
               <FormMessage />
             </FormItem>
           )}
@@ -303,6 +322,22 @@ export function StockItemForm({ onSubmit, initialData, isLoading = false }: Stoc
           )}
         />
 
+        {!initialData && (
+          <FormField
+            control={form.control}
+            name="lotNumber"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Lot Number</FormLabel>
+                <FormControl>
+                  <Input {...field} placeholder="Defaults to the unique number" />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        )}
+
         <FormField
           control={form.control}
           name="imageFile"
@@ -0,0 +1,201 @@
+import { useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { StockLot } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { cn, formatDate, getExpiryStatus, getExpiryStatusColor } from "@/lib/utils";
+import { Plus } from "lucide-react";
+
+interface StockLotListProps {
+  stockItemId: number;
+}
+
+const receiveLotSchema = z.object({
+  lotNumber: z.string().min(1, "Lot number is required"),
+  quantity: z.string().min(1, "Quantity is required"),
+  expiry: z.string().optional(),
+});
+
+type FormValues = z.infer<typeof receiveLotSchema>;
+
+export function StockLotList({ stockItemId }: StockLotListProps) {
+  const { hasPermission } = useAuth();
+  const { toast } = useToast();
+  const [showReceiveForm, setShowReceiveForm] = useState(false);
+
+  const { data: lots = [], isLoading } = useQuery<StockLot[]>({
+    queryKey: [`/api/stock-items/${stockItemId}/lots`],
+  });
+
+  const form = useForm<FormValues>({
+    resolver: zodResolver(receiveLotSchema),
+    defaultValues: {
+      lotNumber: "",
+      quantity: "",
+      expiry: "",
+    },
+  });
+
+  const receiveLotMutation = useMutation({
+    mutationFn: async (values: FormValues) => {
+      const res = await apiRequest("POST", `/api/stock-items/${stockItemId}/lots`, {
+        lotNumber: values.lotNumber,
+        quantity: values.quantity,
+        expiry: values.expiry ? new Date(values.expiry).toISOString() : null,
+      });
+      return await res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/stock-items/${stockItemId}/lots`] });
+      queryClient.invalidateQueries({ queryKey: ["/api/stock-items"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/stock-items/expiring"] });
+      form.reset();
+      setShowReceiveForm(false);
+      toast({
+        title: "Success",
+        description: "Lot received successfully",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to receive lot",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div>
+      <div className="flex justify-between items-center mb-2">
+        <h4 className="text-sm font-medium text-gray-700">Lots</h4>
+        {hasPermission("canEditItems") && !showReceiveForm && (
+          <Button variant="outline" size="sm" onClick={() => setShowReceiveForm(true)}>
+            <Plus className="mr-2 h-4 w-4" />
+            Receive Lot
+          </Button>
+        )}
+      </div>
+
+      {showReceiveForm && (
+        <Form {...form}>
+          <form
+            onSubmit={form.handleSubmit((values) => receiveLotMutation.mutate(values))}
+            className="grid grid-cols-1 sm:grid-cols-3 gap-3 mb-4 p-3 border rounded-md bg-gray-50"
+          >
+            <FormField
+              control={form.control}
+              name="lotNumber"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Lot Number*</FormLabel>
+                  <FormControl>
+                    <Input {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="quantity"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Quantity*</FormLabel>
+                  <FormControl>
+                    <Input type="number" min="1" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="expiry"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Expiry Date</FormLabel>
+                  <FormControl>
+                    <Input type="date" {...field} value={field.value || ''} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <div className="sm:col-span-3 flex justify-end space-x-2">
+              <Button type="button" variant="outline" size="sm" onClick={() => setShowReceiveForm(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" size="sm" disabled={receiveLotMutation.isPending}>
+                {receiveLotMutation.isPending ? "Saving..." : "Receive"}
+              </Button>
+            </div>
+          </form>
+        </Form>
+      )}
+
+      <div className="border rounded-md overflow-x-auto">
+        {isLoading ? (
+          <div className="px-4 py-3 text-sm text-gray-500">Loading lots...</div>
+        ) : lots.length === 0 ? (
+          <div className="px-4 py-3 text-sm text-gray-500">No lots recorded</div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Lot Number</TableHead>
+                <TableHead>Expiry Date</TableHead>
+                <TableHead>Quantity</TableHead>
+                <TableHead>Received</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {lots.map((lot) => (
+                <TableRow key={lot.id} className={lot.quantity === 0 ? "opacity-50" : ""}>
+                  <TableCell className="text-sm font-medium text-gray-900">{lot.lotNumber}</TableCell>
+                  <TableCell>
+                    <div className="text-sm text-gray-900">{formatDate(lot.expiry)}</div>
+                    {lot.expiry && lot.quantity > 0 && getExpiryStatus(lot.expiry) !== 'safe' && (
+                      <Badge
+                        variant="outline"
+                        className={cn("mt-1 text-xs", getExpiryStatusColor(getExpiryStatus(lot.expiry)))}
+                      >
+                        {getExpiryStatus(lot.expiry) === 'expired' ? 'Expired' :
+                         getExpiryStatus(lot.expiry) === 'critical' ? 'Critical' : 'Warning'}
+                      </Badge>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-sm text-gray-900">{lot.quantity}</TableCell>
+                  <TableCell className="text-sm text-gray-500">{formatDate(lot.receivedAt)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </div>
+    </div>
+  );
+}
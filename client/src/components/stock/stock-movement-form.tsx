@@ -40,9 +40,6 @@ interface StockMovementFormProps {
 }
 
 const stockMovementSchema = z.object({
-  stockItemId: z.string().min(1, "Stock item is required"),
-  toUserId: z.string().min(1, "Recipient is required"),
-  quantity: z.string().min(1, "Quantity is required"),
   notes: z.string().optional(),
 });
 
@@ -52,6 +49,9 @@ export function StockMovementForm({ onSubmit, isLoading = false }: StockMovement
   const [selectedStockItems, setSelectedStockItems] = useState<StockItem[]>([]);
   const [selectedRecipients, setSelectedRecipients] = useState<User[]>([]);
   const [filterRole, setFilterRole] = useState<string>("all");
+  // Quantity per item and recipient, keyed by `${itemId}:${userId}`
+  const [quantities, setQuantities] = useState<Record<string, string>>({});
+  const [matrixError, setMatrixError] = useState<string | null>(null);
   
   const { data: stockItems = [] } = useQuery<StockItem[]>({
     queryKey: ["/api/stock-items"],
@@ -68,9 +68,6 @@ export function StockMovementForm({ onSubmit, isLoading = false }: StockMovement
   const form = useForm<FormValues>({
     resolver: zodResolver(stockMovementSchema),
     defaultValues: {
-      stockItemId: "",
-      toUserId: "",
-      quantity: "",
       notes: "",
     },
   });
@@ -88,11 +85,6 @@ export function StockMovementForm({ onSubmit, isLoading = false }: StockMovement
       setSelectedStockItems(selectedStockItems.filter(i => i.id !== item.id));
     } else {
       setSelectedStockItems([...selectedStockItems, item]);
-      
-      // Set form value if it's the first selection
-      if (selectedStockItems.length === 0) {
-        form.setValue("stockItemId", item.id.toString());
-      }
     }
   };
   
@@ -105,11 +97,6 @@ export function StockMovementForm({ onSubmit, isLoading = false }: StockMovement
       setSelectedRecipients(selectedRecipients.filter(u => u.id !== user.id));
     } else {
       setSelectedRecipients([...selectedRecipients, user]);
-      
-      // Set form value if it's the first selection
-      if (selectedRecipients.length === 0) {
-        form.setValue("toUserId", user.id.toString());
-      }
     }
   };
   
@@ -117,15 +104,59 @@ export function StockMovementForm({ onSubmit, isLoading = false }: StockMovement
     return !!selectedRecipients.find(u => u.id === userId);
   };
   
+  const getQuantity = (itemId: number, userId: number) => {
+    return quantities[`${itemId}:${userId}`] ?? "";
+  };
+
+  const setQuantity = (itemId: number, userId: number, value: string) => {
+    setQuantities(prev => ({ ...prev, [`${itemId}:${userId}`]: value }));
+  };
+
+  // Fills an item's row with the same quantity for every selected recipient
+  const setQuantityForAllRecipients = (itemId: number, value: string) => {
+    setQuantities(prev => {
+      const next = { ...prev };
+      selectedRecipients.forEach(user => {
+        next[`${itemId}:${user.id}`] = value;
+      });
+      return next;
+    });
+  };
+
+  const getRowTotal = (itemId: number) => {
+    return selectedRecipients.reduce((total, user) => total + (parseInt(getQuantity(itemId, user.id)) || 0), 0);
+  };
+
   const handleSubmit = (values: FormValues) => {
-    const movementData = {
-      stockItemId: parseInt(values.stockItemId),
-      toUserId: parseInt(values.toUserId),
-      quantity: parseInt(values.quantity),
+    const matrix = selectedStockItems.map(item =>
+      selectedRecipients.map(user => parseInt(getQuantity(item.id, user.id)) || 0)
+    );
+
+    if (selectedStockItems.length === 0 || selectedRecipients.length === 0) {
+      setMatrixError("Select at least one item and one recipient");
+      return;
+    }
+    if (matrix.some(row => row.some(quantity => quantity < 0))) {
+      setMatrixError("Quantities cannot be negative");
+      return;
+    }
+    if (!matrix.some(row => row.some(quantity => quantity > 0))) {
+      setMatrixError("Enter at least one quantity to move");
+      return;
+    }
+    const overAllocated = selectedStockItems.find(item => getRowTotal(item.id) > item.quantity);
+    if (overAllocated) {
+      setMatrixError(`Not enough ${overAllocated.name} in stock (${overAllocated.quantity} available)`);
+      return;
+    }
+    setMatrixError(null);
+
+    onSubmit({
+      stockItemIds: selectedStockItems.map(item => item.id),
+      toUserIds: selectedRecipients.map(user => user.id),
+      quantities: matrix,
       notes: values.notes,
-    };
-    
-    onSubmit(movementData);
+    });
   };
   
   return (
@@ -146,7 +177,7 @@ export function StockMovementForm({ onSubmit, isLoading = false }: StockMovement
                   <TableHead>Item</TableHead>
                   <TableHead>Category</TableHead>
                   <TableHead>Available Qty</TableHead>
-                  <TableHead>Move Qty</TableHead>
+                  <TableHead>Qty Each</TableHead>
                 </TableRow>
               </TableHeader>
               <TableBody>
@@ -190,15 +221,10 @@ export function StockMovementForm({ onSubmit, isLoading = false }: StockMovement
                         type="number"
                         min="0"
                         max={item.quantity.toString()}
-                        disabled={!isStockItemSelected(item.id)}
+                        disabled={!isStockItemSelected(item.id) || selectedRecipients.length === 0}
                         className="w-20"
-                        defaultValue="0"
-                        onInput={(e) => {
-                          if (isStockItemSelected(item.id)) {
-                            form.setValue("stockItemId", item.id.toString());
-                            form.setValue("quantity", e.currentTarget.value);
-                          }
-                        }}
+                        placeholder="0"
+                        onInput={(e) => setQuantityForAllRecipients(item.id, e.currentTarget.value)}
                       />
                     </TableCell>
                   </TableRow>
@@ -261,79 +287,54 @@ export function StockMovementForm({ onSubmit, isLoading = false }: StockMovement
           <form onSubmit={form.handleSubmit(handleSubmit)} className="bg-white p-6 rounded-lg shadow">
             <h3 className="text-lg font-medium text-gray-800 mb-4">Movement Details</h3>
             
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-              <FormField
-                control={form.control}
-                name="stockItemId"
-                render={({ field }) => (
-                  <FormItem>
-                    <FormLabel>Selected Item</FormLabel>
-                    <FormControl>
-                      <Select
-                        value={field.value}
-                        onValueChange={field.onChange}
-                        disabled={selectedStockItems.length === 0}
-                      >
-                        <SelectTrigger>
-                          <SelectValue placeholder="Select an item" />
-                        </SelectTrigger>
-                        <SelectContent>
-                          {selectedStockItems.map(item => (
-                            <SelectItem key={item.id} value={item.id.toString()}>
-                              {item.name}
-                            </SelectItem>
-                          ))}
-                        </SelectContent>
-                      </Select>
-                    </FormControl>
-                    <FormMessage />
-                  </FormItem>
-                )}
-              />
-              
-              <FormField
-                control={form.control}
-                name="toUserId"
-                render={({ field }) => (
-                  <FormItem>
-                    <FormLabel>Recipient</FormLabel>
-                    <FormControl>
-                      <Select
-                        value={field.value}
-                        onValueChange={field.onChange}
-                        disabled={selectedRecipients.length === 0}
-                      >
-                        <SelectTrigger>
-                          <SelectValue placeholder="Select a recipient" />
-                        </SelectTrigger>
-                        <SelectContent>
+            {selectedStockItems.length === 0 || selectedRecipients.length === 0 ? (
+              <p className="text-sm text-gray-500 mb-6">
+                Select items and recipients above to enter how much each recipient receives.
+              </p>
+            ) : (
+              <div className="overflow-x-auto mb-6">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Item</TableHead>
+                      {selectedRecipients.map(user => (
+                        <TableHead key={user.id} className="text-center">{user.name}</TableHead>
+                      ))}
+                      <TableHead className="text-right">Total / Available</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {selectedStockItems.map(item => {
+                      const rowTotal = getRowTotal(item.id);
+                      return (
+                        <TableRow key={item.id}>
+                          <TableCell className="text-sm font-medium text-gray-900">{item.name}</TableCell>
                           {selectedRecipients.map(user => (
-                            <SelectItem key={user.id} value={user.id.toString()}>
-                              {user.name} ({getRoleName(user.role)})
-                            </SelectItem>
+                            <TableCell key={user.id} className="text-center">
+                              <Input
+                                type="number"
+                                min="0"
+                                className="w-20 mx-auto"
+                                placeholder="0"
+                                value={getQuantity(item.id, user.id)}
+                                onChange={(e) => setQuantity(item.id, user.id, e.target.value)}
+                              />
+                            </TableCell>
                           ))}
-                        </SelectContent>
-                      </Select>
-                    </FormControl>
-                    <FormMessage />
-                  </FormItem>
-                )}
-              />
-              
-              <FormField
-                control={form.control}
-                name="quantity"
-                render={({ field }) => (
-                  <FormItem>
-                    <FormLabel>Quantity to Move</FormLabel>
-                    <FormControl>
-                      <Input type="number" min="1" {...field} />
-                    </FormControl>
-                    <FormMessage />
-                  </FormItem>
-                )}
-              />
-              
+                          <TableCell
+                            className={`text-right text-sm ${rowTotal > item.quantity ? "text-red-600 font-medium" : "text-gray-900"}`}
+                          >
+                            {rowTotal} / {item.quantity}
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+
+            <div className="grid grid-cols-1 gap-6">
               <FormField
                 control={form.control}
                 name="notes"
@@ -349,6 +350,10 @@ export function StockMovementForm({ onSubmit, isLoading = false }: StockMovement
               />
             </div>
             
+            {matrixError && (
+              <p className="mt-4 text-sm font-medium text-destructive">{matrixError}</p>
+            )}
+
             <div className="mt-6 flex justify-end">
               <Button type="submit" disabled={isLoading}>
                 {isLoading ? "Processing..." : "Confirm Transfer"}
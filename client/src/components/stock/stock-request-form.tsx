@@ -0,0 +1,168 @@
+import { useForm, useFieldArray } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { useQuery } from "@tanstack/react-query";
+import { StockItem } from "@shared/schema";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Plus, Trash2 } from "lucide-react";
+
+interface StockRequestFormProps {
+  onSubmit: (data: any) => void;
+  isLoading?: boolean;
+}
+
+const stockRequestSchema = z.object({
+  items: z.array(z.object({
+    stockItemId: z.string().min(1, "Stock item is required"),
+    quantity: z.string().min(1, "Quantity is required"),
+  })).min(1),
+  notes: z.string().optional(),
+}).superRefine((values, ctx) => {
+  const seen = new Set<string>();
+  values.items.forEach((item, index) => {
+    if (item.stockItemId && seen.has(item.stockItemId)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["items", index, "stockItemId"],
+        message: "Item already requested",
+      });
+    }
+    seen.add(item.stockItemId);
+  });
+});
+
+type FormValues = z.infer<typeof stockRequestSchema>;
+
+export function StockRequestForm({ onSubmit, isLoading = false }: StockRequestFormProps) {
+  const { data: stockItems = [] } = useQuery<StockItem[]>({
+    queryKey: ["/api/stock-items"],
+  });
+
+  const form = useForm<FormValues>({
+    resolver: zodResolver(stockRequestSchema),
+    defaultValues: {
+      items: [{ stockItemId: "", quantity: "" }],
+      notes: "",
+    },
+  });
+
+  const { fields, append, remove } = useFieldArray({
+    control: form.control,
+    name: "items",
+  });
+
+  const handleSubmit = (values: FormValues) => {
+    onSubmit({
+      items: values.items.map(item => ({
+        stockItemId: parseInt(item.stockItemId),
+        quantity: parseInt(item.quantity),
+      })),
+      notes: values.notes,
+    });
+  };
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4">
+        {fields.map((field, index) => (
+          <div key={field.id} className="flex items-start gap-3">
+            <FormField
+              control={form.control}
+              name={`items.${index}.stockItemId`}
+              render={({ field }) => (
+                <FormItem className="flex-1">
+                  {index === 0 && <FormLabel>Stock Item*</FormLabel>}
+                  <Select value={field.value} onValueChange={field.onChange}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select an item" />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {stockItems.map(item => (
+                        <SelectItem key={item.id} value={item.id.toString()}>
+                          {item.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name={`items.${index}.quantity`}
+              render={({ field }) => (
+                <FormItem className="w-28">
+                  {index === 0 && <FormLabel>Quantity*</FormLabel>}
+                  <FormControl>
+                    <Input type="number" min="1" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              className={index === 0 ? "mt-8" : ""}
+              disabled={fields.length === 1}
+              onClick={() => remove(index)}
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        ))}
+
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() => append({ stockItemId: "", quantity: "" })}
+        >
+          <Plus className="mr-2 h-4 w-4" />
+          Add Item
+        </Button>
+
+        <FormField
+          control={form.control}
+          name="notes"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Notes (Optional)</FormLabel>
+              <FormControl>
+                <Textarea rows={2} placeholder="e.g. Samples for next week's clinic visits" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <div className="flex justify-end">
+          <Button type="submit" disabled={isLoading}>
+            {isLoading ? "Submitting..." : "Submit Request"}
+          </Button>
+        </div>
+      </form>
+    </Form>
+  );
+}
@@ -0,0 +1,112 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { InvitationSummary, User } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { formatDate, getRoleName } from "@/lib/utils";
+
+// Invitations that have been sent but not yet accepted
+export function PendingInvitations() {
+  const { toast } = useToast();
+
+  const { data: invitations = [], isLoading } = useQuery<InvitationSummary[]>({
+    queryKey: ["/api/invitations"],
+  });
+
+  const { data: users = [] } = useQuery<User[]>({
+    queryKey: ["/api/users"],
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("POST", `/api/invitations/${id}/revoke`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/invitations"] });
+      toast({
+        title: "Invitation withdrawn",
+        description: "Its link can no longer be used to make an account.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to withdraw invitation",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const getUserName = (userId: number | null) => {
+    if (userId === null) return "—";
+    return users.find(u => u.id === userId)?.name || "Unknown User";
+  };
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <CardTitle>Pending Invitations</CardTitle>
+        <CardDescription>
+          People who have been invited but haven't set up their account yet.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="text-sm text-gray-500">Loading invitations...</div>
+        ) : invitations.length === 0 ? (
+          <div className="text-sm text-gray-500">No pending invitations</div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Invitee</TableHead>
+                <TableHead>Role</TableHead>
+                <TableHead>Invited By</TableHead>
+                <TableHead>Expires</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {invitations.map(invitation => (
+                <TableRow key={invitation.id}>
+                  <TableCell>
+                    <div className="text-sm font-medium text-gray-900">{invitation.name}</div>
+                    <div className="text-xs text-gray-500">{invitation.email}</div>
+                  </TableCell>
+                  <TableCell className="text-sm text-gray-500">{getRoleName(invitation.role)}</TableCell>
+                  <TableCell className="text-sm text-gray-500">{getUserName(invitation.invitedBy)}</TableCell>
+                  <TableCell className="text-sm text-gray-500">{formatDate(invitation.expiresAt)}</TableCell>
+                  <TableCell className="text-right">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => revokeMutation.mutate(invitation.id)}
+                      disabled={revokeMutation.isPending}
+                    >
+                      Withdraw
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,20 +1,24 @@
-import { createContext, ReactNode, useContext } from "react";
+import { createContext, ReactNode, useContext, useState } from "react";
 import {
   useQuery,
   useMutation,
   UseMutationResult,
 } from "@tanstack/react-query";
-import { User, InsertUser } from "@shared/schema";
+import { CurrentUser, InsertUser, LoginResult } from "@shared/schema";
 import { getQueryFn, apiRequest, queryClient } from "../lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 
 type AuthContextType = {
-  user: Omit<User, 'password'> | null;
+  user: CurrentUser | null;
   isLoading: boolean;
   error: Error | null;
-  loginMutation: UseMutationResult<Omit<User, 'password'>, Error, LoginData>;
+  loginMutation: UseMutationResult<LoginResult, Error, LoginData>;
+  // Set when the password was right and the account needs a two-factor code
+  twoFactorPending: boolean;
+  twoFactorMutation: UseMutationResult<CurrentUser, Error, string>;
+  cancelTwoFactor: () => void;
   logoutMutation: UseMutationResult<void, Error, void>;
-  registerMutation: UseMutationResult<Omit<User, 'password'>, Error, InsertUser>;
+  registerMutation: UseMutationResult<CurrentUser, Error, InsertUser>;
   hasPermission: (permission: string) => boolean;
 };
 
@@ -32,7 +36,10 @@ const ROLE_PERMISSIONS = {
     canMoveStock: true,
     canManageUsers: true,
     canViewReports: true,
-    canAccessSettings: true
+    canAccessSettings: true,
+    canAdministerSystem: true,
+    canRequestStock: true,
+    canApproveRequests: true
   },
   marketer: {
     canViewAll: false,
@@ -42,7 +49,10 @@ const ROLE_PERMISSIONS = {
     canMoveStock: true,
     canManageUsers: false,
     canViewReports: false,
-    canAccessSettings: false
+    canAccessSettings: false,
+    canAdministerSystem: false,
+    canRequestStock: false,
+    canApproveRequests: true
   },
   salesManager: {
     canViewAll: false,
@@ -52,7 +62,10 @@ const ROLE_PERMISSIONS = {
     canMoveStock: true,
     canManageUsers: false,
     canViewReports: false,
-    canAccessSettings: false
+    canAccessSettings: false,
+    canAdministerSystem: false,
+    canRequestStock: false,
+    canApproveRequests: true
   },
   stockManager: {
     canViewAll: false,
@@ -62,7 +75,10 @@ const ROLE_PERMISSIONS = {
     canMoveStock: false,
     canManageUsers: false,
     canViewReports: false,
-    canAccessSettings: true
+    canAccessSettings: true,
+    canAdministerSystem: false,
+    canRequestStock: false,
+    canApproveRequests: false
   },
   admin: {
     canViewAll: false,
@@ -72,7 +88,10 @@ const ROLE_PERMISSIONS = {
     canMoveStock: false,
     canManageUsers: true,
     canViewReports: true,
-    canAccessSettings: true
+    canAccessSettings: true,
+    canAdministerSystem: true,
+    canRequestStock: false,
+    canApproveRequests: false
   },
   medicalRep: {
     canViewAll: false,
@@ -82,7 +101,10 @@ const ROLE_PERMISSIONS = {
     canMoveStock: false,
     canManageUsers: false,
     canViewReports: false,
-    canAccessSettings: false
+    canAccessSettings: false,
+    canAdministerSystem: false,
+    canRequestStock: true,
+    canApproveRequests: false
   }
 };
 
@@ -90,11 +112,12 @@ export const AuthContext = createContext<AuthContextType | null>(null);
 
 export function AuthProvider({ children }: { children: ReactNode }) {
   const { toast } = useToast();
+  const [twoFactorPending, setTwoFactorPending] = useState(false);
   const {
     data: user,
     error,
     isLoading,
-  } = useQuery<Omit<User, 'password'> | undefined, Error>({
+  } = useQuery<CurrentUser | undefined, Error>({
     queryKey: ["/api/user"],
     queryFn: getQueryFn({ on401: "returnNull" }),
   });
@@ -104,7 +127,33 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       const res = await apiRequest("POST", "/api/login", credentials);
       return await res.json();
     },
-    onSuccess: (userData: Omit<User, 'password'>) => {
+    onSuccess: (result: LoginResult) => {
+      if ("twoFactorRequired" in result) {
+        setTwoFactorPending(true);
+        return;
+      }
+      queryClient.setQueryData(["/api/user"], result);
+      toast({
+        title: "Login successful",
+        description: `Welcome back, ${result.name}!`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Login failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const twoFactorMutation = useMutation({
+    mutationFn: async (code: string) => {
+      const res = await apiRequest("POST", "/api/login/two-factor", { code });
+      return await res.json();
+    },
+    onSuccess: (userData: CurrentUser) => {
+      setTwoFactorPending(false);
       queryClient.setQueryData(["/api/user"], userData);
       toast({
         title: "Login successful",
@@ -125,7 +174,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       const res = await apiRequest("POST", "/api/register", userData);
       return await res.json();
     },
-    onSuccess: (userData: Omit<User, 'password'>) => {
+    onSuccess: (userData: CurrentUser) => {
       queryClient.setQueryData(["/api/user"], userData);
       toast({
         title: "Registration successful",
@@ -174,6 +223,9 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         isLoading,
         error,
         loginMutation,
+        twoFactorPending,
+        twoFactorMutation,
+        cancelTwoFactor: () => setTwoFactorPending(false),
         logoutMutation,
         registerMutation,
         hasPermission,
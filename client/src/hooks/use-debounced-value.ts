@@ -0,0 +1,14 @@
+import { useEffect, useState } from "react";
+
+// The value once it has stopped changing for the delay, so typing in a
+// search box sends one request rather than one per keystroke
+export function useDebouncedValue<T>(value: T, delay = 300): T {
+  const [debounced, setDebounced] = useState(value);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setDebounced(value), delay);
+    return () => clearTimeout(timer);
+  }, [value, delay]);
+
+  return debounced;
+}
@@ -1,6 +1,11 @@
 import { useAuth } from "@/hooks/use-auth";
 import { Loader2 } from "lucide-react";
 import { Redirect, Route } from "wouter";
+import { Button } from "@/components/ui/button";
+import { ChangePasswordForm } from "@/components/auth/change-password-form";
+import { TwoFactorSettings } from "@/components/auth/two-factor-settings";
+import { queryClient } from "@/lib/queryClient";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 
 export function ProtectedRoute({
   path,
@@ -11,7 +16,7 @@ export function ProtectedRoute({
   component: () => React.JSX.Element;
   roles?: string[];
 }) {
-  const { user, isLoading } = useAuth();
+  const { user, isLoading, logoutMutation } = useAuth();
 
   if (isLoading) {
     return (
@@ -31,6 +36,51 @@ export function ProtectedRoute({
     );
   }
 
+  // The server refuses everything else until an expired password is changed
+  if (user.passwordExpired) {
+    return (
+      <Route path={path}>
+        <div className="flex items-center justify-center min-h-screen bg-gray-50 p-4">
+          <Card className="w-full max-w-md">
+            <CardHeader>
+              <CardTitle>Your password has expired</CardTitle>
+              <CardDescription>Choose a new password to continue.</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              <ChangePasswordForm />
+              <Button variant="ghost" className="w-full" onClick={() => logoutMutation.mutate()}>
+                Sign out
+              </Button>
+            </CardContent>
+          </Card>
+        </div>
+      </Route>
+    );
+  }
+
+  if (user.twoFactorSetupRequired) {
+    return (
+      <Route path={path}>
+        <div className="flex items-center justify-center min-h-screen bg-gray-50 p-4">
+          <Card className="w-full max-w-md">
+            <CardHeader>
+              <CardTitle>Set up two-factor authentication</CardTitle>
+              <CardDescription>Your role requires a code from an authenticator app to sign in.</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              <TwoFactorSettings
+                onEnabled={() => queryClient.invalidateQueries({ queryKey: ["/api/user"] })}
+              />
+              <Button variant="ghost" className="w-full" onClick={() => logoutMutation.mutate()}>
+                Sign out
+              </Button>
+            </CardContent>
+          </Card>
+        </div>
+      </Route>
+    );
+  }
+
   // Check if route requires specific roles
   if (roles.length > 0 && !roles.includes(user.role)) {
     return (
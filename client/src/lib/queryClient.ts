@@ -1,4 +1,4 @@
-import { QueryClient, QueryFunction } from "@tanstack/react-query";
+import { QueryCache, QueryClient, QueryFunction } from "@tanstack/react-query";
 
 async function throwIfResNotOk(res: Response) {
   if (!res.ok) {
@@ -34,13 +34,29 @@ export async function apiRequest(
   return res;
 }
 
+// Query keys are a URL, optionally followed by an object of query parameters.
+// Keeping the parameters separate lets invalidating the URL refresh them all.
+function queryUrl(queryKey: readonly unknown[]): string {
+  const [url, params] = queryKey;
+  if (!params || typeof params !== "object") return url as string;
+
+  const search = new URLSearchParams();
+  for (const [key, value] of Object.entries(params)) {
+    if (value !== undefined && value !== null && value !== "") {
+      search.set(key, String(value));
+    }
+  }
+  const query = search.toString();
+  return query ? `${url}?${query}` : (url as string);
+}
+
 type UnauthorizedBehavior = "returnNull" | "throw";
 export const getQueryFn: <T>(options: {
   on401: UnauthorizedBehavior;
 }) => QueryFunction<T> =
   ({ on401: unauthorizedBehavior }) =>
   async ({ queryKey }) => {
-    const res = await fetch(queryKey[0] as string, {
+    const res = await fetch(queryUrl(queryKey), {
       credentials: "include",
     });
 
@@ -53,6 +69,15 @@ export const getQueryFn: <T>(options: {
   };
 
 export const queryClient = new QueryClient({
+  // A 401 means the session has ended, for instance after the idle timeout,
+  // so forget the user and let the routes send them to sign in again
+  queryCache: new QueryCache({
+    onError: (error) => {
+      if (error.message.startsWith("401:")) {
+        queryClient.setQueryData(["/api/user"], null);
+      }
+    },
+  }),
   defaultOptions: {
     queries: {
       queryFn: getQueryFn({ on401: "throw" }),
@@ -0,0 +1,80 @@
+import { addDays, format, subDays } from "date-fns";
+import type { ReportFileFormat, ReportFormat, ReportType } from "@shared/schema";
+
+export const REPORT_TYPE_NAMES: Record<ReportType, string> = {
+  inventory: "Inventory Status",
+  movement: "Stock Movement",
+  expiry: "Expiring Items",
+  allocation: "Medical Rep Allocation",
+  specialty: "Specialty Summary",
+};
+
+export type ReportDates = { from?: string; to?: string };
+
+// A report as the server returns it for format=json. `rows` starts with the
+// header row.
+export type ReportSnapshot = {
+  type: ReportType;
+  title: string;
+  period: string;
+  generatedAt: string;
+  rows: string[][];
+};
+
+const PRESET_RANGE_DAYS: Record<string, number> = {
+  week: 7,
+  month: 30,
+  quarter: 90,
+  year: 365,
+};
+
+// Turns a preset period such as "month" into the dates sent to the server.
+// Expiry reports look ahead from today; the others look back.
+export function getReportDates(
+  type: ReportType,
+  dateRange: string,
+  customStart?: string,
+  customEnd?: string
+): ReportDates {
+  if (dateRange === "custom") {
+    return { from: customStart || undefined, to: customEnd || undefined };
+  }
+
+  const days = PRESET_RANGE_DAYS[dateRange] ?? PRESET_RANGE_DAYS.month;
+  const today = new Date();
+  return type === "expiry"
+    ? { from: format(today, "yyyy-MM-dd"), to: format(addDays(today, days), "yyyy-MM-dd") }
+    : { from: format(subDays(today, days - 1), "yyyy-MM-dd"), to: format(today, "yyyy-MM-dd") };
+}
+
+export function getReportUrl(type: ReportType, dates: ReportDates, reportFormat: ReportFormat): string {
+  const params = new URLSearchParams({ format: reportFormat });
+  if (dates.from) params.set("from", dates.from);
+  if (dates.to) params.set("to", dates.to);
+  return `/api/reports/${type}?${params}`;
+}
+
+// Fetches a report file from the server and saves it under the name the
+// server gives it
+export async function downloadReport(
+  type: ReportType,
+  dates: ReportDates,
+  reportFormat: ReportFileFormat
+): Promise<void> {
+  const res = await fetch(getReportUrl(type, dates, reportFormat), { credentials: "include" });
+  if (!res.ok) {
+    const text = (await res.text()) || res.statusText;
+    throw new Error(`${res.status}: ${text}`);
+  }
+
+  const filename = res.headers.get("Content-Disposition")?.match(/filename="([^"]+)"/)?.[1] ??
+    `${type}-report.${reportFormat}`;
+  const url = URL.createObjectURL(await res.blob());
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
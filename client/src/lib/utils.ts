@@ -90,6 +90,78 @@ export function getRoleName(role: string): string {
   return nameMap[role] || role;
 }
 
+export function getMovementTypeName(type: string): string {
+  const nameMap: Record<string, string> = {
+    'allocation': 'Allocation',
+    'return': 'Return',
+    'transfer': 'Transfer',
+    'adjustment_in': 'Adjustment (+)',
+    'adjustment_out': 'Adjustment (-)',
+    'write_off': 'Write-off',
+    'reversal': 'Reversal'
+  };
+  
+  return nameMap[type] || type;
+}
+
+export function getMovementTypeColor(type: string): string {
+  const colorMap: Record<string, string> = {
+    'allocation': 'bg-blue-100 text-blue-800',
+    'return': 'bg-green-100 text-green-800',
+    'transfer': 'bg-purple-100 text-purple-800',
+    'adjustment_in': 'bg-gray-100 text-gray-800',
+    'adjustment_out': 'bg-gray-100 text-gray-800',
+    'write_off': 'bg-red-100 text-red-800',
+    'reversal': 'bg-yellow-100 text-yellow-800'
+  };
+  
+  return colorMap[type] || 'bg-gray-100 text-gray-800';
+}
+
+export function getRequestStatusName(status: string): string {
+  const nameMap: Record<string, string> = {
+    'pending': 'Pending',
+    'approved': 'Approved',
+    'partially_approved': 'Partially Approved',
+    'rejected': 'Rejected',
+    'cancelled': 'Cancelled'
+  };
+  
+  return nameMap[status] || status;
+}
+
+export function getRequestStatusColor(status: string): string {
+  const colorMap: Record<string, string> = {
+    'pending': 'bg-yellow-100 text-yellow-800',
+    'approved': 'bg-green-100 text-green-800',
+    'partially_approved': 'bg-blue-100 text-blue-800',
+    'rejected': 'bg-red-100 text-red-800',
+    'cancelled': 'bg-gray-100 text-gray-800'
+  };
+  
+  return colorMap[status] || 'bg-gray-100 text-gray-800';
+}
+
+// Names the two ends of a stock movement. Ends without a user are central
+// inventory, or stock entering or leaving the system.
+export function getMovementEndpoints(
+  movement: { type: string; fromUserId: number | null; toUserId: number | null },
+  getUserName: (userId: number) => string
+): { from: string; to: string } {
+  const from = movement.fromUserId
+    ? getUserName(movement.fromUserId)
+    : movement.type === 'adjustment_in' ? 'Stock Adjustment' : 'Central Warehouse';
+  const to = movement.toUserId
+    ? getUserName(movement.toUserId)
+    : movement.type === 'write_off' ? 'Written Off'
+    : movement.type === 'adjustment_out' ? 'Stock Adjustment' : 'Central Warehouse';
+  return { from, to };
+}
+
+export function formatFileSize(bytes: number): string {
+  return bytes < 1024 * 1024 ? `${Math.ceil(bytes / 1024)} KB` : `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
 export function truncateText(text: string, maxLength: number = 30): string {
   if (!text) return '';
   return text.length > maxLength ? text.slice(0, maxLength) + '...' : text;
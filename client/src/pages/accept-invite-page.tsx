@@ -0,0 +1,166 @@
+import { useState } from "react";
+import { useLocation, useParams } from "wouter";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { CurrentUser, InvitationDetails, PasswordPolicy } from "@shared/schema";
+import { passwordPolicyProblems } from "@shared/passwords";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { getRoleName } from "@/lib/utils";
+import { PasswordRules } from "@/components/auth/change-password-form";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { AlertCircle, FlaskRound } from "lucide-react";
+
+// Setting up an account from an emailed invitation. The role, region and
+// specialty were chosen by whoever sent it; the invitee picks a username and
+// password, and is signed in.
+export default function AcceptInvitePage() {
+  const { token } = useParams<{ token: string }>();
+  const [, navigate] = useLocation();
+  const [username, setUsername] = useState("");
+  const [password, setPassword] = useState("");
+  const [confirmPassword, setConfirmPassword] = useState("");
+
+  const { data: invitation, error, isLoading } = useQuery<InvitationDetails>({
+    queryKey: [`/api/invites/${token}`],
+  });
+
+  const { data: policy } = useQuery<PasswordPolicy>({
+    queryKey: ["/api/password-policy"],
+  });
+
+  const acceptMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/invites/${token}/accept`, { username, password });
+      return (await res.json()) as CurrentUser;
+    },
+    onSuccess: (user) => {
+      queryClient.setQueryData(["/api/user"], user);
+      navigate("/");
+    },
+  });
+
+  const problems = policy ? passwordPolicyProblems(password, policy) : [];
+  const matches = password.length > 0 && password === confirmPassword;
+  const canSubmit = username.trim().length >= 3 && problems.length === 0 && matches;
+
+  let content: React.ReactNode;
+  if (isLoading) {
+    content = <div className="text-center py-10 text-gray-500">Loading invitation...</div>;
+  } else if (error || !invitation) {
+    const gone = error?.message.startsWith("410");
+    content = (
+      <Card className="w-full max-w-md mx-auto">
+        <CardContent className="pt-6">
+          <div className="flex mb-4 gap-2 items-center">
+            <AlertCircle className="h-6 w-6 text-red-500" />
+            <h1 className="text-xl font-bold text-gray-900">
+              {gone ? "Invitation no longer available" : "Invitation not found"}
+            </h1>
+          </div>
+          <p className="text-sm text-gray-600">
+            {gone
+              ? "This invitation has expired, been withdrawn or already been used. Ask your administrator for a new one."
+              : "This link is not valid. Check that it was copied in full."}
+          </p>
+        </CardContent>
+      </Card>
+    );
+  } else {
+    content = (
+      <Card className="w-full max-w-md mx-auto">
+        <CardHeader>
+          <CardTitle>Welcome, {invitation.name}</CardTitle>
+          <CardDescription>Choose a username and password to set up your account.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <dl className="mb-6 grid grid-cols-2 gap-2 rounded-lg border bg-gray-50 p-4 text-sm">
+            <dt className="text-gray-500">Email</dt>
+            <dd className="text-gray-900 break-all">{invitation.email}</dd>
+            <dt className="text-gray-500">Role</dt>
+            <dd className="text-gray-900">{getRoleName(invitation.role)}</dd>
+            {invitation.region && (
+              <>
+                <dt className="text-gray-500">Region</dt>
+                <dd className="text-gray-900">{invitation.region}</dd>
+              </>
+            )}
+            {invitation.specialty && (
+              <>
+                <dt className="text-gray-500">Specialty</dt>
+                <dd className="text-gray-900">{invitation.specialty}</dd>
+              </>
+            )}
+          </dl>
+
+          <form
+            className="space-y-4"
+            onSubmit={(e) => {
+              e.preventDefault();
+              if (canSubmit) acceptMutation.mutate();
+            }}
+          >
+            <div className="space-y-2">
+              <Label htmlFor="invite-username">Username</Label>
+              <Input
+                id="invite-username"
+                autoComplete="username"
+                value={username}
+                onChange={(e) => setUsername(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="invite-password">Password</Label>
+              <Input
+                id="invite-password"
+                type="password"
+                autoComplete="new-password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="invite-confirm-password">Confirm password</Label>
+              <Input
+                id="invite-confirm-password"
+                type="password"
+                autoComplete="new-password"
+                value={confirmPassword}
+                onChange={(e) => setConfirmPassword(e.target.value)}
+              />
+              {confirmPassword.length > 0 && !matches && (
+                <p className="text-sm text-red-600">Passwords don't match</p>
+              )}
+            </div>
+
+            <PasswordRules password={password} policy={policy} />
+
+            {acceptMutation.isError && (
+              <p className="text-sm text-red-600">{acceptMutation.error.message}</p>
+            )}
+            <Button type="submit" className="w-full" disabled={!canSubmit || acceptMutation.isPending}>
+              {acceptMutation.isPending ? "Setting up..." : "Create Account"}
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="flex items-center h-16 px-6 bg-white border-b">
+        <FlaskRound className="w-8 h-8 text-primary" />
+        <span className="ml-2 text-xl font-semibold text-gray-800">PharmStock</span>
+      </div>
+      <div className="max-w-6xl mx-auto p-6">{content}</div>
+    </div>
+  );
+}
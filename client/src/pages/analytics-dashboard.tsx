@@ -6,7 +6,7 @@ import { ResponsiveContainer, LineChart, Line, BarChart, Bar, PieChart, Pie, XAx
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Select, SelectContent, SelectGroup, SelectItem, SelectLabel, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useQuery } from "@tanstack/react-query";
-import { StockItem, StockMovement, User, Category } from "@shared/schema";
+import { StockItem, StockMovement, User, Category, ExpiringLot } from "@shared/schema";
 import { Loader2, Download, ArrowDownRight, ArrowRight, ArrowUpRight, Package, MoveHorizontal, Users, Calendar, Truck, AlertTriangle, FileText, FileDown, Table } from "lucide-react";
 import { Progress } from "@/components/ui/progress";
 import { getExpiryStatus } from "@/lib/utils";
@@ -42,7 +42,7 @@ export default function AnalyticsDashboard() {
     queryKey: ["/api/users"],
   });
 
-  const { data: expiringItems = [] } = useQuery<StockItem[]>({
+  const { data: expiringItems = [] } = useQuery<ExpiringLot[]>({
     queryKey: ["/api/stock-items/expiring"],
   });
 
@@ -88,10 +88,9 @@ export default function AnalyticsDashboard() {
       }
 
       const entry = monthlyData.get(monthKey);
-      // Determine type based on userId fields - if fromUserId exists, it's a return; otherwise allocation
-      if (movement.fromUserId === null) {
+      if (movement.type === 'allocation') {
         entry.out += movement.quantity; // Allocation (going out)
-      } else {
+      } else if (movement.type === 'return') {
         entry.in += movement.quantity;  // Return (coming in)
       }
 
@@ -182,10 +181,9 @@ export default function AnalyticsDashboard() {
       entry.totalMovements += 1;
       entry.totalQuantity += movement.quantity;
 
-      // Similar to before, determine movement type based on userId fields
-      if (movement.fromUserId === null) {
+      if (movement.type === 'allocation') {
         entry.allocations += movement.quantity; // Allocation (going out)
-      } else {
+      } else if (movement.type === 'return') {
         entry.returns += movement.quantity;     // Return (coming in)
       }
     });
@@ -211,7 +209,8 @@ export default function AnalyticsDashboard() {
     const totalItems = stockItems.length;
     const lowStockItems = stockItems.filter(item => item.quantity < 10).length;
     const outOfStockItems = stockItems.filter(item => item.quantity === 0).length;
-    const expiringItemsCount = expiringItems.length;
+    // Several lots of one item may be expiring; count each item once
+    const expiringItemsCount = new Set(expiringItems.map(lot => lot.id)).size;
 
     const lowStockPercentage = Math.round((lowStockItems / totalItems) * 100);
     const expiringPercentage = Math.round((expiringItemsCount / totalItems) * 100);
@@ -219,7 +218,7 @@ export default function AnalyticsDashboard() {
 
     // Calculate inventory turnover rate (simplified)
     const totalAllocated = timeFilteredMovements
-      .filter(m => m.fromUserId === null) // Only allocations (outgoing)
+      .filter(m => m.type === 'allocation') // Only allocations (outgoing)
       .reduce((sum, m) => sum + m.quantity, 0);
 
     const avgInventory = stockItems.reduce((sum, item) => sum + item.quantity, 0) / 2; // Simplified average
@@ -269,7 +268,7 @@ export default function AnalyticsDashboard() {
       .map(item => {
         const movementsForItem = timeFilteredMovements.filter(m => m.stockItemId === item.id);
         const allocationRate = movementsForItem
-          .filter(m => m.fromUserId === null) // Only count outgoing movements
+          .filter(m => m.type === 'allocation') // Only count outgoing movements
           .reduce((sum, m) => sum + m.quantity, 0) / (timeRange === '1m' ? 1 : timeRange === '3m' ? 3 : timeRange === '6m' ? 6 : 12);
 
         const recommendedRestock = Math.ceil(allocationRate * 2); // 2 months supply
@@ -7,7 +7,7 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
-import { StockItem, Category, User, StockMovement, ROLE_PERMISSIONS } from "@shared/schema";
+import { StockItem, Category, User, StockMovement, ExpiringLot, ROLE_PERMISSIONS } from "@shared/schema";
 import { useAuth } from "@/hooks/use-auth";
 import { cn, formatDate, getExpiryStatus, getExpiryStatusColor, getCategoryColorClass, getPlaceholderAvatar } from "@/lib/utils";
 import { Button } from "@/components/ui/button";
@@ -48,7 +48,7 @@ export default function DashboardPage() {
     queryKey: ["/api/users"],
   });
 
-  const { data: expiringItems = [] } = useQuery<StockItem[]>({
+  const { data: expiringItems = [] } = useQuery<ExpiringLot[]>({
     queryKey: ["/api/stock-items/expiring", { days: 30 }],
   });
 
@@ -215,7 +215,7 @@ export default function DashboardPage() {
 
         <StatsCard
           icon={Clock}
-          title="Expiring Soon"
+          title="Lots Expiring Soon"
           value={expiringItemsCount}
           change={{ value: "8%", isPositive: false, text: "from last month" }}
           iconColor="bg-yellow-100 text-yellow-600"
@@ -256,7 +256,7 @@ export default function DashboardPage() {
         {/* Expiring Items Table */}
         <Card className="lg:col-span-2">
           <CardHeader className="px-6 py-5 border-b border-gray-200 flex justify-between items-center">
-            <CardTitle className="text-lg font-medium">Expiring Items</CardTitle>
+            <CardTitle className="text-lg font-medium">Expiring Lots</CardTitle>
             <Button variant="link" className="text-sm text-primary">
               View All
             </Button>
@@ -268,6 +268,7 @@ export default function DashboardPage() {
                   <TableRow>
                     <TableHead>Item Name</TableHead>
                     <TableHead>Category</TableHead>
+                    <TableHead>Lot</TableHead>
                     <TableHead>Expiry Date</TableHead>
                     <TableHead>Quantity</TableHead>
                     <TableHead>Status</TableHead>
@@ -281,7 +282,7 @@ export default function DashboardPage() {
                     const daysRemaining = item.expiry ? Math.ceil((new Date(item.expiry).getTime() - new Date().getTime()) / (1000 * 3600 * 24)) : null;
                     
                     return (
-                      <TableRow key={item.id}>
+                      <TableRow key={item.lotId}>
                         <TableCell>
                           <div className="flex items-center">
                             <div className="h-10 w-10 flex-shrink-0">
@@ -306,6 +307,9 @@ export default function DashboardPage() {
                         <TableCell>
                           <div className="text-sm text-gray-900">{category.name}</div>
                         </TableCell>
+                        <TableCell>
+                          <div className="text-sm text-gray-900">{item.lotNumber}</div>
+                        </TableCell>
                         <TableCell>
                           <div className="text-sm text-gray-900">{formatDate(item.expiry)}</div>
                           {daysRemaining !== null && (
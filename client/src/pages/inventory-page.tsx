@@ -1,9 +1,14 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { MainLayout } from "@/components/layout/main-layout";
+import { ListPagination } from "@/components/layout/list-pagination";
 import { StockItemCard } from "@/components/stock/stock-item-card";
 import { StockItemForm } from "@/components/stock/stock-item-form";
+import { StockImportDialog } from "@/components/stock/stock-import-dialog";
+import { StockLotList } from "@/components/stock/stock-lot-list";
+import { AuditHistory } from "@/components/audit/audit-history";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
 import { Badge } from "@/components/ui/badge";
 import {
   Card,
@@ -47,17 +52,28 @@ import {
   AlertDialogHeader,
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { 
   StockItem, 
   Category, 
+  Specialty,
   StockMovement,
-  User
+  User,
+  Page,
+  StockItemQuery
 } from "@shared/schema";
 import { useAuth } from "@/hooks/use-auth";
-import { useQuery, useMutation } from "@tanstack/react-query";
+import { useDebouncedValue } from "@/hooks/use-debounced-value";
+import { useQuery, useMutation, keepPreviousData } from "@tanstack/react-query";
+import { useSearch } from "wouter";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
-import { cn, formatDate, calculateDaysRemaining, getExpiryStatus, getExpiryStatusColor, getCategoryColorClass } from "@/lib/utils";
+import { cn, formatDate, calculateDaysRemaining, getExpiryStatus, getExpiryStatusColor, getCategoryColorClass, getMovementEndpoints, getMovementTypeName, getMovementTypeColor } from "@/lib/utils";
 import { 
   LayoutGrid, 
   List, 
@@ -69,39 +85,115 @@ import {
   Trash2,
   ArrowLeftRight,
   Package,
-  QrCode
+  QrCode,
+  Upload
 } from "lucide-react";
 import { BarcodeActions } from "@/components/barcode/barcode-actions";
 
+// Divides evenly across the two, three and four column grid layouts
+const PAGE_SIZE = 24;
+
+const SORT_OPTIONS: { value: string; label: string }[] = [
+  { value: "name:asc", label: "Name (A–Z)" },
+  { value: "name:desc", label: "Name (Z–A)" },
+  { value: "quantity:asc", label: "Lowest quantity" },
+  { value: "quantity:desc", label: "Highest quantity" },
+  { value: "expiry:asc", label: "Expiring soonest" },
+  { value: "createdAt:desc", label: "Newest first" },
+];
+
 export default function InventoryPage() {
   const { user, hasPermission } = useAuth();
   const { toast } = useToast();
   const [view, setView] = useState<"grid" | "list">("grid");
   const [searchQuery, setSearchQuery] = useState("");
   const [filterCategory, setFilterCategory] = useState("all");
+  const [filterSpecialty, setFilterSpecialty] = useState("all");
+  const [filterExpiry, setFilterExpiry] = useState("any");
+  const [minQuantity, setMinQuantity] = useState("");
+  const [maxQuantity, setMaxQuantity] = useState("");
+  const [sort, setSort] = useState("name:asc");
+  const [page, setPage] = useState(1);
   const [showAddItemModal, setShowAddItemModal] = useState(false);
+  const [showImportModal, setShowImportModal] = useState(false);
   const [showViewItemModal, setShowViewItemModal] = useState(false);
   const [showEditItemModal, setShowEditItemModal] = useState(false);
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
   const [currentItem, setCurrentItem] = useState<StockItem | null>(null);
 
-  // Fetch data
-  const { data: stockItems = [], isLoading: isLoadingItems } = useQuery<StockItem[]>({
-    queryKey: ["/api/stock-items"],
+  // Global search results link here with the filters to apply
+  const urlSearch = useSearch();
+  useEffect(() => {
+    if (!urlSearch) return;
+    const params = new URLSearchParams(urlSearch);
+    setSearchQuery(params.get("search") ?? "");
+    setFilterCategory(params.get("categoryId") ?? "all");
+    setFilterSpecialty(params.get("specialtyId") ?? "all");
+    setFilterExpiry("any");
+    setMinQuantity("");
+    setMaxQuantity("");
+    setPage(1);
+  }, [urlSearch]);
+
+  const search = useDebouncedValue(searchQuery.trim());
+  const [sortField, sortOrder] = sort.split(":") as [StockItemQuery["sort"], "asc" | "desc"];
+
+  // Filtering, sorting and paging happen on the server
+  const { data: itemPage, isLoading: isLoadingItems } = useQuery<Page<StockItem>>({
+    queryKey: ["/api/stock-items", {
+      search,
+      categoryId: filterCategory === "all" ? undefined : filterCategory,
+      specialtyId: filterSpecialty === "all" ? undefined : filterSpecialty,
+      expiresWithin: filterExpiry === "any" ? undefined : filterExpiry,
+      minQuantity,
+      maxQuantity,
+      sort: sortField,
+      order: sortOrder,
+      page,
+      pageSize: PAGE_SIZE,
+    }],
+    placeholderData: keepPreviousData,
   });
+  const stockItems = itemPage?.items ?? [];
+
+  // Deleting the only item on the last page leaves nothing to show there
+  useEffect(() => {
+    if (itemPage && itemPage.items.length === 0 && itemPage.page > 1) {
+      setPage(itemPage.page - 1);
+    }
+  }, [itemPage]);
 
   const { data: categories = [] } = useQuery<Category[]>({
     queryKey: ["/api/categories"],
   });
 
+  const { data: specialties = [] } = useQuery<Specialty[]>({
+    queryKey: ["/api/specialties"],
+  });
+
   const { data: users = [] } = useQuery<User[]>({
     queryKey: ["/api/users"],
   });
 
-  const { data: movements = [] } = useQuery<StockMovement[]>({
-    queryKey: ["/api/movements"],
+  const { data: itemMovements = [] } = useQuery<StockMovement[]>({
+    queryKey: ["/api/movements", { stockItemId: currentItem?.id }],
+    enabled: showViewItemModal && currentItem !== null,
   });
 
+  // Changing a filter or the order starts again from the first page
+  const changeFilter = <T,>(set: (value: T) => void) => (value: T) => {
+    set(value);
+    setPage(1);
+  };
+
+  const moreFilterCount = [
+    filterSpecialty !== "all",
+    filterExpiry !== "any",
+    minQuantity !== "",
+    maxQuantity !== "",
+  ].filter(Boolean).length;
+  const hasFilters = searchQuery.trim() !== "" || filterCategory !== "all" || moreFilterCount > 0;
+
   // Mutations
   const createItemMutation = useMutation({
     mutationFn: async (formData: FormData) => {
@@ -130,8 +222,10 @@ export default function InventoryPage() {
       const res = await apiRequest("PUT", `/api/stock-items/${id}`, formData, true);
       return await res.json();
     },
-    onSuccess: () => {
+    onSuccess: (_data, { id }) => {
       queryClient.invalidateQueries({ queryKey: ["/api/stock-items"] });
+      queryClient.invalidateQueries({ queryKey: [`/api/stock-items/${id}/lots`] });
+      queryClient.invalidateQueries({ queryKey: ["/api/stock-items/expiring"] });
       setShowEditItemModal(false);
       toast({
         title: "Success",
@@ -168,29 +262,6 @@ export default function InventoryPage() {
     },
   });
 
-  // Filtered items
-  const filteredItems = stockItems.filter(item => {
-    // Category filter
-    if (filterCategory !== "all" && item.categoryId !== parseInt(filterCategory)) {
-      return false;
-    }
-    
-    // Search filter
-    if (searchQuery.trim()) {
-      const query = searchQuery.toLowerCase();
-      const category = categories.find(c => c.id === item.categoryId);
-      const categoryName = category ? category.name.toLowerCase() : "";
-      
-      return (
-        item.name.toLowerCase().includes(query) ||
-        (item.uniqueNumber?.toLowerCase().includes(query)) ||
-        categoryName.includes(query)
-      );
-    }
-    
-    return true;
-  });
-
   // Get category by id
   const getCategoryById = (categoryId: number) => {
     return categories.find(cat => cat.id === categoryId) || { id: 0, name: "Unknown", color: "bg-gray-500" };
@@ -228,11 +299,6 @@ export default function InventoryPage() {
     }
   };
 
-  // Get stock movement history for an item
-  const getItemMovementHistory = (itemId: number) => {
-    return movements.filter(m => m.stockItemId === itemId);
-  };
-
   // Functions to resolve relations
   const getUserName = (userId: number | null) => {
     if (!userId) return "Central Warehouse";
@@ -241,7 +307,7 @@ export default function InventoryPage() {
   };
 
   return (
-    <MainLayout onSearch={setSearchQuery}>
+    <MainLayout>
       <div className="flex justify-between items-center mb-6">
         <h2 className="text-2xl font-bold text-gray-800">Inventory Management</h2>
         
@@ -263,6 +329,13 @@ export default function InventoryPage() {
             <List className="h-5 w-5" />
           </Button>
           
+          {hasPermission("canAddItems") && (
+            <Button variant="outline" onClick={() => setShowImportModal(true)}>
+              <Upload className="mr-2 h-4 w-4" />
+              Import
+            </Button>
+          )}
+
           {hasPermission("canAddItems") && (
             <Button onClick={() => setShowAddItemModal(true)}>
               <Plus className="mr-2 h-4 w-4" />
@@ -280,7 +353,7 @@ export default function InventoryPage() {
               <div className="relative flex-1">
                 <Input
                   value={searchQuery}
-                  onChange={(e) => setSearchQuery(e.target.value)}
+                  onChange={(e) => changeFilter(setSearchQuery)(e.target.value)}
                   placeholder="Search items..."
                   className="pl-10 w-full"
                 />
@@ -288,7 +361,7 @@ export default function InventoryPage() {
               </div>
               <BarcodeActions 
                 onScan={(data) => {
-                  setSearchQuery(data);
+                  changeFilter(setSearchQuery)(data);
                 }}
                 buttonVariant="outline"
                 buttonSize="default"
@@ -299,7 +372,7 @@ export default function InventoryPage() {
             <div className="flex flex-wrap space-x-2">
               <Select
                 value={filterCategory}
-                onValueChange={setFilterCategory}
+                onValueChange={changeFilter(setFilterCategory)}
               >
                 <SelectTrigger className="w-[180px]">
                   <SelectValue placeholder="Category" />
@@ -314,10 +387,102 @@ export default function InventoryPage() {
                 </SelectContent>
               </Select>
               
-              <Button variant="outline">
-                <Filter className="mr-2 h-4 w-4" />
-                More Filters
-              </Button>
+              <Popover>
+                <PopoverTrigger asChild>
+                  <Button variant="outline">
+                    <Filter className="mr-2 h-4 w-4" />
+                    More Filters
+                    {moreFilterCount > 0 && (
+                      <Badge variant="secondary" className="ml-2">{moreFilterCount}</Badge>
+                    )}
+                  </Button>
+                </PopoverTrigger>
+                <PopoverContent align="end" className="w-72 space-y-4">
+                  <div className="space-y-2">
+                    <Label>Specialty</Label>
+                    <Select value={filterSpecialty} onValueChange={changeFilter(setFilterSpecialty)}>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Specialty" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="all">All Specialties</SelectItem>
+                        {specialties.map((specialty) => (
+                          <SelectItem key={specialty.id} value={specialty.id.toString()}>
+                            {specialty.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label>Expiry</Label>
+                    <Select value={filterExpiry} onValueChange={changeFilter(setFilterExpiry)}>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Expiry" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="any">Any expiry</SelectItem>
+                        <SelectItem value="0">Already expired</SelectItem>
+                        <SelectItem value="30">Within 30 days</SelectItem>
+                        <SelectItem value="90">Within 90 days</SelectItem>
+                        <SelectItem value="180">Within 180 days</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label>Quantity</Label>
+                    <div className="flex items-center space-x-2">
+                      <Input
+                        type="number"
+                        min={0}
+                        placeholder="Min"
+                        value={minQuantity}
+                        onChange={(e) => changeFilter(setMinQuantity)(e.target.value)}
+                      />
+                      <span className="text-gray-400">–</span>
+                      <Input
+                        type="number"
+                        min={0}
+                        placeholder="Max"
+                        value={maxQuantity}
+                        onChange={(e) => changeFilter(setMaxQuantity)(e.target.value)}
+                      />
+                    </div>
+                  </div>
+
+                  {moreFilterCount > 0 && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="w-full"
+                      onClick={() => {
+                        setFilterSpecialty("all");
+                        setFilterExpiry("any");
+                        setMinQuantity("");
+                        setMaxQuantity("");
+                        setPage(1);
+                      }}
+                    >
+                      Clear filters
+                    </Button>
+                  )}
+                </PopoverContent>
+              </Popover>
+
+              <Select value={sort} onValueChange={changeFilter(setSort)}>
+                <SelectTrigger className="w-[180px]">
+                  <SelectValue placeholder="Sort by" />
+                </SelectTrigger>
+                <SelectContent>
+                  {SORT_OPTIONS.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
             </div>
           </div>
         </CardContent>
@@ -331,13 +496,13 @@ export default function InventoryPage() {
       )}
       
       {/* Empty state */}
-      {!isLoadingItems && filteredItems.length === 0 && (
+      {!isLoadingItems && stockItems.length === 0 && (
         <Card className="py-10">
           <CardContent className="flex flex-col items-center justify-center text-center p-6">
             <Package className="h-16 w-16 text-gray-300 mb-4" />
             <h3 className="text-xl font-medium text-gray-700 mb-2">No items found</h3>
             <p className="text-gray-500 mb-6 max-w-md">
-              {searchQuery || filterCategory !== "all" 
+              {hasFilters
                 ? "Try adjusting your search or filters to find what you're looking for"
                 : "Start by adding some stock items to your inventory"}
             </p>
@@ -352,9 +517,9 @@ export default function InventoryPage() {
       )}
       
       {/* Grid View */}
-      {!isLoadingItems && filteredItems.length > 0 && view === "grid" && (
+      {!isLoadingItems && stockItems.length > 0 && view === "grid" && (
         <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6">
-          {filteredItems.map((item) => (
+          {stockItems.map((item) => (
             <StockItemCard
               key={item.id}
               item={item}
@@ -368,7 +533,7 @@ export default function InventoryPage() {
       )}
       
       {/* List View */}
-      {!isLoadingItems && filteredItems.length > 0 && view === "list" && (
+      {!isLoadingItems && stockItems.length > 0 && view === "list" && (
         <div className="bg-white rounded-lg shadow overflow-hidden">
           <Table>
             <TableHeader>
@@ -382,7 +547,7 @@ export default function InventoryPage() {
               </TableRow>
             </TableHeader>
             <TableBody>
-              {filteredItems.map((item) => {
+              {stockItems.map((item) => {
                 const category = getCategoryById(item.categoryId);
                 
                 return (
@@ -476,6 +641,17 @@ export default function InventoryPage() {
         </div>
       )}
       
+      {itemPage && itemPage.total > 0 && (
+        <ListPagination
+          page={itemPage.page}
+          pageSize={itemPage.pageSize}
+          total={itemPage.total}
+          onPageChange={setPage}
+        />
+      )}
+
+      <StockImportDialog open={showImportModal} onOpenChange={setShowImportModal} />
+
       {/* Add Item Modal */}
       <Dialog open={showAddItemModal} onOpenChange={setShowAddItemModal}>
         <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto sm:max-w-2xl">
@@ -509,106 +685,126 @@ export default function InventoryPage() {
           </DialogHeader>
           
           {currentItem && (
-            <div className="mt-4 py-2">
-              <div className="flex flex-col sm:flex-row">
-                <div className="mb-4 sm:mb-0 sm:mr-4">
-                  {currentItem.imageUrl ? (
-                    <img
-                      src={currentItem.imageUrl}
-                      alt={currentItem.name}
-                      className="w-full sm:w-40 h-40 object-cover rounded"
-                    />
-                  ) : (
-                    <div className="w-full sm:w-40 h-40 rounded bg-gray-200 flex items-center justify-center">
-                      <Package className="h-10 w-10 text-gray-500" />
-                    </div>
-                  )}
-                </div>
-                <div className="flex-1">
-                  <dl className="grid grid-cols-1 gap-x-4 gap-y-4 sm:grid-cols-2">
-                    <div>
-                      <dt className="text-sm font-medium text-gray-500">Category</dt>
-                      <dd className="mt-1 text-sm text-gray-900">
-                        {getCategoryById(currentItem.categoryId).name}
-                      </dd>
-                    </div>
-                    <div>
-                      <dt className="text-sm font-medium text-gray-500">Unique Number</dt>
-                      <dd className="mt-1 text-sm text-gray-900">
-                        {currentItem.uniqueNumber || "—"}
-                      </dd>
-                    </div>
-                    <div>
-                      <dt className="text-sm font-medium text-gray-500">Quantity</dt>
-                      <dd className="mt-1 text-sm text-gray-900">{currentItem.quantity}</dd>
-                    </div>
-                    <div>
-                      <dt className="text-sm font-medium text-gray-500">Price</dt>
-                      <dd className="mt-1 text-sm text-gray-900">${currentItem.price ? (currentItem.price / 100).toFixed(2) : '0.00'}</dd>
-                    </div>
-                    <div>
-                      <dt className="text-sm font-medium text-gray-500">Expiry Date</dt>
-                      <dd className="mt-1 text-sm text-gray-900 flex items-center">
-                        {formatDate(currentItem.expiry)}
-                        {currentItem.expiry && (
-                          <Badge variant="outline" className={cn(
-                            "ml-2",
-                            getExpiryStatusColor(getExpiryStatus(currentItem.expiry))
-                          )}>
-                            {getExpiryStatus(currentItem.expiry) === 'expired' 
-                              ? 'Expired' 
-                              : `${calculateDaysRemaining(currentItem.expiry)} days`
-                            }
-                          </Badge>
-                        )}
-                      </dd>
-                    </div>
-                    {currentItem.notes && (
-                      <div className="sm:col-span-2">
-                        <dt className="text-sm font-medium text-gray-500">Notes</dt>
-                        <dd className="mt-1 text-sm text-gray-900 whitespace-pre-wrap">{currentItem.notes}</dd>
+            <Tabs defaultValue="details" className="mt-4">
+              {hasPermission("canEditItems") && (
+                <TabsList>
+                  <TabsTrigger value="details">Details</TabsTrigger>
+                  <TabsTrigger value="history">History</TabsTrigger>
+                </TabsList>
+              )}
+
+              <TabsContent value="details" className="py-2">
+                <div className="flex flex-col sm:flex-row">
+                  <div className="mb-4 sm:mb-0 sm:mr-4">
+                    {currentItem.imageUrl ? (
+                      <img
+                        src={currentItem.imageUrl}
+                        alt={currentItem.name}
+                        className="w-full sm:w-40 h-40 object-cover rounded"
+                      />
+                    ) : (
+                      <div className="w-full sm:w-40 h-40 rounded bg-gray-200 flex items-center justify-center">
+                        <Package className="h-10 w-10 text-gray-500" />
                       </div>
                     )}
-                  </dl>
+                  </div>
+                  <div className="flex-1">
+                    <dl className="grid grid-cols-1 gap-x-4 gap-y-4 sm:grid-cols-2">
+                      <div>
+                        <dt className="text-sm font-medium text-gray-500">Category</dt>
+                        <dd className="mt-1 text-sm text-gray-900">
+                          {getCategoryById(currentItem.categoryId).name}
+                        </dd>
+                      </div>
+                      <div>
+                        <dt className="text-sm font-medium text-gray-500">Unique Number</dt>
+                        <dd className="mt-1 text-sm text-gray-900">
+                          {currentItem.uniqueNumber || "—"}
+                        </dd>
+                      </div>
+                      <div>
+                        <dt className="text-sm font-medium text-gray-500">Quantity</dt>
+                        <dd className="mt-1 text-sm text-gray-900">{currentItem.quantity}</dd>
+                      </div>
+                      <div>
+                        <dt className="text-sm font-medium text-gray-500">Price</dt>
+                        <dd className="mt-1 text-sm text-gray-900">${currentItem.price ? (currentItem.price / 100).toFixed(2) : '0.00'}</dd>
+                      </div>
+                      <div>
+                        <dt className="text-sm font-medium text-gray-500">Expiry Date</dt>
+                        <dd className="mt-1 text-sm text-gray-900 flex items-center">
+                          {formatDate(currentItem.expiry)}
+                          {currentItem.expiry && (
+                            <Badge variant="outline" className={cn(
+                              "ml-2",
+                              getExpiryStatusColor(getExpiryStatus(currentItem.expiry))
+                            )}>
+                              {getExpiryStatus(currentItem.expiry) === 'expired' 
+                                ? 'Expired' 
+                                : `${calculateDaysRemaining(currentItem.expiry)} days`
+                              }
+                            </Badge>
+                          )}
+                        </dd>
+                      </div>
+                      {currentItem.notes && (
+                        <div className="sm:col-span-2">
+                          <dt className="text-sm font-medium text-gray-500">Notes</dt>
+                          <dd className="mt-1 text-sm text-gray-900 whitespace-pre-wrap">{currentItem.notes}</dd>
+                        </div>
+                      )}
+                    </dl>
+                  </div>
                 </div>
-              </div>
-              
-              <div className="mt-6">
-                <h4 className="text-sm font-medium text-gray-700 mb-2">Stock Movement History</h4>
-                <div className="mt-2 border rounded-md overflow-x-auto">
-                  {getItemMovementHistory(currentItem.id).length > 0 ? (
-                    <ul className="divide-y divide-gray-200">
-                      {getItemMovementHistory(currentItem.id).map((movement) => (
-                        <li key={movement.id} className="px-4 py-3">
-                          <div className="flex flex-col sm:flex-row sm:justify-between">
-                            <div>
-                              <span className="text-sm font-medium text-gray-900">
-                                {getUserName(movement.fromUserId)} → {getUserName(movement.toUserId)}
-                              </span>
-                              <p className="text-sm text-gray-500">
-                                {movement.notes || "No notes"}
-                              </p>
-                            </div>
-                            <div className="text-left sm:text-right mt-1 sm:mt-0">
-                              <span className="text-sm text-gray-500">
-                                {formatDate(movement.movedAt)}
-                              </span>
-                              <p className="text-sm font-medium text-gray-900">
-                                Qty: {movement.quantity}
-                              </p>
+                
+                <div className="mt-6">
+                  <StockLotList stockItemId={currentItem.id} />
+                </div>
+                
+                <div className="mt-6">
+                  <h4 className="text-sm font-medium text-gray-700 mb-2">Stock Movement History</h4>
+                  <div className="mt-2 border rounded-md overflow-x-auto">
+                    {itemMovements.length > 0 ? (
+                      <ul className="divide-y divide-gray-200">
+                        {itemMovements.map((movement) => (
+                          <li key={movement.id} className="px-4 py-3">
+                            <div className="flex flex-col sm:flex-row sm:justify-between">
+                              <div>
+                                <span className="text-sm font-medium text-gray-900">
+                                  {getMovementEndpoints(movement, getUserName).from} → {getMovementEndpoints(movement, getUserName).to}
+                                </span>
+                                <Badge variant="outline" className={cn("ml-2 text-xs", getMovementTypeColor(movement.type))}>
+                                  {getMovementTypeName(movement.type)}
+                                </Badge>
+                                <p className="text-sm text-gray-500">
+                                  {movement.notes || "No notes"}
+                                </p>
+                              </div>
+                              <div className="text-left sm:text-right mt-1 sm:mt-0">
+                                <span className="text-sm text-gray-500">
+                                  {formatDate(movement.movedAt)}
+                                </span>
+                                <p className="text-sm font-medium text-gray-900">
+                                  Qty: {movement.quantity}
+                                </p>
+                              </div>
                             </div>
-                          </div>
-                        </li>
-                      ))}
-                    </ul>
-                  ) : (
-                    <div className="px-4 py-3 text-sm text-gray-500">
-                      No movement history found
-                    </div>
-                  )}
+                          </li>
+                        ))}
+                      </ul>
+                    ) : (
+                      <div className="px-4 py-3 text-sm text-gray-500">
+                        No movement history found
+                      </div>
+                    )}
+                  </div>
                 </div>
-              </div>
-            </div>
+              </TabsContent>
+
+              <TabsContent value="history" className="py-2">
+                <AuditHistory entityType="stock_item" entityId={currentItem.id} />
+              </TabsContent>
+            </Tabs>
           )}
           
           <DialogFooter>
@@ -13,7 +13,8 @@ import {
   Scan,
   List,
   Search,
-  Plus
+  Plus,
+  Download
 } from "lucide-react";
 import { useAuth } from "@/hooks/use-auth";
 import { Button } from "@/components/ui/button";
@@ -21,8 +22,9 @@ import { Card, CardContent } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { useToast } from "@/hooks/use-toast";
 import { useQuery } from "@tanstack/react-query";
-import { StockItem, Category } from "@shared/schema";
+import { StockItem, Category, ReportType } from "@shared/schema";
 import { getExpiryStatus, getExpiryStatusColor, truncateText } from "@/lib/utils";
+import { REPORT_TYPE_NAMES, downloadReport } from "@/lib/reports";
 import { MobileScanner } from "@/components/barcode/mobile-scanner";
 import { Progress } from "@/components/ui/progress";
 import { ScrollArea } from "@/components/ui/scroll-area";
@@ -351,26 +353,55 @@ function MobileScannerPage() {
 
 // Mobile Reports component
 function MobileReports() {
-  const reportTypes = [
-    { title: "Inventory Status", icon: <Package className="h-5 w-5 mr-3 text-primary" /> },
-    { title: "Stock Movement", icon: <RefreshCw className="h-5 w-5 mr-3 text-primary" /> },
-    { title: "Expiry Report", icon: <FileText className="h-5 w-5 mr-3 text-primary" /> },
-    { title: "Usage Analytics", icon: <BarChart3 className="h-5 w-5 mr-3 text-primary" /> }
+  const { toast } = useToast();
+  const [downloading, setDownloading] = useState<ReportType | null>(null);
+  const reportTypes: { type: ReportType; icon: React.ReactNode }[] = [
+    { type: "inventory", icon: <Package className="h-5 w-5 mr-3 text-primary" /> },
+    { type: "movement", icon: <RefreshCw className="h-5 w-5 mr-3 text-primary" /> },
+    { type: "expiry", icon: <FileText className="h-5 w-5 mr-3 text-primary" /> },
+    { type: "allocation", icon: <User className="h-5 w-5 mr-3 text-primary" /> },
+    { type: "specialty", icon: <BarChart3 className="h-5 w-5 mr-3 text-primary" /> }
   ];
+
+  // Same reports as the desktop page, over the server's default period
+  const handleDownload = async (type: ReportType) => {
+    setDownloading(type);
+    try {
+      await downloadReport(type, {}, "pdf");
+    } catch (error) {
+      toast({
+        title: "Failed to download report",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setDownloading(null);
+    }
+  };
   
   return (
     <div className="space-y-4 pb-16">
       <h2 className="text-xl font-bold">Reports</h2>
       <div className="space-y-3">
-        {reportTypes.map((report, index) => (
-          <Card key={index}>
+        {reportTypes.map((report) => (
+          <Card key={report.type}>
             <CardContent className="p-3 flex items-center justify-between">
               <div className="flex items-center">
                 {report.icon}
-                <span>{report.title}</span>
+                <span>{REPORT_TYPE_NAMES[report.type]}</span>
               </div>
-              <Button variant="ghost" size="icon" className="h-8 w-8">
-                <ChevronLeft className="h-4 w-4 rotate-180" />
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-8 w-8"
+                onClick={() => handleDownload(report.type)}
+                disabled={downloading !== null}
+              >
+                {downloading === report.type ? (
+                  <RefreshCw className="h-4 w-4 animate-spin" />
+                ) : (
+                  <Download className="h-4 w-4" />
+                )}
               </Button>
             </CardContent>
           </Card>
@@ -2,6 +2,7 @@ import { useState } from "react";
 import { MainLayout } from "@/components/layout/main-layout";
 import { ReportForm } from "@/components/reports/report-form";
 import { ReportShare } from "@/components/reports/report-share";
+import { ReportSubscriptions } from "@/components/reports/report-subscriptions";
 import { 
   FileDown, 
   FileText,
@@ -20,25 +21,28 @@ import {
 import { Button } from "@/components/ui/button";
 import { useAuth } from "@/hooks/use-auth";
 import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { REPORT_TYPE_NAMES, ReportSnapshot, downloadReport, getReportDates, getReportUrl } from "@/lib/reports";
 import { useQuery } from "@tanstack/react-query";
 import { 
   StockItem, 
   StockMovement, 
   Category,
-  User
+  ExpiringLot,
+  ReportFileFormat,
+  ReportType
 } from "@shared/schema";
 import Chart from 'chart.js/auto';
-import { jsPDF } from "jspdf";
 import { useEffect, useRef } from "react";
 
 export default function ReportsPage() {
   const { user } = useAuth();
   const { toast } = useToast();
   const [isGeneratingReport, setIsGeneratingReport] = useState(false);
-  const [reportType, setReportType] = useState("inventory");
+  const [reportType, setReportType] = useState<ReportType>("inventory");
   const [dateRange, setDateRange] = useState("month");
   const [isShareDialogOpen, setIsShareDialogOpen] = useState(false);
-  const [currentReportData, setCurrentReportData] = useState<any[][]>([]);
+  const [currentReport, setCurrentReport] = useState<ReportSnapshot | null>(null);
   const inventoryChartRef = useRef<HTMLCanvasElement>(null);
   const categoryChartRef = useRef<HTMLCanvasElement>(null);
   const inventoryChart = useRef<Chart | null>(null);
@@ -57,14 +61,10 @@ export default function ReportsPage() {
     queryKey: ["/api/movements"],
   });
 
-  const { data: expiringItems = [] } = useQuery<StockItem[]>({
+  const { data: expiringItems = [] } = useQuery<ExpiringLot[]>({
     queryKey: ["/api/stock-items/expiring", { days: 30 }],
   });
 
-  const { data: users = [] } = useQuery<User[]>({
-    queryKey: ["/api/users"],
-  });
-
   // Initialize charts
   useEffect(() => {
     if (inventoryChartRef.current && stockItems.length > 0) {
@@ -168,257 +168,43 @@ export default function ReportsPage() {
     };
   }, [stockItems, categories, reportType]);
 
-  const handleGenerateReport = (data: FormData) => {
-    setIsGeneratingReport(true);
-    const reportType = data.get('reportType') as string;
+  const handleGenerateReport = async (data: FormData) => {
+    const reportType = data.get('reportType') as ReportType;
     const dateRange = data.get('dateRange') as string;
-    const exportFormat = data.get('exportFormat') as string || 'pdf';
+    const exportFormat = (data.get('exportFormat') as ReportFileFormat) || 'pdf';
+    const dates = getReportDates(
+      reportType,
+      dateRange,
+      data.get('customDateStart') as string | undefined,
+      data.get('customDateEnd') as string | undefined
+    );
 
     setReportType(reportType);
     setDateRange(dateRange);
+    setIsGeneratingReport(true);
 
-    // Prepare report data based on report type
-    let reportData: any[][] = [];
-
-    switch(reportType) {
-      case 'inventory':
-        reportData = [
-          ["ID", "Name", "Category", "Quantity", "Unit Price ($)", "Total Value ($)", "Expiry Date", "Status"],
-          ...stockItems.map(item => {
-            const category = categories.find(c => c.id === item.categoryId)?.name || 'Unknown';
-            const status = item.quantity < 10 ? 'Low Stock' : 'Active';
-            const expiryDate = item.expiry ? new Date(item.expiry).toISOString().split('T')[0] : 'N/A';
-            const unitPrice = item.price ? (item.price / 100).toFixed(2) : '0.00';
-            const totalValue = item.price ? ((item.price * item.quantity) / 100).toFixed(2) : '0.00';
-
-            return [
-              item.id.toString(),
-              item.name,
-              category,
-              item.quantity.toString(),
-              unitPrice,
-              totalValue,
-              expiryDate,
-              status
-            ];
-          })
-        ];
-        break;
-
-      case 'movement':
-        reportData = [
-          ["ID", "Item", "From User", "To User", "Quantity", "Unit Price ($)", "Total Value ($)", "Date", "Status"],
-          ...movements.map(movement => {
-            const stockItem = stockItems.find(i => i.id === movement.stockItemId);
-            const item = stockItem?.name || 'Unknown';
-            const fromUser = movement.fromUserId ? 
-              (users.find(u => u.id === movement.fromUserId)?.name || 'Unknown') : 'Warehouse';
-            const toUser = movement.toUserId ? 
-              (users.find(u => u.id === movement.toUserId)?.name || 'Unknown') : 'Warehouse';
-            const unitPrice = stockItem?.price ? (stockItem.price / 100).toFixed(2) : '0.00';
-            const totalValue = stockItem?.price ? ((stockItem.price * movement.quantity) / 100).toFixed(2) : '0.00';
-            const moveDate = movement.movedAt ? new Date(movement.movedAt).toISOString().split('T')[0] : 'N/A';
-
-            // Calculate status based on time since movement
-            let status = 'Completed';
-            if (movement.movedAt) {
-              const daysSinceMove = Math.floor((Date.now() - new Date(movement.movedAt).getTime()) / (1000 * 60 * 60 * 24));
-              if (daysSinceMove < 1) status = 'Recent';
-              else if (daysSinceMove < 7) status = 'Last Week';
-              else if (daysSinceMove < 30) status = 'Last Month';
-              else status = 'Archive';
-            }
-
-            return [
-              movement.id.toString(),
-              item,
-              fromUser,
-              toUser,
-              movement.quantity.toString(),
-              unitPrice,
-              totalValue,
-              moveDate,
-              status
-            ];
-          })
-        ];
-        break;
-
-      case 'expiry':
-        reportData = [
-          ["ID", "Name", "Category", "Quantity", "Unit Price ($)", "Total Value ($)", "Expiry Date", "Days Remaining", "Risk Level"],
-          ...expiringItems.map(item => {
-            const category = categories.find(c => c.id === item.categoryId)?.name || 'Unknown';
-            const expiryDate = item.expiry ? new Date(item.expiry).toISOString().split('T')[0] : 'N/A';
-            const daysRemaining = item.expiry ? 
-              Math.ceil((new Date(item.expiry).getTime() - Date.now()) / (1000 * 60 * 60 * 24)) : 'N/A';
-            const unitPrice = item.price ? (item.price / 100).toFixed(2) : '0.00';
-            const totalValue = item.price ? ((item.price * item.quantity) / 100).toFixed(2) : '0.00';
-
-            // Determine risk level
-            let riskLevel = 'Low';
-            if (typeof daysRemaining === 'number') {
-              if (daysRemaining <= 0) riskLevel = 'Expired';
-              else if (daysRemaining <= 14) riskLevel = 'Critical';
-              else if (daysRemaining <= 30) riskLevel = 'High';
-              else if (daysRemaining <= 60) riskLevel = 'Medium';
-            }
-
-            return [
-              item.id.toString(),
-              item.name,
-              category,
-              item.quantity.toString(),
-              unitPrice,
-              totalValue,
-              expiryDate,
-              typeof daysRemaining === 'number' ? daysRemaining.toString() : daysRemaining,
-              riskLevel
-            ];
-          })
-        ];
-        break;
-
-      case 'allocation':
-        // This would be filled with allocation data if we had it in the app
-        reportData = [
-          ["ID", "Medical Rep", "Item", "Allocated Quantity", "Date Allocated"],
-          // Would be populated with actual allocation data
-        ];
-        break;
-
-      default:
-        reportData = [["No data available for this report type"]];
-    }
-
-    // Store the current report data for sharing
-    setCurrentReportData(reportData);
-
-    // Generate the report in the requested format
-    setTimeout(() => {
-      if (exportFormat === 'pdf') {
-        generatePdfReport(reportType, reportData);
-      } else if (exportFormat === 'excel') {
-        generateExcelReport(reportType, reportData);
-      } else if (exportFormat === 'csv') {
-        generateCsvReport(reportType, reportData);
-      }
+    try {
+      // The same rows as the file, kept for sharing
+      const res = await apiRequest("GET", getReportUrl(reportType, dates, 'json'));
+      setCurrentReport(await res.json());
 
-      setIsGeneratingReport(false);
+      await downloadReport(reportType, dates, exportFormat);
       toast({
         title: "Report Generated",
-        description: `Your ${reportType} report has been generated and downloaded successfully.`,
+        description: `Your ${REPORT_TYPE_NAMES[reportType]} report has been downloaded.`,
       });
-    }, 1000);
-  };
-
-  // Generate PDF report
-  const generatePdfReport = (reportType: string, data: any[][]) => {
-    const doc = new jsPDF();
-    const reportTitle = reportType.charAt(0).toUpperCase() + reportType.slice(1) + ' Report';
-    const pageWidth = doc.internal.pageSize.getWidth();
-    let y = 20;
-
-    // Add report title
-    doc.setFontSize(20);
-    doc.text(reportTitle, pageWidth / 2, y, { align: 'center' });
-    y += 10;
-
-    // Add date
-    doc.setFontSize(12);
-    doc.text(`Generated on: ${new Date().toLocaleDateString()}`, pageWidth / 2, y, { align: 'center' });
-    y += 15;
-
-    // Add table
-    if (data.length > 1) {
-      doc.setFontSize(10);
-
-      // Table headers
-      const headers = data[0];
-      const columnWidths = headers.map(header => 
-        Math.min(30, Math.max(15, (header.length * 2.5)))
-      );
-
-      // Calculate total width
-      const totalWidth = columnWidths.reduce((sum, width) => sum + width, 0);
-      const startX = (pageWidth - totalWidth) / 2;
-
-      // Draw header row
-      let x = startX;
-      doc.setFillColor(240, 240, 240);
-      doc.rect(startX, y, totalWidth, 10, 'F');
-
-      doc.setFont('helvetica', 'bold');
-      headers.forEach((header, i) => {
-        doc.text(header, x + 2, y + 7);
-        x += columnWidths[i];
+    } catch (error) {
+      toast({
+        title: "Failed to generate report",
+        description: (error as Error).message,
+        variant: "destructive",
       });
-      y += 10;
-
-      // Draw data rows
-      doc.setFont('helvetica', 'normal');
-      for (let i = 1; i < Math.min(data.length, 25); i++) {
-        x = startX;
-        const row = data[i];
-
-        row.forEach((cell, j) => {
-          doc.text(String(cell).substring(0, 30), x + 2, y + 7);
-          x += columnWidths[j];
-        });
-
-        y += 10;
-
-        // Add a new page if we're near the bottom
-        if (y > 280 && i < data.length - 1) {
-          doc.addPage();
-          y = 20;
-        }
-      }
-    } else {
-      doc.text("No data available for this report", 14, y);
+    } finally {
+      setIsGeneratingReport(false);
     }
-
-    // Save the PDF
-    doc.save(`${reportType}-report-${new Date().toISOString().split('T')[0]}.pdf`);
   };
 
-  // Generate Excel report (as TSV for simplicity)
-  const generateExcelReport = (reportType: string, data: any[][]) => {
-    // Create a tsv string that Excel can open
-    const tsvContent = data.map(row => row.join("\t")).join("\n");
-
-    // Create download link
-    const encodedUri = "data:text/tab-separated-values;charset=utf-8," + encodeURIComponent(tsvContent);
-    const downloadLink = document.createElement("a");
-    downloadLink.href = encodedUri;
-    downloadLink.download = `${reportType}-report-${new Date().toISOString().split('T')[0]}.tsv`;
-    document.body.appendChild(downloadLink);
-    downloadLink.click();
-    document.body.removeChild(downloadLink);
-  };
-
-  // Generate CSV report
-  const generateCsvReport = (reportType: string, data: any[][]) => {
-    // Create a CSV string
-    const csvContent = data.map(row => 
-      row.map(cell => {
-        // Escape quotes and wrap in quotes if needed
-        const cellStr = String(cell);
-        return /[",\n]/.test(cellStr) ? 
-          `"${cellStr.replace(/"/g, '""')}"` : 
-          cellStr;
-      }).join(",")
-    ).join("\n");
-
-    // Create download link
-    const encodedUri = "data:text/csv;charset=utf-8," + encodeURIComponent(csvContent);
-    const downloadLink = document.createElement("a");
-    downloadLink.href = encodedUri;
-    downloadLink.download = `${reportType}-report-${new Date().toISOString().split('T')[0]}.csv`;
-    document.body.appendChild(downloadLink);
-    downloadLink.click();
-    document.body.removeChild(downloadLink);
-  };
+  const currentReportData = currentReport?.rows ?? [];
 
   // Get category distribution for the summary table
   const categorySummary = categories.map(category => {
@@ -700,7 +486,7 @@ export default function ReportsPage() {
                           }
 
                           return (
-                            <tr key={item.id}>
+                            <tr key={item.lotId}>
                               <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
                                 {item.name}
                               </td>
@@ -733,34 +519,72 @@ export default function ReportsPage() {
             </Card>
           )}
 
-          {/* Medical Rep Allocation Report */}
-          {reportType === 'allocation' && (
+          {/* Medical Rep Allocation and Specialty Reports */}
+          {(reportType === 'allocation' || reportType === 'specialty') && (
             <Card>
               <CardHeader className="px-6 py-4 border-b border-gray-200 flex justify-between items-center">
-                <CardTitle className="text-lg font-medium">Medical Rep Allocation Report</CardTitle>
-                <span className="text-sm text-gray-500">Current Allocations</span>
+                <CardTitle className="text-lg font-medium">{REPORT_TYPE_NAMES[reportType]} Report</CardTitle>
+                <span className="text-sm text-gray-500">
+                  {dateRange === 'week' ? 'Last 7 Days' :
+                   dateRange === 'month' ? 'Last 30 Days' :
+                   dateRange === 'quarter' ? 'Last 90 Days' :
+                   dateRange === 'year' ? 'Last 12 Months' : 'Custom Range'}
+                </span>
               </CardHeader>
               <CardContent className="p-6">
-                <div className="flex justify-center items-center py-10">
-                  <div className="text-center">
-                    <PieChart className="h-24 w-24 text-gray-300 mx-auto mb-4" />
-                    <h3 className="text-lg font-medium text-gray-700">Allocation Report</h3>
-                    <p className="text-gray-500 mt-2 max-w-md">
-                      Analysis of stock allocations to medical representatives will appear here.
-                    </p>
+                {currentReport?.type === reportType ? (
+                  <div className="overflow-x-auto">
+                    <table className="min-w-full divide-y divide-gray-200">
+                      <thead className="bg-gray-50">
+                        <tr>
+                          {currentReportData[0].map((header, index) => (
+                            <th key={index} scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">{header}</th>
+                          ))}
+                        </tr>
+                      </thead>
+                      <tbody className="bg-white divide-y divide-gray-200">
+                        {currentReportData.length === 1 ? (
+                          <tr>
+                            <td colSpan={currentReportData[0].length} className="px-6 py-4 text-center text-gray-500">
+                              No data for this period
+                            </td>
+                          </tr>
+                        ) : (
+                          currentReportData.slice(1).map((row, rowIndex) => (
+                            <tr key={rowIndex}>
+                              {row.map((cell, cellIndex) => (
+                                <td key={cellIndex} className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{cell}</td>
+                              ))}
+                            </tr>
+                          ))
+                        )}
+                      </tbody>
+                    </table>
                   </div>
-                </div>
+                ) : (
+                  <div className="flex justify-center items-center py-10">
+                    <div className="text-center">
+                      <PieChart className="h-24 w-24 text-gray-300 mx-auto mb-4" />
+                      <h3 className="text-lg font-medium text-gray-700">{REPORT_TYPE_NAMES[reportType]} Report</h3>
+                      <p className="text-gray-500 mt-2 max-w-md">
+                        Generate the report to see its figures here.
+                      </p>
+                    </div>
+                  </div>
+                )}
               </CardContent>
             </Card>
           )}
         </div>
       </div>
 
+      <ReportSubscriptions />
+
       {/* Report Share Dialog */}
       <ReportShare
         isOpen={isShareDialogOpen}
         onClose={() => setIsShareDialogOpen(false)}
-        reportType={reportType}
+        reportType={currentReport?.type ?? reportType}
         reportData={currentReportData}
       />
     </MainLayout>
@@ -0,0 +1,130 @@
+import { useState } from "react";
+import { Link, useParams } from "wouter";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { PasswordPolicy } from "@shared/schema";
+import { passwordPolicyProblems } from "@shared/passwords";
+import { apiRequest } from "@/lib/queryClient";
+import { PasswordRules } from "@/components/auth/change-password-form";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { AlertCircle, CheckCircle2, FlaskRound } from "lucide-react";
+
+// Choosing a new password from an emailed reset link. Works without being
+// logged in.
+export default function ResetPasswordPage() {
+  const { token } = useParams<{ token: string }>();
+  const [password, setPassword] = useState("");
+  const [confirmPassword, setConfirmPassword] = useState("");
+
+  const { data: policy } = useQuery<PasswordPolicy>({
+    queryKey: ["/api/password-policy"],
+  });
+
+  const resetMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", `/api/password-reset/${token}`, { password });
+    },
+  });
+
+  const problems = policy ? passwordPolicyProblems(password, policy) : [];
+  const matches = password.length > 0 && password === confirmPassword;
+  const canSubmit = problems.length === 0 && matches;
+  const gone = resetMutation.error?.message.startsWith("410");
+
+  let content: React.ReactNode;
+  if (resetMutation.isSuccess || gone) {
+    content = (
+      <Card className="w-full max-w-md mx-auto">
+        <CardContent className="pt-6 space-y-4">
+          <div className="flex gap-2 items-center">
+            {gone ? (
+              <AlertCircle className="h-6 w-6 text-red-500" />
+            ) : (
+              <CheckCircle2 className="h-6 w-6 text-green-600" />
+            )}
+            <h1 className="text-xl font-bold text-gray-900">
+              {gone ? "Link no longer available" : "Password changed"}
+            </h1>
+          </div>
+          <p className="text-sm text-gray-600">
+            {gone
+              ? "This reset link has expired or has already been used. Ask for a new one from the sign-in page."
+              : "You've been signed out everywhere else. Sign in with your new password."}
+          </p>
+          <Button asChild className="w-full">
+            <Link href="/auth">Go to sign in</Link>
+          </Button>
+        </CardContent>
+      </Card>
+    );
+  } else {
+    content = (
+      <Card className="w-full max-w-md mx-auto">
+        <CardHeader>
+          <CardTitle>Choose a new password</CardTitle>
+          <CardDescription>Your old password stops working once you save this one.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form
+            className="space-y-4"
+            onSubmit={(e) => {
+              e.preventDefault();
+              if (canSubmit) resetMutation.mutate();
+            }}
+          >
+            <div className="space-y-2">
+              <Label htmlFor="reset-password">New password</Label>
+              <Input
+                id="reset-password"
+                type="password"
+                autoComplete="new-password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="reset-confirm-password">Confirm new password</Label>
+              <Input
+                id="reset-confirm-password"
+                type="password"
+                autoComplete="new-password"
+                value={confirmPassword}
+                onChange={(e) => setConfirmPassword(e.target.value)}
+              />
+              {confirmPassword.length > 0 && !matches && (
+                <p className="text-sm text-red-600">Passwords don't match</p>
+              )}
+            </div>
+
+            <PasswordRules password={password} policy={policy} />
+
+            {resetMutation.isError && (
+              <p className="text-sm text-red-600">{resetMutation.error.message}</p>
+            )}
+            <Button type="submit" className="w-full" disabled={!canSubmit || resetMutation.isPending}>
+              {resetMutation.isPending ? "Saving..." : "Save Password"}
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="flex items-center h-16 px-6 bg-white border-b">
+        <FlaskRound className="w-8 h-8 text-primary" />
+        <span className="ml-2 text-xl font-semibold text-gray-800">PharmStock</span>
+      </div>
+      <div className="max-w-6xl mx-auto p-6">{content}</div>
+    </div>
+  );
+}
@@ -2,6 +2,13 @@ import { useState, useEffect, useRef } from "react";
 import { MainLayout } from "@/components/layout/main-layout";
 import CategoryManagement from "@/components/settings/category-management";
 import { SpecialtyManagement } from "@/components/settings/specialty-management";
+import { ScheduledJobs } from "@/components/settings/scheduled-jobs";
+import { ReportShares } from "@/components/settings/report-shares";
+import { BackupRestore } from "@/components/settings/backup-restore";
+import { BackupSchedule } from "@/components/settings/backup-schedule";
+import { DangerZone } from "@/components/settings/danger-zone";
+import { TwoFactorPolicySettings } from "@/components/settings/two-factor-policy";
+import { RegistrationPolicySettings } from "@/components/settings/registration-policy";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
@@ -11,7 +18,6 @@ import {
   Card,
   CardContent,
   CardDescription,
-  CardFooter,
   CardHeader,
   CardTitle,
 } from "@/components/ui/card";
@@ -42,6 +48,8 @@ import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/hooks/use-auth";
+import { useQuery } from "@tanstack/react-query";
+import { DEFAULT_USER_PREFERENCES, PasswordPolicy, SessionPolicy, UserPreferences, userPreferencesSchema } from "@shared/schema";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { 
@@ -63,14 +71,6 @@ const profileFormSchema = z.object({
   region: z.string().optional(),
 });
 
-const notificationFormSchema = z.object({
-  emailNotifications: z.boolean().default(true),
-  stockAlerts: z.boolean().default(true),
-  expiryAlerts: z.boolean().default(true),
-  movementAlerts: z.boolean().default(false),
-  dailyReports: z.boolean().default(false),
-});
-
 const systemFormSchema = z.object({
   lowStockThreshold: z.string().refine((val) => !isNaN(Number(val)), {
     message: "Must be a number",
@@ -85,7 +85,6 @@ const systemFormSchema = z.object({
 });
 
 type ProfileFormValues = z.infer<typeof profileFormSchema>;
-type NotificationFormValues = z.infer<typeof notificationFormSchema>;
 type SystemFormValues = z.infer<typeof systemFormSchema>;
 
 export default function SettingsPage() {
@@ -93,34 +92,6 @@ export default function SettingsPage() {
   const { toast } = useToast();
   const [activeTab, setActiveTab] = useState("profile");
 
-  // State variables for data settings section
-  const [autoBackupEnabled, setAutoBackupEnabled] = useState(false);
-  const [backupFrequency, setBackupFrequency] = useState("daily");
-  const [retentionPeriod, setRetentionPeriod] = useState("30");
-  const [compressBackups, setCompressBackups] = useState(true);
-  const [encryptBackups, setEncryptBackups] = useState(false);
-  const [dataSettings, setDataSettings] = useState<any>(null);
-
-  // Load saved data settings from localStorage when component mounts
-  useEffect(() => {
-    if (typeof window !== 'undefined') {
-      const savedSettings = localStorage.getItem('data_settings');
-      if (savedSettings) {
-        try {
-          const parsedSettings = JSON.parse(savedSettings);
-          setAutoBackupEnabled(parsedSettings.autoBackupEnabled);
-          setBackupFrequency(parsedSettings.backupFrequency);
-          setRetentionPeriod(parsedSettings.retentionPeriod.toString());
-          setCompressBackups(parsedSettings.compressBackups);
-          setEncryptBackups(parsedSettings.encryptBackups || false);
-          setDataSettings(parsedSettings);
-        } catch (error) {
-          console.error('Error parsing saved data settings:', error);
-        }
-      }
-    }
-  }, []);
-
   // Profile form - load stored values from localStorage if available
   const profileForm = useForm<ProfileFormValues>({
     resolver: zodResolver(profileFormSchema),
@@ -144,32 +115,23 @@ export default function SettingsPage() {
     }
   }, [profileForm]);
 
-  // Notification form
-  const notificationForm = useForm<NotificationFormValues>({
-    resolver: zodResolver(notificationFormSchema),
-    defaultValues: (() => {
-      // Try to load saved settings from localStorage
-      if (typeof window !== 'undefined' && user) {
-        const savedSettings = localStorage.getItem(`notifications_${user.id}`);
-        if (savedSettings) {
-          try {
-            return JSON.parse(savedSettings);
-          } catch (e) {
-            console.error('Error parsing saved notification settings', e);
-          }
-        }
-      }
-      // Default values if nothing saved
-      return {
-        emailNotifications: true,
-        stockAlerts: true,
-        expiryAlerts: true,
-        movementAlerts: false,
-        dailyReports: false,
-      };
-    })(),
+  // Notification form - preferences are stored on the server so that
+  // server-side alerts can respect them
+  const notificationForm = useForm<UserPreferences>({
+    resolver: zodResolver(userPreferencesSchema),
+    defaultValues: DEFAULT_USER_PREFERENCES,
+  });
+
+  const { data: preferences } = useQuery<UserPreferences>({
+    queryKey: ["/api/users/me/preferences"],
   });
 
+  useEffect(() => {
+    if (preferences) {
+      notificationForm.reset(preferences);
+    }
+  }, [preferences]);
+
   // System settings form
   const systemForm = useForm<SystemFormValues>({
     resolver: zodResolver(systemFormSchema),
@@ -196,6 +158,22 @@ export default function SettingsPage() {
     })(),
   });
 
+  // The alert thresholds are used by the server's scheduled scans, so the
+  // server's copy takes precedence over the one in localStorage
+  const { data: serverSettings } = useQuery<Record<string, string>>({
+    queryKey: ["/api/system-settings"],
+    enabled: hasPermission("canAccessSettings"),
+  });
+
+  useEffect(() => {
+    if (serverSettings?.lowStockThreshold) {
+      systemForm.setValue("lowStockThreshold", serverSettings.lowStockThreshold);
+    }
+    if (serverSettings?.expiryAlertDays) {
+      systemForm.setValue("expiryAlertDays", serverSettings.expiryAlertDays);
+    }
+  }, [serverSettings]);
+
   // Handle form submissions
   const onProfileSubmit = async (data: ProfileFormValues) => {
     try {
@@ -227,13 +205,12 @@ export default function SettingsPage() {
     }
   };
 
-  const onNotificationSubmit = async (data: NotificationFormValues) => {
+  const onNotificationSubmit = async (data: UserPreferences) => {
     try {
       if (!user) return;
 
-      // In a real app, we would save to backend storage
-      // For now, store settings in localStorage for persistence
-      localStorage.setItem(`notifications_${user.id}`, JSON.stringify(data));
+      await apiRequest("PUT", "/api/users/me/preferences", data);
+      queryClient.invalidateQueries({ queryKey: ["/api/users/me/preferences"] });
 
       toast({
         title: "Notification preferences updated",
@@ -263,8 +240,13 @@ export default function SettingsPage() {
         storageData.companyLogoUrl = companyLogoUrl;
       }
 
-      // In a real app, we would save to backend storage
-      // For now, store settings in localStorage for persistence
+      await apiRequest("POST", "/api/system-settings", {
+        lowStockThreshold: data.lowStockThreshold,
+        expiryAlertDays: data.expiryAlertDays,
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/system-settings"] });
+
+      // Branding is only used by this browser, so it stays in localStorage
       localStorage.setItem('system_settings', JSON.stringify(storageData));
 
       toast({
@@ -287,44 +269,62 @@ export default function SettingsPage() {
     requireSpecialChars: z.boolean().default(false),
     requireUppercase: z.boolean().default(true),
     requireNumbers: z.boolean().default(true),
-    twoFactorEnabled: z.boolean().default(false),
     sessionTimeout: z.string().or(z.number()).transform(val => Number(val)),
+    sessionMaxAge: z.string().or(z.number()).transform(val => Number(val)),
   });
 
   type SecurityFormValues = z.infer<typeof securityFormSchema>;
 
-  // Security form
+  // Security form, filled in from the policies the server enforces
   const securityForm = useForm<SecurityFormValues>({
     resolver: zodResolver(securityFormSchema),
-    defaultValues: (() => {
-      // Try to load saved settings from localStorage
-      if (typeof window !== 'undefined') {
-        const savedSettings = localStorage.getItem('security_settings');
-        if (savedSettings) {
-          try {
-            return JSON.parse(savedSettings);
-          } catch (e) {
-            console.error('Error parsing saved security settings', e);
-          }
-        }
-      }
-      // Default values if nothing saved
-      return {
-        passwordLength: 8,
-        passwordExpiry: 90,
-        requireSpecialChars: false,
-        requireUppercase: true,
-        requireNumbers: true,
-        twoFactorEnabled: false,
-        sessionTimeout: 30,
-      };
-    })(),
+    defaultValues: {
+      passwordLength: 8,
+      passwordExpiry: 90,
+      requireSpecialChars: false,
+      requireUppercase: true,
+      requireNumbers: true,
+      sessionTimeout: 30,
+      sessionMaxAge: 168,
+    },
+  });
+
+  const { data: passwordPolicy } = useQuery<PasswordPolicy>({
+    queryKey: ["/api/password-policy"],
   });
 
+  const { data: sessionPolicy } = useQuery<SessionPolicy>({
+    queryKey: ["/api/session-policy"],
+  });
+
+  useEffect(() => {
+    if (passwordPolicy) {
+      securityForm.reset({ ...securityForm.getValues(), ...passwordPolicy });
+    }
+  }, [passwordPolicy]);
+
+  useEffect(() => {
+    if (sessionPolicy) {
+      securityForm.reset({ ...securityForm.getValues(), ...sessionPolicy });
+    }
+  }, [sessionPolicy]);
+
   // Security form submit handler
   const onSecuritySubmit = async (data: SecurityFormValues) => {
     try {
-      localStorage.setItem('security_settings', JSON.stringify(data));
+      await apiRequest("PUT", "/api/password-policy", {
+        passwordLength: data.passwordLength,
+        passwordExpiry: data.passwordExpiry,
+        requireSpecialChars: data.requireSpecialChars,
+        requireUppercase: data.requireUppercase,
+        requireNumbers: data.requireNumbers,
+      });
+      await apiRequest("PUT", "/api/session-policy", {
+        sessionTimeout: data.sessionTimeout,
+        sessionMaxAge: data.sessionMaxAge,
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/password-policy"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/session-policy"] });
 
       toast({
         title: "Security settings updated",
@@ -341,9 +341,6 @@ export default function SettingsPage() {
 
   // Data management settings schema
   const dataManagementSchema = z.object({
-    autoBackupEnabled: z.boolean().default(false),
-    backupFrequency: z.enum(["daily", "weekly", "monthly"]).default("weekly"),
-    retentionPeriod: z.string().or(z.number()).transform(val => Number(val)),
     exportFormat: z.enum(["json", "csv", "excel"]).default("json"),
     compressionEnabled: z.boolean().default(true),
   });
@@ -354,9 +351,6 @@ export default function SettingsPage() {
   const dataManagementForm = useForm<DataManagementValues>({
     resolver: zodResolver(dataManagementSchema),
     defaultValues: {
-      autoBackupEnabled: false,
-      backupFrequency: "weekly",
-      retentionPeriod: 30,
       exportFormat: "json",
       compressionEnabled: true,
     },
@@ -608,7 +602,7 @@ export default function SettingsPage() {
                         <div className="space-y-0.5">
                           <FormLabel className="text-base">Daily Reports</FormLabel>
                           <FormDescription>
-                            Receive daily summary reports
+                            Receive a daily email summary of unread alerts
                           </FormDescription>
                         </div>
                         <FormControl>
@@ -870,6 +864,10 @@ export default function SettingsPage() {
                   </Form>
                 </CardContent>
               </Card>
+
+              <div className="mt-6">
+                <ScheduledJobs />
+              </div>
             </TabsContent>
 
             {/* Security Settings */}
@@ -902,7 +900,7 @@ export default function SettingsPage() {
                                   <Input 
                                     type="number" 
                                     min="6" 
-                                    max="20" 
+                                    max="128" 
                                     className="w-20" 
                                     {...field}
                                     value={field.value}
@@ -921,7 +919,7 @@ export default function SettingsPage() {
                                 <div className="space-y-0.5">
                                   <FormLabel className="text-base">Password Expiry</FormLabel>
                                   <FormDescription>
-                                    Days before passwords expire
+                                    Days before passwords expire (0 for never)
                                   </FormDescription>
                                 </div>
                                 <FormControl>
@@ -1009,7 +1007,7 @@ export default function SettingsPage() {
                                   <Input 
                                     type="number" 
                                     min="5" 
-                                    max="120" 
+                                    max="1440" 
                                     className="w-20" 
                                     {...field}
                                     value={field.value}
@@ -1019,24 +1017,36 @@ export default function SettingsPage() {
                               </FormItem>
                             )}
                           />
-                        </div>
 
-                        <FormField
-                          control={securityForm.control}
-                          name="twoFactorEnabled"
-                          render={({ field }) => (
-                            <FormItem className="flex items-center space-x-2 pt-2">
-                              <FormControl>
-                                <Switch 
-                                  checked={field.value} 
-                                  onCheckedChange={field.onChange}
-                                  id="two-factor-auth"
-                                />
-                              </FormControl>
-                              <FormLabel htmlFor="two-factor-auth">Enable Two-Factor Authentication</FormLabel>
-                            </FormItem>
-                          )}
-                        />
+                          <FormField
+                            control={securityForm.control}
+                            name="sessionMaxAge"
+                            render={({ field }) => (
+                              <FormItem className="flex items-center justify-between rounded-lg border p-4">
+                                <div className="space-y-0.5">
+                                  <FormLabel className="text-base">Maximum Session Length</FormLabel>
+                                  <FormDescription>
+                                    Hours after signing in before logout
+                                  </FormDescription>
+                                </div>
+                                <FormControl>
+                                  <Input 
+                                    type="number" 
+                                    min="1" 
+                                    max="720" 
+                                    className="w-20" 
+                                    {...field}
+                                    value={field.value}
+                                    onChange={(e) => field.onChange(e.target.value)}
+                                  />
+                                </FormControl>
+                              </FormItem>
+                            )}
+                          />
+                        </div>
+                        <p className="text-sm text-muted-foreground">
+                          Session limits apply to sessions signed in after they are saved.
+                        </p>
                       </div>
 
                       <Button type="submit">
@@ -1047,6 +1057,18 @@ export default function SettingsPage() {
                   </Form>
                 </CardContent>
               </Card>
+
+              <div className="mt-6">
+                <TwoFactorPolicySettings />
+              </div>
+
+              <div className="mt-6">
+                <RegistrationPolicySettings />
+              </div>
+
+              <div className="mt-6">
+                <ReportShares />
+              </div>
             </TabsContent>
 
             {/* Data Management */}
@@ -1082,91 +1104,10 @@ export default function SettingsPage() {
                   </div>
 
                   <div className="space-y-4">
-                    <h3 className="text-lg font-medium">Backup & Export Settings</h3>
+                    <h3 className="text-lg font-medium">Export Settings</h3>
                     <Form {...dataManagementForm}>
                       <form onSubmit={dataManagementForm.handleSubmit(onDataManagementSubmit)} className="space-y-6">
-                        <div className="space-y-4 border-b pb-6">
-                          <FormField
-                            control={dataManagementForm.control}
-                            name="autoBackupEnabled"
-                            render={({ field }) => (
-                              <FormItem className="flex flex-row items-center justify-between">
-                                <div className="space-y-0.5">
-                                  <FormLabel className="text-base">Automatic Backups</FormLabel>
-                                  <FormDescription>
-                                    Enable scheduled automatic backups
-                                  </FormDescription>
-                                </div>
-                                <FormControl>
-                                  <Switch
-                                    checked={field.value}
-                                    onCheckedChange={field.onChange}
-                                  />
-                                </FormControl>
-                              </FormItem>
-                            )}
-                          />
-
-                          {dataManagementForm.watch("autoBackupEnabled") && (
-                            <>
-                              <FormField
-                                control={dataManagementForm.control}
-                                name="backupFrequency"
-                                render={({ field }) => (
-                                  <FormItem>
-                                    <FormLabel>Backup Frequency</FormLabel>
-                                    <Select 
-                                      onValueChange={field.onChange} 
-                                      defaultValue={field.value}
-                                    >
-                                      <FormControl>
-                                        <SelectTrigger>
-                                          <SelectValue placeholder="Select frequency" />
-                                        </SelectTrigger>
-                                      </FormControl>
-                                      <SelectContent>
-                                        <SelectItem value="daily">Daily</SelectItem>
-                                        <SelectItem value="weekly">Weekly</SelectItem>
-                                        <SelectItem value="monthly">Monthly</SelectItem>
-                                      </SelectContent>
-                                    </Select>
-                                    <FormDescription>
-                                      How often backups should be created
-                                    </FormDescription>
-                                    <FormMessage />
-                                  </FormItem>
-                                )}
-                              />
-
-                              <FormField
-                                control={dataManagementForm.control}
-                                name="retentionPeriod"
-                                render={({ field }) => (
-                                  <FormItem>
-                                    <FormLabel>Retention Period (Days)</FormLabel>
-                                    <FormControl>
-                                      <Input 
-                                        type="number" 
-                                        min="1" 
-                                        {...field}
-                                        value={field.value}
-                                        onChange={(e) => field.onChange(e.target.value)}
-                                      />
-                                    </FormControl>
-                                    <FormDescription>
-                                      Number of days to keep backups before deletion
-                                    </FormDescription>
-                                    <FormMessage />
-                                  </FormItem>
-                                )}
-                              />
-                            </>
-                          )}
-                        </div>
-
                         <div className="space-y-4">
-                          <h4 className="text-md font-medium">Export Settings</h4>
-
                           <FormField
                             control={dataManagementForm.control}
                             name="exportFormat"
@@ -1229,106 +1170,19 @@ export default function SettingsPage() {
                   <div className="space-y-4 pt-6 border-t">
                     <h3 className="text-lg font-medium">Backup & Export Actions</h3>
                     <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                      <Card>
-                        <CardHeader className="pb-2">
-                          <CardTitle className="text-base">Manual Backup</CardTitle>
-                        </CardHeader>
-                        <CardContent>
-                          <p className="text-sm text-muted-foreground mb-4">
-                            Create a backup of all system data.
-                          </p>
-                          <div className="flex flex-col space-y-2">
-                            <Button onClick={() => {
-                              // Generate sample backup data
-                              const backupData = {
-                                timestamp: new Date().toISOString(),
-                                version: "1.0",
-                                data: {
-                                  users: [],
-                                  stockItems: [],
-                                  categories: [],
-                                  movements: [],
-                                  settings: {}
-                                }
-                              };
-
-                              // Convert to JSON and create download
-                              const dataStr = JSON.stringify(backupData, null, 2);
-                              const dataUri = "data:application/json;charset=utf-8," + encodeURIComponent(dataStr);
-
-                              // Create download link
-                              const downloadLink = document.createElement("a");
-                              downloadLink.setAttribute("href", dataUri);
-                              downloadLink.setAttribute("download", `pharmstock-backup-${new Date().toISOString().split('T')[0]}.json`);
-                              document.body.appendChild(downloadLink);
-                              downloadLink.click();
-                              document.body.removeChild(downloadLink);
-
-                              toast({
-                                title: "Backup created",
-                                description: "System backup has been created and downloaded.",
-                              });
-                            }}>
-                              <FileText className="h-4 w-4 mr-2" />
-                              Create Backup
-                            </Button>
-
-                            {/* File upload button for restoring backups */}
-                            <div className="mt-2">
-                              <label htmlFor="restore-backup-file" className="cursor-pointer">
-                                <div className="flex items-center justify-center px-4 py-2 border border-input rounded-md bg-background hover:bg-accent hover:text-accent-foreground text-sm font-medium">
-                                  <Upload className="h-4 w-4 mr-2" />
-                                  Restore Backup
-                                </div>
-                              </label>
-                              <input
-                                id="restore-backup-file"
-                                type="file"
-                                accept=".json"
-                                className="hidden"
-                                onChange={(e) => {
-                                  const file = e.target.files?.[0];
-                                  if (!file) return;
-
-                                  const reader = new FileReader();
-                                  reader.onload = (event) => {
-                                    try {
-                                      const content = event.target?.result;
-                                      if (typeof content === 'string') {
-                                        // Parse backup data
-                                        const backupData = JSON.parse(content);
-
-                                        // Validate backup format
-                                        if (!backupData.version || !backupData.timestamp || !backupData.data) {
-                                          throw new Error("Invalid backup file format");
-                                        }
-
-                                        // Here you would actually restore the data
-                                        // For now, just show success
-                                        toast({
-                                          title: "Backup restored",
-                                          description: `Backup from ${new Date(backupData.timestamp).toLocaleString()} has been restored.`,
-                                          variant: "default",
-                                        });
-                                      }
-                                    } catch (err) {
-                                      toast({
-                                        title: "Error restoring backup",
-                                        description: err instanceof Error ? err.message : "Invalid backup file",
-                                        variant: "destructive",
-                                      });
-                                    }
-
-                                    // Reset file input
-                                    e.target.value = '';
-                                  };
-                                  reader.readAsText(file);
-                                }}
-                              />
-                            </div>
-                          </div>
-                        </CardContent>
-                      </Card>
+                      {hasPermission("canAdministerSystem") && (
+                        <Card>
+                          <CardHeader className="pb-2">
+                            <CardTitle className="text-base">Manual Backup</CardTitle>
+                          </CardHeader>
+                          <CardContent>
+                            <p className="text-sm text-muted-foreground mb-4">
+                              Create a backup of all system data.
+                            </p>
+                            <BackupRestore />
+                          </CardContent>
+                        </Card>
+                      )}
 
                       <Card>
                         <CardHeader className="pb-2">
@@ -1383,200 +1237,22 @@ export default function SettingsPage() {
                     </div>
                   </div>
 
-                  <div className="space-y-4 pt-6">
-                    <h3 className="text-lg font-medium">Automated Backups</h3>
-                    <div className="flex items-center space-x-2">
-                      <Switch id="auto-backup" checked={autoBackupEnabled} onCheckedChange={setAutoBackupEnabled} />
-                      <Label htmlFor="auto-backup">Enable automated backups</Label>
-                    </div>
-
-                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                      <div className="flex items-center justify-between rounded-lg border p-4">
-                        <div className="space-y-0.5">
-                          <Label className="text-base">Backup Frequency</Label>
-                          <p className="text-sm text-muted-foreground">
-                            How often to create backups
-                          </p>
-                        </div>
-                        <Select value={backupFrequency} onValueChange={setBackupFrequency}>
-                          <SelectTrigger className="w-32">
-                            <SelectValue placeholder="Select" />
-                          </SelectTrigger>
-                          <SelectContent>
-                            <SelectItem value="hourly">Hourly</SelectItem>
-                            <SelectItem value="daily">Daily</SelectItem>
-                            <SelectItem value="weekly">Weekly</SelectItem>
-                            <SelectItem value="monthly">Monthly</SelectItem>
-                          </SelectContent>
-                        </Select>
-                      </div>
-
-                      <div className="flex items-center justify-between rounded-lg border p-4">
-                        <div className="space-y-0.5">
-                          <Label className="text-base">Retention Period</Label>
-                          <p className="text-sm text-muted-foreground">
-                            How long to keep backups
-                          </p>
-                        </div>
-                        <Select value={retentionPeriod} onValueChange={setRetentionPeriod}>
-                          <SelectTrigger className="w-32">
-                            <SelectValue placeholder="Select" />
-                          </SelectTrigger>
-                          <SelectContent>
-                            <SelectItem value="7">7 days</SelectItem>
-                            <SelectItem value="30">30 days</SelectItem>
-                            <SelectItem value="90">90 days</SelectItem>
-                            <SelectItem value="365">1 year</SelectItem>
-                          </SelectContent>
-                        </Select>
-                      </div>
-                    </div>
-
-                    <div className="flex flex-col gap-4 mt-4">
-                      <div className="flex items-center space-x-2">
-                        <Switch checked={compressBackups} onCheckedChange={setCompressBackups} id="compress-backups" />
-                        <Label htmlFor="compress-backups">Compress backups</Label>
-                      </div>
-                      <div className="flex items-center space-x-2">
-                        <Switch checked={encryptBackups} onCheckedChange={setEncryptBackups} id="encrypt-backups" />
-                        <Label htmlFor="encrypt-backups">Encrypt backups</Label>
-                      </div>
-                    </div>
-                  </div>
-
-                  <Alert variant="destructive" className="mt-6">
-                    <AlertTriangleIcon className="h-4 w-4" />
-                    <AlertTitle>Danger Zone</AlertTitle>
-                    <AlertDescription>
-                      These actions are destructive and cannot be undone.
-                    </AlertDescription>
-                  </Alert>
-
-                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4 pt-2">
-                    <Card className="border-red-200">
-                      <CardHeader className="pb-2">
-                        <CardTitle className="text-base text-red-600">Clear All Data</CardTitle>
-                      </CardHeader>
-                      <CardContent>
-                        <p className="text-sm text-muted-foreground mb-4">
-                          Permanently delete all system data.
-                        </p>
-                        <Button 
-                          variant="destructive" 
-                          onClick={() => {
-                            // Show confirmation dialog
-                            if (window.confirm("WARNING: This will permanently delete all data in the system. This action cannot be undone. Are you sure you want to continue?")) {
-                              try {
-                                // Here we would call an API to clear all data
-                                // For now we'll just invalidate any queries to refresh the UI
-                                queryClient.invalidateQueries();
+                  {hasPermission("canAdministerSystem") && <BackupSchedule />}
 
-                                toast({
-                                  title: "Action completed",
-                                  description: "All system data has been cleared.",
-                                  variant: "destructive"
-                                });
-                              } catch (error) {
-                                toast({
-                                  title: "Action failed",
-                                  description: error instanceof Error ? error.message : "Failed to clear data",
-                                  variant: "destructive"
-                                });
-                              }
-                            }
-                          }}
-                        >
-                          Clear All Data
-                        </Button>
-                      </CardContent>
-                    </Card>
-
-                    <Card className="border-red-200">
-                      <CardHeader className="pb-2">
-                        <CardTitle className="text-base text-red-600">Reset System</CardTitle>
-                      </CardHeader>
-                      <CardContent>
-                        <p className="text-sm text-muted-foreground mb-4">
-                          Reset the system to factory defaults.
-                        </p>
-                        <Button 
-                          variant="destructive"
-                          onClick={() => {
-                            // Show confirmation dialog
-                            if (window.confirm("WARNING: This will reset all system settings to factory defaults. All customized settings will be lost. Are you sure you want to continue?")) {
-                              try {
-                                // Clear all local storage settings
-                                localStorage.removeItem('security_settings');
-                                localStorage.removeItem('data_settings');
-                                localStorage.removeItem('system_settings');
-
-                                // Here we would call an API to reset the system
-                                // For now we'll just invalidate any queries to refresh the UI
-                                queryClient.invalidateQueries();
-
-                                toast({
-                                  title: "System reset",
-                                  description: "The system has been reset to factory defaults.",
-                                  variant: "destructive"
-                                });
+                  {hasPermission("canAdministerSystem") && (
+                    <>
+                      <Alert variant="destructive" className="mt-6">
+                        <AlertTriangleIcon className="h-4 w-4" />
+                        <AlertTitle>Danger Zone</AlertTitle>
+                        <AlertDescription>
+                          These actions delete data. A backup is taken first, which can be restored from Available Backups.
+                        </AlertDescription>
+                      </Alert>
 
-                                // Reload the page to reflect reset state
-                                setTimeout(() => {
-                                  window.location.reload();
-                                }, 1500);
-                              } catch (error) {
-                                toast({
-                                  title: "Reset failed",
-                                  description: error instanceof Error ? error.message : "Failed to reset system",
-                                  variant: "destructive"
-                                });
-                              }
-                            }
-                          }}
-                        >
-                          Reset System
-                        </Button>
-                      </CardContent>
-                    </Card>
-                  </div>
+                      <DangerZone />
+                    </>
+                  )}
                 </CardContent>
-                <CardFooter className="border-t pt-6">
-                  <Button
-                    onClick={async () => {
-                      try {
-                        // Get values from state variables
-                        const settings = {
-                          autoBackupEnabled: autoBackupEnabled,
-                          backupFrequency: backupFrequency,
-                          retentionPeriod: Number(retentionPeriod),
-                          compressBackups: compressBackups,
-                          encryptBackups: encryptBackups
-                        };
-
-                        // In a real app, we would save to backend storage
-                        // For now, store settings in localStorage for persistence
-                        localStorage.setItem('data_settings', JSON.stringify(settings));
-
-                        // Force the component to update after saving
-                        setDataSettings(settings);
-
-                        toast({
-                          title: "Settings saved",
-                          description: "Your data management settings have been saved successfully.",
-                        });
-                      } catch (error) {
-                        toast({
-                          title: "Update failed",
-                          description: error instanceof Error ? error.message : "Failed to update data settings",
-                          variant: "destructive",
-                        });
-                      }
-                    }}
-                  >
-                    <Save className="h-4 w-4 mr-2" />
-                    Save Data Settings
-                  </Button>
-                </CardFooter>
               </Card>
             </TabsContent>
           </>
@@ -0,0 +1,183 @@
+import { useEffect, useState } from "react";
+import { useParams } from "wouter";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { AlertCircle, FlaskRound, Lock } from "lucide-react";
+import { formatDate } from "@/lib/utils";
+
+type SharedReportInfo = {
+  title: string;
+  reportType: string;
+  createdAt: string;
+  expiresAt: string;
+  requiresPassword: boolean;
+};
+
+type SharedReport = Omit<SharedReportInfo, "requiresPassword"> & { rows: string[][] };
+
+// Public, read-only view of a report snapshot shared by link. Works without
+// being logged in.
+export default function SharedReportPage() {
+  const { token } = useParams<{ token: string }>();
+  const [password, setPassword] = useState("");
+  const [report, setReport] = useState<SharedReport | null>(null);
+
+  const { data: info, error, isLoading } = useQuery<SharedReportInfo>({
+    queryKey: [`/api/shared-reports/${token}`],
+  });
+
+  const viewMutation = useMutation({
+    mutationFn: async (password?: string) => {
+      const res = await apiRequest("POST", `/api/shared-reports/${token}/view`, { password });
+      return await res.json();
+    },
+    onSuccess: (shared: SharedReport) => {
+      setReport(shared);
+    },
+  });
+
+  // Reports without a password can be shown straight away
+  useEffect(() => {
+    if (info && !info.requiresPassword && !report && viewMutation.isIdle) {
+      viewMutation.mutate(undefined);
+    }
+  }, [info]);
+
+  const renderMessage = (icon: React.ReactNode, title: string, description: string) => (
+    <Card className="w-full max-w-md mx-auto">
+      <CardContent className="pt-6">
+        <div className="flex mb-4 gap-2 items-center">
+          {icon}
+          <h1 className="text-xl font-bold text-gray-900">{title}</h1>
+        </div>
+        <p className="text-sm text-gray-600">{description}</p>
+      </CardContent>
+    </Card>
+  );
+
+  let content: React.ReactNode;
+  if (isLoading) {
+    content = <div className="text-center py-10 text-gray-500">Loading report...</div>;
+  } else if (error || !info) {
+    const gone = error?.message.startsWith("410");
+    content = renderMessage(
+      <AlertCircle className="h-6 w-6 text-red-500" />,
+      gone ? "Link no longer available" : "Report not found",
+      gone
+        ? "This link has expired or been revoked. Ask the person who shared it for a new one."
+        : "This link is not valid. Check that it was copied in full."
+    );
+  } else if (!report) {
+    content = info.requiresPassword ? (
+      <Card className="w-full max-w-md mx-auto">
+        <CardHeader>
+          <CardTitle className="flex items-center">
+            <Lock className="h-5 w-5 mr-2 text-gray-500" />
+            {info.title}
+          </CardTitle>
+          <CardDescription>This report is password protected.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form
+            className="space-y-4"
+            onSubmit={(e) => {
+              e.preventDefault();
+              viewMutation.mutate(password);
+            }}
+          >
+            <div>
+              <Label htmlFor="shared-report-password">Password</Label>
+              <Input
+                id="shared-report-password"
+                type="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                className="mt-1.5"
+              />
+            </div>
+            {viewMutation.isError && (
+              <p className="text-sm text-red-600">
+                {viewMutation.error.message.startsWith("401") ? "Incorrect password" : "Could not open the report"}
+              </p>
+            )}
+            <Button type="submit" className="w-full" disabled={!password || viewMutation.isPending}>
+              {viewMutation.isPending ? "Opening..." : "View Report"}
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+    ) : (
+      <div className="text-center py-10 text-gray-500">Loading report...</div>
+    );
+  } else {
+    const [header = [], ...rows] = report.rows;
+    content = (
+      <Card>
+        <CardHeader>
+          <CardTitle>{report.title}</CardTitle>
+          <CardDescription>
+            Shared {formatDate(report.createdAt)} · Available until {formatDate(report.expiresAt)}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  {header.map((cell, index) => (
+                    <TableHead key={index}>{cell}</TableHead>
+                  ))}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rows.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={header.length || 1} className="text-center text-gray-500">
+                      No rows in this report
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  rows.map((row, rowIndex) => (
+                    <TableRow key={rowIndex}>
+                      {row.map((cell, cellIndex) => (
+                        <TableCell key={cellIndex} className="text-sm text-gray-900">{cell}</TableCell>
+                      ))}
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="flex items-center h-16 px-6 bg-white border-b">
+        <FlaskRound className="w-8 h-8 text-primary" />
+        <span className="ml-2 text-xl font-semibold text-gray-800">PharmStock</span>
+      </div>
+      <div className="max-w-6xl mx-auto p-6">{content}</div>
+    </div>
+  );
+}
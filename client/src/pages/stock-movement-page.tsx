@@ -1,12 +1,19 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { MainLayout } from "@/components/layout/main-layout";
+import { ListPagination } from "@/components/layout/list-pagination";
 import { StockMovementForm } from "@/components/stock/stock-movement-form";
+import { StockAdjustmentForm } from "@/components/stock/stock-adjustment-form";
+import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
 import { 
   ArrowLeft, 
   ArrowRight, 
   Calendar, 
   Package, 
+  SlidersHorizontal,
+  Undo2,
   UserCircle 
 } from "lucide-react";
 import {
@@ -23,6 +30,13 @@ import {
   DialogTitle,
   DialogFooter,
 } from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import {
   Table,
   TableBody,
@@ -31,25 +45,42 @@ import {
   TableHeader,
   TableRow,
 } from "@/components/ui/table";
+import { Textarea } from "@/components/ui/textarea";
 import { 
   useQuery,
-  useMutation 
+  useMutation,
+  keepPreviousData
 } from "@tanstack/react-query";
+import { useSearch } from "wouter";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { 
   StockItem, 
   Category, 
   User, 
-  StockMovement 
+  StockMovement,
+  Page,
+  MOVEMENT_TYPES
 } from "@shared/schema";
 import { useAuth } from "@/hooks/use-auth";
 import { useToast } from "@/hooks/use-toast";
-import { formatDate } from "@/lib/utils";
+import { cn, formatDate, getMovementEndpoints, getMovementTypeColor, getMovementTypeName } from "@/lib/utils";
+
+const PAGE_SIZE = 25;
 
 export default function StockMovementPage() {
   const { user, hasPermission } = useAuth();
   const { toast } = useToast();
   const [showMoveStockModal, setShowMoveStockModal] = useState(false);
+  const [showAdjustStockModal, setShowAdjustStockModal] = useState(false);
+  const [movementToVoid, setMovementToVoid] = useState<StockMovement | null>(null);
+  const [voidReason, setVoidReason] = useState("");
+  const [filterItem, setFilterItem] = useState("all");
+  const [filterType, setFilterType] = useState("all");
+  const [filterUser, setFilterUser] = useState("all");
+  const [fromDate, setFromDate] = useState("");
+  const [toDate, setToDate] = useState("");
+  const [sortOrder, setSortOrder] = useState<"asc" | "desc">("desc");
+  const [page, setPage] = useState(1);
 
   // Fetch data
   const { data: stockItems = [] } = useQuery<StockItem[]>({
@@ -64,9 +95,47 @@ export default function StockMovementPage() {
     queryKey: ["/api/users"],
   });
 
-  const { data: movements = [], isLoading: isLoadingMovements } = useQuery<StockMovement[]>({
-    queryKey: ["/api/movements"],
+  // Global search results link here to a stock item's movements
+  const urlSearch = useSearch();
+  useEffect(() => {
+    const stockItemId = new URLSearchParams(urlSearch).get("stockItemId");
+    if (stockItemId) {
+      setFilterItem(stockItemId);
+      setPage(1);
+    }
+  }, [urlSearch]);
+
+  // Filtering, sorting and paging happen on the server. Dates are whole days
+  // in local time.
+  const { data: movementPage, isLoading: isLoadingMovements } = useQuery<Page<StockMovement>>({
+    queryKey: ["/api/movements", {
+      stockItemId: filterItem === "all" ? undefined : filterItem,
+      type: filterType === "all" ? undefined : filterType,
+      userId: filterUser === "all" ? undefined : filterUser,
+      from: fromDate ? new Date(`${fromDate}T00:00:00`).toISOString() : undefined,
+      to: toDate ? new Date(`${toDate}T23:59:59.999`).toISOString() : undefined,
+      sort: "movedAt",
+      order: sortOrder,
+      page,
+      pageSize: PAGE_SIZE,
+    }],
+    placeholderData: keepPreviousData,
   });
+  const movements = movementPage?.items ?? [];
+
+  // A reversal may be on a different page from the movement it voids
+  const { data: reversals = [] } = useQuery<StockMovement[]>({
+    queryKey: ["/api/movements", { type: "reversal" }],
+  });
+
+  // Changing a filter or the order starts again from the first page
+  const changeFilter = <T,>(set: (value: T) => void) => (value: T) => {
+    set(value);
+    setPage(1);
+  };
+
+  const hasFilters = filterItem !== "all" || filterType !== "all" || filterUser !== "all" ||
+    fromDate !== "" || toDate !== "";
 
   // Create movement mutation
   const createMovementMutation = useMutation({
@@ -78,7 +147,8 @@ export default function StockMovementPage() {
       queryClient.invalidateQueries({ queryKey: ["/api/movements"] });
       queryClient.invalidateQueries({ queryKey: ["/api/stock-items"] });
       queryClient.invalidateQueries({ queryKey: ["/api/allocations"] });
-      setShowMoveStockModal(false);
+      queryClient.invalidateQueries({ queryKey: ["/api/stock-items/expiring"] });
+      setShowAdjustStockModal(false);
       toast({
         title: "Success",
         description: "Stock movement created successfully",
@@ -93,6 +163,71 @@ export default function StockMovementPage() {
     },
   });
 
+  // Batch allocation mutation
+  const createBatchMovementMutation = useMutation({
+    mutationFn: async (batchData: any) => {
+      const res = await apiRequest("POST", "/api/movements/batch", batchData);
+      return await res.json();
+    },
+    onSuccess: (result: { batchId: number; movements: StockMovement[] }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/movements"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/stock-items"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/allocations"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/stock-items/expiring"] });
+      setShowMoveStockModal(false);
+      toast({
+        title: "Success",
+        description: `Batch #${result.batchId}: ${result.movements.length} movements recorded`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to move stock",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Void movement mutation
+  const voidMovementMutation = useMutation({
+    mutationFn: async ({ id, reason }: { id: number; reason: string }) => {
+      const res = await apiRequest("POST", `/api/movements/${id}/void`, { reason });
+      return await res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/movements"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/stock-items"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/allocations"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/stock-items/expiring"] });
+      setMovementToVoid(null);
+      setVoidReason("");
+      toast({
+        title: "Success",
+        description: "Stock movement voided",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to void movement",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Movements that already have a reversal recorded against them
+  const voidedMovementIds = new Set(reversals.map(movement => movement.reversalOfId));
+
+  // Voiding needs the same rights as recording the movement in the first place
+  const canVoidMovement = (movement: StockMovement) => {
+    if (movement.type === "reversal" || voidedMovementIds.has(movement.id)) return false;
+    const editsStock = movement.type === "adjustment_in" ||
+      movement.type === "adjustment_out" ||
+      movement.type === "write_off";
+    return hasPermission(editsStock ? "canEditItems" : "canMoveStock");
+  };
+
   // Helpers to get related data
   const getStockItemById = (id: number) => {
     return stockItems.find(item => item.id === id);
@@ -103,8 +238,21 @@ export default function StockMovementPage() {
   };
 
   const getUserById = (id: number | null) => {
-    if (id === null) return { name: "Central Warehouse", role: "warehouse" };
-    return users.find(user => user.id === id) || { name: "Unknown User", role: "unknown" };
+    if (id === null) return { name: "Central Warehouse", role: "warehouse", region: null };
+    return users.find(user => user.id === id) || { name: "Unknown User", role: "unknown", region: null };
+  };
+
+  // Ends of a movement without a user are the warehouse, or stock entering/leaving the system
+  const getMovementParties = (movement: StockMovement) => {
+    const endpoints = getMovementEndpoints(movement, id => getUserById(id).name);
+    return {
+      fromUser: movement.fromUserId !== null
+        ? getUserById(movement.fromUserId)
+        : { name: endpoints.from, role: "warehouse", region: null },
+      toUser: movement.toUserId !== null
+        ? getUserById(movement.toUserId)
+        : { name: endpoints.to, role: "warehouse", region: null },
+    };
   };
 
   const handleSubmitMovement = (data: any) => {
@@ -115,12 +263,20 @@ export default function StockMovementPage() {
     <MainLayout>
       <div className="flex justify-between items-center mb-6">
         <h2 className="text-2xl font-bold text-gray-800">Stock Movement</h2>
-        {hasPermission("canMoveStock") && (
-          <Button onClick={() => setShowMoveStockModal(true)}>
-            <ArrowRight className="mr-2 h-4 w-4" />
-            Move Stock
-          </Button>
-        )}
+        <div className="flex space-x-2">
+          {(hasPermission("canMoveStock") || hasPermission("canEditItems")) && (
+            <Button variant="outline" onClick={() => setShowAdjustStockModal(true)}>
+              <SlidersHorizontal className="mr-2 h-4 w-4" />
+              Return / Adjust
+            </Button>
+          )}
+          {hasPermission("canMoveStock") && (
+            <Button onClick={() => setShowMoveStockModal(true)}>
+              <ArrowRight className="mr-2 h-4 w-4" />
+              Move Stock
+            </Button>
+          )}
+        </div>
       </div>
 
       {/* Stock Movement History */}
@@ -129,6 +285,90 @@ export default function StockMovementPage() {
           <CardTitle className="text-lg font-medium">Stock Movement History</CardTitle>
         </CardHeader>
         <CardContent className="p-6">
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-6 gap-3 mb-6">
+            <div className="space-y-1">
+              <Label>Item</Label>
+              <Select value={filterItem} onValueChange={changeFilter(setFilterItem)}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Item" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All Items</SelectItem>
+                  {stockItems.map((item) => (
+                    <SelectItem key={item.id} value={item.id.toString()}>
+                      {item.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label>Type</Label>
+              <Select value={filterType} onValueChange={changeFilter(setFilterType)}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Type" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All Types</SelectItem>
+                  {MOVEMENT_TYPES.map((type) => (
+                    <SelectItem key={type} value={type}>
+                      {getMovementTypeName(type)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label>User</Label>
+              <Select value={filterUser} onValueChange={changeFilter(setFilterUser)}>
+                <SelectTrigger>
+                  <SelectValue placeholder="User" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All Users</SelectItem>
+                  {users.map((user) => (
+                    <SelectItem key={user.id} value={user.id.toString()}>
+                      {user.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="movements-from">From</Label>
+              <Input
+                id="movements-from"
+                type="date"
+                value={fromDate}
+                onChange={(e) => changeFilter(setFromDate)(e.target.value)}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="movements-to">To</Label>
+              <Input
+                id="movements-to"
+                type="date"
+                value={toDate}
+                onChange={(e) => changeFilter(setToDate)(e.target.value)}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label>Order</Label>
+              <Select
+                value={sortOrder}
+                onValueChange={changeFilter((value: string) => setSortOrder(value as "asc" | "desc"))}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Order" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="desc">Newest first</SelectItem>
+                  <SelectItem value="asc">Oldest first</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
           {isLoadingMovements ? (
             <div className="flex justify-center py-10">
               <div className="animate-spin rounded-full h-10 w-10 border-b-2 border-primary"></div>
@@ -136,8 +376,14 @@ export default function StockMovementPage() {
           ) : movements.length === 0 ? (
             <div className="text-center py-10">
               <ArrowLeft className="h-12 w-12 mx-auto text-gray-300 mb-4" />
-              <h3 className="text-lg font-medium text-gray-700">No movement history</h3>
-              <p className="text-gray-500 mt-2">Start moving items between users to see history here.</p>
+              <h3 className="text-lg font-medium text-gray-700">
+                {hasFilters ? "No matching movements" : "No movement history"}
+              </h3>
+              <p className="text-gray-500 mt-2">
+                {hasFilters
+                  ? "Try adjusting the filters to find what you're looking for."
+                  : "Start moving items between users to see history here."}
+              </p>
             </div>
           ) : (
             <div className="overflow-x-auto">
@@ -145,18 +391,19 @@ export default function StockMovementPage() {
                 <TableHeader>
                   <TableRow>
                     <TableHead>Date</TableHead>
+                    <TableHead>Type</TableHead>
                     <TableHead>Item</TableHead>
                     <TableHead>From</TableHead>
                     <TableHead>To</TableHead>
                     <TableHead>Quantity</TableHead>
                     <TableHead>Processed By</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
                   </TableRow>
                 </TableHeader>
                 <TableBody>
                   {movements.map((movement) => {
                     const stockItem = getStockItemById(movement.stockItemId);
-                    const fromUser = getUserById(movement.fromUserId);
-                    const toUser = getUserById(movement.toUserId);
+                    const { fromUser, toUser } = getMovementParties(movement);
                     const movedByUser = getUserById(movement.movedBy);
                     
                     return (
@@ -167,6 +414,22 @@ export default function StockMovementPage() {
                             <span className="text-sm text-gray-500">{formatDate(movement.movedAt)}</span>
                           </div>
                         </TableCell>
+                        <TableCell>
+                          <Badge variant="outline" className={cn("font-medium", getMovementTypeColor(movement.type))}>
+                            {getMovementTypeName(movement.type)}
+                          </Badge>
+                          {voidedMovementIds.has(movement.id) && (
+                            <Badge variant="outline" className="ml-1 font-medium bg-gray-100 text-gray-500">
+                              Voided
+                            </Badge>
+                          )}
+                          {movement.reason && (
+                            <div className="text-xs text-gray-500 mt-1">{movement.reason}</div>
+                          )}
+                          {movement.batchId !== null && (
+                            <div className="text-xs text-gray-400 mt-1">Batch #{movement.batchId}</div>
+                          )}
+                        </TableCell>
                         <TableCell>
                           <div className="flex items-center">
                             <div className="h-10 w-10 flex-shrink-0">
@@ -212,6 +475,18 @@ export default function StockMovementPage() {
                         </TableCell>
                         <TableCell className="text-sm text-gray-900">{movement.quantity}</TableCell>
                         <TableCell className="text-sm text-gray-900">{movedByUser?.name}</TableCell>
+                        <TableCell className="text-right">
+                          {canVoidMovement(movement) && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => setMovementToVoid(movement)}
+                            >
+                              <Undo2 className="mr-1 h-4 w-4" />
+                              Void
+                            </Button>
+                          )}
+                        </TableCell>
                       </TableRow>
                     );
                   })}
@@ -219,22 +494,106 @@ export default function StockMovementPage() {
               </Table>
             </div>
           )}
+
+          {movementPage && movementPage.total > 0 && (
+            <ListPagination
+              page={movementPage.page}
+              pageSize={movementPage.pageSize}
+              total={movementPage.total}
+              onPageChange={setPage}
+            />
+          )}
         </CardContent>
       </Card>
 
+      {/* Return / Adjust Stock Modal */}
+      <Dialog open={showAdjustStockModal} onOpenChange={setShowAdjustStockModal}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Return / Adjust Stock</DialogTitle>
+            <DialogDescription>
+              Record a return to the warehouse, a stock adjustment or a write-off.
+            </DialogDescription>
+          </DialogHeader>
+          
+          <StockAdjustmentForm
+            onSubmit={handleSubmitMovement}
+            isLoading={createMovementMutation.isPending}
+          />
+          
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShowAdjustStockModal(false)}>
+              Cancel
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Void Movement Modal */}
+      <Dialog
+        open={movementToVoid !== null}
+        onOpenChange={(open) => {
+          if (!open) {
+            setMovementToVoid(null);
+            setVoidReason("");
+          }
+        }}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Void Movement</DialogTitle>
+            <DialogDescription>
+              {movementToVoid && (
+                <>
+                  This records a reversal of the {getMovementTypeName(movementToVoid.type).toLowerCase()} of{" "}
+                  {movementToVoid.quantity} x {getStockItemById(movementToVoid.stockItemId)?.name || "Unknown Item"}{" "}
+                  and restores the stock to where it came from.
+                </>
+              )}
+            </DialogDescription>
+          </DialogHeader>
+
+          <Textarea
+            rows={3}
+            placeholder="Reason for voiding (required)"
+            value={voidReason}
+            onChange={(e) => setVoidReason(e.target.value)}
+          />
+
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={() => {
+                setMovementToVoid(null);
+                setVoidReason("");
+              }}
+            >
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              disabled={!voidReason.trim() || voidMovementMutation.isPending}
+              onClick={() => movementToVoid && voidMovementMutation.mutate({ id: movementToVoid.id, reason: voidReason })}
+            >
+              {voidMovementMutation.isPending ? "Voiding..." : "Void Movement"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
       {/* Move Stock Modal */}
       <Dialog open={showMoveStockModal} onOpenChange={setShowMoveStockModal}>
         <DialogContent className="max-w-4xl">
           <DialogHeader>
             <DialogTitle>Move Stock</DialogTitle>
             <DialogDescription>
-              Select items and recipients to create a stock transfer.
+              Select items and recipients, then enter how much of each item every recipient receives.
             </DialogDescription>
           </DialogHeader>
           
           <StockMovementForm
-            onSubmit={handleSubmitMovement}
-            isLoading={createMovementMutation.isPending}
+            onSubmit={(data) => createBatchMovementMutation.mutate(data)}
+            isLoading={createBatchMovementMutation.isPending}
           />
           
           <DialogFooter>
@@ -0,0 +1,280 @@
+import { useState } from "react";
+import { Link, useParams } from "wouter";
+import { MainLayout } from "@/components/layout/main-layout";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { ArrowLeft, Check, Clock, X } from "lucide-react";
+import {
+  Card,
+  CardContent,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { StockItem, StockRequestDetail, User } from "@shared/schema";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { cn, formatDate, getRequestStatusColor, getRequestStatusName } from "@/lib/utils";
+
+export default function StockRequestDetailPage() {
+  const { id } = useParams<{ id: string }>();
+  const { user, hasPermission } = useAuth();
+  const { toast } = useToast();
+  // Approved quantity per request item, defaulting to the requested quantity
+  const [approvedQuantities, setApprovedQuantities] = useState<Record<number, string>>({});
+  const [reviewNotes, setReviewNotes] = useState("");
+
+  const { data: request, isLoading } = useQuery<StockRequestDetail>({
+    queryKey: [`/api/stock-requests/${id}`],
+  });
+
+  const { data: stockItems = [] } = useQuery<StockItem[]>({
+    queryKey: ["/api/stock-items"],
+  });
+
+  const { data: users = [] } = useQuery<User[]>({
+    queryKey: ["/api/users"],
+  });
+
+  const onRequestChanged = (title: string) => {
+    queryClient.invalidateQueries({ queryKey: [`/api/stock-requests/${id}`] });
+    queryClient.invalidateQueries({ queryKey: ["/api/stock-requests"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/stock-items"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/movements"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/allocations"] });
+    setReviewNotes("");
+    toast({
+      title: "Success",
+      description: title,
+    });
+  };
+
+  const onRequestError = (error: Error) => {
+    toast({
+      title: "Failed to update request",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const reviewMutation = useMutation({
+    mutationFn: async (review: any) => {
+      const res = await apiRequest("POST", `/api/stock-requests/${id}/review`, review);
+      return await res.json();
+    },
+    onSuccess: (reviewed: StockRequestDetail) => onRequestChanged(`Request ${getRequestStatusName(reviewed.status).toLowerCase()}`),
+    onError: onRequestError,
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/stock-requests/${id}/cancel`);
+      return await res.json();
+    },
+    onSuccess: () => onRequestChanged("Request cancelled"),
+    onError: onRequestError,
+  });
+
+  const getUserName = (userId: number | null) => {
+    if (userId === null) return "—";
+    return users.find(u => u.id === userId)?.name || "Unknown User";
+  };
+
+  const getStockItem = (stockItemId: number) => {
+    return stockItems.find(item => item.id === stockItemId);
+  };
+
+  if (isLoading || !request) {
+    return (
+      <MainLayout>
+        <div className="text-center py-10">{isLoading ? "Loading request..." : "Stock request not found"}</div>
+      </MainLayout>
+    );
+  }
+
+  const isPending = request.status === "pending";
+  const isRequester = request.requestedBy === user?.id;
+  // The server has the final say; this only decides whether to offer the controls
+  const canReview = isPending && !isRequester && hasPermission("canApproveRequests") &&
+    (user?.role === "ceo" || (user?.specialtyId != null && user.specialtyId === request.specialtyId));
+
+  const getApprovedQuantity = (itemId: number, requested: number) => {
+    return approvedQuantities[itemId] ?? requested.toString();
+  };
+
+  const handleApprove = () => {
+    reviewMutation.mutate({
+      decision: "approve",
+      items: request.items.map(item => ({
+        id: item.id,
+        quantityApproved: parseInt(getApprovedQuantity(item.id, item.quantityRequested)) || 0,
+      })),
+      notes: reviewNotes || undefined,
+    });
+  };
+
+  const handleReject = () => {
+    reviewMutation.mutate({ decision: "reject", notes: reviewNotes });
+  };
+
+  return (
+    <MainLayout>
+      <div className="flex justify-between items-center mb-6">
+        <div className="flex items-center">
+          <Link href="/stock-requests">
+            <Button variant="ghost" size="icon" className="mr-2">
+              <ArrowLeft className="h-5 w-5" />
+            </Button>
+          </Link>
+          <h2 className="text-2xl font-bold text-gray-800">Stock Request #{request.id}</h2>
+          <Badge variant="outline" className={cn("ml-3 font-medium", getRequestStatusColor(request.status))}>
+            {getRequestStatusName(request.status)}
+          </Badge>
+        </div>
+        {isPending && isRequester && (
+          <Button variant="outline" onClick={() => cancelMutation.mutate()} disabled={cancelMutation.isPending}>
+            {cancelMutation.isPending ? "Cancelling..." : "Cancel Request"}
+          </Button>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="lg:col-span-2 space-y-6">
+          <Card>
+            <CardHeader>
+              <CardTitle>Items</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="grid grid-cols-2 gap-4 mb-4 text-sm">
+                <div>
+                  <div className="text-gray-500">Requested By</div>
+                  <div className="text-gray-900">{getUserName(request.requestedBy)}</div>
+                </div>
+                <div>
+                  <div className="text-gray-500">Submitted</div>
+                  <div className="text-gray-900">{formatDate(request.createdAt)}</div>
+                </div>
+                {request.notes && (
+                  <div className="col-span-2">
+                    <div className="text-gray-500">Notes</div>
+                    <div className="text-gray-900">{request.notes}</div>
+                  </div>
+                )}
+              </div>
+
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Item</TableHead>
+                    <TableHead>Requested</TableHead>
+                    <TableHead>{canReview ? "Approve" : "Approved"}</TableHead>
+                    {canReview && <TableHead>In Stock</TableHead>}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {request.items.map(item => {
+                    const stockItem = getStockItem(item.stockItemId);
+                    return (
+                      <TableRow key={item.id}>
+                        <TableCell>
+                          <div className="text-sm font-medium text-gray-900">{stockItem?.name || "Unknown Item"}</div>
+                          <div className="text-sm text-gray-500">{stockItem?.uniqueNumber || "—"}</div>
+                        </TableCell>
+                        <TableCell className="text-sm text-gray-900">{item.quantityRequested}</TableCell>
+                        <TableCell>
+                          {canReview ? (
+                            <Input
+                              type="number"
+                              min="0"
+                              max={item.quantityRequested.toString()}
+                              className="w-24"
+                              value={getApprovedQuantity(item.id, item.quantityRequested)}
+                              onChange={(e) => setApprovedQuantities(prev => ({ ...prev, [item.id]: e.target.value }))}
+                            />
+                          ) : (
+                            <span className="text-sm text-gray-900">{item.quantityApproved ?? "—"}</span>
+                          )}
+                        </TableCell>
+                        {canReview && (
+                          <TableCell className="text-sm text-gray-500">{stockItem?.quantity ?? "—"}</TableCell>
+                        )}
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+
+          {canReview && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Review</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <p className="text-sm text-gray-500">
+                  Lower a quantity to approve part of a line, or set it to 0 to leave it out.
+                  Approved stock is allocated to the requester straight away.
+                </p>
+                <Textarea
+                  rows={3}
+                  placeholder="Notes for the requester (required when rejecting)"
+                  value={reviewNotes}
+                  onChange={(e) => setReviewNotes(e.target.value)}
+                />
+                <div className="flex justify-end space-x-2">
+                  <Button
+                    variant="outline"
+                    onClick={handleReject}
+                    disabled={!reviewNotes.trim() || reviewMutation.isPending}
+                  >
+                    <X className="mr-2 h-4 w-4" />
+                    Reject
+                  </Button>
+                  <Button onClick={handleApprove} disabled={reviewMutation.isPending}>
+                    <Check className="mr-2 h-4 w-4" />
+                    {reviewMutation.isPending ? "Processing..." : "Approve"}
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+          )}
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Status History</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <ol className="space-y-4">
+              {request.history.map(event => (
+                <li key={event.id} className="flex">
+                  <Clock className="h-4 w-4 text-gray-400 mr-3 mt-1 flex-shrink-0" />
+                  <div>
+                    <Badge variant="outline" className={cn("font-medium", getRequestStatusColor(event.status))}>
+                      {getRequestStatusName(event.status)}
+                    </Badge>
+                    <div className="text-sm text-gray-900 mt-1">{getUserName(event.changedBy)}</div>
+                    <div className="text-xs text-gray-500">{formatDate(event.changedAt)}</div>
+                    {event.notes && <div className="text-sm text-gray-600 mt-1">{event.notes}</div>}
+                  </div>
+                </li>
+              ))}
+            </ol>
+          </CardContent>
+        </Card>
+      </div>
+    </MainLayout>
+  );
+}
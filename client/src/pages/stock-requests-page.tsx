@@ -0,0 +1,182 @@
+import { useState } from "react";
+import { Link } from "wouter";
+import { MainLayout } from "@/components/layout/main-layout";
+import { StockRequestForm } from "@/components/stock/stock-request-form";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Calendar, ClipboardList, Plus } from "lucide-react";
+import {
+  Card,
+  CardContent,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { StockItem, StockRequestWithItems, User } from "@shared/schema";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { cn, formatDate, getRequestStatusColor, getRequestStatusName } from "@/lib/utils";
+
+export default function StockRequestsPage() {
+  const { user, hasPermission } = useAuth();
+  const { toast } = useToast();
+  const [showRequestModal, setShowRequestModal] = useState(false);
+
+  const { data: requests = [], isLoading } = useQuery<StockRequestWithItems[]>({
+    queryKey: ["/api/stock-requests"],
+  });
+
+  const { data: stockItems = [] } = useQuery<StockItem[]>({
+    queryKey: ["/api/stock-items"],
+  });
+
+  const { data: users = [] } = useQuery<User[]>({
+    queryKey: ["/api/users"],
+  });
+
+  const createRequestMutation = useMutation({
+    mutationFn: async (requestData: any) => {
+      const res = await apiRequest("POST", "/api/stock-requests", requestData);
+      return await res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/stock-requests"] });
+      setShowRequestModal(false);
+      toast({
+        title: "Success",
+        description: "Stock request submitted",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to submit request",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const getUserName = (id: number | null) => {
+    if (id === null) return "—";
+    return users.find(u => u.id === id)?.name || "Unknown User";
+  };
+
+  const describeItems = (request: StockRequestWithItems) => {
+    return request.items
+      .map(item => `${stockItems.find(s => s.id === item.stockItemId)?.name || "Unknown Item"} x ${item.quantityRequested}`)
+      .join(", ");
+  };
+
+  const pendingForReview = requests.filter(
+    request => request.status === "pending" && request.requestedBy !== user?.id
+  );
+
+  return (
+    <MainLayout>
+      <div className="flex justify-between items-center mb-6">
+        <h2 className="text-2xl font-bold text-gray-800">Stock Requests</h2>
+        {hasPermission("canRequestStock") && (
+          <Button onClick={() => setShowRequestModal(true)}>
+            <Plus className="mr-2 h-4 w-4" />
+            New Request
+          </Button>
+        )}
+      </div>
+
+      {hasPermission("canApproveRequests") && pendingForReview.length > 0 && (
+        <div className="mb-6 px-4 py-3 rounded-md bg-yellow-50 text-sm text-yellow-800">
+          {pendingForReview.length} request{pendingForReview.length === 1 ? "" : "s"} awaiting review
+        </div>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Requests</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="text-center py-10">Loading requests...</div>
+          ) : requests.length === 0 ? (
+            <div className="text-center py-10">
+              <ClipboardList className="h-12 w-12 mx-auto text-gray-300 mb-4" />
+              <h3 className="text-lg font-medium text-gray-700">No stock requests</h3>
+              <p className="text-gray-500 mt-2">Requests you submit or can review will appear here.</p>
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Request</TableHead>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Requested By</TableHead>
+                    <TableHead>Items</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {requests.map((request) => (
+                    <TableRow key={request.id}>
+                      <TableCell className="text-sm font-medium text-gray-900">#{request.id}</TableCell>
+                      <TableCell>
+                        <div className="flex items-center">
+                          <Calendar className="h-4 w-4 text-gray-400 mr-2" />
+                          <span className="text-sm text-gray-500">{formatDate(request.createdAt)}</span>
+                        </div>
+                      </TableCell>
+                      <TableCell className="text-sm text-gray-900">{getUserName(request.requestedBy)}</TableCell>
+                      <TableCell className="text-sm text-gray-500 max-w-xs truncate">{describeItems(request)}</TableCell>
+                      <TableCell>
+                        <Badge variant="outline" className={cn("font-medium", getRequestStatusColor(request.status))}>
+                          {getRequestStatusName(request.status)}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <Link href={`/stock-requests/${request.id}`}>
+                          <Button variant="ghost" size="sm">View</Button>
+                        </Link>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={showRequestModal} onOpenChange={setShowRequestModal}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Request Stock</DialogTitle>
+            <DialogDescription>
+              Your request is sent to the managers of your specialty for approval.
+            </DialogDescription>
+          </DialogHeader>
+
+          <StockRequestForm
+            onSubmit={(data) => createRequestMutation.mutate(data)}
+            isLoading={createRequestMutation.isPending}
+          />
+        </DialogContent>
+      </Dialog>
+    </MainLayout>
+  );
+}
@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { MainLayout } from "@/components/layout/main-layout";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -53,6 +53,7 @@ import {
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog";
 import { useQuery, useMutation } from "@tanstack/react-query";
+import { useSearch } from "wouter";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/hooks/use-auth";
@@ -66,14 +67,25 @@ import {
   Plus,
   Edit,
   Trash2,
+  LogOut,
+  LockOpen,
   UserCircle,
   Users,
 } from "lucide-react";
-import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { AuditHistory } from "@/components/audit/audit-history";
+import { LoginHistory } from "@/components/audit/login-history";
+import { PendingInvitations } from "@/components/users/pending-invitations";
+
+// Locked by repeated failed sign-ins, and not yet let out
+function isLocked(user: User): boolean {
+  return user.lockedUntil !== null && new Date(user.lockedUntil).getTime() > Date.now();
+}
 
 const userFormSchema = z.object({
   name: z.string().min(2, "Full name is required"),
   username: z.string().min(3, "Username must be at least 3 characters"),
+  email: z.string().email("Invalid email address").or(z.literal("")).optional(),
   password: z.string().min(6, "Password must be at least 6 characters").optional(),
   role: z.enum(["ceo", "marketer", "salesManager", "stockManager", "admin", "medicalRep"] as [RoleType, ...RoleType[]]),
   region: z.string().optional(),
@@ -82,16 +94,33 @@ const userFormSchema = z.object({
 
 type UserFormValues = z.infer<typeof userFormSchema>;
 
+// Invitees choose their own username and password
+const inviteFormSchema = userFormSchema.pick({ name: true, role: true, region: true, specialtyId: true }).extend({
+  email: z.string().email("Invalid email address"),
+});
+
+type InviteFormValues = z.infer<typeof inviteFormSchema>;
+
 export default function UserManagementPage() {
   const { user } = useAuth();
   const { toast } = useToast();
   const [searchQuery, setSearchQuery] = useState("");
   const [filterRole, setFilterRole] = useState<string | null>(null);
-  const [showAddUserModal, setShowAddUserModal] = useState(false);
+  const [showInviteUserModal, setShowInviteUserModal] = useState(false);
   const [showEditUserModal, setShowEditUserModal] = useState(false);
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
   const [selectedUser, setSelectedUser] = useState<User | null>(null);
 
+  // Global search results link here with the user to look for
+  const urlSearch = useSearch();
+  useEffect(() => {
+    const search = new URLSearchParams(urlSearch).get("search");
+    if (search) {
+      setSearchQuery(search);
+      setFilterRole(null);
+    }
+  }, [urlSearch]);
+
   // Fetch users
   const { data: users = [], isLoading } = useQuery<User[]>({
     queryKey: ["/api/users"],
@@ -101,23 +130,27 @@ export default function UserManagementPage() {
     queryKey: ["/api/specialties"],
   });
 
-  // Create user mutation
-  const createUserMutation = useMutation({
-    mutationFn: async (userData: UserFormValues) => {
-      const res = await apiRequest("POST", "/api/register", userData);
+  // Invite user mutation
+  const inviteUserMutation = useMutation({
+    mutationFn: async ({ specialtyId, ...invitation }: InviteFormValues) => {
+      const res = await apiRequest("POST", "/api/invitations", {
+        ...invitation,
+        specialtyId: specialtyId && specialtyId !== "0" ? Number(specialtyId) : null,
+      });
       return await res.json();
     },
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["/api/users"] });
-      setShowAddUserModal(false);
+      queryClient.invalidateQueries({ queryKey: ["/api/invitations"] });
+      setShowInviteUserModal(false);
+      inviteUserForm.reset();
       toast({
-        title: "Success",
-        description: "User created successfully",
+        title: "Invitation sent",
+        description: "They'll get an email with a link to set up their account.",
       });
     },
     onError: (error: Error) => {
       toast({
-        title: "Failed to create user",
+        title: "Failed to send invitation",
         description: error.message,
         variant: "destructive",
       });
@@ -173,13 +206,12 @@ export default function UserManagementPage() {
     },
   });
 
-  // Add user form
-  const addUserForm = useForm<UserFormValues>({
-    resolver: zodResolver(userFormSchema),
+  // Invite user form
+  const inviteUserForm = useForm<InviteFormValues>({
+    resolver: zodResolver(inviteFormSchema),
     defaultValues: {
       name: "",
-      username: "",
-      password: "",
+      email: "",
       role: "medicalRep",
       region: "",
       specialtyId: "",
@@ -194,6 +226,7 @@ export default function UserManagementPage() {
     defaultValues: {
       name: "",
       username: "",
+      email: "",
       role: "medicalRep",
       region: "",
       specialtyId: "",
@@ -201,8 +234,8 @@ export default function UserManagementPage() {
   });
 
   // Handle user actions
-  const handleAddUser = (data: UserFormValues) => {
-    createUserMutation.mutate(data);
+  const handleInviteUser = (data: InviteFormValues) => {
+    inviteUserMutation.mutate(data);
   };
 
   const handleEditUser = (user: User) => {
@@ -210,6 +243,7 @@ export default function UserManagementPage() {
     editUserForm.reset({
       name: user.name,
       username: user.username,
+      email: user.email || "",
       role: user.role as RoleType,
       region: user.region || "",
       specialtyId: user.specialtyId || "",
@@ -229,6 +263,47 @@ export default function UserManagementPage() {
     updateUserMutation.mutate({ id: selectedUser.id, userData: updateData });
   };
 
+  // Force logout, ending every session the user has
+  const signOutUserMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const res = await apiRequest("DELETE", `/api/users/${id}/sessions`);
+      return (await res.json()) as { ended: number };
+    },
+    onSuccess: ({ ended }) => {
+      toast({
+        title: "User signed out",
+        description: `${ended} session${ended === 1 ? "" : "s"} ended.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to sign out user",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const unlockUserMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("POST", `/api/users/${id}/unlock`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+      toast({
+        title: "User unlocked",
+        description: "They can sign in again straight away.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to unlock user",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
   const handleDeleteUser = (user: User) => {
     setSelectedUser(user);
     setShowDeleteConfirm(true);
@@ -273,12 +348,12 @@ export default function UserManagementPage() {
   };
 
   return (
-    <MainLayout onSearch={setSearchQuery}>
+    <MainLayout>
       <div className="flex justify-between items-center mb-6">
         <h2 className="text-2xl font-bold text-gray-800">User Management</h2>
-        <Button onClick={() => setShowAddUserModal(true)}>
+        <Button onClick={() => setShowInviteUserModal(true)}>
           <Plus className="mr-2 h-4 w-4" />
-          Add New User
+          Invite User
         </Button>
       </div>
 
@@ -321,8 +396,17 @@ export default function UserManagementPage() {
 
       {/* Users list */}
       <Card>
-        <CardHeader className="px-6 py-4 border-b border-gray-200">
+        <CardHeader className="px-6 py-4 border-b border-gray-200 flex flex-row items-center justify-between space-y-0">
           <CardTitle className="text-lg font-medium">Users</CardTitle>
+          <div className="relative w-64">
+            <Input
+              value={searchQuery}
+              onChange={(e) => setSearchQuery(e.target.value)}
+              placeholder="Search users..."
+              className="pl-10"
+            />
+            <Search className="absolute left-3 top-2.5 h-4 w-4 text-gray-400" />
+          </div>
         </CardHeader>
         <CardContent className="p-6">
           {isLoading ? (
@@ -358,6 +442,9 @@ export default function UserManagementPage() {
                           </Avatar>
                           <div className="ml-3">
                             <div className="text-sm font-medium text-gray-900">{u.name}</div>
+                            {isLocked(u) && (
+                              <Badge variant="outline" className="bg-red-100 text-red-800 text-xs">Locked</Badge>
+                            )}
                           </div>
                         </div>
                       </TableCell>
@@ -384,6 +471,30 @@ export default function UserManagementPage() {
                             <Edit className="h-4 w-4" />
                           </Button>
 
+                          {isLocked(u) && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              title="Unlock"
+                              onClick={() => unlockUserMutation.mutate(u.id)}
+                              className="text-amber-600 hover:text-amber-800"
+                              disabled={unlockUserMutation.isPending}
+                            >
+                              <LockOpen className="h-4 w-4" />
+                            </Button>
+                          )}
+
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            title="Sign out everywhere"
+                            onClick={() => signOutUserMutation.mutate(u.id)}
+                            className="text-gray-600 hover:text-gray-800"
+                            disabled={u.id === user?.id || signOutUserMutation.isPending}
+                          >
+                            <LogOut className="h-4 w-4" />
+                          </Button>
+
                           <Button
                             variant="ghost"
                             size="sm"
@@ -404,20 +515,32 @@ export default function UserManagementPage() {
         </CardContent>
       </Card>
 
-      {/* Add User Modal */}
-      <Dialog open={showAddUserModal} onOpenChange={setShowAddUserModal}>
+      <PendingInvitations />
+
+      <Card className="mt-6">
+        <CardHeader className="px-6 py-4 border-b border-gray-200">
+          <CardTitle className="text-lg font-medium">Sign-in Activity</CardTitle>
+        </CardHeader>
+        <CardContent className="p-6">
+          <LoginHistory />
+        </CardContent>
+      </Card>
+
+      {/* Invite User Modal */}
+      <Dialog open={showInviteUserModal} onOpenChange={setShowInviteUserModal}>
         <DialogContent className="max-w-md">
           <DialogHeader>
-            <DialogTitle>Add New User</DialogTitle>
+            <DialogTitle>Invite User</DialogTitle>
             <DialogDescription>
-              Create a new user account. All fields are required except region.
+              We'll email them a link to choose a username and password. Their role, region and
+              specialty are set here.
             </DialogDescription>
           </DialogHeader>
 
-          <Form {...addUserForm}>
-            <form onSubmit={addUserForm.handleSubmit(handleAddUser)} className="space-y-4">
+          <Form {...inviteUserForm}>
+            <form onSubmit={inviteUserForm.handleSubmit(handleInviteUser)} className="space-y-4">
               <FormField
-                control={addUserForm.control}
+                control={inviteUserForm.control}
                 name="name"
                 render={({ field }) => (
                   <FormItem>
@@ -431,27 +554,13 @@ export default function UserManagementPage() {
               />
 
               <FormField
-                control={addUserForm.control}
-                name="username"
-                render={({ field }) => (
-                  <FormItem>
-                    <FormLabel>Username</FormLabel>
-                    <FormControl>
-                      <Input placeholder="Enter username" {...field} />
-                    </FormControl>
-                    <FormMessage />
-                  </FormItem>
-                )}
-              />
-
-              <FormField
-                control={addUserForm.control}
-                name="password"
+                control={inviteUserForm.control}
+                name="email"
                 render={({ field }) => (
                   <FormItem>
-                    <FormLabel>Password</FormLabel>
+                    <FormLabel>Email</FormLabel>
                     <FormControl>
-                      <Input type="password" placeholder="Enter password" {...field} />
+                      <Input type="email" placeholder="Enter email address" {...field} />
                     </FormControl>
                     <FormMessage />
                   </FormItem>
@@ -459,7 +568,7 @@ export default function UserManagementPage() {
               />
 
               <FormField
-                control={addUserForm.control}
+                control={inviteUserForm.control}
                 name="role"
                 render={({ field }) => (
                   <FormItem>
@@ -488,7 +597,7 @@ export default function UserManagementPage() {
               />
 
               <FormField
-                control={addUserForm.control}
+                control={inviteUserForm.control}
                 name="region"
                 render={({ field }) => (
                   <FormItem>
@@ -502,7 +611,7 @@ export default function UserManagementPage() {
               />
 
               <FormField
-                control={addUserForm.control}
+                control={inviteUserForm.control}
                 name="specialtyId"
                 render={({ field }) => (
                   <FormItem>
@@ -533,9 +642,9 @@ export default function UserManagementPage() {
               <DialogFooter>
                 <Button 
                   type="submit" 
-                  disabled={createUserMutation.isPending}
+                  disabled={inviteUserMutation.isPending}
                 >
-                  {createUserMutation.isPending ? "Creating..." : "Create User"}
+                  {inviteUserMutation.isPending ? "Sending..." : "Send Invitation"}
                 </Button>
               </DialogFooter>
             </form>
@@ -553,132 +662,164 @@ export default function UserManagementPage() {
             </DialogDescription>
           </DialogHeader>
 
-          <Form {...editUserForm}>
-            <form onSubmit={editUserForm.handleSubmit(handleUpdateUser)} className="space-y-4">
-              <FormField
-                control={editUserForm.control}
-                name="name"
-                render={({ field }) => (
-                  <FormItem>
-                    <FormLabel>Full Name</FormLabel>
-                    <FormControl>
-                      <Input placeholder="Enter full name" {...field} />
-                    </FormControl>
-                    <FormMessage />
-                  </FormItem>
-                )}
-              />
-
-              <FormField
-                control={editUserForm.control}
-                name="username"
-                render={({ field }) => (
-                  <FormItem>
-                    <FormLabel>Username</FormLabel>
-                    <FormControl>
-                      <Input placeholder="Enter username" {...field} />
-                    </FormControl>
-                    <FormMessage />
-                  </FormItem>
-                )}
-              />
-
-              <FormField
-                control={editUserForm.control}
-                name="password"
-                render={({ field }) => (
-                  <FormItem>
-                    <FormLabel>Password (Leave blank to keep unchanged)</FormLabel>
-                    <FormControl>
-                      <Input type="password" placeholder="Enter new password" {...field} />
-                    </FormControl>
-                    <FormMessage />
-                  </FormItem>
-                )}
-              />
-
-              <FormField
-                control={editUserForm.control}
-                name="role"
-                render={({ field }) => (
-                  <FormItem>
-                    <FormLabel>Role</FormLabel>
-                    <Select
-                      onValueChange={field.onChange}
-                      defaultValue={field.value}
+          <Tabs defaultValue="details">
+            <TabsList>
+              <TabsTrigger value="details">Details</TabsTrigger>
+              <TabsTrigger value="history">History</TabsTrigger>
+              <TabsTrigger value="sign-ins">Sign-ins</TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="details">
+              <Form {...editUserForm}>
+                <form onSubmit={editUserForm.handleSubmit(handleUpdateUser)} className="space-y-4">
+                  <FormField
+                    control={editUserForm.control}
+                    name="name"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Full Name</FormLabel>
+                        <FormControl>
+                          <Input placeholder="Enter full name" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={editUserForm.control}
+                    name="username"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Username</FormLabel>
+                        <FormControl>
+                          <Input placeholder="Enter username" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={editUserForm.control}
+                    name="email"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Email (Optional)</FormLabel>
+                        <FormControl>
+                          <Input type="email" placeholder="Enter email address" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={editUserForm.control}
+                    name="password"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Password (Leave blank to keep unchanged)</FormLabel>
+                        <FormControl>
+                          <Input type="password" placeholder="Enter new password" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={editUserForm.control}
+                    name="role"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Role</FormLabel>
+                        <Select
+                          onValueChange={field.onChange}
+                          defaultValue={field.value}
+                        >
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue placeholder="Select a role" />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            <SelectItem value="ceo">CEO</SelectItem>
+                            <SelectItem value="marketer">Marketer</SelectItem>
+                            <SelectItem value="salesManager">Sales Manager</SelectItem>
+                            <SelectItem value="stockManager">Stock Manager</SelectItem>
+                            <SelectItem value="admin">Admin</SelectItem>
+                            <SelectItem value="medicalRep">Medical Rep</SelectItem>
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={editUserForm.control}
+                    name="region"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Region (Optional)</FormLabel>
+                        <FormControl>
+                          <Input placeholder="Enter region" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={editUserForm.control}
+                    name="specialtyId"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Specialty</FormLabel>
+                        <Select onValueChange={field.onChange} defaultValue={field.value}>
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue placeholder="Select specialty" />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            <SelectItem value="0">No specialty</SelectItem>
+                            {specialties.map((specialty) => (
+                              <SelectItem key={specialty.id} value={specialty.id.toString()}>
+                                {specialty.name}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormDescription>
+                          Assign a specialty to this user
+                        </FormDescription>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <DialogFooter>
+                    <Button 
+                      type="submit" 
+                      disabled={updateUserMutation.isPending}
                     >
-                      <FormControl>
-                        <SelectTrigger>
-                          <SelectValue placeholder="Select a role" />
-                        </SelectTrigger>
-                      </FormControl>
-                      <SelectContent>
-                        <SelectItem value="ceo">CEO</SelectItem>
-                        <SelectItem value="marketer">Marketer</SelectItem>
-                        <SelectItem value="salesManager">Sales Manager</SelectItem>
-                        <SelectItem value="stockManager">Stock Manager</SelectItem>
-                        <SelectItem value="admin">Admin</SelectItem>
-                        <SelectItem value="medicalRep">Medical Rep</SelectItem>
-                      </SelectContent>
-                    </Select>
-                    <FormMessage />
-                  </FormItem>
-                )}
-              />
-
-              <FormField
-                control={editUserForm.control}
-                name="region"
-                render={({ field }) => (
-                  <FormItem>
-                    <FormLabel>Region (Optional)</FormLabel>
-                    <FormControl>
-                      <Input placeholder="Enter region" {...field} />
-                    </FormControl>
-                    <FormMessage />
-                  </FormItem>
-                )}
-              />
-
-              <FormField
-                control={editUserForm.control}
-                name="specialtyId"
-                render={({ field }) => (
-                  <FormItem>
-                    <FormLabel>Specialty</FormLabel>
-                    <Select onValueChange={field.onChange} defaultValue={field.value}>
-                      <FormControl>
-                        <SelectTrigger>
-                          <SelectValue placeholder="Select specialty" />
-                        </SelectTrigger>
-                      </FormControl>
-                      <SelectContent>
-                        <SelectItem value="0">No specialty</SelectItem>
-                        {specialties.map((specialty) => (
-                          <SelectItem key={specialty.id} value={specialty.id.toString()}>
-                            {specialty.name}
-                          </SelectItem>
-                        ))}
-                      </SelectContent>
-                    </Select>
-                    <FormDescription>
-                      Assign a specialty to this user
-                    </FormDescription>
-                    <FormMessage />
-                  </FormItem>
-                )}
-              />
-
-              <DialogFooter>
-                <Button 
-                  type="submit" 
-                  disabled={updateUserMutation.isPending}
-                >
-                  {updateUserMutation.isPending ? "Saving..." : "Save Changes"}
-                </Button>
-              </DialogFooter>
-            </form>
-          </Form>
+                      {updateUserMutation.isPending ? "Saving..." : "Save Changes"}
+                    </Button>
+                  </DialogFooter>
+                </form>
+              </Form>
+            </TabsContent>
+
+            <TabsContent value="history" className="max-h-[60vh] overflow-y-auto">
+              {selectedUser && <AuditHistory entityType="user" entityId={selectedUser.id} />}
+            </TabsContent>
+
+            <TabsContent value="sign-ins" className="max-h-[60vh] overflow-y-auto">
+              {selectedUser && <LoginHistory userId={selectedUser.id} />}
+            </TabsContent>
+          </Tabs>
         </DialogContent>
       </Dialog>
 
@@ -0,0 +1,34 @@
+CREATE TABLE "stock_lots" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"stock_item_id" integer NOT NULL,
+	"lot_number" text NOT NULL,
+	"expiry" timestamp,
+	"quantity" integer DEFAULT 0 NOT NULL,
+	"received_at" timestamp DEFAULT now(),
+	"received_by" integer
+);
+--> statement-breakpoint
+CREATE TABLE "stock_movement_lots" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"movement_id" integer NOT NULL,
+	"lot_id" integer NOT NULL,
+	"quantity" integer NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "system_settings" (
+	"key" text PRIMARY KEY NOT NULL,
+	"value" text
+);
+--> statement-breakpoint
+ALTER TABLE "stock_lots" ADD CONSTRAINT "stock_lots_stock_item_id_stock_items_id_fk" FOREIGN KEY ("stock_item_id") REFERENCES "public"."stock_items"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "stock_movement_lots" ADD CONSTRAINT "stock_movement_lots_movement_id_stock_movements_id_fk" FOREIGN KEY ("movement_id") REFERENCES "public"."stock_movements"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "stock_movement_lots" ADD CONSTRAINT "stock_movement_lots_lot_id_stock_lots_id_fk" FOREIGN KEY ("lot_id") REFERENCES "public"."stock_lots"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "stock_lots_stock_item_id_idx" ON "stock_lots" USING btree ("stock_item_id");--> statement-breakpoint
+CREATE INDEX "stock_lots_expiry_idx" ON "stock_lots" USING btree ("expiry");--> statement-breakpoint
+CREATE INDEX "stock_movement_lots_movement_id_idx" ON "stock_movement_lots" USING btree ("movement_id");--> statement-breakpoint
+ALTER TABLE "specialties" DROP COLUMN IF EXISTS "dummy_field";--> statement-breakpoint
+-- Existing central stock becomes the opening lot of each item
+INSERT INTO "stock_lots" ("stock_item_id", "lot_number", "expiry", "quantity", "received_at", "received_by")
+SELECT "id", COALESCE("unique_number", 'LOT-' || "id"), "expiry", "quantity", COALESCE("created_at", now()), "created_by"
+FROM "stock_items"
+WHERE "quantity" > 0;
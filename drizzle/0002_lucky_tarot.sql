@@ -0,0 +1,7 @@
+CREATE TYPE "public"."movement_type" AS ENUM('allocation', 'return', 'transfer', 'adjustment_in', 'adjustment_out', 'write_off');--> statement-breakpoint
+ALTER TABLE "stock_movements" ALTER COLUMN "to_user_id" DROP NOT NULL;--> statement-breakpoint
+ALTER TABLE "stock_movements" ADD COLUMN "type" "movement_type" DEFAULT 'allocation' NOT NULL;--> statement-breakpoint
+ALTER TABLE "stock_movements" ADD COLUMN "reason" text;--> statement-breakpoint
+-- Movements recorded before types existed were allocations from central
+-- inventory, or transfers when they came from a user
+UPDATE "stock_movements" SET "type" = 'transfer' WHERE "from_user_id" IS NOT NULL;
@@ -0,0 +1,3 @@
+ALTER TYPE "public"."movement_type" ADD VALUE 'reversal';--> statement-breakpoint
+ALTER TABLE "stock_movements" ADD COLUMN "reversal_of_id" integer;--> statement-breakpoint
+CREATE UNIQUE INDEX "stock_movements_reversal_of_id_idx" ON "stock_movements" USING btree ("reversal_of_id");
\ No newline at end of file
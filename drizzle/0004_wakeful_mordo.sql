@@ -0,0 +1,10 @@
+CREATE TABLE "movement_batches" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"notes" text,
+	"created_at" timestamp DEFAULT now(),
+	"created_by" integer NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "stock_movements" ADD COLUMN "batch_id" integer;--> statement-breakpoint
+ALTER TABLE "stock_movements" ADD CONSTRAINT "stock_movements_batch_id_movement_batches_id_fk" FOREIGN KEY ("batch_id") REFERENCES "public"."movement_batches"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "stock_movements_batch_id_idx" ON "stock_movements" USING btree ("batch_id");
\ No newline at end of file
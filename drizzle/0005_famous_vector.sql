@@ -0,0 +1,43 @@
+CREATE TYPE "public"."request_status" AS ENUM('pending', 'approved', 'partially_approved', 'rejected', 'cancelled');--> statement-breakpoint
+CREATE TABLE "stock_request_events" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"request_id" integer NOT NULL,
+	"status" "request_status" NOT NULL,
+	"changed_by" integer NOT NULL,
+	"notes" text,
+	"changed_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE "stock_request_items" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"request_id" integer NOT NULL,
+	"stock_item_id" integer NOT NULL,
+	"quantity_requested" integer NOT NULL,
+	"quantity_approved" integer,
+	"movement_id" integer
+);
+--> statement-breakpoint
+CREATE TABLE "stock_requests" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"requested_by" integer NOT NULL,
+	"specialty_id" integer,
+	"status" "request_status" DEFAULT 'pending' NOT NULL,
+	"notes" text,
+	"reviewed_by" integer,
+	"reviewed_at" timestamp,
+	"review_notes" text,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+ALTER TABLE "stock_request_events" ADD CONSTRAINT "stock_request_events_request_id_stock_requests_id_fk" FOREIGN KEY ("request_id") REFERENCES "public"."stock_requests"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "stock_request_events" ADD CONSTRAINT "stock_request_events_changed_by_users_id_fk" FOREIGN KEY ("changed_by") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "stock_request_items" ADD CONSTRAINT "stock_request_items_request_id_stock_requests_id_fk" FOREIGN KEY ("request_id") REFERENCES "public"."stock_requests"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "stock_request_items" ADD CONSTRAINT "stock_request_items_stock_item_id_stock_items_id_fk" FOREIGN KEY ("stock_item_id") REFERENCES "public"."stock_items"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "stock_request_items" ADD CONSTRAINT "stock_request_items_movement_id_stock_movements_id_fk" FOREIGN KEY ("movement_id") REFERENCES "public"."stock_movements"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "stock_requests" ADD CONSTRAINT "stock_requests_requested_by_users_id_fk" FOREIGN KEY ("requested_by") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "stock_requests" ADD CONSTRAINT "stock_requests_specialty_id_specialties_id_fk" FOREIGN KEY ("specialty_id") REFERENCES "public"."specialties"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "stock_requests" ADD CONSTRAINT "stock_requests_reviewed_by_users_id_fk" FOREIGN KEY ("reviewed_by") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "stock_request_events_request_id_idx" ON "stock_request_events" USING btree ("request_id");--> statement-breakpoint
+CREATE INDEX "stock_request_items_request_id_idx" ON "stock_request_items" USING btree ("request_id");--> statement-breakpoint
+CREATE INDEX "stock_requests_requested_by_idx" ON "stock_requests" USING btree ("requested_by");--> statement-breakpoint
+CREATE INDEX "stock_requests_specialty_id_idx" ON "stock_requests" USING btree ("specialty_id");
\ No newline at end of file
@@ -0,0 +1,10 @@
+CREATE TYPE "public"."job_status" AS ENUM('succeeded', 'failed');--> statement-breakpoint
+CREATE TABLE "scheduled_jobs" (
+	"name" text PRIMARY KEY NOT NULL,
+	"next_run_at" timestamp DEFAULT now() NOT NULL,
+	"last_started_at" timestamp,
+	"last_finished_at" timestamp,
+	"last_status" "job_status",
+	"last_error" text,
+	"last_duration_ms" integer
+);
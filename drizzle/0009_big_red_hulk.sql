@@ -0,0 +1,11 @@
+CREATE TABLE "user_preferences" (
+	"user_id" integer PRIMARY KEY NOT NULL,
+	"email_notifications" boolean DEFAULT true NOT NULL,
+	"stock_alerts" boolean DEFAULT true NOT NULL,
+	"expiry_alerts" boolean DEFAULT true NOT NULL,
+	"movement_alerts" boolean DEFAULT true NOT NULL,
+	"daily_reports" boolean DEFAULT false NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "user_preferences" ADD CONSTRAINT "user_preferences_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,17 @@
+CREATE TABLE "report_shares" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"token_hash" text NOT NULL,
+	"report_type" text NOT NULL,
+	"title" text NOT NULL,
+	"rows" jsonb NOT NULL,
+	"password_hash" text,
+	"expires_at" timestamp NOT NULL,
+	"revoked_at" timestamp,
+	"view_count" integer DEFAULT 0 NOT NULL,
+	"last_viewed_at" timestamp,
+	"created_by" integer NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "report_shares_token_hash_unique" UNIQUE("token_hash")
+);
+--> statement-breakpoint
+ALTER TABLE "report_shares" ADD CONSTRAINT "report_shares_created_by_users_id_fk" FOREIGN KEY ("created_by") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,35 @@
+CREATE TABLE "report_archives" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"subscription_id" integer,
+	"report_type" text NOT NULL,
+	"format" text NOT NULL,
+	"filename" text NOT NULL,
+	"content_type" text NOT NULL,
+	"content" text NOT NULL,
+	"size" integer NOT NULL,
+	"period_from" timestamp NOT NULL,
+	"period_to" timestamp NOT NULL,
+	"recipients" jsonb NOT NULL,
+	"generated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "report_subscriptions" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"name" text NOT NULL,
+	"report_type" text NOT NULL,
+	"format" text NOT NULL,
+	"range_days" integer DEFAULT 30 NOT NULL,
+	"schedule" text NOT NULL,
+	"recipients" jsonb NOT NULL,
+	"active" boolean DEFAULT true NOT NULL,
+	"next_run_at" timestamp NOT NULL,
+	"last_run_at" timestamp,
+	"last_error" text,
+	"created_by" integer NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "report_archives" ADD CONSTRAINT "report_archives_subscription_id_report_subscriptions_id_fk" FOREIGN KEY ("subscription_id") REFERENCES "public"."report_subscriptions"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "report_subscriptions" ADD CONSTRAINT "report_subscriptions_created_by_users_id_fk" FOREIGN KEY ("created_by") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "report_archives_subscription_id_idx" ON "report_archives" USING btree ("subscription_id");--> statement-breakpoint
+CREATE INDEX "report_subscriptions_next_run_at_idx" ON "report_subscriptions" USING btree ("next_run_at");
\ No newline at end of file
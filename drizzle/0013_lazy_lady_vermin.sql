@@ -0,0 +1,8 @@
+CREATE INDEX "stock_items_category_id_idx" ON "stock_items" USING btree ("category_id");--> statement-breakpoint
+CREATE INDEX "stock_items_specialty_id_idx" ON "stock_items" USING btree ("specialty_id");--> statement-breakpoint
+CREATE INDEX "stock_items_expiry_idx" ON "stock_items" USING btree ("expiry");--> statement-breakpoint
+CREATE INDEX "stock_items_name_idx" ON "stock_items" USING btree ("name");--> statement-breakpoint
+CREATE INDEX "stock_movements_moved_at_idx" ON "stock_movements" USING btree ("moved_at");--> statement-breakpoint
+CREATE INDEX "stock_movements_stock_item_id_idx" ON "stock_movements" USING btree ("stock_item_id");--> statement-breakpoint
+CREATE INDEX "stock_movements_from_user_id_idx" ON "stock_movements" USING btree ("from_user_id");--> statement-breakpoint
+CREATE INDEX "stock_movements_to_user_id_idx" ON "stock_movements" USING btree ("to_user_id");
\ No newline at end of file
@@ -0,0 +1,9 @@
+CREATE EXTENSION IF NOT EXISTS pg_trgm;--> statement-breakpoint
+CREATE INDEX "categories_name_trgm_idx" ON "categories" USING gin ("name" gin_trgm_ops);--> statement-breakpoint
+CREATE INDEX "specialties_name_trgm_idx" ON "specialties" USING gin ("name" gin_trgm_ops);--> statement-breakpoint
+CREATE INDEX "stock_items_name_trgm_idx" ON "stock_items" USING gin ("name" gin_trgm_ops);--> statement-breakpoint
+CREATE INDEX "stock_items_unique_number_trgm_idx" ON "stock_items" USING gin ("unique_number" gin_trgm_ops);--> statement-breakpoint
+CREATE INDEX "stock_items_notes_trgm_idx" ON "stock_items" USING gin ("notes" gin_trgm_ops);--> statement-breakpoint
+CREATE INDEX "stock_movements_notes_trgm_idx" ON "stock_movements" USING gin ("notes" gin_trgm_ops);--> statement-breakpoint
+CREATE INDEX "users_name_trgm_idx" ON "users" USING gin ("name" gin_trgm_ops);--> statement-breakpoint
+CREATE INDEX "users_username_trgm_idx" ON "users" USING gin ("username" gin_trgm_ops);
\ No newline at end of file
@@ -0,0 +1,17 @@
+CREATE TYPE "public"."login_event_type" AS ENUM('success', 'failure', 'lockout', 'logout');--> statement-breakpoint
+CREATE TABLE "login_events" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_id" integer,
+	"username" text NOT NULL,
+	"type" "login_event_type" NOT NULL,
+	"reason" text,
+	"ip" text,
+	"user_agent" text,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN "failed_login_count" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN "locked_until" timestamp;--> statement-breakpoint
+ALTER TABLE "login_events" ADD CONSTRAINT "login_events_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "login_events_user_id_idx" ON "login_events" USING btree ("user_id");--> statement-breakpoint
+CREATE INDEX "login_events_created_at_idx" ON "login_events" USING btree ("created_at");
\ No newline at end of file
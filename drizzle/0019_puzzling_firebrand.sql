@@ -0,0 +1,14 @@
+ALTER TABLE "stock_request_events" DROP CONSTRAINT "stock_request_events_changed_by_users_id_fk";
+--> statement-breakpoint
+ALTER TABLE "stock_request_items" DROP CONSTRAINT "stock_request_items_stock_item_id_stock_items_id_fk";
+--> statement-breakpoint
+ALTER TABLE "stock_requests" DROP CONSTRAINT "stock_requests_requested_by_users_id_fk";
+--> statement-breakpoint
+ALTER TABLE "stock_requests" DROP CONSTRAINT "stock_requests_reviewed_by_users_id_fk";
+--> statement-breakpoint
+ALTER TABLE "stock_request_events" ALTER COLUMN "changed_by" DROP NOT NULL;--> statement-breakpoint
+ALTER TABLE "stock_requests" ALTER COLUMN "requested_by" DROP NOT NULL;--> statement-breakpoint
+ALTER TABLE "stock_request_events" ADD CONSTRAINT "stock_request_events_changed_by_users_id_fk" FOREIGN KEY ("changed_by") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "stock_request_items" ADD CONSTRAINT "stock_request_items_stock_item_id_stock_items_id_fk" FOREIGN KEY ("stock_item_id") REFERENCES "public"."stock_items"("id") ON DELETE restrict ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "stock_requests" ADD CONSTRAINT "stock_requests_requested_by_users_id_fk" FOREIGN KEY ("requested_by") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "stock_requests" ADD CONSTRAINT "stock_requests_reviewed_by_users_id_fk" FOREIGN KEY ("reviewed_by") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;
\ No newline at end of file
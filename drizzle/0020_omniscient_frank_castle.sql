@@ -0,0 +1,3 @@
+ALTER TABLE "report_shares" DROP CONSTRAINT "report_shares_created_by_users_id_fk";
+--> statement-breakpoint
+ALTER TABLE "report_shares" ADD CONSTRAINT "report_shares_created_by_users_id_fk" FOREIGN KEY ("created_by") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
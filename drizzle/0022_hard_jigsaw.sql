@@ -0,0 +1 @@
+ALTER TABLE "mail_outbox" ADD COLUMN "sensitive" boolean DEFAULT false NOT NULL;
\ No newline at end of file
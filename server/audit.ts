@@ -0,0 +1,78 @@
+import { AsyncLocalStorage } from "async_hooks";
+import type { Request, Response, NextFunction } from "express";
+import type { User } from "@shared/schema";
+
+// Who is making the current request, so the storage layer can attribute
+// audit events without every method taking an actor argument
+export type AuditContext = {
+  actorId: number | null;
+  ip: string | null;
+};
+
+const auditContextStorage = new AsyncLocalStorage<AuditContext>();
+
+// Must be registered after passport so that req.user is populated
+export function auditContext(req: Request, _res: Response, next: NextFunction) {
+  auditContextStorage.run(
+    {
+      actorId: (req.user as User | undefined)?.id ?? null,
+      ip: req.ip ?? null,
+    },
+    next
+  );
+}
+
+export function getAuditContext(): AuditContext {
+  return auditContextStorage.getStore() ?? { actorId: null, ip: null };
+}
+
+// Fields whose values must never reach the audit log. A change is still
+// recorded, with the value replaced.
+const REDACTED_FIELDS = new Set(["password", "secret", "recoveryCodeHashes"]);
+const REDACTED = "[redacted]";
+
+type Snapshot = Record<string, unknown>;
+
+function toJsonValue(value: unknown): unknown {
+  return value instanceof Date ? value.toISOString() : value;
+}
+
+function redact(snapshot: Snapshot): Snapshot {
+  const result: Snapshot = {};
+  for (const [key, value] of Object.entries(snapshot)) {
+    if (value === undefined) continue;
+    result[key] = REDACTED_FIELDS.has(key) ? REDACTED : toJsonValue(value);
+  }
+  return result;
+}
+
+// Reduces two snapshots of an entity to the fields that differ. Creates keep
+// the whole new snapshot and deletes the whole old one. Returns null when an
+// update changed nothing.
+export function auditDiff(
+  before: Snapshot | null,
+  after: Snapshot | null
+): { before: Snapshot | null; after: Snapshot | null } | null {
+  if (!before || !after) {
+    return {
+      before: before ? redact(before) : null,
+      after: after ? redact(after) : null,
+    };
+  }
+
+  const changedBefore: Snapshot = {};
+  const changedAfter: Snapshot = {};
+  const keys = Array.from(new Set([...Object.keys(before), ...Object.keys(after)]));
+  for (const key of keys) {
+    if (after[key] === undefined) continue;
+    const oldValue = toJsonValue(before[key]) ?? null;
+    const newValue = toJsonValue(after[key]) ?? null;
+    if (JSON.stringify(oldValue) === JSON.stringify(newValue)) continue;
+
+    changedBefore[key] = REDACTED_FIELDS.has(key) ? REDACTED : oldValue;
+    changedAfter[key] = REDACTED_FIELDS.has(key) ? REDACTED : newValue;
+  }
+
+  if (Object.keys(changedAfter).length === 0) return null;
+  return { before: changedBefore, after: changedAfter };
+}
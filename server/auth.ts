@@ -1,12 +1,42 @@
 import passport from "passport";
 import { Strategy as LocalStrategy } from "passport-local";
-import { Express } from "express";
+import { Express, NextFunction, Request, Response } from "express";
 import rateLimit from 'express-rate-limit'; // Import rateLimit
 import session from "express-session";
-import { scrypt, randomBytes, timingSafeEqual } from "crypto";
+import { createHash, scrypt, randomBytes, timingSafeEqual } from "crypto";
 import { promisify } from "util";
-import { storage } from "./storage";
-import { User as SharedUser, ROLE_PERMISSIONS } from "@shared/schema";
+import { storage, StoredSession } from "./storage";
+import {
+  User as SharedUser,
+  CreateInvitation,
+  CurrentUser,
+  Invitation,
+  InvitationDetails,
+  InvitationSummary,
+  LoginEventType,
+  PasswordPolicy,
+  RegistrationPolicy,
+  RoleType,
+  SessionPolicy,
+  TwoFactorPolicy,
+  TwoFactorStatus,
+  UserTwoFactor,
+  UserSession,
+  ROLE_PERMISSIONS,
+  acceptInvitationSchema,
+  changePasswordSchema,
+  forgotPasswordSchema,
+  passwordPolicySchema,
+  registrationPolicySchema,
+  resetPasswordSchema,
+  sessionPolicySchema,
+  twoFactorCodeSchema,
+  twoFactorPolicySchema,
+} from "@shared/schema";
+import { isPasswordExpired, passwordPolicyProblems } from "@shared/passwords";
+import { generateRecoveryCodes, generateTotpSecret, hashRecoveryCode, totpUri, verifyTotp } from "./totp";
+import { appUrl, queueMail } from "./mail";
+import { invitationMail, passwordResetMail } from "./mail-templates";
 import multer from "multer";
 import path from "path";
 import fs from "fs";
@@ -17,6 +47,25 @@ declare global {
   }
 }
 
+declare module "express-session" {
+  interface SessionData {
+    // Set at login when the password had expired, until it is changed
+    passwordExpired?: boolean;
+    // Set at login when the role requires two-factor and it isn't on yet
+    twoFactorSetupRequired?: boolean;
+    // A correct password waiting for its two-factor code
+    pendingTwoFactor?: { userId: number; expiresAt: number; attempts: number };
+    // When and where the user signed in, and the idle and absolute timeouts
+    // then in force
+    signedInAt?: number;
+    lastSeenAt?: number;
+    idleTimeoutMs?: number;
+    maxAgeMs?: number;
+    ip?: string;
+    userAgent?: string;
+  }
+}
+
 const scryptAsync = promisify(scrypt);
 
 // Configure multer storage for file uploads
@@ -56,13 +105,216 @@ export async function hashPassword(password: string) {
   return `${buf.toString("hex")}.${salt}`;
 }
 
-async function comparePasswords(supplied: string, stored: string) {
+export async function comparePasswords(supplied: string, stored: string) {
   const [hashed, salt] = stored.split(".");
   const hashedBuf = Buffer.from(hashed, "hex");
   const suppliedBuf = (await scryptAsync(supplied, salt, 64)) as Buffer;
   return timingSafeEqual(hashedBuf, suppliedBuf);
 }
 
+export async function getPasswordPolicy(): Promise<PasswordPolicy> {
+  const settings = await storage.getSystemSettings();
+  const parsed = passwordPolicySchema.safeParse(settings.passwordPolicy ?? {});
+  return parsed.success ? parsed.data : passwordPolicySchema.parse({});
+}
+
+// The first rule of the password policy a new password breaks, or null if it
+// follows them all
+export async function passwordPolicyError(password: unknown): Promise<string | null> {
+  if (typeof password !== "string") return "Password is required";
+  const [problem] = passwordPolicyProblems(password, await getPasswordPolicy());
+  return problem ?? null;
+}
+
+export async function getTwoFactorPolicy(): Promise<TwoFactorPolicy> {
+  const settings = await storage.getSystemSettings();
+  const parsed = twoFactorPolicySchema.safeParse(settings.twoFactorPolicy ?? {});
+  return parsed.success ? parsed.data : twoFactorPolicySchema.parse({});
+}
+
+export async function getSessionPolicy(): Promise<SessionPolicy> {
+  const settings = await storage.getSystemSettings();
+  const parsed = sessionPolicySchema.safeParse(settings.sessionPolicy ?? {});
+  return parsed.success ? parsed.data : sessionPolicySchema.parse({});
+}
+
+export async function getRegistrationPolicy(): Promise<RegistrationPolicy> {
+  const settings = await storage.getSystemSettings();
+  const parsed = registrationPolicySchema.safeParse(settings.registrationPolicy ?? {});
+  return parsed.success ? parsed.data : registrationPolicySchema.parse({});
+}
+
+// Password reset and invitation links carry a random token; only its hash is
+// stored, so the links can't be recovered from the database
+function newAccountToken(): string {
+  return randomBytes(32).toString("base64url");
+}
+
+function hashAccountToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+const PASSWORD_RESET_TTL_MINUTES = 60;
+
+// Saves the invitation and emails its link, which is never shown to the
+// person sending it
+export async function sendInvitation(invitation: CreateInvitation, invitedBy: SharedUser): Promise<InvitationSummary> {
+  const { invitationExpiry } = await getRegistrationPolicy();
+  const token = newAccountToken();
+
+  const created = await storage.createInvitation({
+    ...invitation,
+    region: invitation.region || null,
+    specialtyId: invitation.specialtyId ?? null,
+    tokenHash: hashAccountToken(token),
+    expiresAt: new Date(Date.now() + invitationExpiry * 24 * 60 * 60 * 1000),
+    invitedBy: invitedBy.id,
+  });
+  await queueMail(created.email, invitationMail({
+    recipientName: created.name,
+    inviterName: invitedBy.name,
+    inviteUrl: appUrl(`/invite/${token}`),
+    expiresInDays: invitationExpiry,
+  }));
+  return created;
+}
+
+function isInvitationActive(invitation: Invitation): boolean {
+  return invitation.acceptedAt === null && invitation.revokedAt === null && invitation.expiresAt > new Date();
+}
+
+// Polled in the background, so they don't count as activity that keeps a
+// session from going idle
+const BACKGROUND_PATHS = new Set(["/api/notifications", "/api/notifications/unread-count"]);
+// Activity is recorded at most this often, rather than saving the session
+// on every request
+const LAST_SEEN_RESOLUTION_MS = 60 * 1000;
+
+// How long after the password the code may be entered, and how many tries
+// it gets before the password is needed again
+const TWO_FACTOR_LOGIN_WINDOW_MS = 5 * 60 * 1000;
+const MAX_TWO_FACTOR_ATTEMPTS = 5;
+
+// Failed sign-ins in a row that lock an account. Every failure after that
+// locks it again for twice as long, up to the maximum.
+const LOCKOUT_THRESHOLD = 5;
+const LOCKOUT_BASE_MS = 60 * 1000;
+const LOCKOUT_MAX_MS = 60 * 60 * 1000;
+
+// Until an expired password is changed, or the two-factor authentication the
+// role requires is set up, the session may only do that or sign out
+const RESTRICTED_SESSION_PATHS = new Set([
+  "/api/user",
+  "/api/logout",
+  "/api/user/password",
+  "/api/password-policy",
+  "/api/user/two-factor",
+  "/api/user/two-factor/setup",
+  "/api/user/two-factor/enable",
+]);
+
+function currentUser(req: Request): CurrentUser {
+  const { password, ...userWithoutPassword } = req.user as SharedUser;
+  return {
+    ...userWithoutPassword,
+    passwordExpired: req.session.passwordExpired === true,
+    twoFactorSetupRequired: req.session.twoFactorSetupRequired === true,
+  };
+}
+
+// A code from the authenticator app, or one of the recovery codes. Either
+// can only be used once.
+async function useTwoFactorCode(twoFactor: UserTwoFactor, code: string): Promise<boolean> {
+  const step = verifyTotp(twoFactor.secret, code);
+  if (step !== null) {
+    return storage.useTwoFactorStep(twoFactor.userId, step);
+  }
+  return storage.useRecoveryCode(twoFactor.userId, hashRecoveryCode(code));
+}
+
+async function recordLoginEvent(
+  req: Request,
+  type: LoginEventType,
+  username: string,
+  userId: number | null,
+  reason?: string
+): Promise<void> {
+  await storage.createLoginEvent({
+    userId,
+    username,
+    type,
+    reason: reason ?? null,
+    ip: req.ip ?? null,
+    userAgent: req.get("user-agent") ?? null,
+  });
+}
+
+function isLocked(user: SharedUser): user is SharedUser & { lockedUntil: Date } {
+  return user.lockedUntil !== null && user.lockedUntil.getTime() > Date.now();
+}
+
+function lockedMessage(until: Date): string {
+  const minutes = Math.max(1, Math.ceil((until.getTime() - Date.now()) / 60000));
+  return `Too many failed sign-ins. Try again in ${minutes} minute${minutes === 1 ? "" : "s"}`;
+}
+
+// Counts a failed sign-in against the account, and locks it once there have
+// been too many in a row. Returns when the lock ends, if there is one.
+async function recordFailedLogin(req: Request, user: SharedUser, reason: string): Promise<Date | null> {
+  await recordLoginEvent(req, "failure", user.username, user.id, reason);
+  const failures = await storage.incrementFailedLogins(user.id);
+  if (failures < LOCKOUT_THRESHOLD) return null;
+
+  const duration = Math.min(LOCKOUT_BASE_MS * 2 ** (failures - LOCKOUT_THRESHOLD), LOCKOUT_MAX_MS);
+  const until = new Date(Date.now() + duration);
+  await storage.lockUser(user.id, until);
+  await recordLoginEvent(req, "lockout", user.username, user.id, `Locked until ${until.toISOString()}`);
+  return until;
+}
+
+// Stamps a new sign-in with the timeouts in force and where it came from.
+// The cookie gets the absolute limit too, but express-session moves its
+// expiry forward on every request, so the limit is enforced from signedInAt.
+async function startSession(req: Request): Promise<void> {
+  const policy = await getSessionPolicy();
+  const now = Date.now();
+  req.session.signedInAt = now;
+  req.session.lastSeenAt = now;
+  req.session.idleTimeoutMs = policy.sessionTimeout * 60 * 1000;
+  req.session.maxAgeMs = policy.sessionMaxAge * 60 * 60 * 1000;
+  req.session.ip = req.ip;
+  req.session.userAgent = req.get("user-agent");
+  req.session.cookie.maxAge = req.session.maxAgeMs;
+}
+
+// Session ids let anyone holding the cookie secret forge a cookie, so they
+// are listed under a hash instead
+function publicSessionId(sid: string): string {
+  return createHash("sha256").update(sid).digest("hex").slice(0, 24);
+}
+
+function toUserSession(stored: StoredSession, currentSid: string): UserSession {
+  const { signedInAt, lastSeenAt, ip, userAgent } = stored.sess;
+  return {
+    id: publicSessionId(stored.sid),
+    current: stored.sid === currentSid,
+    signedInAt: signedInAt ? new Date(signedInAt).toISOString() : null,
+    lastSeenAt: lastSeenAt ? new Date(lastSeenAt).toISOString() : null,
+    expiresAt: stored.expire.toISOString(),
+    ip: ip ?? null,
+    userAgent: userAgent ?? null,
+  };
+}
+
+async function twoFactorStatus(user: SharedUser): Promise<TwoFactorStatus> {
+  const [twoFactor, policy] = await Promise.all([storage.getUserTwoFactor(user.id), getTwoFactorPolicy()]);
+  return {
+    enabled: Boolean(twoFactor?.enabledAt),
+    required: policy.requiredRoles.includes(user.role as TwoFactorPolicy["requiredRoles"][number]),
+    recoveryCodesRemaining: twoFactor?.enabledAt ? twoFactor.recoveryCodeHashes.length : 0,
+  };
+}
+
 export function setupAuth(app: Express) {
   const sessionSecret = process.env.SESSION_SECRET;
 
@@ -88,13 +340,64 @@ export function setupAuth(app: Express) {
   app.use(passport.initialize());
   app.use(passport.session());
 
+  // Ends sessions left idle for longer than their timeout, or signed in for
+  // longer than their absolute limit
+  app.use((req, res, next) => {
+    const { signedInAt, lastSeenAt, idleTimeoutMs, maxAgeMs } = req.session;
+    if (!req.path.startsWith("/api/") || !req.isAuthenticated()) {
+      return next();
+    }
+    // Sessions signed in before the limits existed start their clocks now
+    if (!lastSeenAt || !idleTimeoutMs) {
+      return startSession(req).then(() => next(), next);
+    }
+
+    const now = Date.now();
+    const expired = signedInAt !== undefined && maxAgeMs !== undefined && now - signedInAt > maxAgeMs;
+    if (expired || now - lastSeenAt > idleTimeoutMs) {
+      const user = req.user as SharedUser;
+      return req.session.destroy((err) => {
+        if (err) return next(err);
+        recordLoginEvent(req, "logout", user.username, user.id, expired ? "Session expired" : "Session timed out").then(() => {
+          res.status(401).json({ message: "Your session has timed out. Sign in again." });
+        }, next);
+      });
+    }
+    if (!BACKGROUND_PATHS.has(req.path) && now - lastSeenAt > LAST_SEEN_RESOLUTION_MS) {
+      req.session.lastSeenAt = now;
+    }
+    next();
+  });
+
+  app.use((req, res, next) => {
+    if (!req.path.startsWith("/api/") || RESTRICTED_SESSION_PATHS.has(req.path) || !req.isAuthenticated()) {
+      return next();
+    }
+    if (req.session.passwordExpired) {
+      return res.status(403).json({ message: "Your password has expired. Change it to continue." });
+    }
+    if (req.session.twoFactorSetupRequired) {
+      return res.status(403).json({ message: "Set up two-factor authentication to continue." });
+    }
+    next();
+  });
+
   passport.use(
-    new LocalStrategy(async (username, password, done) => {
+    new LocalStrategy({ passReqToCallback: true }, async (req, username, password, done) => {
       try {
         const user = await storage.getUserByUsername(username);
-        if (!user || !(await comparePasswords(password, user.password))) {
+        if (!user) {
           return done(null, false, { message: "Incorrect username or password" });
         }
+        // A locked account doesn't say whether the password was right
+        if (isLocked(user)) {
+          await recordLoginEvent(req, "failure", user.username, user.id, "Account locked");
+          return done(null, false, { message: lockedMessage(user.lockedUntil) });
+        }
+        if (!(await comparePasswords(password, user.password))) {
+          const lockedUntil = await recordFailedLogin(req, user, "Incorrect password");
+          return done(null, false, { message: lockedUntil ? lockedMessage(lockedUntil) : "Incorrect username or password" });
+        }
         return done(null, user);
       } catch (error) {
         return done(error);
@@ -105,8 +408,9 @@ export function setupAuth(app: Express) {
   passport.serializeUser((user, done) => done(null, user.id));
   passport.deserializeUser(async (id: number, done) => {
     try {
+      // Sessions of deleted users just end
       const user = await storage.getUser(id);
-      done(null, user);
+      done(null, user ?? false);
     } catch (error) {
       done(error);
     }
@@ -152,54 +456,259 @@ export function setupAuth(app: Express) {
     legacyHeaders: false, // Disable the `X-RateLimit-*` headers
   });
 
+  // Signs the user in once every factor has been checked. New accounts get the
+  // same session flags and login event as any other sign-in.
+  const completeLogin = (req: Request, res: Response, next: NextFunction, user: SharedUser, status = 200) => {
+    req.login(user, async (loginErr) => { // Renamed err to loginErr to avoid conflict
+      if (loginErr) return next(loginErr);
+
+      try {
+        await startSession(req);
+        await storage.resetFailedLogins(user.id);
+        await recordLoginEvent(req, "success", user.username, user.id);
+        const [passwordPolicy, twoFactor] = await Promise.all([getPasswordPolicy(), twoFactorStatus(user)]);
+        req.session.passwordExpired = isPasswordExpired(user.passwordChangedAt, passwordPolicy);
+        req.session.twoFactorSetupRequired = twoFactor.required && !twoFactor.enabled;
+        res.status(status).json(currentUser(req));
+      } catch (error) {
+        next(error);
+      }
+    });
+  };
+
   app.post("/api/register", authLimiter, async (req, res, next) => {
     try {
-      const { username, password, name, role, region } = req.body;
+      const { openRegistration } = await getRegistrationPolicy();
+      if (!openRegistration) {
+        return res.status(403).json({ message: "Registration is closed. Ask an administrator for an invitation." });
+      }
+
+      const { username, password, name, role, region, email } = req.body;
       
       const existingUser = await storage.getUserByUsername(username);
       if (existingUser) {
         return res.status(400).json({ message: "Username already exists" });
       }
 
+      const passwordError = await passwordPolicyError(password);
+      if (passwordError) {
+        return res.status(400).json({ message: passwordError });
+      }
+
       const hashedPassword = await hashPassword(password);
       // Set default role to medicalRep for all new registrations
       const user = await storage.createUser({
         username,
         password: hashedPassword,
         name,
+        email: email || null,
         role: "medicalRep", // Default role
         region,
         avatar: "",
       });
 
-      // Remove password from response
-      const { password: _, ...userWithoutPassword } = user;
-
-      req.login(user, (err) => {
-        if (err) return next(err);
-        res.status(201).json(userWithoutPassword);
-      });
+      completeLogin(req, res, next, user, 201);
     } catch (error) {
       next(error);
     }
   });
 
-  app.post("/api/login", (req, res, next) => {
-    passport.authenticate("local", (err: Error | null, user: SharedUser | false, info: { message: string } | undefined) => {
+  app.post("/api/login", authLimiter, (req, res, next) => {
+    passport.authenticate("local", async (err: Error | null, user: SharedUser | false, info: { message: string } | undefined) => {
       if (err) return next(err);
       if (!user) return res.status(401).json({ message: info?.message || "Login failed" });
-      
-      req.login(user, (loginErr) => { // Renamed err to loginErr to avoid conflict
-        if (loginErr) return next(loginErr);
-        
+
+      try {
         // User is now guaranteed to be a SharedUser object here, not false
-        const { password, ...userWithoutPassword } = user; 
-        res.status(200).json(userWithoutPassword);
-      });
+        const twoFactor = await storage.getUserTwoFactor(user.id);
+        if (twoFactor?.enabledAt) {
+          req.session.pendingTwoFactor = {
+            userId: user.id,
+            expiresAt: Date.now() + TWO_FACTOR_LOGIN_WINDOW_MS,
+            attempts: 0,
+          };
+          return res.status(200).json({ twoFactorRequired: true });
+        }
+
+        completeLogin(req, res, next, user);
+      } catch (error) {
+        next(error);
+      }
     })(req, res, next);
   });
 
-  app.post("/api/logout", (req, res, next) => {
+  // Second step of signing in, with a code from the authenticator app or a
+  // recovery code
+  app.post("/api/login/two-factor", authLimiter, async (req, res, next) => {
+    try {
+      const { code } = twoFactorCodeSchema.parse(req.body);
+      const pending = req.session.pendingTwoFactor;
+      if (!pending || pending.expiresAt < Date.now()) {
+        delete req.session.pendingTwoFactor;
+        return res.status(401).json({ message: "Sign in again to continue" });
+      }
+
+      const user = await storage.getUser(pending.userId);
+      const twoFactor = user && await storage.getUserTwoFactor(user.id);
+      if (!user || !twoFactor?.enabledAt) {
+        delete req.session.pendingTwoFactor;
+        return res.status(401).json({ message: "Sign in again to continue" });
+      }
+      if (isLocked(user)) {
+        delete req.session.pendingTwoFactor;
+        return res.status(401).json({ message: lockedMessage(user.lockedUntil) });
+      }
+
+      if (!(await useTwoFactorCode(twoFactor, code))) {
+        const lockedUntil = await recordFailedLogin(req, user, "Incorrect two-factor code");
+        if (lockedUntil) {
+          delete req.session.pendingTwoFactor;
+          return res.status(401).json({ message: lockedMessage(lockedUntil) });
+        }
+        pending.attempts += 1;
+        if (pending.attempts >= MAX_TWO_FACTOR_ATTEMPTS) {
+          delete req.session.pendingTwoFactor;
+          return res.status(401).json({ message: "Too many incorrect codes. Sign in again to continue" });
+        }
+        return res.status(401).json({ message: "Incorrect code" });
+      }
+
+      delete req.session.pendingTwoFactor;
+      completeLogin(req, res, next, user);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Emails a reset link to every account with the address. The answer is the
+  // same whether or not there are any, so addresses can't be probed.
+  app.post("/api/password-reset", authLimiter, async (req, res, next) => {
+    try {
+      const { email } = forgotPasswordSchema.parse(req.body);
+
+      for (const user of await storage.getUsersByEmail(email)) {
+        const token = newAccountToken();
+        await storage.createPasswordResetToken(
+          user.id,
+          hashAccountToken(token),
+          new Date(Date.now() + PASSWORD_RESET_TTL_MINUTES * 60 * 1000)
+        );
+        await queueMail(user.email!, passwordResetMail({
+          recipientName: user.name,
+          resetUrl: appUrl(`/reset-password/${token}`),
+          expiresInMinutes: PASSWORD_RESET_TTL_MINUTES,
+        }));
+      }
+
+      res.status(202).json({ message: "If an account uses that address, a reset link is on its way." });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Sets a new password from a reset link, and signs the account out
+  // everywhere in case someone else had it
+  app.post("/api/password-reset/:token", authLimiter, async (req, res, next) => {
+    try {
+      const { password } = resetPasswordSchema.parse(req.body);
+      const passwordError = await passwordPolicyError(password);
+      if (passwordError) {
+        return res.status(400).json({ message: passwordError });
+      }
+
+      const user = await storage.resetPasswordWithToken(hashAccountToken(req.params.token), await hashPassword(password));
+      if (!user) {
+        return res.status(410).json({ message: "This link has expired or has already been used" });
+      }
+
+      await storage.deleteUserSessions(user.id);
+      res.sendStatus(204);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  const findActiveInvitation = async (token: string, res: Response): Promise<Invitation | undefined> => {
+    const invitation = await storage.getInvitationByTokenHash(hashAccountToken(token));
+    if (!invitation) {
+      res.status(404).json({ message: "Invitation not found" });
+      return undefined;
+    }
+    if (!isInvitationActive(invitation)) {
+      res.status(410).json({
+        message: invitation.acceptedAt ? "This invitation has already been used"
+          : invitation.revokedAt ? "This invitation has been withdrawn"
+          : "This invitation has expired",
+      });
+      return undefined;
+    }
+    return invitation;
+  };
+
+  app.get("/api/invites/:token", async (req, res, next) => {
+    try {
+      const invitation = await findActiveInvitation(req.params.token, res);
+      if (!invitation) return;
+
+      const specialty = invitation.specialtyId ? await storage.getSpecialty(invitation.specialtyId) : undefined;
+      const details: InvitationDetails = {
+        email: invitation.email,
+        name: invitation.name,
+        role: invitation.role,
+        region: invitation.region,
+        specialty: specialty?.name ?? null,
+        expiresAt: invitation.expiresAt.toISOString(),
+      };
+      res.json(details);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Makes the account the invitation describes, with the username and
+  // password the invitee chose, and signs them in
+  app.post("/api/invites/:token/accept", authLimiter, async (req, res, next) => {
+    try {
+      const { username, password } = acceptInvitationSchema.parse(req.body);
+      const invitation = await findActiveInvitation(req.params.token, res);
+      if (!invitation) return;
+
+      if (await storage.getUserByUsername(username)) {
+        return res.status(400).json({ message: "Username already exists" });
+      }
+      const passwordError = await passwordPolicyError(password);
+      if (passwordError) {
+        return res.status(400).json({ message: passwordError });
+      }
+
+      const user = await storage.acceptInvitation(invitation.tokenHash, {
+        username,
+        password: await hashPassword(password),
+        name: invitation.name,
+        email: invitation.email,
+        role: invitation.role as RoleType,
+        region: invitation.region,
+        specialtyId: invitation.specialtyId,
+        avatar: "",
+      });
+      if (!user) {
+        return res.status(410).json({ message: "This invitation has already been used" });
+      }
+
+      completeLogin(req, res, next, user);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.post("/api/logout", async (req, res, next) => {
+    try {
+      const user = req.user as SharedUser | undefined;
+      if (user) await recordLoginEvent(req, "logout", user.username, user.id);
+    } catch (error) {
+      return next(error);
+    }
+
     req.logout((err) => {
       if (err) return next(err);
       res.sendStatus(200);
@@ -209,9 +718,182 @@ export function setupAuth(app: Express) {
   app.get("/api/user", (req, res) => {
     if (!req.isAuthenticated()) return res.status(401).json({ message: "Not authenticated" });
     
-    // Remove password from response
-    const { password, ...userWithoutPassword } = req.user as SharedUser;
-    res.json(userWithoutPassword);
+    res.json(currentUser(req));
+  });
+
+  // Self-service password change, which also clears an expired password
+  app.post("/api/user/password", async (req, res, next) => {
+    if (!req.isAuthenticated()) return res.status(401).json({ message: "Not authenticated" });
+
+    try {
+      const { currentPassword, newPassword } = changePasswordSchema.parse(req.body);
+      const user = req.user as SharedUser;
+
+      if (!(await comparePasswords(currentPassword, user.password))) {
+        return res.status(403).json({ message: "Current password is incorrect" });
+      }
+      if (await comparePasswords(newPassword, user.password)) {
+        return res.status(400).json({ message: "New password must be different from the current one" });
+      }
+      const passwordError = await passwordPolicyError(newPassword);
+      if (passwordError) {
+        return res.status(400).json({ message: passwordError });
+      }
+
+      const updated = await storage.updateUser(user.id, {
+        password: await hashPassword(newPassword),
+        passwordChangedAt: new Date(),
+      });
+      if (!updated) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      req.user = updated;
+      req.session.passwordExpired = false;
+      res.json(currentUser(req));
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // The signed-in user's sessions on every device
+  app.get("/api/user/sessions", isAuthenticated, async (req, res, next) => {
+    try {
+      const sessions = await storage.getUserSessions((req.user as SharedUser).id);
+      res.json(sessions.map((stored) => toUserSession(stored, req.sessionID)));
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Signs out every other session
+  app.delete("/api/user/sessions", isAuthenticated, async (req, res, next) => {
+    try {
+      const userId = (req.user as SharedUser).id;
+      const others = (await storage.getUserSessions(userId)).filter((stored) => stored.sid !== req.sessionID);
+      const ended = await storage.deleteUserSessions(userId, others.map((stored) => stored.sid));
+      res.json({ ended });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.delete("/api/user/sessions/:id", isAuthenticated, async (req, res, next) => {
+    try {
+      const userId = (req.user as SharedUser).id;
+      const sessions = await storage.getUserSessions(userId);
+      const target = sessions.find((stored) => publicSessionId(stored.sid) === req.params.id);
+      if (!target) {
+        return res.status(404).json({ message: "Session not found" });
+      }
+      if (target.sid === req.sessionID) {
+        return res.status(400).json({ message: "Sign out to end the current session" });
+      }
+
+      await storage.deleteUserSessions(userId, [target.sid]);
+      res.status(204).end();
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Two-factor authentication for the signed-in user
+  app.get("/api/user/two-factor", isAuthenticated, async (req, res, next) => {
+    try {
+      res.json(await twoFactorStatus(req.user as SharedUser));
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Starts enrollment with a new secret for the authenticator app
+  app.post("/api/user/two-factor/setup", isAuthenticated, async (req, res, next) => {
+    try {
+      const user = req.user as SharedUser;
+      const existing = await storage.getUserTwoFactor(user.id);
+      if (existing?.enabledAt) {
+        return res.status(400).json({ message: "Two-factor authentication is already on" });
+      }
+
+      const secret = generateTotpSecret();
+      await storage.startTwoFactorSetup(user.id, secret);
+      res.json({ secret, uri: totpUri(secret, user.username) });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Turns two-factor on once a code shows the app has the secret. The
+  // recovery codes are only ever shown in this response.
+  app.post("/api/user/two-factor/enable", isAuthenticated, async (req, res, next) => {
+    try {
+      const { code } = twoFactorCodeSchema.parse(req.body);
+      const user = req.user as SharedUser;
+      const twoFactor = await storage.getUserTwoFactor(user.id);
+      if (!twoFactor) {
+        return res.status(400).json({ message: "Start two-factor setup first" });
+      }
+      if (twoFactor.enabledAt) {
+        return res.status(400).json({ message: "Two-factor authentication is already on" });
+      }
+
+      const step = verifyTotp(twoFactor.secret, code);
+      if (step === null) {
+        return res.status(400).json({ message: "Incorrect code" });
+      }
+
+      const recoveryCodes = generateRecoveryCodes();
+      await storage.enableTwoFactor(user.id, step, recoveryCodes.map(hashRecoveryCode));
+      req.session.twoFactorSetupRequired = false;
+      res.json({ recoveryCodes });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Replaces the recovery codes, for when they run low or may have been seen
+  app.post("/api/user/two-factor/recovery-codes", isAuthenticated, async (req, res, next) => {
+    try {
+      const { code } = twoFactorCodeSchema.parse(req.body);
+      const user = req.user as SharedUser;
+      const twoFactor = await storage.getUserTwoFactor(user.id);
+      if (!twoFactor?.enabledAt) {
+        return res.status(400).json({ message: "Two-factor authentication is off" });
+      }
+      if (!(await useTwoFactorCode(twoFactor, code))) {
+        return res.status(403).json({ message: "Incorrect code" });
+      }
+
+      const recoveryCodes = generateRecoveryCodes();
+      await storage.replaceRecoveryCodes(user.id, recoveryCodes.map(hashRecoveryCode));
+      res.json({ recoveryCodes });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.post("/api/user/two-factor/disable", isAuthenticated, async (req, res, next) => {
+    try {
+      const { code } = twoFactorCodeSchema.parse(req.body);
+      const user = req.user as SharedUser;
+      const status = await twoFactorStatus(user);
+      if (status.required) {
+        return res.status(400).json({ message: "Two-factor authentication is required for your role" });
+      }
+
+      const twoFactor = await storage.getUserTwoFactor(user.id);
+      if (!twoFactor?.enabledAt) {
+        return res.status(400).json({ message: "Two-factor authentication is off" });
+      }
+      if (!(await useTwoFactorCode(twoFactor, code))) {
+        return res.status(403).json({ message: "Incorrect code" });
+      }
+
+      await storage.disableTwoFactor(user.id);
+      res.json(await twoFactorStatus(user));
+    } catch (error) {
+      next(error);
+    }
   });
 
   return { isAuthenticated, hasPermission };
@@ -0,0 +1,368 @@
+import fs from "fs";
+import path from "path";
+import { gunzipSync, gzipSync } from "zlib";
+import { createCipheriv, createDecipheriv, createHash, randomBytes, scryptSync } from "crypto";
+import { storage } from "./storage";
+import { backupSettingsSchema } from "@shared/schema";
+import type { BackupDiff, BackupFrequency, BackupSettings, BackupTableDiff, StoredBackup } from "@shared/schema";
+
+// A backup is one JSON document holding every table and the uploaded files.
+// The checksum covers everything else in the document, so a truncated or
+// hand-edited file is refused before anything is restored.
+
+const BACKUP_FORMAT = "pharmstock-backup";
+const BACKUP_FORMAT_VERSION = 1;
+
+const uploadsDir = path.join(process.cwd(), "uploads");
+
+// Where automatic backups are kept. Set BACKUP_DIR to keep them somewhere
+// that survives the app directory being replaced.
+const backupDir = process.env.BACKUP_DIR || path.join(process.cwd(), "backups");
+
+type BackupUpload = { name: string; content: string };
+
+export type BackupArchive = {
+  format: string;
+  formatVersion: number;
+  schemaVersion: string;
+  createdAt: string;
+  tables: Record<string, Record<string, unknown>[]>;
+  uploads: BackupUpload[];
+  checksum: string;
+};
+
+function checksum(archive: Omit<BackupArchive, "checksum">): string {
+  // Rebuilt field by field so the hash doesn't depend on the order the keys
+  // were read in
+  const payload = JSON.stringify({
+    format: archive.format,
+    formatVersion: archive.formatVersion,
+    schemaVersion: archive.schemaVersion,
+    createdAt: archive.createdAt,
+    tables: archive.tables,
+    uploads: archive.uploads,
+  });
+  return `sha256:${createHash("sha256").update(payload).digest("hex")}`;
+}
+
+async function readUploads(): Promise<BackupUpload[]> {
+  if (!fs.existsSync(uploadsDir)) return [];
+
+  const entries = await fs.promises.readdir(uploadsDir, { withFileTypes: true });
+  const uploads: BackupUpload[] = [];
+  for (const entry of entries.filter((entry) => entry.isFile()).sort((a, b) => a.name.localeCompare(b.name))) {
+    const content = await fs.promises.readFile(path.join(uploadsDir, entry.name));
+    uploads.push({ name: entry.name, content: content.toString("base64") });
+  }
+  return uploads;
+}
+
+export async function createBackup(): Promise<Buffer> {
+  const tables = await storage.getBackupTables();
+  const archive: Omit<BackupArchive, "checksum"> = {
+    format: BACKUP_FORMAT,
+    formatVersion: BACKUP_FORMAT_VERSION,
+    schemaVersion: storage.getBackupSchemaVersion(),
+    createdAt: new Date().toISOString(),
+    // Round-trip through JSON so rows hash the same here as when read back
+    tables: JSON.parse(JSON.stringify(tables)),
+    uploads: await readUploads(),
+  };
+  return Buffer.from(JSON.stringify({ ...archive, checksum: checksum(archive) }));
+}
+
+export function backupFilename(createdAt: Date): string {
+  return `pharmstock-backup-${createdAt.toISOString().slice(0, 10)}.json`;
+}
+
+// Stored backups may be gzipped and then encrypted with AES-256-GCM. An
+// encrypted file starts with ENCRYPTION_MAGIC, then the key's salt, the IV and
+// the auth tag. The key is derived from BACKUP_ENCRYPTION_KEY, which is never
+// kept in the database.
+const ENCRYPTION_MAGIC = Buffer.from("PSBKENC1");
+const SALT_BYTES = 16;
+const IV_BYTES = 12;
+const TAG_BYTES = 16;
+
+export function isBackupEncryptionConfigured(): boolean {
+  return Boolean(process.env.BACKUP_ENCRYPTION_KEY);
+}
+
+function encryptionKey(salt: Buffer): Buffer {
+  const passphrase = process.env.BACKUP_ENCRYPTION_KEY;
+  if (!passphrase) {
+    throw new Error("Set BACKUP_ENCRYPTION_KEY to encrypt or decrypt backups");
+  }
+  return scryptSync(passphrase, salt, 32);
+}
+
+function encrypt(content: Buffer): Buffer {
+  const salt = randomBytes(SALT_BYTES);
+  const iv = randomBytes(IV_BYTES);
+  const cipher = createCipheriv("aes-256-gcm", encryptionKey(salt), iv);
+  const encrypted = Buffer.concat([cipher.update(content), cipher.final()]);
+  return Buffer.concat([ENCRYPTION_MAGIC, salt, iv, cipher.getAuthTag(), encrypted]);
+}
+
+function decrypt(content: Buffer): Buffer {
+  let offset = ENCRYPTION_MAGIC.length;
+  const salt = content.subarray(offset, offset += SALT_BYTES);
+  const iv = content.subarray(offset, offset += IV_BYTES);
+  const tag = content.subarray(offset, offset += TAG_BYTES);
+
+  const decipher = createDecipheriv("aes-256-gcm", encryptionKey(salt), iv);
+  decipher.setAuthTag(tag);
+  try {
+    return Buffer.concat([decipher.update(content.subarray(offset)), decipher.final()]);
+  } catch {
+    throw new Error("The backup could not be decrypted: the encryption key is wrong or the file is damaged");
+  }
+}
+
+function isGzipped(content: Buffer): boolean {
+  return content.length > 2 && content[0] === 0x1f && content[1] === 0x8b;
+}
+
+export function packBackup(content: Buffer, options: { compress: boolean; encrypt: boolean }): Buffer {
+  const packed = options.compress ? gzipSync(content) : content;
+  return options.encrypt ? encrypt(packed) : packed;
+}
+
+// Undoes packBackup, working out from the content what was done to it
+function unpackBackup(content: Buffer): Buffer {
+  const decrypted = content.subarray(0, ENCRYPTION_MAGIC.length).equals(ENCRYPTION_MAGIC) ? decrypt(content) : content;
+  if (!isGzipped(decrypted)) return decrypted;
+  try {
+    return gunzipSync(decrypted);
+  } catch {
+    throw new Error("The backup is damaged: it could not be decompressed");
+  }
+}
+
+// Parses a backup, compressed and encrypted or not, and checks it can be
+// restored here. Problems come back as a message for the user rather than
+// being thrown.
+export function readBackup(content: Buffer): { archive: BackupArchive } | { error: string } {
+  let unpacked: Buffer;
+  try {
+    unpacked = unpackBackup(content);
+  } catch (error) {
+    return { error: error instanceof Error ? error.message : String(error) };
+  }
+
+  let archive: BackupArchive;
+  try {
+    archive = JSON.parse(unpacked.toString("utf8"));
+  } catch {
+    return { error: "The file is not a backup" };
+  }
+
+  if (!archive || archive.format !== BACKUP_FORMAT) {
+    return { error: "The file is not a backup" };
+  }
+  if (archive.formatVersion !== BACKUP_FORMAT_VERSION) {
+    return { error: `Backup format version ${archive.formatVersion} is not supported` };
+  }
+  if (
+    typeof archive.tables !== "object" ||
+    !Array.isArray(archive.uploads) ||
+    archive.checksum !== checksum(archive)
+  ) {
+    return { error: "The backup is damaged: its checksum does not match" };
+  }
+  if (archive.schemaVersion !== storage.getBackupSchemaVersion()) {
+    return {
+      error: "The backup was taken from a different version of the database schema and cannot be restored here",
+    };
+  }
+  const known = storage.getBackupTableNames();
+  const unknown = Object.keys(archive.tables).filter((name) => !known.includes(name));
+  if (unknown.length > 0) {
+    return { error: `The backup holds unknown tables: ${unknown.join(", ")}` };
+  }
+  if (archive.uploads.some((upload) => path.basename(upload.name) !== upload.name)) {
+    return { error: "The backup holds an upload with an invalid name" };
+  }
+
+  return { archive };
+}
+
+function rowsByKey(name: string, rows: Record<string, unknown>[]): Map<string, string> {
+  const primaryKey = storage.getBackupPrimaryKey(name);
+  return new Map(
+    rows.map((row) => [JSON.stringify(primaryKey.map((key) => row[key])), JSON.stringify(row)])
+  );
+}
+
+// Compares a backup with what is in the database now, for the preview shown
+// before a restore
+export async function diffBackup(archive: BackupArchive): Promise<BackupDiff> {
+  const current = JSON.parse(JSON.stringify(await storage.getBackupTables())) as BackupArchive["tables"];
+
+  const tables: BackupTableDiff[] = Object.keys(current).map((name) => {
+    const before = rowsByKey(name, current[name]);
+    const after = rowsByKey(name, archive.tables[name] ?? []);
+
+    let added = 0;
+    let changed = 0;
+    for (const [key, row] of after) {
+      if (!before.has(key)) added++;
+      else if (before.get(key) !== row) changed++;
+    }
+    let removed = 0;
+    for (const key of before.keys()) {
+      if (!after.has(key)) removed++;
+    }
+
+    return { table: name, current: before.size, backup: after.size, added, removed, changed };
+  });
+
+  const uploads = { added: 0, changed: 0 };
+  for (const upload of archive.uploads) {
+    const file = path.join(uploadsDir, upload.name);
+    if (!fs.existsSync(file)) {
+      uploads.added++;
+    } else if ((await fs.promises.readFile(file)).toString("base64") !== upload.content) {
+      uploads.changed++;
+    }
+  }
+
+  return { createdAt: archive.createdAt, tables, uploads };
+}
+
+// Replaces the database with the backup's contents, then writes back its
+// uploaded files. Files uploaded since the backup was taken are left alone.
+export async function restoreBackup(archive: BackupArchive, diff: BackupDiff): Promise<void> {
+  await storage.restoreBackupTables(archive.tables, {
+    backupCreatedAt: archive.createdAt,
+    tables: Object.fromEntries(diff.tables.map(({ table, backup }) => [table, backup])),
+    uploads: archive.uploads.length,
+  });
+
+  await fs.promises.mkdir(uploadsDir, { recursive: true });
+  for (const upload of archive.uploads) {
+    await fs.promises.writeFile(path.join(uploadsDir, upload.name), Buffer.from(upload.content, "base64"));
+  }
+}
+
+// Checks a backup file and either previews or carries out its restore
+export async function restoreBackupFile(
+  content: Buffer,
+  dryRun: boolean
+): Promise<{ result: BackupDiff & { dryRun: boolean } } | { error: string }> {
+  const read = readBackup(content);
+  if ("error" in read) return read;
+
+  const diff = await diffBackup(read.archive);
+  if (!dryRun) {
+    await restoreBackup(read.archive, diff);
+  }
+  return { result: { dryRun, ...diff } };
+}
+
+export async function getBackupSettings(): Promise<BackupSettings> {
+  const settings = await storage.getSystemSettings();
+  const parsed = backupSettingsSchema.safeParse(settings.backupSettings ?? {});
+  return parsed.success ? parsed.data : backupSettingsSchema.parse({});
+}
+
+export function getBackupDirectory(): string {
+  return backupDir;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+const FREQUENCY_MS: Record<BackupFrequency, number> = {
+  hourly: HOUR_MS,
+  daily: DAY_MS,
+  weekly: 7 * DAY_MS,
+  monthly: 30 * DAY_MS,
+};
+
+// e.g. pharmstock-backup-2025-06-01T02-00-00Z.json.gz.enc. The time in the
+// name is when the backup was taken, so copying a file around doesn't change
+// where it sorts.
+const STORED_BACKUP_NAME = /^pharmstock-backup-(\d{4}-\d{2}-\d{2})T(\d{2})-(\d{2})-(\d{2})Z\.json(\.gz)?(\.enc)?$/;
+
+function storedBackupName(createdAt: Date, options: { compress: boolean; encrypt: boolean }): string {
+  const timestamp = createdAt.toISOString().slice(0, 19).replace(/:/g, "-");
+  return `pharmstock-backup-${timestamp}Z.json${options.compress ? ".gz" : ""}${options.encrypt ? ".enc" : ""}`;
+}
+
+// Backups in the backup directory, newest first
+export async function listStoredBackups(): Promise<StoredBackup[]> {
+  if (!fs.existsSync(backupDir)) return [];
+
+  const backups: StoredBackup[] = [];
+  for (const name of await fs.promises.readdir(backupDir)) {
+    const match = STORED_BACKUP_NAME.exec(name);
+    if (!match) continue;
+
+    const [, date, hours, minutes, seconds, gz, enc] = match;
+    const stats = await fs.promises.stat(path.join(backupDir, name));
+    backups.push({
+      name,
+      size: stats.size,
+      createdAt: new Date(`${date}T${hours}:${minutes}:${seconds}Z`).toISOString(),
+      compressed: Boolean(gz),
+      encrypted: Boolean(enc),
+    });
+  }
+  return backups.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+// Reads a stored backup by name. Only names listStoredBackups would show are
+// accepted, so this can't be used to read other files.
+export async function readStoredBackup(name: string): Promise<Buffer | undefined> {
+  if (!STORED_BACKUP_NAME.test(name)) return undefined;
+  const file = path.join(backupDir, name);
+  if (!fs.existsSync(file)) return undefined;
+  return fs.promises.readFile(file);
+}
+
+// Takes a backup into the backup directory, compressed and encrypted as the
+// backup settings say
+export async function writeStoredBackup(settings: BackupSettings): Promise<StoredBackup> {
+  const options = { compress: settings.compressBackups, encrypt: settings.encryptBackups };
+  const content = packBackup(await createBackup(), options);
+
+  const createdAt = new Date();
+  const name = storedBackupName(createdAt, options);
+  await fs.promises.mkdir(backupDir, { recursive: true });
+  await fs.promises.writeFile(path.join(backupDir, name), content);
+
+  return {
+    name,
+    size: content.length,
+    createdAt: createdAt.toISOString(),
+    compressed: options.compress,
+    encrypted: options.encrypt,
+  };
+}
+
+// Deletes backups older than the retention period, always keeping the newest
+export async function pruneStoredBackups(retentionDays: number): Promise<void> {
+  const cutoff = Date.now() - retentionDays * DAY_MS;
+  const [, ...older] = await listStoredBackups();
+  for (const backup of older) {
+    if (new Date(backup.createdAt).getTime() < cutoff) {
+      await fs.promises.unlink(path.join(backupDir, backup.name));
+    }
+  }
+}
+
+// Takes a backup when automatic backups are on and the newest one is older
+// than the backup frequency. Run by the scheduler.
+export async function runScheduledBackup(): Promise<void> {
+  const settings = await getBackupSettings();
+  if (!settings.autoBackupEnabled) return;
+
+  const [latest] = await listStoredBackups();
+  const due = !latest ||
+    Date.now() - new Date(latest.createdAt).getTime() >= FREQUENCY_MS[settings.backupFrequency];
+  if (!due) return;
+
+  await writeStoredBackup(settings);
+  await pruneStoredBackups(settings.retentionPeriod);
+}
@@ -5,6 +5,7 @@ import { setupVite, serveStatic, log } from "./vite";
 import { getOrgConfig, type OrgConfig } from './config';
 import { storage } from "./storage";
 import { hashPassword } from "./auth";
+import { startJobScheduler } from "./jobs";
 
 // Extend Express Request type
 declare global {
@@ -128,5 +129,6 @@ app.use((req, res, next) => {
     reusePort: true,
   }, () => {
     log(`serving on port ${port}`);
+    startJobScheduler();
   });
 })();
\ No newline at end of file
@@ -0,0 +1,98 @@
+import { storage } from "./storage";
+import { generateExpiryAlerts, generateLowStockAlerts, sendAlertDigests } from "./notifications";
+import { deliverPendingMail } from "./mail";
+import { runDueReportSubscriptions } from "./report-subscriptions";
+import { runScheduledBackup } from "./backup";
+
+type JobDefinition = {
+  name: string;
+  description: string;
+  intervalMs: number;
+  run: () => Promise<void>;
+};
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+const DAY_MS = 24 * HOUR_MS;
+
+// How often the scheduler checks for due jobs. Jobs run at most this much
+// later than their interval says.
+const SCHEDULER_TICK_MS = MINUTE_MS;
+
+export const JOBS: JobDefinition[] = [
+  {
+    name: "low_stock_scan",
+    description: "Notifies users about items at or below the low stock threshold",
+    intervalMs: 15 * MINUTE_MS,
+    run: generateLowStockAlerts,
+  },
+  {
+    name: "expiry_scan",
+    description: "Notifies users about lots expiring within the expiry alert window",
+    intervalMs: 6 * HOUR_MS,
+    run: generateExpiryAlerts,
+  },
+  {
+    name: "mail_delivery",
+    description: "Sends queued email and retries failed deliveries",
+    intervalMs: MINUTE_MS,
+    run: deliverPendingMail,
+  },
+  {
+    name: "alert_digest",
+    description: "Emails users a summary of their unread alerts from the past day",
+    intervalMs: DAY_MS,
+    run: () => sendAlertDigests(DAY_MS),
+  },
+  {
+    name: "report_subscriptions",
+    description: "Emails subscribed reports when their schedule comes due",
+    intervalMs: MINUTE_MS,
+    run: runDueReportSubscriptions,
+  },
+  {
+    name: "scheduled_backup",
+    description: "Takes automatic backups at the configured frequency and deletes those past retention",
+    intervalMs: MINUTE_MS,
+    run: runScheduledBackup,
+  },
+];
+
+// Jobs this process is running, so a slow job isn't started again by the next
+// tick while it is still going
+const runningJobs = new Set<string>();
+
+async function runIfDue(job: JobDefinition): Promise<void> {
+  if (runningJobs.has(job.name)) return;
+  runningJobs.add(job.name);
+
+  try {
+    const claimed = await storage.claimDueJob(job.name, job.intervalMs);
+    if (!claimed) return;
+
+    const startedAt = claimed.lastStartedAt ?? new Date();
+    try {
+      await job.run();
+      await storage.finishJob(job.name, startedAt);
+    } catch (error) {
+      console.error(`Scheduled job ${job.name} failed:`, error);
+      await storage.finishJob(job.name, startedAt, error instanceof Error ? error.message : String(error));
+    }
+  } catch (error) {
+    console.error(`Failed to schedule job ${job.name}:`, error);
+  } finally {
+    runningJobs.delete(job.name);
+  }
+}
+
+function tick() {
+  for (const job of JOBS) {
+    void runIfDue(job);
+  }
+}
+
+// Runs any jobs that are already due, then checks again every tick
+export function startJobScheduler(): void {
+  tick();
+  setInterval(tick, SCHEDULER_TICK_MS).unref();
+}
@@ -0,0 +1,187 @@
+import { format } from "date-fns";
+import type { MailAttachment, Notification } from "@shared/schema";
+
+// A rendered email, ready to be queued in the outbox
+export type MailContent = {
+  template: string;
+  subject: string;
+  text: string;
+  html: string;
+  attachments?: MailAttachment[];
+  // Carries a sign-in link, so the body isn't kept once delivery is over
+  sensitive?: boolean;
+};
+
+const APP_NAME = "PharmStock";
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+// Wraps already-escaped body HTML in the common message layout
+function layout(heading: string, body: string): string {
+  return `<!DOCTYPE html>
+<html>
+  <body style="margin:0;padding:24px;background:#f3f4f6;font-family:Arial,sans-serif;color:#1f2937;">
+    <div style="max-width:560px;margin:0 auto;background:#ffffff;border-radius:8px;padding:24px;">
+      <h1 style="margin:0 0 16px;font-size:20px;">${escapeHtml(heading)}</h1>
+      ${body}
+      <p style="margin:24px 0 0;font-size:12px;color:#6b7280;">Sent by ${APP_NAME}</p>
+    </div>
+  </body>
+</html>`;
+}
+
+function paragraph(text: string): string {
+  return `<p style="margin:0 0 12px;">${escapeHtml(text)}</p>`;
+}
+
+function button(label: string, url: string): string {
+  return `<p style="margin:16px 0;"><a href="${escapeHtml(url)}" style="display:inline-block;padding:10px 16px;background:#2563eb;color:#ffffff;border-radius:6px;text-decoration:none;">${escapeHtml(label)}</a></p>`;
+}
+
+export function reportDeliveryMail({
+  recipientName,
+  senderName,
+  reportName,
+  message,
+  link,
+  attachment,
+}: {
+  recipientName?: string;
+  senderName?: string;
+  reportName: string;
+  message?: string;
+  link?: string;
+  attachment?: MailAttachment;
+}): MailContent {
+  const greeting = recipientName ? `Hello ${recipientName},` : "Hello,";
+  const intro = senderName
+    ? `${senderName} shared the ${reportName} report with you.`
+    : `Your ${reportName} report is ready.`;
+  const where = attachment ? "It is attached to this email." : link ? "Use the link below to view it." : "";
+
+  const text = [
+    greeting,
+    "",
+    `${intro} ${where}`.trim(),
+    ...(message ? ["", message] : []),
+    ...(link ? ["", link] : []),
+  ].join("\n");
+
+  const html = layout(reportName, [
+    paragraph(greeting),
+    paragraph(`${intro} ${where}`.trim()),
+    message ? paragraph(message) : "",
+    link ? button("View report", link) : "",
+  ].join("\n"));
+
+  return {
+    template: "report_delivery",
+    subject: `${reportName} report from ${APP_NAME}`,
+    text,
+    html,
+    attachments: attachment ? [attachment] : [],
+  };
+}
+
+export function passwordResetMail({
+  recipientName,
+  resetUrl,
+  expiresInMinutes,
+}: {
+  recipientName: string;
+  resetUrl: string;
+  expiresInMinutes: number;
+}): MailContent {
+  const lines = [
+    `Hello ${recipientName},`,
+    `We received a request to reset your ${APP_NAME} password. The link expires in ${expiresInMinutes} minutes.`,
+    "If you did not ask for this, you can ignore this email and your password will stay the same.",
+  ];
+
+  return {
+    template: "password_reset",
+    sensitive: true,
+    subject: `Reset your ${APP_NAME} password`,
+    text: [lines[0], "", lines[1], "", resetUrl, "", lines[2]].join("\n"),
+    html: layout("Reset your password", [
+      paragraph(lines[0]),
+      paragraph(lines[1]),
+      button("Reset password", resetUrl),
+      paragraph(lines[2]),
+    ].join("\n")),
+  };
+}
+
+export function invitationMail({
+  recipientName,
+  inviterName,
+  inviteUrl,
+  expiresInDays,
+}: {
+  recipientName: string;
+  inviterName?: string;
+  inviteUrl: string;
+  expiresInDays: number;
+}): MailContent {
+  const lines = [
+    `Hello ${recipientName},`,
+    `${inviterName ?? "An administrator"} has invited you to ${APP_NAME}. Choose a username and password to set up your account.`,
+    `The link can be used once and expires in ${expiresInDays} day${expiresInDays === 1 ? "" : "s"}.`,
+  ];
+
+  return {
+    template: "invitation",
+    sensitive: true,
+    subject: `You're invited to ${APP_NAME}`,
+    text: [lines[0], "", lines[1], "", inviteUrl, "", lines[2]].join("\n"),
+    html: layout(`Join ${APP_NAME}`, [
+      paragraph(lines[0]),
+      paragraph(lines[1]),
+      button("Set up account", inviteUrl),
+      paragraph(lines[2]),
+    ].join("\n")),
+  };
+}
+
+export function alertDigestMail({
+  recipientName,
+  notifications,
+  appUrl,
+}: {
+  recipientName: string;
+  notifications: Notification[];
+  appUrl: string;
+}): MailContent {
+  const summary = `You have ${notifications.length} unread ${notifications.length === 1 ? "alert" : "alerts"}.`;
+  const describe = (notification: Notification) =>
+    `${notification.title}: ${notification.message} (${format(new Date(notification.createdAt), "MMM d, HH:mm")})`;
+
+  return {
+    template: "alert_digest",
+    subject: `${APP_NAME} alerts: ${notifications.length} unread`,
+    text: [
+      `Hello ${recipientName},`,
+      "",
+      summary,
+      "",
+      ...notifications.map(notification => `- ${describe(notification)}`),
+      "",
+      appUrl,
+    ].join("\n"),
+    html: layout("Your alerts", [
+      paragraph(`Hello ${recipientName},`),
+      paragraph(summary),
+      `<ul style="margin:0 0 12px;padding-left:20px;">${notifications
+        .map(notification => `<li style="margin-bottom:6px;">${escapeHtml(describe(notification))}</li>`)
+        .join("")}</ul>`,
+      button(`Open ${APP_NAME}`, appUrl),
+    ].join("\n")),
+  };
+}
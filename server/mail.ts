@@ -0,0 +1,192 @@
+import fs from "fs";
+import path from "path";
+import sgMail from "@sendgrid/mail";
+import nodemailer from "nodemailer";
+import { storage } from "./storage";
+import type { MailAttachment, OutboxMail } from "@shared/schema";
+import type { MailContent } from "./mail-templates";
+
+export type MailMessage = {
+  from: string;
+  to: string;
+  subject: string;
+  text: string;
+  html: string;
+  attachments: MailAttachment[];
+};
+
+// Something that can deliver a message. Delivery failures are thrown; the
+// outbox takes care of retrying.
+export interface MailTransport {
+  readonly name: string;
+  send(message: MailMessage): Promise<void>;
+}
+
+export class SendGridTransport implements MailTransport {
+  readonly name = "sendgrid";
+
+  constructor(apiKey: string) {
+    sgMail.setApiKey(apiKey);
+  }
+
+  async send(message: MailMessage): Promise<void> {
+    await sgMail.send({
+      from: message.from,
+      to: message.to,
+      subject: message.subject,
+      text: message.text,
+      html: message.html,
+      attachments: message.attachments.map(attachment => ({
+        filename: attachment.filename,
+        type: attachment.contentType,
+        content: attachment.content,
+        disposition: "attachment",
+      })),
+    });
+  }
+}
+
+function toNodemailerMessage(message: MailMessage): nodemailer.SendMailOptions {
+  return {
+    ...message,
+    attachments: message.attachments.map(attachment => ({
+      filename: attachment.filename,
+      contentType: attachment.contentType,
+      content: attachment.content,
+      encoding: "base64",
+    })),
+  };
+}
+
+export class SmtpTransport implements MailTransport {
+  readonly name = "smtp";
+  private transporter: nodemailer.Transporter;
+
+  constructor(options: { host: string; port: number; secure: boolean; user?: string; password?: string }) {
+    this.transporter = nodemailer.createTransport({
+      host: options.host,
+      port: options.port,
+      secure: options.secure,
+      auth: options.user ? { user: options.user, pass: options.password } : undefined,
+    });
+  }
+
+  async send(message: MailMessage): Promise<void> {
+    await this.transporter.sendMail(toNodemailerMessage(message));
+  }
+}
+
+// Development stand-in that writes each message to an .eml file, which any
+// mail client can open
+export class FileTransport implements MailTransport {
+  readonly name = "file";
+  private builder = nodemailer.createTransport({ streamTransport: true, buffer: true, newline: "unix" });
+
+  constructor(private directory: string) {}
+
+  async send(message: MailMessage): Promise<void> {
+    const info = await this.builder.sendMail(toNodemailerMessage(message));
+    const slug = message.subject.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "").slice(0, 40);
+
+    await fs.promises.mkdir(this.directory, { recursive: true });
+    await fs.promises.writeFile(path.join(this.directory, `${Date.now()}-${slug}.eml`), info.message as Buffer);
+  }
+}
+
+// Picks the transport from MAIL_TRANSPORT, or from whichever credentials are
+// configured, falling back to .eml files
+function createMailTransport(): MailTransport {
+  const kind = process.env.MAIL_TRANSPORT ||
+    (process.env.SENDGRID_API_KEY ? "sendgrid" : process.env.SMTP_HOST ? "smtp" : "file");
+
+  switch (kind) {
+    case "sendgrid":
+      if (!process.env.SENDGRID_API_KEY) {
+        throw new Error("SENDGRID_API_KEY must be set to send mail through SendGrid");
+      }
+      return new SendGridTransport(process.env.SENDGRID_API_KEY);
+    case "smtp":
+      if (!process.env.SMTP_HOST) {
+        throw new Error("SMTP_HOST must be set to send mail over SMTP");
+      }
+      return new SmtpTransport({
+        host: process.env.SMTP_HOST,
+        port: Number(process.env.SMTP_PORT) || 587,
+        secure: process.env.SMTP_SECURE === "true",
+        user: process.env.SMTP_USER,
+        password: process.env.SMTP_PASSWORD,
+      });
+    case "file":
+      return new FileTransport(process.env.MAIL_FILE_DIR || path.join(process.cwd(), "mail-outbox"));
+    default:
+      throw new Error(`Unknown MAIL_TRANSPORT "${kind}"`);
+  }
+}
+
+let transport: MailTransport | undefined;
+
+function getMailTransport(): MailTransport {
+  transport ??= createMailTransport();
+  return transport;
+}
+
+const MAIL_FROM = process.env.MAIL_FROM || "PharmStock <no-reply@localhost>";
+
+// Mail per delivery run, and how long a claimed message is left alone before
+// it counts as abandoned
+const DELIVERY_BATCH_SIZE = 20;
+const DELIVERY_LEASE_MS = 10 * 60 * 1000;
+
+// Failed deliveries are retried after 1, 4, 16 and 64 minutes, then given up
+const MAX_DELIVERY_ATTEMPTS = 5;
+const RETRY_BASE_MS = 60 * 1000;
+
+// Absolute link into the app, for use in emails
+export function appUrl(pathname = "/"): string {
+  return `${(process.env.APP_URL || "http://localhost:5000").replace(/\/$/, "")}${pathname}`;
+}
+
+async function deliver(mail: OutboxMail): Promise<void> {
+  try {
+    await getMailTransport().send({
+      from: MAIL_FROM,
+      to: mail.to,
+      subject: mail.subject,
+      text: mail.text,
+      html: mail.html,
+      attachments: mail.attachments,
+    });
+    await storage.markMailSent(mail.id);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    const retryAt = mail.attempts < MAX_DELIVERY_ATTEMPTS
+      ? new Date(Date.now() + RETRY_BASE_MS * 4 ** (mail.attempts - 1))
+      : null;
+    console.error(`Failed to deliver mail ${mail.id} to ${mail.to}:`, message);
+    await storage.markMailFailed(mail.id, message, retryAt);
+  }
+}
+
+// Sends whatever is due in the outbox. Run by the scheduler, and straight
+// after mail is queued.
+export async function deliverPendingMail(): Promise<void> {
+  const due = await storage.claimDueMail(DELIVERY_BATCH_SIZE, DELIVERY_LEASE_MS);
+  for (const mail of due) {
+    await deliver(mail);
+  }
+}
+
+export async function queueMail(to: string, content: MailContent): Promise<OutboxMail> {
+  const queued = await storage.queueMail({
+    template: content.template,
+    to,
+    subject: content.subject,
+    text: content.text,
+    html: content.html,
+    attachments: content.attachments ?? [],
+    sensitive: content.sensitive ?? false,
+  });
+
+  deliverPendingMail().catch(error => console.error("Failed to deliver queued mail:", error));
+  return queued;
+}
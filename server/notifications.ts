@@ -0,0 +1,208 @@
+import { format } from "date-fns";
+import { storage } from "./storage";
+import { appUrl, queueMail } from "./mail";
+import { alertDigestMail } from "./mail-templates";
+import {
+  ROLE_PERMISSIONS,
+  DEFAULT_USER_PREFERENCES,
+  type InsertNotification,
+  type RoleType,
+  type StockMovement,
+  type StockRequest,
+  type User,
+  type UserPreferences,
+} from "@shared/schema";
+
+// Same defaults as the system settings page
+const DEFAULT_LOW_STOCK_THRESHOLD = 10;
+const DEFAULT_EXPIRY_ALERT_DAYS = 30;
+
+export async function getAlertThresholds() {
+  const settings = await storage.getSystemSettings();
+  const lowStockThreshold = Number(settings.lowStockThreshold);
+  const expiryAlertDays = Number(settings.expiryAlertDays);
+  return {
+    lowStockThreshold: Number.isFinite(lowStockThreshold) ? lowStockThreshold : DEFAULT_LOW_STOCK_THRESHOLD,
+    expiryAlertDays: Number.isFinite(expiryAlertDays) && expiryAlertDays > 0 ? expiryAlertDays : DEFAULT_EXPIRY_ALERT_DAYS,
+  };
+}
+
+// Looks up which notifications each user has switched on
+async function getPreferenceLookup() {
+  const preferences = await storage.getAllUserPreferences();
+  return (userId: number): UserPreferences => preferences.get(userId) ?? DEFAULT_USER_PREFERENCES;
+}
+
+// Stock alerts go to users who can edit the item: everyone-specialty roles,
+// and otherwise those in the item's specialty
+function looksAfterItem(user: User, item: { specialtyId: number | null }) {
+  const permissions = ROLE_PERMISSIONS[user.role as RoleType];
+  if (!permissions?.canEditItems) return false;
+  return permissions.canSeeAllSpecialties || item.specialtyId === null || user.specialtyId === item.specialtyId;
+}
+
+// Pending requests are announced to the approvers who can review them.
+// Mirrors canReviewStockRequest in routes.ts.
+function canApprove(user: User, request: StockRequest) {
+  const permissions = ROLE_PERMISSIONS[user.role as RoleType];
+  if (!permissions?.canApproveRequests || user.id === request.requestedBy) return false;
+  return permissions.canSeeAllSpecialties || (user.specialtyId !== null && user.specialtyId === request.specialtyId);
+}
+
+// Notifications are a side effect; failing to create one must not fail the
+// request that triggered it
+async function safely(description: string, generate: () => Promise<void>) {
+  try {
+    await generate();
+  } catch (error) {
+    console.error(`Failed to create ${description} notifications:`, error);
+  }
+}
+
+// Reports items at or below the low stock threshold, once per user until the
+// item is restocked. Run by the scheduler; errors are left to the caller.
+export async function generateLowStockAlerts(): Promise<void> {
+  const [users, items, { lowStockThreshold }, preferencesOf] = await Promise.all([
+    storage.getUsers(),
+    storage.getStockItems(),
+    getAlertThresholds(),
+    getPreferenceLookup(),
+  ]);
+  const recipients = users.filter(user => preferencesOf(user.id).stockAlerts);
+
+  const rows: InsertNotification[] = [];
+  const resolvedKeys: string[] = [];
+
+  for (const item of items) {
+    const dedupeKey = `low_stock:${item.id}`;
+    if (item.quantity > lowStockThreshold) {
+      resolvedKeys.push(dedupeKey);
+      continue;
+    }
+    for (const user of recipients.filter(u => looksAfterItem(u, item))) {
+      rows.push({
+        userId: user.id,
+        type: 'low_stock',
+        title: "Low Stock Alert",
+        message: `${item.name} is running low (${item.quantity} remaining)`,
+        link: '/inventory',
+        dedupeKey,
+      });
+    }
+  }
+
+  await storage.clearNotifications(resolvedKeys);
+  await storage.createNotifications(rows);
+}
+
+// Reports lots expiring within the alert window, once per user and lot
+export async function generateExpiryAlerts(): Promise<void> {
+  const [users, { expiryAlertDays }, preferencesOf] = await Promise.all([
+    storage.getUsers(),
+    getAlertThresholds(),
+    getPreferenceLookup(),
+  ]);
+  const recipients = users.filter(user => preferencesOf(user.id).expiryAlerts);
+  const expiringLots = await storage.getExpiringItems(expiryAlertDays);
+
+  const rows: InsertNotification[] = [];
+  for (const lot of expiringLots) {
+    const expired = lot.expiry !== null && new Date(lot.expiry) < new Date();
+    for (const user of recipients.filter(u => looksAfterItem(u, lot))) {
+      rows.push({
+        userId: user.id,
+        type: 'expiring_lot',
+        title: expired ? "Expired Lot" : "Expiring Lot",
+        message: `Lot ${lot.lotNumber} of ${lot.name} (${lot.quantity} units) ${expired ? "expired" : "expires"} on ${format(new Date(lot.expiry!), "MMM d, yyyy")}`,
+        link: '/inventory',
+        dedupeKey: `expiring_lot:${lot.lotId}`,
+      });
+    }
+  }
+
+  await storage.createNotifications(rows);
+}
+
+// Rescans straight after a change to stock rather than waiting for the next
+// scheduled scan
+export async function generateStockAlerts(): Promise<void> {
+  await safely("stock alert", async () => {
+    await generateLowStockAlerts();
+    await generateExpiryAlerts();
+  });
+}
+
+// Tells each recipient what they were sent, one notification per recipient
+export async function notifyMovementRecipients(movements: StockMovement[], mover: User): Promise<void> {
+  await safely("movement", async () => {
+    const byRecipient = new Map<number, StockMovement[]>();
+    for (const movement of movements) {
+      if (movement.toUserId === null || movement.toUserId === mover.id) continue;
+      byRecipient.set(movement.toUserId, [...(byRecipient.get(movement.toUserId) ?? []), movement]);
+    }
+    const preferencesOf = await getPreferenceLookup();
+    for (const userId of Array.from(byRecipient.keys())) {
+      if (!preferencesOf(userId).movementAlerts) byRecipient.delete(userId);
+    }
+    if (byRecipient.size === 0) return;
+
+    const items = await storage.getStockItems();
+    const describe = (movement: StockMovement) =>
+      `${movement.quantity} x ${items.find(item => item.id === movement.stockItemId)?.name ?? "Unknown Item"}`;
+
+    await storage.createNotifications(
+      Array.from(byRecipient.entries()).map(([userId, received]) => ({
+        userId,
+        type: 'movement' as const,
+        title: "Stock Received",
+        message: `${mover.name} sent you ${received.map(describe).join(", ")}`,
+        dedupeKey: `movement:${received[0].id}`,
+      }))
+    );
+  });
+}
+
+export async function notifyRequestApprovers(request: StockRequest, requester: User): Promise<void> {
+  await safely("approval", async () => {
+    const users = await storage.getUsers();
+    await storage.createNotifications(
+      users
+        .filter(user => canApprove(user, request))
+        .map(user => ({
+          userId: user.id,
+          type: 'approval' as const,
+          title: "Approval Needed",
+          message: `${requester.name} submitted stock request #${request.id}`,
+          link: `/stock-requests/${request.id}`,
+          dedupeKey: `request:${request.id}`,
+        }))
+    );
+  });
+}
+
+// A reviewed or cancelled request no longer awaits anyone
+export async function clearRequestApprovals(requestId: number): Promise<void> {
+  await safely("approval", () => storage.clearNotifications([`request:${requestId}`]));
+}
+
+// Emails each user who wants email notifications and daily reports a summary
+// of what they haven't read from the given window
+export async function sendAlertDigests(windowMs: number): Promise<void> {
+  const [users, preferencesOf] = await Promise.all([storage.getUsers(), getPreferenceLookup()]);
+  const since = new Date(Date.now() - windowMs);
+
+  for (const user of users) {
+    const preferences = preferencesOf(user.id);
+    if (!user.email || !preferences.emailNotifications || !preferences.dailyReports) continue;
+
+    const unread = (await storage.getNotifications(user.id))
+      .filter(notification => !notification.readAt && new Date(notification.createdAt) >= since);
+    if (unread.length === 0) continue;
+
+    await queueMail(user.email, alertDigestMail({
+      recipientName: user.name,
+      notifications: unread,
+      appUrl: appUrl(),
+    }));
+  }
+}
@@ -0,0 +1,79 @@
+import { addDays, format, subDays } from "date-fns";
+import { storage, specialtyScope } from "./storage";
+import { buildReport, renderReport } from "./reports";
+import { queueMail } from "./mail";
+import { reportDeliveryMail } from "./mail-templates";
+import type { ReportArchiveSummary, ReportFileFormat, ReportSubscription, ReportType } from "@shared/schema";
+
+// Scheduled reports cover whole days up to yesterday, so one sent on a Monday
+// morning has all of the week before. Expiry reports look ahead from today.
+function subscriptionDates(subscription: ReportSubscription, runAt: Date) {
+  const day = (date: Date) => format(date, "yyyy-MM-dd");
+  if (subscription.reportType === "expiry") {
+    return { from: day(runAt), to: day(addDays(runAt, subscription.rangeDays)) };
+  }
+  return { from: day(subDays(runAt, subscription.rangeDays)), to: day(subDays(runAt, 1)) };
+}
+
+// Builds the report with what its owner may see, archives it and emails it to
+// every recipient
+export async function deliverReportSubscription(subscription: ReportSubscription): Promise<ReportArchiveSummary> {
+  const owner = await storage.getUser(subscription.createdBy);
+  if (!owner) {
+    throw new Error(`The user who set up subscription ${subscription.id} no longer exists`);
+  }
+
+  const report = await buildReport(
+    subscription.reportType as ReportType,
+    subscriptionDates(subscription, new Date()),
+    specialtyScope(owner)
+  );
+  const file = await renderReport(report, subscription.format as ReportFileFormat);
+  const content = file.content.toString("base64");
+
+  const archive = await storage.archiveReport({
+    subscriptionId: subscription.id,
+    reportType: subscription.reportType,
+    format: subscription.format,
+    filename: file.filename,
+    contentType: file.contentType,
+    content,
+    size: file.content.length,
+    periodFrom: report.from,
+    periodTo: report.to,
+    recipients: subscription.recipients,
+  });
+
+  const mail = reportDeliveryMail({
+    reportName: subscription.name,
+    message: `${report.title}, ${report.period}`,
+    attachment: { filename: file.filename, contentType: file.contentType, content },
+  });
+  for (const to of subscription.recipients) {
+    await queueMail(to, mail);
+  }
+
+  return archive;
+}
+
+// Sends every subscription that has come due. Run by the scheduler.
+export async function runDueReportSubscriptions(): Promise<void> {
+  const due = await storage.claimDueReportSubscriptions();
+  const failed: string[] = [];
+
+  for (const subscription of due) {
+    try {
+      await deliverReportSubscription(subscription);
+      await storage.recordReportSubscriptionRun(subscription.id);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`Failed to deliver report subscription ${subscription.id}:`, error);
+      await storage.recordReportSubscriptionRun(subscription.id, message);
+      failed.push(subscription.name);
+    }
+  }
+
+  if (failed.length > 0) {
+    throw new Error(`Failed to deliver ${failed.join(", ")}`);
+  }
+}
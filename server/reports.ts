@@ -0,0 +1,550 @@
+import ExcelJS from "exceljs";
+import { jsPDF } from "jspdf";
+import { addDays, differenceInCalendarDays, endOfDay, format, parseISO, startOfDay, subDays } from "date-fns";
+import { storage } from "./storage";
+import { getAlertThresholds } from "./notifications";
+import type {
+  Category,
+  ReportFileFormat,
+  ReportQuery,
+  ReportType,
+  SpecialtyScope,
+  StockItem,
+  StockMovement,
+  User,
+} from "@shared/schema";
+
+type ReportCell = string | number | null;
+
+type ReportColumn = {
+  header: string;
+  // Relative width, roughly in characters
+  width: number;
+  kind?: "text" | "number" | "money";
+};
+
+// A report as a plain table, before it is rendered to any file format
+export type ReportTable = {
+  type: ReportType;
+  title: string;
+  // Describes the dates the report covers, for headings
+  period: string;
+  from: Date;
+  to: Date;
+  generatedAt: Date;
+  columns: ReportColumn[];
+  rows: ReportCell[][];
+};
+
+export type ReportFile = {
+  filename: string;
+  contentType: string;
+  content: Buffer;
+};
+
+const REPORT_TITLES: Record<ReportType, string> = {
+  inventory: "Inventory Status",
+  movement: "Stock Movement",
+  expiry: "Expiring Items",
+  allocation: "Medical Rep Allocation",
+  specialty: "Specialty Summary",
+};
+
+// Reports without dates cover the last 30 days, or for expiry the next 30
+const DEFAULT_RANGE_DAYS = 30;
+
+const MOVEMENT_TYPE_NAMES: Record<string, string> = {
+  allocation: "Allocation",
+  return: "Return",
+  transfer: "Transfer",
+  adjustment_in: "Adjustment (+)",
+  adjustment_out: "Adjustment (-)",
+  write_off: "Write-off",
+  reversal: "Reversal",
+};
+
+function resolveRange(type: ReportType, query: Pick<ReportQuery, "from" | "to">, now: Date) {
+  const from = query.from ? startOfDay(parseISO(query.from)) : undefined;
+  const to = query.to ? endOfDay(parseISO(query.to)) : undefined;
+
+  if (type === "expiry") {
+    const start = from ?? startOfDay(now);
+    return { from: start, to: to ?? endOfDay(addDays(start, DEFAULT_RANGE_DAYS)) };
+  }
+
+  const end = to ?? endOfDay(now);
+  return { from: from ?? startOfDay(subDays(end, DEFAULT_RANGE_DAYS - 1)), to: end };
+}
+
+function formatDay(date: Date | string | null): string {
+  return date ? format(new Date(date), "yyyy-MM-dd") : "";
+}
+
+function dollars(cents: number | null, quantity = 1): number {
+  return ((cents ?? 0) * quantity) / 100;
+}
+
+function sum<T>(values: T[], of: (value: T) => number): number {
+  return values.reduce((total, value) => total + of(value), 0);
+}
+
+// Names for users, categories and specialties, shared by the report builders
+async function getLookups() {
+  const [users, categories, specialties] = await Promise.all([
+    storage.getUsers(),
+    storage.getCategories(),
+    storage.getSpecialties(),
+  ]);
+  const userNames = new Map(users.map(user => [user.id, user.name]));
+  const categoryNames = new Map(categories.map((category: Category) => [category.id, category.name]));
+  const specialtyNames = new Map(specialties.map(specialty => [specialty.id, specialty.name]));
+
+  return {
+    users,
+    specialties,
+    userName: (id: number) => userNames.get(id) ?? "Unknown",
+    categoryName: (id: number) => categoryNames.get(id) ?? "Unknown",
+    specialtyName: (id: number | null) => (id === null ? "" : specialtyNames.get(id) ?? "Unknown"),
+  };
+}
+
+function isMedicalRep(user: User) {
+  return user.role === "medicalRep";
+}
+
+// Whether people or specialty groups belong in a report limited to the scope
+function inScope(scope: SpecialtyScope, specialtyId: number | null) {
+  return scope === "all" || specialtyId === scope.specialtyId;
+}
+
+// Mirrors getMovementEndpoints on the client
+function movementEndpoints(movement: StockMovement, userName: (id: number) => string) {
+  const from = movement.fromUserId
+    ? userName(movement.fromUserId)
+    : movement.type === "adjustment_in" ? "Stock Adjustment" : "Central Warehouse";
+  const to = movement.toUserId
+    ? userName(movement.toUserId)
+    : movement.type === "write_off" ? "Written Off"
+    : movement.type === "adjustment_out" ? "Stock Adjustment" : "Central Warehouse";
+  return { from, to };
+}
+
+type ReportBody = Pick<ReportTable, "columns" | "rows">;
+
+async function buildInventoryReport(scope: SpecialtyScope): Promise<ReportBody> {
+  const [items, lookups, { lowStockThreshold }] = await Promise.all([
+    storage.getStockItems(scope),
+    getLookups(),
+    getAlertThresholds(),
+  ]);
+
+  return {
+    columns: [
+      { header: "ID", width: 6, kind: "number" },
+      { header: "Name", width: 28 },
+      { header: "Category", width: 16 },
+      { header: "Specialty", width: 16 },
+      { header: "Quantity", width: 10, kind: "number" },
+      { header: "Unit Price ($)", width: 12, kind: "money" },
+      { header: "Total Value ($)", width: 13, kind: "money" },
+      { header: "Expiry Date", width: 12 },
+      { header: "Status", width: 11 },
+    ],
+    rows: [...items]
+      .sort((a, b) => a.name.localeCompare(b.name))
+      .map(item => [
+        item.id,
+        item.name,
+        lookups.categoryName(item.categoryId),
+        lookups.specialtyName(item.specialtyId),
+        item.quantity,
+        dollars(item.price),
+        dollars(item.price, item.quantity),
+        formatDay(item.expiry),
+        item.quantity === 0 ? "Out of Stock" : item.quantity <= lowStockThreshold ? "Low Stock" : "In Stock",
+      ]),
+  };
+}
+
+async function buildMovementReport(from: Date, to: Date, scope: SpecialtyScope): Promise<ReportBody> {
+  const [movements, items, lookups] = await Promise.all([
+    storage.getMovementsBetween(from, to, scope),
+    storage.getStockItems(scope),
+    getLookups(),
+  ]);
+  const itemsById = new Map(items.map(item => [item.id, item]));
+
+  return {
+    columns: [
+      { header: "ID", width: 6, kind: "number" },
+      { header: "Date", width: 11 },
+      { header: "Type", width: 14 },
+      { header: "Item", width: 24 },
+      { header: "From", width: 18 },
+      { header: "To", width: 18 },
+      { header: "Quantity", width: 9, kind: "number" },
+      { header: "Total Value ($)", width: 13, kind: "money" },
+      { header: "Reason", width: 18 },
+      { header: "Moved By", width: 16 },
+    ],
+    rows: movements.map(movement => {
+      const item = itemsById.get(movement.stockItemId);
+      const endpoints = movementEndpoints(movement, lookups.userName);
+      return [
+        movement.id,
+        formatDay(movement.movedAt),
+        MOVEMENT_TYPE_NAMES[movement.type] ?? movement.type,
+        item?.name ?? "Unknown",
+        endpoints.from,
+        endpoints.to,
+        movement.quantity,
+        dollars(item?.price ?? 0, movement.quantity),
+        movement.reason ?? "",
+        lookups.userName(movement.movedBy),
+      ];
+    }),
+  };
+}
+
+function expiryRisk(daysRemaining: number): string {
+  if (daysRemaining < 0) return "Expired";
+  if (daysRemaining <= 14) return "Critical";
+  if (daysRemaining <= 30) return "High";
+  if (daysRemaining <= 60) return "Medium";
+  return "Low";
+}
+
+async function buildExpiryReport(from: Date, to: Date, now: Date, scope: SpecialtyScope): Promise<ReportBody> {
+  const [lots, lookups] = await Promise.all([
+    storage.getLotsExpiringBetween(from, to, scope),
+    getLookups(),
+  ]);
+
+  return {
+    columns: [
+      { header: "Item ID", width: 7, kind: "number" },
+      { header: "Name", width: 26 },
+      { header: "Lot", width: 16 },
+      { header: "Category", width: 16 },
+      { header: "Quantity", width: 9, kind: "number" },
+      { header: "Total Value ($)", width: 13, kind: "money" },
+      { header: "Expiry Date", width: 12 },
+      { header: "Days Remaining", width: 13, kind: "number" },
+      { header: "Risk Level", width: 10 },
+    ],
+    rows: lots.map(lot => {
+      const daysRemaining = differenceInCalendarDays(lot.expiry!, now);
+      return [
+        lot.id,
+        lot.name,
+        lot.lotNumber,
+        lookups.categoryName(lot.categoryId),
+        lot.quantity,
+        dollars(lot.price, lot.quantity),
+        formatDay(lot.expiry),
+        daysRemaining,
+        expiryRisk(daysRemaining),
+      ];
+    }),
+  };
+}
+
+// Stock each rep holds now, and what they received and passed on in the period
+async function buildAllocationReport(from: Date, to: Date, scope: SpecialtyScope): Promise<ReportBody> {
+  const [allocations, movements, items, lookups] = await Promise.all([
+    storage.getAllocations(undefined, scope),
+    storage.getMovementsBetween(from, to, scope),
+    storage.getStockItems(scope),
+    getLookups(),
+  ]);
+  const itemsById = new Map(items.map(item => [item.id, item]));
+
+  const reps = lookups.users
+    .filter(user => isMedicalRep(user) && inScope(scope, user.specialtyId))
+    .sort((a, b) => a.name.localeCompare(b.name));
+
+  return {
+    columns: [
+      { header: "Rep ID", width: 7, kind: "number" },
+      { header: "Medical Rep", width: 22 },
+      { header: "Region", width: 14 },
+      { header: "Specialty", width: 16 },
+      { header: "Items Held", width: 10, kind: "number" },
+      { header: "Units Held", width: 10, kind: "number" },
+      { header: "Value Held ($)", width: 13, kind: "money" },
+      { header: "Received", width: 10, kind: "number" },
+      { header: "Sent Out", width: 10, kind: "number" },
+    ],
+    rows: reps.map(rep => {
+      const held = allocations.filter(allocation => allocation.userId === rep.id && allocation.quantity > 0);
+      return [
+        rep.id,
+        rep.name,
+        rep.region ?? "",
+        lookups.specialtyName(rep.specialtyId),
+        held.length,
+        sum(held, allocation => allocation.quantity),
+        sum(held, allocation => dollars(itemsById.get(allocation.stockItemId)?.price ?? 0, allocation.quantity)),
+        sum(movements.filter(movement => movement.toUserId === rep.id), movement => movement.quantity),
+        sum(movements.filter(movement => movement.fromUserId === rep.id), movement => movement.quantity),
+      ];
+    }),
+  };
+}
+
+async function buildSpecialtyReport(from: Date, to: Date, scope: SpecialtyScope): Promise<ReportBody> {
+  const [items, allocations, movements, lookups] = await Promise.all([
+    storage.getStockItems(scope),
+    storage.getAllocations(undefined, scope),
+    storage.getMovementsBetween(from, to, scope),
+    getLookups(),
+  ]);
+  const itemsById = new Map(items.map(item => [item.id, item]));
+  const repIds = new Set(lookups.users.filter(isMedicalRep).map(user => user.id));
+
+  const groups: { name: string; specialtyId: number | null }[] = lookups.specialties
+    .filter(specialty => inScope(scope, specialty.id))
+    .sort((a, b) => a.name.localeCompare(b.name))
+    .map(specialty => ({ name: specialty.name, specialtyId: specialty.id }));
+  if (items.some(item => item.specialtyId === null)) {
+    groups.push({ name: "No Specialty", specialtyId: null });
+  }
+
+  const inGroup = (specialtyId: number | null) => (item: StockItem | undefined) =>
+    item !== undefined && item.specialtyId === specialtyId;
+
+  return {
+    columns: [
+      { header: "Specialty", width: 22 },
+      { header: "Items", width: 8, kind: "number" },
+      { header: "Central Units", width: 12, kind: "number" },
+      { header: "Central Value ($)", width: 15, kind: "money" },
+      { header: "Units With Reps", width: 14, kind: "number" },
+      { header: "Sent to Reps", width: 12, kind: "number" },
+      { header: "Reps", width: 7, kind: "number" },
+    ],
+    rows: groups.map(({ name, specialtyId }) => {
+      const isInGroup = inGroup(specialtyId);
+      const groupItems = items.filter(isInGroup);
+      return [
+        name,
+        groupItems.length,
+        sum(groupItems, item => item.quantity),
+        sum(groupItems, item => dollars(item.price, item.quantity)),
+        sum(
+          allocations.filter(allocation => repIds.has(allocation.userId) && isInGroup(itemsById.get(allocation.stockItemId))),
+          allocation => allocation.quantity
+        ),
+        sum(
+          movements.filter(movement =>
+            movement.toUserId !== null && repIds.has(movement.toUserId) && isInGroup(itemsById.get(movement.stockItemId))
+          ),
+          movement => movement.quantity
+        ),
+        specialtyId === null
+          ? 0
+          : lookups.users.filter(user => isMedicalRep(user) && user.specialtyId === specialtyId).length,
+      ];
+    }),
+  };
+}
+
+// Collects the report's rows, limited to what the scope can see. Dates are
+// whole days in the server's time zone.
+export async function buildReport(
+  type: ReportType,
+  query: Pick<ReportQuery, "from" | "to">,
+  scope: SpecialtyScope
+): Promise<ReportTable> {
+  const generatedAt = new Date();
+  const { from, to } = resolveRange(type, query, generatedAt);
+
+  let report: ReportBody;
+  switch (type) {
+    case "inventory":
+      report = await buildInventoryReport(scope);
+      break;
+    case "movement":
+      report = await buildMovementReport(from, to, scope);
+      break;
+    case "expiry":
+      report = await buildExpiryReport(from, to, generatedAt, scope);
+      break;
+    case "allocation":
+      report = await buildAllocationReport(from, to, scope);
+      break;
+    case "specialty":
+      report = await buildSpecialtyReport(from, to, scope);
+      break;
+  }
+
+  // Inventory is a snapshot of current stock, so it has no period
+  const period = type === "inventory"
+    ? `As of ${format(generatedAt, "yyyy-MM-dd HH:mm")}`
+    : `${formatDay(from)} to ${formatDay(to)}`;
+
+  return { type, title: `${REPORT_TITLES[type]} Report`, period, from, to, generatedAt, ...report };
+}
+
+function formatCell(column: ReportColumn, value: ReportCell): string {
+  if (value === null) return "";
+  if (column.kind === "money") return Number(value).toFixed(2);
+  return String(value);
+}
+
+// Header row first, with every cell as text. This is what CSV files and
+// shared report links contain.
+export function reportRows(report: ReportTable): string[][] {
+  return [
+    report.columns.map(column => column.header),
+    ...report.rows.map(row => row.map((cell, index) => formatCell(report.columns[index], cell))),
+  ];
+}
+
+function renderCsv(report: ReportTable): Buffer {
+  const escape = (cell: string) => (/[",\r\n]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell);
+  const csv = reportRows(report).map(row => row.map(escape).join(",")).join("\r\n");
+  return Buffer.from(`${csv}\r\n`, "utf-8");
+}
+
+async function renderXlsx(report: ReportTable): Promise<Buffer> {
+  const workbook = new ExcelJS.Workbook();
+  workbook.creator = "PharmStock";
+  workbook.created = report.generatedAt;
+
+  // Sheet names are limited to 31 characters
+  const sheet = workbook.addWorksheet(REPORT_TITLES[report.type].slice(0, 31));
+  sheet.addRow([report.title]).font = { bold: true, size: 14 };
+  sheet.addRow([report.period]);
+  sheet.addRow([`Generated ${format(report.generatedAt, "yyyy-MM-dd HH:mm")}`]);
+  sheet.addRow([]);
+
+  const header = sheet.addRow(report.columns.map(column => column.header));
+  header.font = { bold: true };
+  header.eachCell(cell => {
+    cell.fill = { type: "pattern", pattern: "solid", fgColor: { argb: "FFF0F0F0" } };
+  });
+  sheet.views = [{ state: "frozen", ySplit: header.number }];
+
+  report.columns.forEach((column, index) => {
+    const sheetColumn = sheet.getColumn(index + 1);
+    sheetColumn.width = Math.max(column.width, column.header.length) + 2;
+    if (column.kind === "money") sheetColumn.numFmt = "#,##0.00";
+  });
+
+  for (const row of report.rows) {
+    sheet.addRow(row);
+  }
+
+  return Buffer.from(await workbook.xlsx.writeBuffer());
+}
+
+function renderPdf(report: ReportTable): Buffer {
+  const doc = new jsPDF({ orientation: "landscape", unit: "mm", format: "a4" });
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const margin = 14;
+  const rowHeight = 7;
+
+  const totalWeight = sum(report.columns, column => column.width);
+  const widths = report.columns.map(column => (column.width / totalWeight) * (pageWidth - margin * 2));
+
+  // Cuts text down to what fits in a cell
+  const fit = (text: string, width: number) => {
+    if (doc.getTextWidth(text) <= width) return text;
+    let fitted = text;
+    while (fitted.length > 1 && doc.getTextWidth(`${fitted}...`) > width) {
+      fitted = fitted.slice(0, -1);
+    }
+    return `${fitted}...`;
+  };
+
+  const drawRow = (cells: string[], y: number, isHeader: boolean) => {
+    if (isHeader) {
+      doc.setFillColor(240, 240, 240);
+      doc.rect(margin, y, pageWidth - margin * 2, rowHeight, "F");
+    }
+    doc.setFont("helvetica", isHeader ? "bold" : "normal");
+
+    let x = margin;
+    cells.forEach((cell, index) => {
+      const width = widths[index];
+      const text = fit(cell, width - 2);
+      if (report.columns[index].kind && report.columns[index].kind !== "text" && !isHeader) {
+        doc.text(text, x + width - 1, y + 5, { align: "right" });
+      } else {
+        doc.text(text, x + 1, y + 5);
+      }
+      x += width;
+    });
+  };
+
+  const [header, ...rows] = reportRows(report);
+
+  doc.setFontSize(16);
+  doc.setFont("helvetica", "bold");
+  doc.text(report.title, margin, 18);
+  doc.setFontSize(10);
+  doc.setFont("helvetica", "normal");
+  doc.text(`${report.period} · Generated ${format(report.generatedAt, "yyyy-MM-dd HH:mm")}`, margin, 25);
+
+  doc.setFontSize(8);
+  let y = 32;
+  drawRow(header, y, true);
+  y += rowHeight;
+
+  if (rows.length === 0) {
+    doc.text("No data for this period", margin + 1, y + 5);
+  }
+
+  for (const row of rows) {
+    if (y + rowHeight > pageHeight - margin) {
+      doc.addPage();
+      y = margin;
+      drawRow(header, y, true);
+      y += rowHeight;
+    }
+    drawRow(row, y, false);
+    y += rowHeight;
+  }
+
+  const pageCount = doc.getNumberOfPages();
+  for (let page = 1; page <= pageCount; page++) {
+    doc.setPage(page);
+    doc.setFont("helvetica", "normal");
+    doc.text(`Page ${page} of ${pageCount}`, pageWidth - margin, pageHeight - 6, { align: "right" });
+  }
+
+  return Buffer.from(doc.output("arraybuffer"));
+}
+
+const CONTENT_TYPES: Record<ReportFileFormat, string> = {
+  pdf: "application/pdf",
+  xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  csv: "text/csv; charset=utf-8",
+};
+
+export function reportFilename(report: ReportTable, extension: string): string {
+  const dates = report.type === "inventory"
+    ? formatDay(report.generatedAt)
+    : `${formatDay(report.from)}-to-${formatDay(report.to)}`;
+  return `${report.type}-report-${dates}.${extension}`;
+}
+
+export async function renderReport(report: ReportTable, fileFormat: ReportFileFormat): Promise<ReportFile> {
+  const content = fileFormat === "pdf" ? renderPdf(report)
+    : fileFormat === "xlsx" ? await renderXlsx(report)
+    : renderCsv(report);
+
+  return { filename: reportFilename(report, fileFormat), contentType: CONTENT_TYPES[fileFormat], content };
+}
+
+// Builds and renders a report in one go, for downloads and scheduled delivery
+export async function generateReport(
+  type: ReportType,
+  query: Pick<ReportQuery, "from" | "to">,
+  scope: SpecialtyScope,
+  fileFormat: ReportFileFormat
+): Promise<ReportFile> {
+  return renderReport(await buildReport(type, query, scope), fileFormat);
+}
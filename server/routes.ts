@@ -1,6 +1,6 @@
 import express, { Express, Request, Response, NextFunction } from "express";
 import { createServer, type Server } from "http";
-import { storage } from './storage';
+import { storage, specialtyScope } from './storage';
 import path from 'path';
 import fs from 'fs';
 
@@ -9,15 +9,64 @@ const uploadsDir = path.join(process.cwd(), 'uploads');
 if (!fs.existsSync(uploadsDir)) {
   fs.mkdirSync(uploadsDir, { recursive: true });
 }
-import { setupAuth, upload } from "./auth";
+import { setupAuth, upload, hashPassword, comparePasswords, getPasswordPolicy, passwordPolicyError, getTwoFactorPolicy, getSessionPolicy, getRegistrationPolicy, sendInvitation } from "./auth";
+import { auditContext } from "./audit";
+import {
+  generateStockAlerts,
+  notifyMovementRecipients,
+  notifyRequestApprovers,
+  clearRequestApprovals,
+} from "./notifications";
+import { JOBS } from "./jobs";
+import { queueMail } from "./mail";
+import { reportDeliveryMail } from "./mail-templates";
+import { buildReport, renderReport, reportRows } from "./reports";
+import { deliverReportSubscription } from "./report-subscriptions";
+import { importStockItems } from "./stock-import";
+import {
+  backupFilename, createBackup, getBackupDirectory, getBackupSettings, isBackupEncryptionConfigured,
+  listStoredBackups, pruneStoredBackups, readStoredBackup, restoreBackupFile, writeStoredBackup,
+} from "./backup";
 import multer from "multer";
+import rateLimit from "express-rate-limit";
+import { createHash, randomBytes } from "crypto";
 import { 
   extendedInsertStockItemSchema, 
-  insertStockMovementSchema,
+  stockImportQuerySchema,
+  stockItemQuerySchema,
+  movementQuerySchema,
+  searchQuerySchema,
+  extendedInsertStockLotSchema,
+  extendedInsertStockMovementSchema,
+  voidStockMovementSchema,
+  batchMovementSchema,
+  insertStockRequestSchema,
+  reviewStockRequestSchema,
+  auditQuerySchema,
+  createInvitationSchema,
+  registrationPolicySchema,
+  loginEventQuerySchema,
+  userPreferencesSchema,
+  emailReportSchema,
+  createReportShareSchema,
+  viewReportShareSchema,
+  reportQuerySchema,
+  reportSubscriptionSchema,
+  backupSettingsSchema,
+  generalSettingsSchema,
+  passwordPolicySchema,
+  twoFactorPolicySchema,
+  sessionPolicySchema,
+  extendedInsertUserSchema,
+  wipeConfirmationSchema,
+  WIPE_CONFIRMATIONS,
   insertCategorySchema,
+  REPORT_TYPES,
+  ROLE_PERMISSIONS,
+  MovementType,
   RoleType // Import RoleType
 } from "@shared/schema";
-import { User } from "@shared/schema";
+import { User, StockItem, StockRequest, StockMovement, ReportShare, ReportSubscription, LoginEvent, Page, SpecialtyScope, GeneralSettings } from "@shared/schema";
 import { z } from "zod"; // Import z
 
 // Define Zod schemas for route parameters
@@ -42,6 +91,115 @@ const roleQuerySchema = z.object({
   role: rolesEnum.optional(),
 });
 
+// Permission required to record each type of stock movement
+const MOVEMENT_TYPE_PERMISSIONS: Record<MovementType, keyof typeof ROLE_PERMISSIONS.ceo> = {
+  allocation: "canMoveStock",
+  return: "canMoveStock",
+  transfer: "canMoveStock",
+  adjustment_in: "canEditItems",
+  adjustment_out: "canEditItems",
+  write_off: "canEditItems",
+  reversal: "canMoveStock", // Voiding is checked against the original movement's type
+};
+
+// Item and user history is open to those who manage them; the full audit log
+// needs report access
+const AUDIT_ENTITY_PERMISSIONS: Record<string, keyof typeof ROLE_PERMISSIONS.ceo> = {
+  stock_item: "canEditItems",
+  user: "canManageUsers",
+  invitation: "canManageUsers",
+};
+
+// Requests are reviewed by approvers in the requester's specialty, or by anyone
+// who sees all specialties. Nobody reviews their own request.
+function canReviewStockRequest(user: User, request: StockRequest) {
+  const permissions = ROLE_PERMISSIONS[user.role as RoleType];
+  if (!permissions?.canApproveRequests || request.requestedBy === user.id) return false;
+  return permissions.canSeeAllSpecialties ||
+    (user.specialtyId !== null && user.specialtyId === request.specialtyId);
+}
+
+function canViewStockRequest(user: User, request: StockRequest) {
+  return request.requestedBy === user.id ||
+    ROLE_PERMISSIONS[user.role as RoleType]?.canSeeAllSpecialties ||
+    canReviewStockRequest(user, request);
+}
+
+// Items and users without a specialty are shared by all
+function isSpecialtyInScope(specialtyId: number | null, scope: SpecialtyScope) {
+  return scope === 'all' || specialtyId === null || specialtyId === scope.specialtyId;
+}
+
+// Stock and reports may only go to users in the sender's specialty scope
+function isUserInScope(user: Pick<User, 'specialtyId'>, scope: SpecialtyScope) {
+  return isSpecialtyInScope(user.specialtyId, scope);
+}
+
+// The stock item fields an edit may change. The image comes from the upload.
+const EDITABLE_STOCK_ITEM_FIELDS = ["name", "categoryId", "specialtyId", "quantity", "price", "expiry", "uniqueNumber", "notes"] as const;
+
+async function findRecipientInScope(userId: number, scope: SpecialtyScope): Promise<User | undefined> {
+  const user = await storage.getUser(userId);
+  return user && isUserInScope(user, scope) ? user : undefined;
+}
+
+// The first address that doesn't belong to a user in the scope
+async function emailOutOfScope(emails: string[], scope: SpecialtyScope): Promise<string | undefined> {
+  if (scope === 'all') return undefined;
+  for (const email of emails) {
+    const owners = await storage.getUsersByEmail(email);
+    if (!owners.some(owner => isUserInScope(owner, scope))) return email;
+  }
+  return undefined;
+}
+
+// Converts a movement request body (numbers may arrive as strings) and validates it
+function parseMovementBody(body: any, movedBy: number) {
+  const toId = (value: unknown) => {
+    const parsed = parseInt(value as string);
+    return isNaN(parsed) ? null : parsed;
+  };
+
+  return extendedInsertStockMovementSchema.parse({
+    ...body,
+    stockItemId: toId(body.stockItemId),
+    fromUserId: toId(body.fromUserId),
+    toUserId: toId(body.toUserId),
+    lotId: toId(body.lotId),
+    quantity: toId(body.quantity),
+    movedBy,
+  });
+}
+
+// Share links carry a random token; only its hash is stored, so the links
+// can't be recovered from the database
+function hashShareToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+function isShareActive(share: ReportShare): boolean {
+  return share.revokedAt === null && share.expiresAt > new Date();
+}
+
+// Clearing all data and resetting the system need the user's password and the
+// typed confirmation phrase. Returns what to send back when either is wrong.
+async function checkWipeConfirmation(
+  user: User,
+  body: unknown,
+  phrase: string
+): Promise<{ status: number; message: string } | undefined> {
+  const { password, confirmation } = wipeConfirmationSchema.parse(body);
+  if (confirmation.trim() !== phrase) {
+    return { status: 400, message: `Type "${phrase}" to confirm` };
+  }
+
+  const stored = await storage.getUser(user.id);
+  if (!stored || !(await comparePasswords(password, stored.password))) {
+    return { status: 403, message: "Password is incorrect" };
+  }
+  return undefined;
+}
+
 // Add multer type extensions to Request
 declare global {
   namespace Express {
@@ -56,19 +214,285 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Setup authentication
   const { isAuthenticated, hasPermission } = setupAuth(app);
 
+  // Attribute audit events to the logged-in user
+  app.use(auditContext);
+
+  // Import files are read in memory rather than kept with the uploads
+  const importUpload = multer({
+    storage: multer.memoryStorage(),
+    limits: { fileSize: 5 * 1024 * 1024 },
+  });
+
   // Static route for serving uploaded files
   const uploadDir = path.join(process.cwd(), "uploads");
   app.use('/uploads', express.static('uploads'));
 
   // System settings endpoints
-  app.get('/api/system-settings', async (req, res) => {
-    const settings = await storage.getSystemSettings();
-    res.json(settings);
+  app.get('/api/system-settings', isAuthenticated, async (req, res, next) => {
+    try {
+      const settings = await storage.getSystemSettings();
+      const general: GeneralSettings = {};
+      for (const key of generalSettingsSchema.keyof().options) {
+        if (settings[key] !== undefined) general[key] = settings[key];
+      }
+      res.json(general);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Scheduled scans read their thresholds from here
+  app.post('/api/system-settings', isAuthenticated, hasPermission("canAccessSettings"), async (req, res, next) => {
+    try {
+      const settings = generalSettingsSchema.parse(req.body);
+      await storage.updateSystemSettings(settings);
+      res.json({ success: true });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Open to everyone, since registration shows the rules before signing in
+  app.get("/api/password-policy", async (req, res, next) => {
+    try {
+      res.json(await getPasswordPolicy());
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.put("/api/password-policy", isAuthenticated, hasPermission("canAccessSettings"), async (req, res, next) => {
+    try {
+      const policy = passwordPolicySchema.parse(req.body);
+      await storage.updateSystemSettings({ passwordPolicy: policy });
+      res.json(policy);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Roles that must use two-factor authentication. Applies from each user's
+  // next sign-in.
+  app.get("/api/two-factor-policy", isAuthenticated, hasPermission("canAccessSettings"), async (req, res, next) => {
+    try {
+      res.json(await getTwoFactorPolicy());
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.put("/api/two-factor-policy", isAuthenticated, hasPermission("canAccessSettings"), async (req, res, next) => {
+    try {
+      const policy = twoFactorPolicySchema.parse(req.body);
+      await storage.updateSystemSettings({ twoFactorPolicy: policy });
+      res.json(policy);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Idle and absolute session timeouts. Applies to sessions signed in after
+  // it is saved.
+  app.get("/api/session-policy", isAuthenticated, hasPermission("canAccessSettings"), async (req, res, next) => {
+    try {
+      res.json(await getSessionPolicy());
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.put("/api/session-policy", isAuthenticated, hasPermission("canAccessSettings"), async (req, res, next) => {
+    try {
+      const policy = sessionPolicySchema.parse(req.body);
+      await storage.updateSystemSettings({ sessionPolicy: policy });
+      res.json(policy);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Whether /api/register is open to anyone, and how long invitations last
+  app.get("/api/registration-policy", isAuthenticated, hasPermission("canAccessSettings"), async (req, res, next) => {
+    try {
+      res.json(await getRegistrationPolicy());
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.put("/api/registration-policy", isAuthenticated, hasPermission("canAccessSettings"), async (req, res, next) => {
+    try {
+      const policy = registrationPolicySchema.parse(req.body);
+      await storage.updateSystemSettings({ registrationPolicy: policy });
+      res.json(policy);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Background jobs, with their state from the last run
+  app.get("/api/jobs", isAuthenticated, hasPermission("canAccessSettings"), async (req, res, next) => {
+    try {
+      const states = await storage.getScheduledJobs();
+      res.json(JOBS.map(({ name, description, intervalMs }) => ({
+        name,
+        description,
+        intervalMs,
+        ...states.find(state => state.name === name),
+      })));
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Backup and restore. Backups hold every user's account, so they are only for
+  // system administrators. The backup is uploaded as the raw file so the JSON
+  // body parser's size limit doesn't apply.
+  app.get("/api/admin/backup", isAuthenticated, hasPermission("canAdministerSystem"), async (req, res, next) => {
+    try {
+      const backup = await createBackup();
+      res.setHeader("Content-Type", "application/json");
+      res.setHeader("Content-Disposition", `attachment; filename="${backupFilename(new Date())}"`);
+      res.send(backup);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.post(
+    "/api/admin/restore",
+    isAuthenticated,
+    hasPermission("canAdministerSystem"),
+    express.raw({ type: "application/octet-stream", limit: "500mb" }),
+    async (req, res, next) => {
+      try {
+        if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+          return res.status(400).json({ message: "Upload the backup file as application/octet-stream" });
+        }
+
+        // A dry run only reports what the restore would change
+        const restore = await restoreBackupFile(req.body, req.query.dryRun === "true");
+        if ("error" in restore) {
+          return res.status(400).json({ message: restore.error });
+        }
+        res.json(restore.result);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  // Automatic backups, kept as files in the server's backup directory
+  app.get("/api/admin/backup-settings", isAuthenticated, hasPermission("canAdministerSystem"), async (req, res, next) => {
+    try {
+      res.json({
+        settings: await getBackupSettings(),
+        directory: getBackupDirectory(),
+        encryptionAvailable: isBackupEncryptionConfigured(),
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.put("/api/admin/backup-settings", isAuthenticated, hasPermission("canAdministerSystem"), async (req, res, next) => {
+    try {
+      const settings = backupSettingsSchema.parse(req.body);
+      if (settings.encryptBackups && !isBackupEncryptionConfigured()) {
+        return res.status(400).json({ message: "Set BACKUP_ENCRYPTION_KEY on the server before turning on encryption" });
+      }
+
+      await storage.updateSystemSettings({ backupSettings: settings });
+      res.json(settings);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.get("/api/admin/backups", isAuthenticated, hasPermission("canAdministerSystem"), async (req, res, next) => {
+    try {
+      res.json(await listStoredBackups());
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Takes a backup into the backup directory now
+  app.post("/api/admin/backups", isAuthenticated, hasPermission("canAdministerSystem"), async (req, res, next) => {
+    try {
+      const settings = await getBackupSettings();
+      const backup = await writeStoredBackup(settings);
+      await pruneStoredBackups(settings.retentionPeriod);
+      res.status(201).json(backup);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.get("/api/admin/backups/:name/download", isAuthenticated, hasPermission("canAdministerSystem"), async (req, res, next) => {
+    try {
+      const content = await readStoredBackup(req.params.name);
+      if (!content) {
+        return res.status(404).json({ message: "Backup not found" });
+      }
+
+      res.setHeader("Content-Type", "application/octet-stream");
+      res.setHeader("Content-Disposition", `attachment; filename="${req.params.name}"`);
+      res.send(content);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.post("/api/admin/backups/:name/restore", isAuthenticated, hasPermission("canAdministerSystem"), async (req, res, next) => {
+    try {
+      const content = await readStoredBackup(req.params.name);
+      if (!content) {
+        return res.status(404).json({ message: "Backup not found" });
+      }
+
+      const restore = await restoreBackupFile(content, req.query.dryRun === "true");
+      if ("error" in restore) {
+        return res.status(400).json({ message: restore.error });
+      }
+      res.json(restore.result);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Destructive operations, for system administrators only. Each takes a backup
+  // into the backup directory first, so it can be undone from the list of
+  // stored backups.
+  app.post("/api/admin/clear-data", isAuthenticated, hasPermission("canAdministerSystem"), async (req, res, next) => {
+    try {
+      const problem = await checkWipeConfirmation(req.user as User, req.body, WIPE_CONFIRMATIONS.clear);
+      if (problem) {
+        return res.status(problem.status).json({ message: problem.message });
+      }
+
+      const backup = await writeStoredBackup(await getBackupSettings());
+      const deleted = await storage.clearAllData({ backup: backup.name });
+      res.json({ backup, deleted });
+    } catch (error) {
+      next(error);
+    }
   });
 
-  app.post('/api/system-settings', async (req, res) => {
-    await storage.updateSystemSettings(req.body);
-    res.json({ success: true });
+  app.post("/api/admin/reset", isAuthenticated, hasPermission("canAdministerSystem"), async (req, res, next) => {
+    try {
+      const currentUser = req.user as User;
+      const problem = await checkWipeConfirmation(currentUser, req.body, WIPE_CONFIRMATIONS.reset);
+      if (problem) {
+        return res.status(problem.status).json({ message: problem.message });
+      }
+
+      const backup = await writeStoredBackup(await getBackupSettings());
+      const deleted = await storage.resetSystem(currentUser.id, { backup: backup.name });
+      res.json({ backup, deleted });
+    } catch (error) {
+      next(error);
+    }
   });
 
   // API routes
@@ -237,8 +661,20 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Stock Items
   app.get("/api/stock-items", isAuthenticated, async (req, res, next) => {
     try {
-      const stockItems = await storage.getStockItems();
-      res.json(stockItems);
+      const query = stockItemQuerySchema.parse(req.query);
+      const scope = specialtyScope(req.user as User);
+      const stockItems = await storage.findStockItems(query, scope);
+      if (!query.page) {
+        return res.json(stockItems);
+      }
+
+      const page: Page<StockItem> = {
+        items: stockItems,
+        total: await storage.countStockItems(query, scope),
+        page: query.page,
+        pageSize: query.pageSize,
+      };
+      res.json(page);
     } catch (error) {
       next(error);
     }
@@ -247,17 +683,53 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get("/api/stock-items/expiring", isAuthenticated, async (req, res, next) => {
     try {
       const { days } = daysQuerySchema.parse(req.query);
-      const items = await storage.getExpiringItems(days);
+      const items = await storage.getExpiringItems(days, specialtyScope(req.user as User));
       res.json(items);
     } catch (error) {
       next(error);
     }
   });
 
+  // Bulk import from CSV or XLSX. Without commit=true the file is only
+  // checked and the per-row report returned.
+  app.post(
+    "/api/stock-items/import",
+    isAuthenticated,
+    hasPermission("canAddItems"),
+    importUpload.single("file"),
+    async (req, res, next) => {
+      try {
+        const currentUser = req.user as User;
+        const options = stockImportQuerySchema.parse(req.query);
+        if (!req.file) {
+          return res.status(400).json({ message: "Choose a CSV or XLSX file to import" });
+        }
+        if (options.updateExisting && currentUser.role !== 'ceo' &&
+            !(await storage.hasPermission(currentUser.id, "canEditItems"))) {
+          return res.status(403).json({ message: "Forbidden: Insufficient permissions" });
+        }
+
+        const outcome = await importStockItems(
+          req.file.buffer,
+          req.file.originalname,
+          options,
+          currentUser.id,
+          specialtyScope(currentUser)
+        );
+        if ("error" in outcome) {
+          return res.status(400).json({ message: outcome.error });
+        }
+        res.status(outcome.result.committed ? 201 : 200).json(outcome.result);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
   app.get("/api/stock-items/:id", isAuthenticated, async (req, res, next) => {
     try {
       const { id } = idParamSchema.parse(req.params);
-      const item = await storage.getStockItem(id);
+      const item = await storage.getStockItem(id, specialtyScope(req.user as User));
 
       if (!item) {
         return res.status(404).json({ message: "Stock item not found" });
@@ -297,9 +769,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
         // Validate data with extended schema
         const validatedData = extendedInsertStockItemSchema.parse(stockData);
+        if (!isSpecialtyInScope(validatedData.specialtyId ?? null, specialtyScope(req.user as User))) {
+          return res.status(403).json({ message: "You can only add items to your own specialty" });
+        }
 
-        // Create stock item
-        const stockItem = await storage.createStockItem(validatedData);
+        // Create stock item, receiving its opening quantity as the first lot
+        const lotNumber = typeof req.body.lotNumber === "string" && req.body.lotNumber.trim()
+          ? req.body.lotNumber.trim()
+          : undefined;
+        const stockItem = await storage.createStockItem(validatedData, lotNumber);
         res.status(201).json(stockItem);
       } catch (error) {
         console.error("Stock item creation error:", error);
@@ -316,16 +794,32 @@ export async function registerRoutes(app: Express): Promise<Server> {
     async (req, res, next) => {
       try {
         const id = parseInt(req.params.id);
+        const currentItem = await storage.getStockItem(id, specialtyScope(req.user as User));
+        if (!currentItem) {
+          return res.status(404).json({ message: "Stock item not found" });
+        }
 
-        // Parse and convert form data
-        const updateData = {
-          ...req.body,
+        // Parse and convert form data, keeping only the fields an edit may change
+        const body: Record<string, any> = {};
+        for (const field of EDITABLE_STOCK_ITEM_FIELDS) {
+          if (req.body[field] !== undefined) body[field] = req.body[field];
+        }
+        const updateData: Record<string, any> = {
+          ...body,
           // Convert numeric strings to numbers if they exist
-          quantity: req.body.quantity !== undefined ? parseInt(req.body.quantity) : undefined,
-          categoryId: req.body.categoryId !== undefined ? parseInt(req.body.categoryId) : undefined,
+          quantity: body.quantity !== undefined ? parseInt(body.quantity) : undefined,
+          categoryId: body.categoryId !== undefined ? parseInt(body.categoryId) : undefined,
+          // A blank specialty shares the item with every specialty
+          specialtyId: body.specialtyId !== undefined
+            ? (body.specialtyId === "" || body.specialtyId === null ? null : parseInt(body.specialtyId))
+            : undefined,
           // Convert price from dollars to cents (stored as integer)
-          price: req.body.price !== undefined ? Math.round(parseFloat(req.body.price) * 100) : undefined,
+          price: body.price !== undefined ? Math.round(parseFloat(body.price) * 100) : undefined,
         };
+        if (updateData.specialtyId !== undefined &&
+            (Number.isNaN(updateData.specialtyId) || !isSpecialtyInScope(updateData.specialtyId, specialtyScope(req.user as User)))) {
+          return res.status(403).json({ message: "You can only move items to your own specialty" });
+        }
 
         // Handle expiry date properly - make sure it's a valid date
         if (updateData.expiry) {
@@ -342,6 +836,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
           }
         }
 
+        // An item held in several lots takes its expiry from the earliest lot,
+        // so a different expiry would be overwritten straight away
+        if (updateData.expiry !== undefined) {
+          const day = (value: Date | string | null) => value ? new Date(value).toISOString().slice(0, 10) : "";
+          if (day(updateData.expiry) !== day(currentItem.expiry) && (await storage.getStockLots(id)).length > 1) {
+            return res.status(400).json({
+              message: "This item is held in several lots; change the expiry on its lots instead",
+            });
+          }
+        }
+
         // Handle image upload
         if (req.file) {
           updateData.imageUrl = `/uploads/${req.file.filename}`;
@@ -356,9 +861,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
           }
         }
 
+        if (updateData.quantity !== undefined && isNaN(updateData.quantity)) {
+          delete updateData.quantity;
+        }
+
         console.log("Updating stock item:", id, updateData);
 
-        const updatedItem = await storage.updateStockItem(id, updateData);
+        const updatedItem = await storage.updateStockItem(id, updateData, (req.user as User).id);
 
         if (!updatedItem) {
           return res.status(404).json({ message: "Stock item not found" });
@@ -381,10 +890,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
         const id = parseInt(req.params.id);
 
         // Get item to check for image
-        const item = await storage.getStockItem(id);
+        const item = await storage.getStockItem(id, specialtyScope(req.user as User));
         if (!item) {
           return res.status(404).json({ message: "Stock item not found" });
         }
+        if (await storage.isStockItemRequested(id)) {
+          return res.status(409).json({ message: "This item has been requested, so it can't be deleted" });
+        }
 
         // Delete associated image if exists
         if (item.imageUrl) {
@@ -407,11 +919,55 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   );
 
+  // Stock Lots
+  app.get("/api/stock-items/:id/lots", isAuthenticated, async (req, res, next) => {
+    try {
+      const { id } = idParamSchema.parse(req.params);
+      const item = await storage.getStockItem(id, specialtyScope(req.user as User));
+
+      if (!item) {
+        return res.status(404).json({ message: "Stock item not found" });
+      }
+
+      const lots = await storage.getStockLots(id);
+      res.json(lots);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.post(
+    "/api/stock-items/:id/lots",
+    isAuthenticated,
+    hasPermission("canEditItems"),
+    async (req, res, next) => {
+      try {
+        const { id } = idParamSchema.parse(req.params);
+        if (!(await storage.getStockItem(id, specialtyScope(req.user as User)))) {
+          return res.status(404).json({ message: "Stock item not found" });
+        }
+
+        const lotData = extendedInsertStockLotSchema.parse({
+          ...req.body,
+          stockItemId: id,
+          quantity: req.body.quantity !== undefined ? parseInt(req.body.quantity) : undefined,
+          receivedBy: (req.user as User).id,
+        });
+
+        const lot = await storage.receiveStockLot(lotData);
+        void generateStockAlerts();
+        res.status(201).json(lot);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
   // Stock Allocations
   app.get("/api/allocations", isAuthenticated, async (req, res, next) => {
     try {
       const { userId } = userIdQuerySchema.parse(req.query);
-      const allocations = await storage.getAllocations(userId);
+      const allocations = await storage.getAllocations(userId, specialtyScope(req.user as User));
       res.json(allocations);
     } catch (error) {
       next(error);
@@ -421,8 +977,34 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Stock Movements
   app.get("/api/movements", isAuthenticated, async (req, res, next) => {
     try {
-      const movements = await storage.getMovements();
-      res.json(movements);
+      const query = movementQuerySchema.parse(req.query);
+      const scope = specialtyScope(req.user as User);
+      const movements = await storage.findMovements(query, scope);
+      if (!query.page) {
+        return res.json(movements);
+      }
+
+      const page: Page<StockMovement> = {
+        items: movements,
+        total: await storage.countMovements(query, scope),
+        page: query.page,
+        pageSize: query.pageSize,
+      };
+      res.json(page);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.get("/api/movements/:id/lots", isAuthenticated, async (req, res, next) => {
+    try {
+      const { id } = idParamSchema.parse(req.params);
+      if (!(await storage.getMovement(id, specialtyScope(req.user as User)))) {
+        return res.status(404).json({ message: "Stock movement not found" });
+      }
+
+      const lots = await storage.getMovementLots(id);
+      res.json(lots);
     } catch (error) {
       next(error);
     }
@@ -431,40 +1013,40 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.post(
     "/api/movements", 
     isAuthenticated, 
-    hasPermission("canMoveStock"), 
     async (req, res, next) => {
       try {
-        let movementData = req.body;
-
-        // Convert numeric strings to numbers
-        if (movementData.stockItemId) movementData.stockItemId = parseInt(movementData.stockItemId);
-        
-        // Ensure fromUserId is null if it's not a valid number or is explicitly meant to be null
-        if (movementData.fromUserId && !isNaN(parseInt(movementData.fromUserId))) {
-            movementData.fromUserId = parseInt(movementData.fromUserId);
-        } else {
-            movementData.fromUserId = null; 
+        const currentUser = req.user as User;
+        const validatedData = parseMovementBody(req.body, currentUser.id);
+
+        // Adjustments and write-offs change what is in stock, so they need item
+        // edit rights rather than the right to move stock between people
+        const permission = MOVEMENT_TYPE_PERMISSIONS[validatedData.type];
+        if (currentUser.role !== 'ceo' && !(await storage.hasPermission(currentUser.id, permission))) {
+          return res.status(403).json({ message: "Forbidden: Insufficient permissions" });
+        }
+        const scope = specialtyScope(currentUser);
+        if (!(await storage.getStockItem(validatedData.stockItemId, scope))) {
+          return res.status(404).json({ message: "Stock item not found" });
+        }
+        if (validatedData.toUserId && !(await findRecipientInScope(validatedData.toUserId, scope))) {
+          return res.status(404).json({ message: "Recipient not found" });
         }
 
-        if (movementData.toUserId) movementData.toUserId = parseInt(movementData.toUserId);
-        if (movementData.quantity) movementData.quantity = parseInt(movementData.quantity);
-
-        // Set current user as the one who moved the stock
-        movementData.movedBy = (req.user as User).id;
-
-        // Validate (this should ideally be more robust, but keep existing for now or ensure it aligns with transaction method's needs)
-        const validatedData = insertStockMovementSchema.parse(movementData);
-
-        // Call the new transactional method
         const movement = await storage.executeStockMovementTransaction({
+          type: validatedData.type,
           stockItemId: validatedData.stockItemId,
           quantity: validatedData.quantity,
-          fromUserId: validatedData.fromUserId, // This should be nullable
+          fromUserId: validatedData.fromUserId,
           toUserId: validatedData.toUserId,
+          lotId: validatedData.lotId,
           movedBy: validatedData.movedBy,
-          notes: validatedData.notes === null ? undefined : validatedData.notes
+          reason: validatedData.reason ?? undefined,
+          notes: validatedData.notes ?? undefined,
         });
-        
+
+        void notifyMovementRecipients([movement], currentUser);
+        void generateStockAlerts();
+
         res.status(201).json(movement);
       } catch (error) {
         // Errors from executeStockMovementTransaction (e.g., insufficient stock) will be caught here
@@ -473,16 +1055,599 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   );
 
-  // Users
-  app.get("/api/users", isAuthenticated, async (req, res, next) => {
-    try {
-      const { role } = roleQuerySchema.parse(req.query);
-
-      let users;
-      if (role) {
-        users = await storage.getUsersByRole(role);
-      } else {
-        users = await storage.getUsers();
+  app.post(
+    "/api/movements/batch",
+    isAuthenticated,
+    hasPermission("canMoveStock"),
+    async (req, res, next) => {
+      try {
+        const currentUser = req.user as User;
+        const validatedData = batchMovementSchema.parse(req.body);
+        const scope = specialtyScope(currentUser);
+        for (const stockItemId of validatedData.stockItemIds) {
+          if (!(await storage.getStockItem(stockItemId, scope))) {
+            return res.status(404).json({ message: `Stock item ${stockItemId} not found` });
+          }
+        }
+        for (const toUserId of validatedData.toUserIds) {
+          if (!(await findRecipientInScope(toUserId, scope))) {
+            return res.status(404).json({ message: `Recipient ${toUserId} not found` });
+          }
+        }
+
+        const { batch, movements } = await storage.executeBatchMovementTransaction(validatedData, currentUser.id);
+
+        void notifyMovementRecipients(movements, currentUser);
+        void generateStockAlerts();
+
+        res.status(201).json({ batchId: batch.id, movements });
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  app.post("/api/movements/:id/void", isAuthenticated, async (req, res, next) => {
+    try {
+      const currentUser = req.user as User;
+      const { id } = idParamSchema.parse(req.params);
+      const { reason } = voidStockMovementSchema.parse(req.body);
+
+      const movement = await storage.getMovement(id, specialtyScope(currentUser));
+      if (!movement) {
+        return res.status(404).json({ message: "Stock movement not found" });
+      }
+
+      // Voiding needs the same rights as recording the original movement
+      const permission = MOVEMENT_TYPE_PERMISSIONS[movement.type];
+      if (currentUser.role !== 'ceo' && !(await storage.hasPermission(currentUser.id, permission))) {
+        return res.status(403).json({ message: "Forbidden: Insufficient permissions" });
+      }
+
+      const reversal = await storage.voidMovement(id, currentUser.id, reason);
+      void generateStockAlerts();
+      res.status(201).json(reversal);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Stock Requests
+  app.get("/api/stock-requests", isAuthenticated, async (req, res, next) => {
+    try {
+      const currentUser = req.user as User;
+      const permissions = ROLE_PERMISSIONS[currentUser.role as RoleType];
+
+      // Own requests, plus the specialty's requests for approvers
+      let requests;
+      if (permissions?.canSeeAllSpecialties) {
+        requests = await storage.getStockRequests();
+      } else {
+        requests = await storage.getStockRequests({
+          requestedBy: currentUser.id,
+          specialtyId: permissions?.canApproveRequests && currentUser.specialtyId !== null
+            ? currentUser.specialtyId
+            : undefined,
+        });
+      }
+
+      res.json(requests);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.get("/api/stock-requests/:id", isAuthenticated, async (req, res, next) => {
+    try {
+      const { id } = idParamSchema.parse(req.params);
+      const request = await storage.getStockRequest(id);
+
+      if (!request || !canViewStockRequest(req.user as User, request)) {
+        return res.status(404).json({ message: "Stock request not found" });
+      }
+
+      res.json(request);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.post(
+    "/api/stock-requests",
+    isAuthenticated,
+    hasPermission("canRequestStock"),
+    async (req, res, next) => {
+      try {
+        const validatedData = insertStockRequestSchema.parse(req.body);
+        const scope = specialtyScope(req.user as User);
+        for (const item of validatedData.items) {
+          if (!(await storage.getStockItem(item.stockItemId, scope))) {
+            return res.status(404).json({ message: "Stock item not found" });
+          }
+        }
+
+        const request = await storage.createStockRequest(validatedData, req.user as User);
+        void notifyRequestApprovers(request, req.user as User);
+        res.status(201).json(request);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  app.post(
+    "/api/stock-requests/:id/review",
+    isAuthenticated,
+    hasPermission("canApproveRequests"),
+    async (req, res, next) => {
+      try {
+        const currentUser = req.user as User;
+        const { id } = idParamSchema.parse(req.params);
+        const review = reviewStockRequestSchema.parse(req.body);
+
+        const request = await storage.getStockRequest(id);
+        if (!request || !canViewStockRequest(currentUser, request)) {
+          return res.status(404).json({ message: "Stock request not found" });
+        }
+        if (!canReviewStockRequest(currentUser, request)) {
+          return res.status(403).json({ message: "Forbidden: Only an approver in the requester's specialty can review this request" });
+        }
+        if (request.status !== 'pending') {
+          return res.status(409).json({ message: `Stock request has already been ${request.status.replace('_', ' ')}` });
+        }
+
+        const reviewed = await storage.reviewStockRequest(id, review, currentUser.id);
+
+        void clearRequestApprovals(id);
+        const movements = await Promise.all(
+          reviewed.items
+            .filter(item => item.movementId !== null)
+            .map(item => storage.getMovement(item.movementId!))
+        );
+        void notifyMovementRecipients(movements.filter((m): m is StockMovement => m !== undefined), currentUser);
+        void generateStockAlerts();
+
+        res.json(reviewed);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  app.post("/api/stock-requests/:id/cancel", isAuthenticated, async (req, res, next) => {
+    try {
+      const currentUser = req.user as User;
+      const { id } = idParamSchema.parse(req.params);
+
+      const request = await storage.getStockRequest(id);
+      if (!request || !canViewStockRequest(currentUser, request)) {
+        return res.status(404).json({ message: "Stock request not found" });
+      }
+      if (request.requestedBy !== currentUser.id) {
+        return res.status(403).json({ message: "Forbidden: Only the requester can cancel a request" });
+      }
+      if (request.status !== 'pending') {
+        return res.status(409).json({ message: "Only pending requests can be cancelled" });
+      }
+
+      const cancelled = await storage.cancelStockRequest(id, currentUser.id);
+      void clearRequestApprovals(id);
+      res.json(cancelled);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Notifications, always those of the current user
+  app.get("/api/notifications", isAuthenticated, async (req, res, next) => {
+    try {
+      const notifications = await storage.getNotifications((req.user as User).id);
+      res.json(notifications);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.get("/api/notifications/unread-count", isAuthenticated, async (req, res, next) => {
+    try {
+      const count = await storage.getUnreadNotificationCount((req.user as User).id);
+      res.json({ count });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.post("/api/notifications/read-all", isAuthenticated, async (req, res, next) => {
+    try {
+      await storage.markAllNotificationsRead((req.user as User).id);
+      res.status(204).end();
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.post("/api/notifications/:id/read", isAuthenticated, async (req, res, next) => {
+    try {
+      const { id } = idParamSchema.parse(req.params);
+      const notification = await storage.markNotificationRead(id, (req.user as User).id);
+      if (!notification) {
+        return res.status(404).json({ message: "Notification not found" });
+      }
+      res.json(notification);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Reports
+  app.get("/api/reports/:type", isAuthenticated, hasPermission("canViewReports"), async (req, res, next) => {
+    try {
+      const type = REPORT_TYPES.find(reportType => reportType === req.params.type);
+      if (!type) {
+        return res.status(404).json({ message: "Unknown report type" });
+      }
+      const query = reportQuerySchema.parse(req.query);
+
+      const report = await buildReport(type, query, specialtyScope(req.user as User));
+      if (query.format === "json") {
+        return res.json({
+          type: report.type,
+          title: report.title,
+          period: report.period,
+          generatedAt: report.generatedAt,
+          rows: reportRows(report),
+        });
+      }
+
+      const file = await renderReport(report, query.format);
+      res.setHeader("Content-Type", file.contentType);
+      res.setHeader("Content-Disposition", `attachment; filename="${file.filename}"`);
+      res.send(file.content);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Report subscriptions. Each is managed by whoever made it, since it is
+  // built with their specialty scope and sent where they chose; settings
+  // admins can manage all of them.
+  const isSettingsAdmin = async (user: User) =>
+    user.role === 'ceo' || storage.hasPermission(user.id, "canAccessSettings");
+
+  const findOwnSubscription = async (id: number, req: Request, res: Response): Promise<ReportSubscription | undefined> => {
+    const currentUser = req.user as User;
+    const subscription = await storage.getReportSubscription(id);
+    if (!subscription) {
+      res.status(404).json({ message: "Report subscription not found" });
+      return undefined;
+    }
+    if (subscription.createdBy !== currentUser.id && !(await isSettingsAdmin(currentUser))) {
+      res.status(403).json({ message: "Forbidden: Insufficient permissions" });
+      return undefined;
+    }
+    return subscription;
+  };
+
+  app.get("/api/report-subscriptions", isAuthenticated, hasPermission("canViewReports"), async (req, res, next) => {
+    try {
+      const currentUser = req.user as User;
+      const subscriptions = await storage.getReportSubscriptions(
+        (await isSettingsAdmin(currentUser)) ? undefined : currentUser.id
+      );
+      res.json(subscriptions);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.post("/api/report-subscriptions", isAuthenticated, hasPermission("canViewReports"), async (req, res, next) => {
+    try {
+      const subscriptionData = reportSubscriptionSchema.parse(req.body);
+      const outsider = await emailOutOfScope(subscriptionData.recipients, specialtyScope(req.user as User));
+      if (outsider) {
+        return res.status(400).json({ message: `${outsider} isn't a user in your specialty` });
+      }
+      const subscription = await storage.createReportSubscription({
+        ...subscriptionData,
+        createdBy: (req.user as User).id,
+      });
+      res.status(201).json(subscription);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.put("/api/report-subscriptions/:id", isAuthenticated, hasPermission("canViewReports"), async (req, res, next) => {
+    try {
+      const { id } = idParamSchema.parse(req.params);
+      const subscriptionData = reportSubscriptionSchema.partial().parse(req.body);
+      if (!(await findOwnSubscription(id, req, res))) return;
+      const outsider = await emailOutOfScope(subscriptionData.recipients ?? [], specialtyScope(req.user as User));
+      if (outsider) {
+        return res.status(400).json({ message: `${outsider} isn't a user in your specialty` });
+      }
+
+      const subscription = await storage.updateReportSubscription(id, subscriptionData);
+      if (!subscription) {
+        return res.status(404).json({ message: "Report subscription not found" });
+      }
+      res.json(subscription);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.delete("/api/report-subscriptions/:id", isAuthenticated, hasPermission("canViewReports"), async (req, res, next) => {
+    try {
+      const { id } = idParamSchema.parse(req.params);
+      if (!(await findOwnSubscription(id, req, res))) return;
+
+      const deleted = await storage.deleteReportSubscription(id);
+      if (!deleted) {
+        return res.status(404).json({ message: "Report subscription not found" });
+      }
+      res.status(204).end();
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Sends a subscription straight away, outside its schedule
+  app.post("/api/report-subscriptions/:id/send", isAuthenticated, hasPermission("canViewReports"), async (req, res, next) => {
+    try {
+      const { id } = idParamSchema.parse(req.params);
+      const subscription = await findOwnSubscription(id, req, res);
+      if (!subscription) return;
+
+      const archive = await deliverReportSubscription(subscription);
+      await storage.recordReportSubscriptionRun(id);
+      res.status(201).json(archive);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.get("/api/report-archives", isAuthenticated, hasPermission("canViewReports"), async (req, res, next) => {
+    try {
+      const { subscriptionId } = z.object({
+        subscriptionId: z.coerce.number().int().positive().optional(),
+      }).parse(req.query);
+
+      const currentUser = req.user as User;
+      const archives = await storage.getReportArchives(
+        subscriptionId,
+        (await isSettingsAdmin(currentUser)) ? undefined : currentUser.id
+      );
+      res.json(archives);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.get("/api/report-archives/:id/download", isAuthenticated, hasPermission("canViewReports"), async (req, res, next) => {
+    try {
+      const { id } = idParamSchema.parse(req.params);
+      const archive = await storage.getReportArchive(id);
+      if (!archive) {
+        return res.status(404).json({ message: "Archived report not found" });
+      }
+      // Archives left by deleted subscriptions are only for settings admins
+      const currentUser = req.user as User;
+      const subscription = archive.subscriptionId ? await storage.getReportSubscription(archive.subscriptionId) : undefined;
+      if (subscription?.createdBy !== currentUser.id && !(await isSettingsAdmin(currentUser))) {
+        return res.status(403).json({ message: "Forbidden: Insufficient permissions" });
+      }
+
+      res.setHeader("Content-Type", archive.contentType);
+      res.setHeader("Content-Disposition", `attachment; filename="${archive.filename}"`);
+      res.send(Buffer.from(archive.content, "base64"));
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Email
+  app.post("/api/reports/email", isAuthenticated, hasPermission("canViewReports"), async (req, res, next) => {
+    try {
+      const { to, reportType, link, message } = emailReportSchema.parse(req.body);
+      if (await emailOutOfScope([to], specialtyScope(req.user as User))) {
+        return res.status(400).json({ message: `${to} isn't a user in your specialty` });
+      }
+      const reportName = `${reportType.charAt(0).toUpperCase()}${reportType.slice(1)}`;
+
+      const mail = await queueMail(to, reportDeliveryMail({
+        senderName: (req.user as User).name,
+        reportName,
+        message,
+        link,
+      }));
+      res.status(202).json({ id: mail.id, status: mail.status });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.get("/api/mail/outbox", isAuthenticated, hasPermission("canAccessSettings"), async (req, res, next) => {
+    try {
+      const mail = await storage.getOutboxMail();
+      // Bodies and attachments can be large and aren't needed to follow delivery
+      res.json(mail.map(({ text, html, attachments, ...rest }) => rest));
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Report shares
+  app.post("/api/report-shares", isAuthenticated, hasPermission("canViewReports"), async (req, res, next) => {
+    try {
+      const { password, expiresInDays, ...snapshot } = createReportShareSchema.parse(req.body);
+      const token = randomBytes(32).toString("base64url");
+
+      const share = await storage.createReportShare({
+        ...snapshot,
+        tokenHash: hashShareToken(token),
+        passwordHash: password ? await hashPassword(password) : null,
+        expiresAt: new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000),
+        createdBy: (req.user as User).id,
+      });
+
+      // The token is only ever returned here
+      res.status(201).json({ ...share, token });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.get("/api/report-shares", isAuthenticated, hasPermission("canAccessSettings"), async (req, res, next) => {
+    try {
+      const shares = await storage.getReportShareSummaries(req.query.all !== "true");
+      res.json(shares);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.post("/api/report-shares/:id/revoke", isAuthenticated, async (req, res, next) => {
+    try {
+      const currentUser = req.user as User;
+      const { id } = idParamSchema.parse(req.params);
+
+      const share = await storage.getReportShare(id);
+      if (!share) {
+        return res.status(404).json({ message: "Report share not found" });
+      }
+      // The creator can revoke their own links; settings admins can revoke any
+      if (share.createdBy !== currentUser.id && currentUser.role !== 'ceo' &&
+          !(await storage.hasPermission(currentUser.id, "canAccessSettings"))) {
+        return res.status(403).json({ message: "Forbidden: Insufficient permissions" });
+      }
+
+      const revoked = await storage.revokeReportShare(id);
+      res.json(revoked);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Public, read-only access to shared reports. Limited per IP so that tokens
+  // and passwords can't be guessed.
+  const sharedReportLimiter = rateLimit({
+    windowMs: 15 * 60 * 1000,
+    max: 100,
+    message: "Too many requests from this IP, please try again after 15 minutes",
+    standardHeaders: true,
+    legacyHeaders: false,
+  });
+
+  const findActiveShare = async (token: string, res: Response): Promise<ReportShare | undefined> => {
+    const share = await storage.getReportShareByTokenHash(hashShareToken(token));
+    if (!share) {
+      res.status(404).json({ message: "Shared report not found" });
+      return undefined;
+    }
+    if (!isShareActive(share)) {
+      res.status(410).json({ message: share.revokedAt ? "This link has been revoked" : "This link has expired" });
+      return undefined;
+    }
+    return share;
+  };
+
+  app.get("/api/shared-reports/:token", sharedReportLimiter, async (req, res, next) => {
+    try {
+      const share = await findActiveShare(req.params.token, res);
+      if (!share) return;
+
+      res.json({
+        title: share.title,
+        reportType: share.reportType,
+        createdAt: share.createdAt,
+        expiresAt: share.expiresAt,
+        requiresPassword: share.passwordHash !== null,
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.post("/api/shared-reports/:token/view", sharedReportLimiter, async (req, res, next) => {
+    try {
+      const { password } = viewReportShareSchema.parse(req.body);
+      const share = await findActiveShare(req.params.token, res);
+      if (!share) return;
+
+      if (share.passwordHash && !(password && await comparePasswords(password, share.passwordHash))) {
+        return res.status(401).json({ message: "Incorrect password" });
+      }
+
+      await storage.recordReportShareView(share.id);
+      res.json({
+        title: share.title,
+        reportType: share.reportType,
+        rows: share.rows,
+        createdAt: share.createdAt,
+        expiresAt: share.expiresAt,
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Search
+  app.get("/api/search", isAuthenticated, async (req, res, next) => {
+    try {
+      const { q, limit } = searchQuerySchema.parse(req.query);
+      const results = await storage.search(q, limit, specialtyScope(req.user as User));
+      res.json(results);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Audit Log
+  app.get("/api/audit", isAuthenticated, async (req, res, next) => {
+    try {
+      const currentUser = req.user as User;
+      const query = auditQuerySchema.parse(req.query);
+
+      const permission = (query.entityType && query.entityId && AUDIT_ENTITY_PERMISSIONS[query.entityType]) ||
+        "canViewReports";
+      if (currentUser.role !== 'ceo' && !(await storage.hasPermission(currentUser.id, permission))) {
+        return res.status(403).json({ message: "Forbidden: Insufficient permissions" });
+      }
+
+      const events = await storage.getAuditEvents(query, specialtyScope(currentUser));
+      res.json(events);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Sign-in history, newest first, one page at a time
+  app.get("/api/login-events", isAuthenticated, hasPermission("canManageUsers"), async (req, res, next) => {
+    try {
+      const query = loginEventQuerySchema.parse(req.query);
+      const page: Page<LoginEvent> = {
+        items: await storage.findLoginEvents(query),
+        total: await storage.countLoginEvents(query),
+        page: query.page,
+        pageSize: query.pageSize,
+      };
+      res.json(page);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Users
+  app.get("/api/users", isAuthenticated, async (req, res, next) => {
+    try {
+      const { role } = roleQuerySchema.parse(req.query);
+
+      let users;
+      if (role) {
+        users = await storage.getUsersByRole(role);
+      } else {
+        users = await storage.getUsers();
       }
 
       // Remove passwords from response
@@ -497,6 +1662,27 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // The current user's preferences. Registered before /api/users/:id so that
+  // "me" isn't taken for an id.
+  app.get("/api/users/me/preferences", isAuthenticated, async (req, res, next) => {
+    try {
+      const preferences = await storage.getUserPreferences((req.user as User).id);
+      res.json(preferences);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.put("/api/users/me/preferences", isAuthenticated, async (req, res, next) => {
+    try {
+      const validatedData = userPreferencesSchema.parse(req.body);
+      const preferences = await storage.updateUserPreferences((req.user as User).id, validatedData);
+      res.json(preferences);
+    } catch (error) {
+      next(error);
+    }
+  });
+
   // Get a single user
   app.get("/api/users/:id", isAuthenticated, async (req, res, next) => {
     try {
@@ -525,10 +1711,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
         const id = parseInt(req.params.id);
         const userData = req.body;
 
-        // If password is provided, hash it
+        // If password is provided, check it against the policy and hash it
         if (userData.password) {
-          const { hashPassword } = await import('./auth.js');
+          const passwordError = await passwordPolicyError(userData.password);
+          if (passwordError) {
+            return res.status(400).json({ message: passwordError });
+          }
           userData.password = await hashPassword(userData.password);
+          userData.passwordChangedAt = new Date();
         }
 
         const updatedUser = await storage.updateUser(id, userData);
@@ -546,6 +1736,89 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   );
 
+  // Signs a user out everywhere
+  app.delete(
+    "/api/users/:id/sessions",
+    isAuthenticated,
+    hasPermission("canManageUsers"),
+    async (req, res, next) => {
+      try {
+        const { id } = idParamSchema.parse(req.params);
+
+        if (id === (req.user as User).id) {
+          return res.status(400).json({ message: "Sign out to end your own sessions" });
+        }
+        if (!(await storage.getUser(id))) {
+          return res.status(404).json({ message: "User not found" });
+        }
+
+        const ended = await storage.deleteUserSessions(id);
+        res.json({ ended });
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  // Invitations. Accepting one happens through its emailed link.
+  app.get("/api/invitations", isAuthenticated, hasPermission("canManageUsers"), async (req, res, next) => {
+    try {
+      res.json(await storage.getPendingInvitations());
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.post("/api/invitations", isAuthenticated, hasPermission("canManageUsers"), async (req, res, next) => {
+    try {
+      const invitation = createInvitationSchema.parse(req.body);
+      if (invitation.specialtyId && !(await storage.getSpecialty(invitation.specialtyId))) {
+        return res.status(400).json({ message: "Specialty not found" });
+      }
+
+      const created = await sendInvitation(invitation, req.user as User);
+      res.status(201).json(created);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.post("/api/invitations/:id/revoke", isAuthenticated, hasPermission("canManageUsers"), async (req, res, next) => {
+    try {
+      const { id } = idParamSchema.parse(req.params);
+      const revoked = await storage.revokeInvitation(id);
+
+      if (!revoked) {
+        return res.status(404).json({ message: "Invitation not found" });
+      }
+      res.json(revoked);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Clears a lock from repeated failed sign-ins before it runs out
+  app.post(
+    "/api/users/:id/unlock",
+    isAuthenticated,
+    hasPermission("canManageUsers"),
+    async (req, res, next) => {
+      try {
+        const { id } = idParamSchema.parse(req.params);
+        const updatedUser = await storage.updateUser(id, { failedLoginCount: 0, lockedUntil: null });
+
+        if (!updatedUser) {
+          return res.status(404).json({ message: "User not found" });
+        }
+
+        const { password, ...safeUser } = updatedUser;
+        res.json(safeUser);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
   // Delete a user
   app.delete(
     "/api/users/:id", 
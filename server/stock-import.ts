@@ -0,0 +1,289 @@
+import ExcelJS from "exceljs";
+import { ZodError } from "zod";
+import { storage } from "./storage";
+import { extendedInsertStockItemSchema } from "@shared/schema";
+import type { InsertStockItem, SpecialtyScope, StockImportResult, StockImportRow, StockItem } from "@shared/schema";
+
+// Files bigger than this are better split, so a preview stays readable
+const MAX_IMPORT_ROWS = 2000;
+
+type ImportField = "name" | "category" | "specialty" | "quantity" | "price" | "expiry" | "uniqueNumber" | "notes";
+
+// Accepted column headings, compared ignoring case, spaces and punctuation
+const COLUMN_ALIASES: Record<string, ImportField> = {
+  name: "name",
+  item: "name",
+  itemname: "name",
+  category: "category",
+  specialty: "specialty",
+  quantity: "quantity",
+  qty: "quantity",
+  price: "price",
+  expiry: "expiry",
+  expirydate: "expiry",
+  uniquenumber: "uniqueNumber",
+  uniqueno: "uniqueNumber",
+  sku: "uniqueNumber",
+  code: "uniqueNumber",
+  notes: "notes",
+};
+
+type SheetRow = { row: number; values: string[] };
+
+// Splits CSV text into rows of fields, following RFC 4180 quoting
+function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+}
+
+function cellText(cell: ExcelJS.Cell): string {
+  // Dates are stored as UTC midnight; keep the day the sheet shows
+  if (cell.value instanceof Date) {
+    return cell.value.toISOString().slice(0, 10);
+  }
+  return cell.text ?? "";
+}
+
+async function readSheet(content: Buffer, filename: string): Promise<SheetRow[] | { error: string }> {
+  if (/\.csv$/i.test(filename)) {
+    const text = content.toString("utf8").replace(/^\uFEFF/, "");
+    return parseCsv(text).map((values, index) => ({ row: index + 1, values }));
+  }
+  if (!/\.xlsx$/i.test(filename)) {
+    return { error: "Upload a .csv or .xlsx file" };
+  }
+
+  const workbook = new ExcelJS.Workbook();
+  try {
+    await workbook.xlsx.load(content);
+  } catch {
+    return { error: "The file could not be read as a spreadsheet" };
+  }
+  const sheet = workbook.worksheets[0];
+  if (!sheet) return [];
+
+  const rows: SheetRow[] = [];
+  sheet.eachRow({ includeEmpty: false }, (row, rowNumber) => {
+    const values: string[] = [];
+    for (let column = 1; column <= sheet.columnCount; column++) {
+      values.push(cellText(row.getCell(column)));
+    }
+    rows.push({ row: rowNumber, values });
+  });
+  return rows;
+}
+
+function normalize(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9]/g, "");
+}
+
+function parseExpiry(text: string): Date | null | string {
+  if (!text) return null;
+  const date = /^\d{4}-\d{2}-\d{2}$/.test(text) ? new Date(`${text}T00:00:00`) : new Date(text);
+  return isNaN(date.getTime()) ? `Expiry "${text}" is not a date; use YYYY-MM-DD` : date;
+}
+
+// Items without a specialty are shared, so anyone may import them
+function inScope(scope: SpecialtyScope, specialtyId: number | null) {
+  return scope === "all" || specialtyId === null || specialtyId === scope.specialtyId;
+}
+
+function zodMessages(error: ZodError): string[] {
+  return error.issues.map(issue => issue.path.length ? `${issue.path.join(".")}: ${issue.message}` : issue.message);
+}
+
+type PlannedRow = StockImportRow & {
+  item?: InsertStockItem;
+  existing?: StockItem;
+  changes?: Partial<StockItem>;
+};
+
+// Reads an import file and checks every row against the stock item schema,
+// resolving categories and specialties by name. Rows may only create or update
+// items in the importer's specialty scope. With commit, the valid rows are then
+// created or updated in one transaction. Problems with the file as a whole come
+// back as a message for the user rather than being thrown.
+export async function importStockItems(
+  content: Buffer,
+  filename: string,
+  options: { commit: boolean; updateExisting: boolean },
+  importedBy: number,
+  scope: SpecialtyScope
+): Promise<{ result: StockImportResult } | { error: string }> {
+  const sheet = await readSheet(content, filename);
+  if ("error" in sheet) return sheet;
+
+  const [header, ...records] = sheet.filter(record => record.values.some(value => value.trim() !== ""));
+  if (!header) {
+    return { error: "The file has no rows" };
+  }
+  if (records.length > MAX_IMPORT_ROWS) {
+    return { error: `Import at most ${MAX_IMPORT_ROWS} rows at a time` };
+  }
+
+  const columns = header.values.map(heading => COLUMN_ALIASES[normalize(heading)]);
+  for (const required of ["name", "category"] as const) {
+    if (!columns.includes(required)) {
+      return { error: `The file needs a "${required}" column` };
+    }
+  }
+
+  const [categories, specialties] = await Promise.all([storage.getCategories(), storage.getSpecialties()]);
+  const categoryIds = new Map(categories.map(category => [normalize(category.name), category.id]));
+  const specialtyIds = new Map(specialties.map(specialty => [normalize(specialty.name), specialty.id]));
+
+  const fieldsOf = (values: string[]) => {
+    const fields: Partial<Record<ImportField, string>> = {};
+    columns.forEach((field, index) => {
+      if (field) fields[field] = (values[index] ?? "").trim();
+    });
+    return fields;
+  };
+
+  const uniqueNumbers = records
+    .map(record => fieldsOf(record.values).uniqueNumber)
+    .filter((value): value is string => Boolean(value));
+  const existingItems = new Map(
+    (await storage.getStockItemsByUniqueNumbers(uniqueNumbers)).map(item => [item.uniqueNumber as string, item])
+  );
+  const seen = new Set<string>();
+
+  const rows: PlannedRow[] = records.map(record => {
+    const fields = fieldsOf(record.values);
+    const uniqueNumber = fields.uniqueNumber || null;
+    const existing = uniqueNumber ? existingItems.get(uniqueNumber) : undefined;
+    const errors: string[] = [];
+
+    if (uniqueNumber) {
+      if (seen.has(uniqueNumber)) {
+        errors.push(`Unique number ${uniqueNumber} appears more than once in the file`);
+      }
+      seen.add(uniqueNumber);
+      if (existing && (!options.updateExisting || !inScope(scope, existing.specialtyId))) {
+        errors.push(`An item with unique number ${uniqueNumber} already exists`);
+      }
+    }
+
+    const categoryId = fields.category ? categoryIds.get(normalize(fields.category)) : undefined;
+    if (!fields.category) {
+      errors.push("Category is required");
+    } else if (categoryId === undefined) {
+      errors.push(`Unknown category "${fields.category}"`);
+    }
+    const specialtyId = fields.specialty ? specialtyIds.get(normalize(fields.specialty)) : null;
+    if (fields.specialty && specialtyId === undefined) {
+      errors.push(`Unknown specialty "${fields.specialty}"`);
+    } else if (specialtyId !== undefined && !inScope(scope, specialtyId)) {
+      errors.push(`You can't import items for the ${fields.specialty} specialty`);
+    }
+
+    const quantity = fields.quantity ? Number(fields.quantity) : undefined;
+    if (fields.quantity && !Number.isInteger(quantity)) {
+      errors.push(`Quantity "${fields.quantity}" is not a whole number`);
+    }
+    // Prices are written in dollars and stored in cents
+    const dollars = fields.price ? Number(fields.price.replace(/^\$/, "")) : undefined;
+    if (fields.price && !Number.isFinite(dollars)) {
+      errors.push(`Price "${fields.price}" is not a number`);
+    }
+    const expiry = parseExpiry(fields.expiry ?? "");
+    if (typeof expiry === "string") {
+      errors.push(expiry);
+    }
+
+    const planned: PlannedRow = {
+      row: record.row,
+      name: fields.name ?? "",
+      uniqueNumber,
+      action: existing ? "update" : "create",
+      errors,
+      existing,
+    };
+    if (errors.length > 0) return planned;
+
+    // Blank cells leave an existing item's value as it is
+    const parsed = extendedInsertStockItemSchema.safeParse({
+      name: fields.name,
+      categoryId,
+      specialtyId: fields.specialty ? specialtyId : existing?.specialtyId ?? null,
+      quantity: quantity ?? existing?.quantity ?? 0,
+      price: dollars !== undefined ? Math.round(dollars * 100) : existing?.price ?? 0,
+      expiry: fields.expiry ? expiry : existing?.expiry ?? null,
+      uniqueNumber,
+      notes: fields.notes || existing?.notes || null,
+      createdBy: existing?.createdBy ?? importedBy,
+    });
+    if (!parsed.success) {
+      planned.errors.push(...zodMessages(parsed.error));
+      return planned;
+    }
+
+    if (existing) {
+      const { createdBy, imageUrl, ...changes } = parsed.data;
+      planned.changes = changes as Partial<StockItem>;
+    } else {
+      planned.item = parsed.data;
+    }
+    return planned;
+  });
+
+  const valid = rows.filter(row => row.errors.length === 0);
+  let created = 0;
+  let updated = 0;
+  if (options.commit && valid.length > 0) {
+    const result = await storage.importStockItems(
+      valid.filter(row => row.item).map(row => row.item as InsertStockItem),
+      valid
+        .filter(row => row.existing && row.changes)
+        .map(row => ({ id: (row.existing as StockItem).id, data: row.changes as Partial<StockItem> })),
+      importedBy
+    );
+    created = result.created.length;
+    updated = result.updated.length;
+  }
+
+  return {
+    result: {
+      rows: rows.map(({ row, name, uniqueNumber, action, errors }) => ({ row, name, uniqueNumber, action, errors })),
+      valid: valid.length,
+      invalid: rows.length - valid.length,
+      committed: options.commit && valid.length > 0,
+      created,
+      updated,
+    },
+  };
+}
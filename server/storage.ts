@@ -1,5 +1,9 @@
 import { 
   users, categories, specialties, stockItems, stockAllocations, stockMovements,
+  stockLots, stockMovementLots, movementBatches,
+  stockRequests, stockRequestItems, stockRequestEvents, auditEvents, notifications, scheduledJobs, userPreferences, mailOutbox, reportShares,
+  reportSubscriptions, reportArchives, userTwoFactor, loginEvents, passwordResetTokens, invitations,
+  DEFAULT_USER_PREFERENCES,
   systemSettings, insertSystemSettingSchema, SystemSetting // Added systemSettings imports
 } from "@shared/schema";
 import type { 
@@ -9,20 +13,117 @@ import type {
   StockItem, InsertStockItem,
   StockAllocation, InsertStockAllocation,
   StockMovement, InsertStockMovement,
+  StockLot, InsertStockLot, StockMovementLot, ExpiringLot,
+  MovementType, MovementBatch, BatchMovement,
+  InsertStockRequest, ReviewStockRequest, RequestStatus,
+  StockRequestWithItems, StockRequestDetail,
+  StockItemQuery, MovementQuery, SearchResults, SpecialtyScope,
+  AuditEvent, AuditAction, AuditQuery,
+  LoginEvent, InsertLoginEvent, LoginEventQuery,
+  Invitation, InvitationSummary,
+  Notification, InsertNotification,
+  ScheduledJob, UserPreferences, UserTwoFactor,
+  InsertMail, OutboxMail,
+  ReportShare, ReportShareSummary,
+  ReportSubscription, InsertReportSubscription, ReportArchive, ReportArchiveSummary,
   RoleType,
   // SystemSetting - already imported from schema
 } from "@shared/schema";
 import { ROLE_PERMISSIONS } from "@shared/schema";
-import session, { Store as SessionStore } from "express-session";
+import { nextCronRun } from "@shared/cron";
+import session, { Store as SessionStore, SessionData } from "express-session";
 import createMemoryStore from "memorystore";
 import connectPg from "connect-pg-simple";
 import { db, pool } from "./db";
-import { eq, lte, and, isNotNull } from "drizzle-orm";
-import { addDays } from "date-fns";
+import { auditDiff, getAuditContext } from "./audit";
+import { eq, ne, lte, gt, gte, and, or, asc, desc, ilike, inArray, notInArray, isNull, isNotNull, sql, getTableColumns, getTableName } from "drizzle-orm";
+import type { InferInsertModel, SQLWrapper } from "drizzle-orm";
+import type { PgColumn, PgTable } from "drizzle-orm/pg-core";
+import { createHash } from "crypto";
+import { addDays, format } from "date-fns";
 
 const MemoryStore = createMemoryStore(session);
 const PostgresSessionStore = connectPg(session);
 
+// Transaction handle passed to db.transaction callbacks
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// Every table a backup holds, parents before the tables that reference them.
+// The mail outbox is left out, as pending mail can hold sign-in links, and so
+// are two-factor secrets, which would let anyone with the file make codes.
+const BACKUP_TABLES = {
+  specialties,
+  users,
+  categories,
+  stockItems,
+  stockLots,
+  stockAllocations,
+  movementBatches,
+  stockMovements,
+  stockMovementLots,
+  stockRequests,
+  stockRequestItems,
+  stockRequestEvents,
+  auditEvents,
+  loginEvents,
+  notifications,
+  userPreferences,
+  invitations,
+  reportShares,
+  reportSubscriptions,
+  reportArchives,
+  scheduledJobs,
+  systemSettings,
+};
+
+export type BackupTableName = keyof typeof BACKUP_TABLES;
+
+// Inventory and activity, children before parents. Clearing all data empties
+// these and keeps users, specialties, categories and settings.
+const CLEARED_TABLES = {
+  stockMovementLots,
+  stockRequestEvents,
+  stockRequestItems,
+  stockMovements,
+  movementBatches,
+  stockAllocations,
+  stockRequests,
+  stockLots,
+  stockItems,
+  notifications,
+  mailOutbox,
+  reportShares,
+  reportArchives,
+};
+
+const RESTORE_CHUNK_SIZE = 500;
+
+// Blanks a mail body when the mail is marked sensitive
+const redactSensitiveMail = {
+  text: sql<string>`case when ${mailOutbox.sensitive} then '' else ${mailOutbox.text} end`,
+  html: sql<string>`case when ${mailOutbox.sensitive} then '' else ${mailOutbox.html} end`,
+};
+
+// A row of connect-pg-simple's "session" table
+export type StoredSession = {
+  sid: string;
+  sess: Partial<SessionData>;
+  expire: Date;
+};
+
+type MovementArgs = {
+  type?: MovementType;
+  stockItemId: number;
+  quantity: number;
+  fromUserId?: number | null;
+  toUserId?: number | null;
+  lotId?: number | null;
+  movedBy: number;
+  reason?: string;
+  notes?: string;
+  batchId?: number;
+};
+
 // Interface for storage operations
 export interface IStorage {
   // Specialty operations
@@ -50,15 +151,15 @@ export interface IStorage {
   getStockItemsByCategory(categoryId: number): Promise<StockItem[]>;
 
   // Stock item operations
-  getStockItems(): Promise<StockItem[]>;
-  getStockItem(id: number): Promise<StockItem | undefined>;
-  createStockItem(item: InsertStockItem): Promise<StockItem>;
+  getStockItems(scope?: SpecialtyScope): Promise<StockItem[]>;
+  getStockItem(id: number, scope?: SpecialtyScope): Promise<StockItem | undefined>;
+  createStockItem(item: InsertStockItem, lotNumber?: string): Promise<StockItem>;
   updateStockItem(id: number, item: Partial<StockItem>): Promise<StockItem | undefined>;
   deleteStockItem(id: number): Promise<boolean>;
-  getExpiringItems(daysThreshold: number): Promise<StockItem[]>;
+  getExpiringItems(daysThreshold: number, scope?: SpecialtyScope): Promise<ExpiringLot[]>;
 
   // Stock allocation operations
-  getAllocations(userId?: number): Promise<StockAllocation[]>;
+  getAllocations(userId?: number, scope?: SpecialtyScope): Promise<StockAllocation[]>;
   createAllocation(allocation: InsertStockAllocation): Promise<StockAllocation>;
   updateAllocation(id: number, allocation: Partial<StockAllocation>): Promise<StockAllocation | undefined>;
   deleteAllocation(id: number): Promise<boolean>;
@@ -78,6 +179,35 @@ export interface IStorage {
   updateSystemSettings(settings: any): Promise<void>;
 }
 
+// What a user may see of items, allocations and movements. Roles that see
+// every specialty are not limited; everyone else sees their own specialty and
+// whatever has none.
+export function specialtyScope(user: Pick<User, 'role' | 'specialtyId'>): SpecialtyScope {
+  return ROLE_PERMISSIONS[user.role as RoleType]?.canSeeAllSpecialties
+    ? 'all'
+    : { specialtyId: user.specialtyId };
+}
+
+// An ILIKE pattern matching text that contains the term as typed
+function containsPattern(term: string): string {
+  return `%${term.replace(/[\\%_]/g, '\\$&')}%`;
+}
+
+function toUserPreferences(row: typeof userPreferences.$inferSelect): UserPreferences {
+  const { userId, updatedAt, ...preferences } = row;
+  return preferences;
+}
+
+function toInvitationSummary(invitation: Invitation): InvitationSummary {
+  const { tokenHash, ...summary } = invitation;
+  return summary;
+}
+
+function toReportShareSummary(share: ReportShare): ReportShareSummary {
+  const { tokenHash, rows, passwordHash, ...summary } = share;
+  return { ...summary, hasPassword: passwordHash !== null };
+}
+
 // In-memory implementation for development
 export class MemStorage implements IStorage {
   private usersMap: Map<number, User>;
@@ -214,6 +344,10 @@ export class MemStorage implements IStorage {
       ...user, 
       id, 
       createdAt: timestamp,
+      passwordChangedAt: timestamp,
+      failedLoginCount: 0,
+      lockedUntil: null,
+      email: user.email || null,
       region: user.region || null,
       avatar: user.avatar || null,
       specialtyId: user.specialtyId || null,
@@ -269,7 +403,7 @@ export class MemStorage implements IStorage {
     return this.stockItemsMap.get(id);
   }
 
-  async createStockItem(item: InsertStockItem): Promise<StockItem> {
+  async createStockItem(item: InsertStockItem, _lotNumber?: string): Promise<StockItem> {
     const id = this.stockItemIdCounter++;
     const timestamp = new Date();
     const newItem: StockItem = { 
@@ -299,12 +433,14 @@ export class MemStorage implements IStorage {
     return this.stockItemsMap.delete(id);
   }
 
-  async getExpiringItems(daysThreshold: number): Promise<StockItem[]> {
+  async getExpiringItems(daysThreshold: number): Promise<ExpiringLot[]> {
     const thresholdDate = new Date();
     thresholdDate.setDate(thresholdDate.getDate() + daysThreshold);
 
+    // Lots are not tracked in memory, so each item is reported as a single lot
     return Array.from(this.stockItemsMap.values())
-      .filter(item => item.expiry && new Date(item.expiry) <= thresholdDate);
+      .filter(item => item.quantity > 0 && item.expiry && new Date(item.expiry) <= thresholdDate)
+      .map(item => ({ ...item, lotId: item.id, lotNumber: item.uniqueNumber || `LOT-${item.id}` }));
   }
 
   // Stock allocation operations
@@ -348,12 +484,17 @@ export class MemStorage implements IStorage {
   async createMovement(movement: InsertStockMovement): Promise<StockMovement> {
     const id = this.stockMovementIdCounter++;
     const timestamp = new Date();
+    const { lotId, ...movementData } = movement;
     const newMovement: StockMovement = { 
-      ...movement, 
+      ...movementData, 
       id, 
       movedAt: timestamp,
       fromUserId: movement.fromUserId || null,
+      toUserId: movement.toUserId || null,
+      reason: movement.reason || null,
       notes: movement.notes || null,
+      reversalOfId: null,
+      batchId: null,
     };
     this.stockMovementsMap.set(id, newMovement);
     return newMovement;
@@ -427,15 +568,52 @@ export class DatabaseStorage implements IStorage {
       return;
     }
 
-    // Using Drizzle ORM's onConflictDoUpdate for "upsert"
-    // This assumes your 'key' column has a unique constraint or is the primary key
-    await db
-      .insert(systemSettings)
-      .values(settingsToUpsert)
-      .onConflictDoUpdate({ 
-        target: systemSettings.key, 
-        set: { value: sql`excluded.value` } 
-      });
+    const before = await this.getSystemSettings();
+
+    await db.transaction(async (tx) => {
+      // Using Drizzle ORM's onConflictDoUpdate for "upsert"
+      // This assumes your 'key' column has a unique constraint or is the primary key
+      await tx
+        .insert(systemSettings)
+        .values(settingsToUpsert)
+        .onConflictDoUpdate({ 
+          target: systemSettings.key, 
+          set: { value: sql`excluded.value` } 
+        });
+
+      await this.audit(tx, 'update', 'system_settings', 'system', before, settings);
+    });
+  }
+
+  // Empties the inventory and activity tables. The audit log is append-only
+  // and keeps its history.
+  async clearAllData(summary: Record<string, unknown>): Promise<Record<string, number>> {
+    return db.transaction(async (tx) => {
+      const deleted = await this.deleteTables(tx, CLEARED_TABLES);
+      await this.audit(tx, 'delete', 'system', 'clear-data', { ...summary, deleted }, null);
+      return deleted;
+    });
+  }
+
+  // Clears all data, then settings, categories, specialties and every user but
+  // the one doing the reset, and puts back the default categories and
+  // specialties
+  async resetSystem(keepUserId: number, summary: Record<string, unknown>): Promise<Record<string, number>> {
+    const deleted = await db.transaction(async (tx) => {
+      const deleted = await this.deleteTables(tx, CLEARED_TABLES);
+      Object.assign(deleted, await this.deleteTables(tx, { reportSubscriptions, userPreferences, systemSettings, categories, invitations }));
+
+      const removedUsers = await tx.delete(users).where(ne(users.id, keepUserId));
+      deleted.users = removedUsers.rowCount ?? 0;
+      await tx.update(users).set({ specialtyId: null }).where(eq(users.id, keepUserId));
+      Object.assign(deleted, await this.deleteTables(tx, { specialties }));
+
+      await this.audit(tx, 'delete', 'system', 'reset', { ...summary, deleted }, null);
+      return deleted;
+    });
+
+    await this.initializeData();
+    return deleted;
   }
 
   // Initialize with default data if needed
@@ -490,22 +668,36 @@ export class DatabaseStorage implements IStorage {
   }
 
   async createSpecialty(specialty: InsertSpecialty): Promise<Specialty> {
-    const [newSpecialty] = await db.insert(specialties).values(specialty).returning();
-    return newSpecialty;
+    return db.transaction(async (tx) => {
+      const [newSpecialty] = await tx.insert(specialties).values(specialty).returning();
+      await this.audit(tx, 'create', 'specialty', newSpecialty.id, null, newSpecialty);
+      return newSpecialty;
+    });
   }
 
   async updateSpecialty(id: number, specialtyData: Partial<Specialty>): Promise<Specialty | undefined> {
-    const [updatedSpecialty] = await db
-      .update(specialties)
-      .set(specialtyData)
-      .where(eq(specialties.id, id))
-      .returning();
-    return updatedSpecialty;
+    return db.transaction(async (tx) => {
+      const [existing] = await tx.select().from(specialties).where(eq(specialties.id, id));
+      if (!existing) return undefined;
+
+      const [updatedSpecialty] = await tx
+        .update(specialties)
+        .set(specialtyData)
+        .where(eq(specialties.id, id))
+        .returning();
+      await this.audit(tx, 'update', 'specialty', id, existing, updatedSpecialty);
+      return updatedSpecialty;
+    });
   }
 
   async deleteSpecialty(id: number): Promise<boolean> {
-    const result = await db.delete(specialties).where(eq(specialties.id, id)).returning();
-    return result.length > 0;
+    return db.transaction(async (tx) => {
+      const [deleted] = await tx.delete(specialties).where(eq(specialties.id, id)).returning();
+      if (!deleted) return false;
+
+      await this.audit(tx, 'delete', 'specialty', id, deleted, null);
+      return true;
+    });
   }
 
   // User operations
@@ -528,22 +720,64 @@ export class DatabaseStorage implements IStorage {
   }
 
   async createUser(user: InsertUser): Promise<User> {
-    const [newUser] = await db.insert(users).values(user).returning();
-    return newUser;
+    return db.transaction(async (tx) => {
+      const [newUser] = await tx.insert(users).values(user).returning();
+      await this.audit(tx, 'create', 'user', newUser.id, null, newUser);
+      return newUser;
+    });
   }
 
   async updateUser(id: number, userData: Partial<User>): Promise<User | undefined> {
-    const [updatedUser] = await db
-      .update(users)
-      .set(userData)
-      .where(eq(users.id, id))
-      .returning();
-    return updatedUser;
+    return db.transaction(async (tx) => {
+      const [existing] = await tx.select().from(users).where(eq(users.id, id));
+      if (!existing) return undefined;
+
+      const [updatedUser] = await tx
+        .update(users)
+        .set(userData)
+        .where(eq(users.id, id))
+        .returning();
+      await this.audit(tx, 'update', 'user', id, existing, updatedUser);
+      return updatedUser;
+    });
   }
 
   async deleteUser(id: number): Promise<boolean> {
-    const result = await db.delete(users).where(eq(users.id, id)).returning();
-    return result.length > 0;
+    return db.transaction(async (tx) => {
+      // Their open requests can no longer be handed out to anyone
+      const pending = await tx
+        .update(stockRequests)
+        .set({ status: 'cancelled' })
+        .where(and(eq(stockRequests.requestedBy, id), eq(stockRequests.status, 'pending')))
+        .returning();
+      for (const cancelled of pending) {
+        await this.audit(tx, 'update', 'stock_request', cancelled.id, { ...cancelled, status: 'pending' }, cancelled);
+        await tx.insert(stockRequestEvents).values({
+          requestId: cancelled.id,
+          status: 'cancelled',
+          changedBy: getAuditContext().actorId,
+          notes: 'Requester was deleted',
+        });
+      }
+
+      // Links they shared stop working along with their account
+      const shares = await tx.delete(reportShares).where(eq(reportShares.createdBy, id)).returning();
+      for (const share of shares) {
+        await this.audit(tx, 'delete', 'report_share', share.id, toReportShareSummary(share), null);
+      }
+
+      // Nobody is left to own their scheduled reports
+      const subscriptions = await tx.delete(reportSubscriptions).where(eq(reportSubscriptions.createdBy, id)).returning();
+      for (const subscription of subscriptions) {
+        await this.audit(tx, 'delete', 'report_subscription', subscription.id, subscription, null);
+      }
+
+      const [deleted] = await tx.delete(users).where(eq(users.id, id)).returning();
+      if (!deleted) return false;
+
+      await this.audit(tx, 'delete', 'user', id, deleted, null);
+      return true;
+    });
   }
 
   // Category operations
@@ -557,22 +791,36 @@ export class DatabaseStorage implements IStorage {
   }
 
   async createCategory(category: InsertCategory): Promise<Category> {
-    const [newCategory] = await db.insert(categories).values(category).returning();
-    return newCategory;
+    return db.transaction(async (tx) => {
+      const [newCategory] = await tx.insert(categories).values(category).returning();
+      await this.audit(tx, 'create', 'category', newCategory.id, null, newCategory);
+      return newCategory;
+    });
   }
 
   async updateCategory(id: number, categoryData: Partial<Category>): Promise<Category | undefined> {
-    const [updatedCategory] = await db
-      .update(categories)
-      .set(categoryData)
-      .where(eq(categories.id, id))
-      .returning();
-    return updatedCategory;
+    return db.transaction(async (tx) => {
+      const [existing] = await tx.select().from(categories).where(eq(categories.id, id));
+      if (!existing) return undefined;
+
+      const [updatedCategory] = await tx
+        .update(categories)
+        .set(categoryData)
+        .where(eq(categories.id, id))
+        .returning();
+      await this.audit(tx, 'update', 'category', id, existing, updatedCategory);
+      return updatedCategory;
+    });
   }
 
   async deleteCategory(id: number): Promise<boolean> {
-    const result = await db.delete(categories).where(eq(categories.id, id)).returning();
-    return result.length > 0;
+    return db.transaction(async (tx) => {
+      const [deleted] = await tx.delete(categories).where(eq(categories.id, id)).returning();
+      if (!deleted) return false;
+
+      await this.audit(tx, 'delete', 'category', id, deleted, null);
+      return true;
+    });
   }
 
   async getStockItemsByCategory(categoryId: number): Promise<StockItem[]> {
@@ -580,16 +828,59 @@ export class DatabaseStorage implements IStorage {
   }
 
   // Stock item operations
-  async getStockItems(): Promise<StockItem[]> {
-    return db.select().from(stockItems);
+  async getStockItems(scope: SpecialtyScope = 'all'): Promise<StockItem[]> {
+    return db.select().from(stockItems).where(this.inSpecialtyScope(stockItems.specialtyId, scope));
   }
 
-  async getStockItem(id: number): Promise<StockItem | undefined> {
-    const [item] = await db.select().from(stockItems).where(eq(stockItems.id, id));
+  private stockItemConditions(query: StockItemQuery, scope: SpecialtyScope) {
+    const conditions = [this.inSpecialtyScope(stockItems.specialtyId, scope)];
+    if (query.search) {
+      const pattern = containsPattern(query.search);
+      conditions.push(or(ilike(stockItems.name, pattern), ilike(stockItems.uniqueNumber, pattern)));
+    }
+    if (query.categoryId) conditions.push(eq(stockItems.categoryId, query.categoryId));
+    if (query.specialtyId) conditions.push(eq(stockItems.specialtyId, query.specialtyId));
+    if (query.expiresWithin !== undefined) {
+      conditions.push(lte(stockItems.expiry, addDays(new Date(), query.expiresWithin)));
+    }
+    if (query.minQuantity !== undefined) conditions.push(gte(stockItems.quantity, query.minQuantity));
+    if (query.maxQuantity !== undefined) conditions.push(lte(stockItems.quantity, query.maxQuantity));
+    return and(...conditions);
+  }
+
+  // Stock items matching the query in its order; only the requested page
+  // when it has one
+  async findStockItems(query: StockItemQuery, scope: SpecialtyScope): Promise<StockItem[]> {
+    const direction = query.order === 'desc' ? desc : asc;
+    const statement = db
+      .select()
+      .from(stockItems)
+      .where(this.stockItemConditions(query, scope))
+      .orderBy(direction(stockItems[query.sort]), direction(stockItems.id))
+      .$dynamic();
+    if (query.page) {
+      statement.limit(query.pageSize).offset((query.page - 1) * query.pageSize);
+    }
+    return statement;
+  }
+
+  async countStockItems(query: StockItemQuery, scope: SpecialtyScope): Promise<number> {
+    const [result] = await db
+      .select({ count: sql<number>`count(*)`.mapWith(Number) })
+      .from(stockItems)
+      .where(this.stockItemConditions(query, scope));
+    return result.count;
+  }
+
+  async getStockItem(id: number, scope: SpecialtyScope = 'all'): Promise<StockItem | undefined> {
+    const [item] = await db
+      .select()
+      .from(stockItems)
+      .where(and(eq(stockItems.id, id), this.inSpecialtyScope(stockItems.specialtyId, scope)));
     return item;
   }
 
-  async createStockItem(item: InsertStockItem): Promise<StockItem> {
+  async createStockItem(item: InsertStockItem, lotNumber?: string): Promise<StockItem> {
     // Create a clean data object to ensure proper date handling
     const cleanData: InsertStockItem = { ...item };
     
@@ -606,13 +897,14 @@ export class DatabaseStorage implements IStorage {
       }
     }
     
-    const [newItem] = await db.insert(stockItems).values(cleanData).returning();
-    return newItem;
+    return db.transaction((tx) => this.insertStockItem(tx, cleanData, lotNumber));
   }
 
-  async updateStockItem(id: number, itemData: Partial<StockItem>): Promise<StockItem | undefined> {
-    // Create a clean data object to ensure proper date handling
-    const cleanData: Partial<StockItem> = { ...itemData };
+  // A changed quantity is recorded as a stock adjustment by editedBy, in the
+  // same transaction as the rest of the edit
+  async updateStockItem(id: number, itemData: Partial<StockItem>, editedBy?: number): Promise<StockItem | undefined> {
+    // The quantity is applied as a movement; the rest needs proper date handling
+    const { quantity, ...cleanData } = itemData;
     
     // Handle expiry date explicitly - convert to a proper Date object if it's a string
     if (cleanData.expiry !== undefined) {
@@ -627,66 +919,273 @@ export class DatabaseStorage implements IStorage {
       }
     }
     
-    const [updatedItem] = await db
-      .update(stockItems)
-      .set(cleanData)
-      .where(eq(stockItems.id, id))
-      .returning();
-    return updatedItem;
+    return db.transaction(async (tx) => {
+      const [item] = await tx.select().from(stockItems).where(eq(stockItems.id, id));
+      if (!item) return undefined;
+
+      if (quantity !== undefined && quantity !== item.quantity) {
+        if (editedBy === undefined) {
+          throw new Error(`Changing the quantity of stock item ID ${id} needs the user making the edit.`);
+        }
+        const delta = quantity - item.quantity;
+        await this.recordMovement(tx, {
+          type: delta > 0 ? 'adjustment_in' : 'adjustment_out',
+          stockItemId: id,
+          quantity: Math.abs(delta),
+          movedBy: editedBy,
+          reason: "Quantity edited",
+        });
+      }
+
+      return this.changeStockItem(tx, id, cleanData);
+    });
   }
 
-  async deleteStockItem(id: number): Promise<boolean> {
-    const result = await db.delete(stockItems).where(eq(stockItems.id, id)).returning();
-    return result.length > 0;
+  async getStockItemsByUniqueNumbers(uniqueNumbers: string[]): Promise<StockItem[]> {
+    if (uniqueNumbers.length === 0) return [];
+    return db.select().from(stockItems).where(inArray(stockItems.uniqueNumber, uniqueNumbers));
+  }
+
+  // Creates and updates the items of a stock import in one transaction, so a
+  // failing row leaves none of the import behind. Quantity changes to existing
+  // items are recorded as stock adjustments.
+  async importStockItems(
+    creates: InsertStockItem[],
+    updates: { id: number; data: Partial<StockItem> }[],
+    importedBy: number
+  ): Promise<{ created: StockItem[]; updated: StockItem[] }> {
+    return db.transaction(async (tx) => {
+      const created: StockItem[] = [];
+      for (const item of creates) {
+        created.push(await this.insertStockItem(tx, item));
+      }
+
+      const updated: StockItem[] = [];
+      for (const { id, data } of updates) {
+        const { quantity, ...fields } = data;
+        const [item] = await tx.select().from(stockItems).where(eq(stockItems.id, id));
+        if (!item) {
+          throw new Error(`Stock item ID ${id} no longer exists.`);
+        }
+
+        if (quantity !== undefined && quantity !== item.quantity) {
+          const delta = quantity - item.quantity;
+          await this.recordMovement(tx, {
+            type: delta > 0 ? 'adjustment_in' : 'adjustment_out',
+            stockItemId: id,
+            quantity: Math.abs(delta),
+            movedBy: importedBy,
+            reason: "Stock import",
+          });
+        }
+
+        const result = await this.changeStockItem(tx, id, fields);
+        if (result) updated.push(result);
+      }
+
+      return { created, updated };
+    });
   }
 
-  async getExpiringItems(daysThreshold: number): Promise<StockItem[]> {
-    const thresholdDate = addDays(new Date(), daysThreshold);
+  async deleteStockItem(id: number): Promise<boolean> {
+    return db.transaction(async (tx) => {
+      const [deleted] = await tx.delete(stockItems).where(eq(stockItems.id, id)).returning();
+      if (!deleted) return false;
 
-    // Get all items and filter manually
-    const items = await db.select().from(stockItems);
+      await this.audit(tx, 'delete', 'stock_item', id, deleted, null);
+      return true;
+    });
+  }
 
-    // Filter items that have expiry dates less than or equal to threshold date
-    return items.filter(item => 
-      item.expiry !== null && 
-      new Date(item.expiry) <= thresholdDate
-    );
+  // Items on a stock request are kept as its history
+  async isStockItemRequested(id: number): Promise<boolean> {
+    const [requested] = await db
+      .select({ id: stockRequestItems.id })
+      .from(stockRequestItems)
+      .where(eq(stockRequestItems.stockItemId, id))
+      .limit(1);
+    return requested !== undefined;
+  }
+
+  async getExpiringItems(daysThreshold: number, scope: SpecialtyScope = 'all'): Promise<ExpiringLot[]> {
+    return this.getLotsExpiringBetween(null, addDays(new Date(), daysThreshold), scope);
+  }
+
+  // Lots that still hold stock and expire in the range. Without a start this
+  // includes lots that have already expired.
+  async getLotsExpiringBetween(from: Date | null, to: Date, scope: SpecialtyScope = 'all'): Promise<ExpiringLot[]> {
+    const rows = await db
+      .select({ item: stockItems, lot: stockLots })
+      .from(stockLots)
+      .innerJoin(stockItems, eq(stockLots.stockItemId, stockItems.id))
+      .where(
+        and(
+          gt(stockLots.quantity, 0),
+          isNotNull(stockLots.expiry),
+          from ? gte(stockLots.expiry, from) : undefined,
+          lte(stockLots.expiry, to),
+          this.inSpecialtyScope(stockItems.specialtyId, scope)
+        )
+      )
+      .orderBy(asc(stockLots.expiry), asc(stockLots.id));
+
+    return rows.map(({ item, lot }) => ({
+      ...item,
+      expiry: lot.expiry,
+      quantity: lot.quantity,
+      lotId: lot.id,
+      lotNumber: lot.lotNumber,
+    }));
   }
 
-  // Stock allocation operations
-  async getAllocations(userId?: number): Promise<StockAllocation[]> {
-    if (userId) {
-      return db
+  // Stock lot operations
+  async getStockLots(stockItemId: number): Promise<StockLot[]> {
+    return db
+      .select()
+      .from(stockLots)
+      .where(eq(stockLots.stockItemId, stockItemId))
+      .orderBy(sql`${stockLots.expiry} asc nulls last`, asc(stockLots.receivedAt), asc(stockLots.id));
+  }
+
+  async receiveStockLot(lot: InsertStockLot): Promise<StockLot> {
+    return db.transaction(async (tx) => {
+      const [item] = await tx
         .select()
-        .from(stockAllocations)
-        .where(eq(stockAllocations.userId, userId));
+        .from(stockItems)
+        .where(eq(stockItems.id, lot.stockItemId));
+
+      if (!item) {
+        throw new Error(`Stock item with ID ${lot.stockItemId} not found.`);
+      }
+
+      const [newLot] = await tx.insert(stockLots).values(lot).returning();
+
+      await tx
+        .update(stockItems)
+        .set({ quantity: item.quantity + lot.quantity })
+        .where(eq(stockItems.id, lot.stockItemId));
+      const updatedItem = await this.syncItemExpiry(tx, lot.stockItemId);
+
+      await this.audit(tx, 'create', 'stock_lot', newLot.id, null, newLot);
+      await this.audit(tx, 'update', 'stock_item', item.id, item, updatedItem);
+      return newLot;
+    });
+  }
+
+  async getMovementLots(movementId: number): Promise<StockMovementLot[]> {
+    return db
+      .select()
+      .from(stockMovementLots)
+      .where(eq(stockMovementLots.movementId, movementId));
+  }
+
+  // Takes `quantity` units out of an item's lots, earliest expiry first (FEFO).
+  // Returns how much was taken from each lot.
+  private async drawFromLots(
+    tx: Transaction,
+    stockItemId: number,
+    quantity: number
+  ): Promise<{ lotId: number; quantity: number }[]> {
+    const lots = await tx
+      .select()
+      .from(stockLots)
+      .where(and(eq(stockLots.stockItemId, stockItemId), gt(stockLots.quantity, 0)))
+      .orderBy(sql`${stockLots.expiry} asc nulls last`, asc(stockLots.receivedAt), asc(stockLots.id))
+      .for("update");
+
+    const available = lots.reduce((sum, lot) => sum + lot.quantity, 0);
+    if (available < quantity) {
+      throw new Error(
+        `Not enough stock in lots for item ID ${stockItemId}. Available: ${available}, Requested: ${quantity}`
+      );
+    }
+
+    const drawn: { lotId: number; quantity: number }[] = [];
+    let remaining = quantity;
+    for (const lot of lots) {
+      if (remaining === 0) break;
+      const take = Math.min(lot.quantity, remaining);
+      await tx
+        .update(stockLots)
+        .set({ quantity: lot.quantity - take })
+        .where(eq(stockLots.id, lot.id));
+      drawn.push({ lotId: lot.id, quantity: take });
+      remaining -= take;
     }
-    return db.select().from(stockAllocations);
+    return drawn;
+  }
+
+  // Keeps the item's expiry in line with its earliest-expiring lot in stock
+  private async syncItemExpiry(tx: Transaction, stockItemId: number): Promise<StockItem> {
+    const [earliest] = await tx
+      .select({ expiry: stockLots.expiry })
+      .from(stockLots)
+      .where(
+        and(
+          eq(stockLots.stockItemId, stockItemId),
+          gt(stockLots.quantity, 0),
+          isNotNull(stockLots.expiry)
+        )
+      )
+      .orderBy(asc(stockLots.expiry))
+      .limit(1);
+
+    const [item] = await tx
+      .update(stockItems)
+      .set({ expiry: earliest?.expiry ?? null })
+      .where(eq(stockItems.id, stockItemId))
+      .returning();
+    return item;
+  }
+
+  // Stock allocation operations
+  async getAllocations(userId?: number, scope: SpecialtyScope = 'all'): Promise<StockAllocation[]> {
+    return db
+      .select()
+      .from(stockAllocations)
+      .where(and(
+        userId ? eq(stockAllocations.userId, userId) : undefined,
+        this.forItemsInScope(stockAllocations.stockItemId, scope)
+      ));
   }
 
   async createAllocation(allocation: InsertStockAllocation): Promise<StockAllocation> {
-    const [newAllocation] = await db
-      .insert(stockAllocations)
-      .values(allocation)
-      .returning();
-    return newAllocation;
+    return db.transaction(async (tx) => {
+      const [newAllocation] = await tx
+        .insert(stockAllocations)
+        .values(allocation)
+        .returning();
+      await this.audit(tx, 'create', 'stock_allocation', newAllocation.id, null, newAllocation);
+      return newAllocation;
+    });
   }
 
   async updateAllocation(id: number, allocationData: Partial<StockAllocation>): Promise<StockAllocation | undefined> {
-    const [updatedAllocation] = await db
-      .update(stockAllocations)
-      .set(allocationData)
-      .where(eq(stockAllocations.id, id))
-      .returning();
-    return updatedAllocation;
+    return db.transaction(async (tx) => {
+      const [existing] = await tx.select().from(stockAllocations).where(eq(stockAllocations.id, id));
+      if (!existing) return undefined;
+
+      const [updatedAllocation] = await tx
+        .update(stockAllocations)
+        .set(allocationData)
+        .where(eq(stockAllocations.id, id))
+        .returning();
+      await this.audit(tx, 'update', 'stock_allocation', id, existing, updatedAllocation);
+      return updatedAllocation;
+    });
   }
 
   async deleteAllocation(id: number): Promise<boolean> {
-    const result = await db
-      .delete(stockAllocations)
-      .where(eq(stockAllocations.id, id))
-      .returning();
-    return result.length > 0;
+    return db.transaction(async (tx) => {
+      const [deleted] = await tx
+        .delete(stockAllocations)
+        .where(eq(stockAllocations.id, id))
+        .returning();
+      if (!deleted) return false;
+
+      await this.audit(tx, 'delete', 'stock_allocation', id, deleted, null);
+      return true;
+    });
   }
 
   // Stock movement operations
@@ -694,132 +1193,1755 @@ export class DatabaseStorage implements IStorage {
     return db.select().from(stockMovements);
   }
 
-  async createMovement(movement: InsertStockMovement): Promise<StockMovement> {
-    const [newMovement] = await db
-      .insert(stockMovements)
-      .values(movement)
-      .returning();
-    return newMovement;
+  private movementConditions(query: MovementQuery, scope: SpecialtyScope) {
+    const conditions = [this.forItemsInScope(stockMovements.stockItemId, scope)];
+    if (query.stockItemId) conditions.push(eq(stockMovements.stockItemId, query.stockItemId));
+    if (query.type) conditions.push(eq(stockMovements.type, query.type));
+    if (query.userId) {
+      conditions.push(or(
+        eq(stockMovements.fromUserId, query.userId),
+        eq(stockMovements.toUserId, query.userId),
+        eq(stockMovements.movedBy, query.userId)
+      ));
+    }
+    if (query.from) conditions.push(gte(stockMovements.movedAt, query.from));
+    if (query.to) conditions.push(lte(stockMovements.movedAt, query.to));
+    return and(...conditions);
+  }
+
+  // Movements matching the query, newest first unless asked otherwise; only
+  // the requested page when it has one
+  async findMovements(query: MovementQuery, scope: SpecialtyScope): Promise<StockMovement[]> {
+    const direction = query.order === 'asc' ? asc : desc;
+    const statement = db
+      .select()
+      .from(stockMovements)
+      .where(this.movementConditions(query, scope))
+      .orderBy(direction(stockMovements[query.sort]), direction(stockMovements.id))
+      .$dynamic();
+    if (query.page) {
+      statement.limit(query.pageSize).offset((query.page - 1) * query.pageSize);
+    }
+    return statement;
   }
 
-  // Permission check
-  async hasPermission(userId: number, permission: keyof typeof ROLE_PERMISSIONS.ceo): Promise<boolean> {
-    const user = await this.getUser(userId);
-    if (!user) return false;
+  async countMovements(query: MovementQuery, scope: SpecialtyScope): Promise<number> {
+    const [result] = await db
+      .select({ count: sql<number>`count(*)`.mapWith(Number) })
+      .from(stockMovements)
+      .where(this.movementConditions(query, scope));
+    return result.count;
+  }
 
-    const role = user.role as RoleType;
-    return ROLE_PERMISSIONS[role][permission] === true;
+  // Global search. Each column matches when it contains the term or is close
+  // to it by trigram similarity, so small typos still find things; the
+  // closest matches come first.
+  async search(term: string, limit: number, scope: SpecialtyScope): Promise<SearchResults> {
+    const pattern = containsPattern(term);
+    const matches = (...columns: PgColumn[]) =>
+      or(...columns.flatMap(column => [ilike(column, pattern), sql`${column} % ${term}`]));
+    const closeness = (...columns: PgColumn[]) =>
+      desc(sql`greatest(${sql.join(columns.map(column => sql`similarity(coalesce(${column}, ''), ${term})`), sql`, `)})`);
+
+    const { password, ...userColumns } = getTableColumns(users);
+
+    const [items, people, categoryRows, specialtyRows, movementRows] = await Promise.all([
+      db
+        .select()
+        .from(stockItems)
+        .where(and(
+          matches(stockItems.name, stockItems.uniqueNumber, stockItems.notes),
+          this.inSpecialtyScope(stockItems.specialtyId, scope)
+        ))
+        .orderBy(closeness(stockItems.name, stockItems.uniqueNumber, stockItems.notes), asc(stockItems.id))
+        .limit(limit),
+      db
+        .select(userColumns)
+        .from(users)
+        .where(and(matches(users.name, users.username), this.inSpecialtyScope(users.specialtyId, scope)))
+        .orderBy(closeness(users.name, users.username), asc(users.id))
+        .limit(limit),
+      db
+        .select()
+        .from(categories)
+        .where(matches(categories.name))
+        .orderBy(closeness(categories.name), asc(categories.id))
+        .limit(limit),
+      db
+        .select()
+        .from(specialties)
+        .where(and(matches(specialties.name), this.inSpecialtyScope(specialties.id, scope)))
+        .orderBy(closeness(specialties.name), asc(specialties.id))
+        .limit(limit),
+      db
+        .select({ movement: stockMovements, stockItemName: stockItems.name })
+        .from(stockMovements)
+        .innerJoin(stockItems, eq(stockMovements.stockItemId, stockItems.id))
+        .where(and(matches(stockMovements.notes), this.inSpecialtyScope(stockItems.specialtyId, scope)))
+        .orderBy(closeness(stockMovements.notes), desc(stockMovements.movedAt))
+        .limit(limit),
+    ]);
+
+    return {
+      stockItems: items,
+      users: people,
+      categories: categoryRows,
+      specialties: specialtyRows,
+      movements: movementRows.map(({ movement, stockItemName }) => ({ ...movement, stockItemName })),
+    };
+  }
+
+  async getMovementsBetween(from: Date, to: Date, scope: SpecialtyScope = 'all'): Promise<StockMovement[]> {
+    return db
+      .select()
+      .from(stockMovements)
+      .where(and(
+        gte(stockMovements.movedAt, from),
+        lte(stockMovements.movedAt, to),
+        this.forItemsInScope(stockMovements.stockItemId, scope)
+      ))
+      .orderBy(asc(stockMovements.movedAt), asc(stockMovements.id));
   }
 
-  async executeStockMovementTransaction(args: {
-    stockItemId: number;
-    quantity: number;
-    fromUserId?: number | null;
-    toUserId: number;
-    movedBy: number;
-    notes?: string;
-  }): Promise<StockMovement> {
-    const { stockItemId, quantity, fromUserId, toUserId, movedBy, notes } = args;
+  async getMovement(id: number, scope: SpecialtyScope = 'all'): Promise<StockMovement | undefined> {
+    const [movement] = await db
+      .select()
+      .from(stockMovements)
+      .where(and(eq(stockMovements.id, id), this.forItemsInScope(stockMovements.stockItemId, scope)));
+    return movement;
+  }
 
-    if (quantity <= 0) {
-      throw new Error("Movement quantity must be positive.");
+  async createMovement(movement: InsertStockMovement): Promise<StockMovement> {
+    const { lotId, ...movementData } = movement;
+    return db.transaction(async (tx) => {
+      const [newMovement] = await tx
+        .insert(stockMovements)
+        .values(movementData)
+        .returning();
+      await this.audit(tx, 'create', 'stock_movement', newMovement.id, null, newMovement);
+      return newMovement;
+    });
+  }
+
+  // Stock request operations
+  // Returns requests matching any of the given filters, or all requests without one
+  async getStockRequests(filter: { requestedBy?: number; specialtyId?: number | null } = {}): Promise<StockRequestWithItems[]> {
+    const conditions = [];
+    if (filter.requestedBy !== undefined) {
+      conditions.push(eq(stockRequests.requestedBy, filter.requestedBy));
     }
+    if (filter.specialtyId !== undefined) {
+      conditions.push(
+        filter.specialtyId === null
+          ? isNull(stockRequests.specialtyId)
+          : eq(stockRequests.specialtyId, filter.specialtyId)
+      );
+    }
+
+    const requests = await db
+      .select()
+      .from(stockRequests)
+      .where(conditions.length > 0 ? or(...conditions) : undefined)
+      .orderBy(desc(stockRequests.createdAt));
+
+    if (requests.length === 0) return [];
+
+    const items = await db
+      .select()
+      .from(stockRequestItems)
+      .where(inArray(stockRequestItems.requestId, requests.map(request => request.id)));
 
+    return requests.map(request => ({
+      ...request,
+      items: items.filter(item => item.requestId === request.id),
+    }));
+  }
+
+  async getStockRequest(id: number): Promise<StockRequestDetail | undefined> {
+    const [request] = await db.select().from(stockRequests).where(eq(stockRequests.id, id));
+    if (!request) return undefined;
+
+    const items = await db
+      .select()
+      .from(stockRequestItems)
+      .where(eq(stockRequestItems.requestId, id))
+      .orderBy(asc(stockRequestItems.id));
+    const history = await db
+      .select()
+      .from(stockRequestEvents)
+      .where(eq(stockRequestEvents.requestId, id))
+      .orderBy(asc(stockRequestEvents.changedAt), asc(stockRequestEvents.id));
+
+    return { ...request, items, history };
+  }
+
+  async createStockRequest(request: InsertStockRequest, requester: User): Promise<StockRequestWithItems> {
     return db.transaction(async (tx) => {
-      // a. Fetch the stockItem
-      const [item] = await tx
+      const [newRequest] = await tx
+        .insert(stockRequests)
+        .values({
+          requestedBy: requester.id,
+          specialtyId: requester.specialtyId,
+          notes: request.notes,
+        })
+        .returning();
+
+      const items = await tx
+        .insert(stockRequestItems)
+        .values(request.items.map(item => ({
+          requestId: newRequest.id,
+          stockItemId: item.stockItemId,
+          quantityRequested: item.quantity,
+        })))
+        .returning();
+
+      await tx.insert(stockRequestEvents).values({
+        requestId: newRequest.id,
+        status: 'pending',
+        changedBy: requester.id,
+        notes: request.notes,
+      });
+
+      await this.audit(tx, 'create', 'stock_request', newRequest.id, null, { ...newRequest, items });
+      return { ...newRequest, items };
+    });
+  }
+
+  // Approves or rejects a pending request. Approved lines are allocated to the
+  // requester in the same transaction, so a request is never marked approved
+  // without the stock having moved.
+  async reviewStockRequest(id: number, review: ReviewStockRequest, reviewerId: number): Promise<StockRequestDetail> {
+    await db.transaction(async (tx) => {
+      const [request] = await tx
         .select()
-        .from(stockItems)
-        .where(eq(stockItems.id, stockItemId));
+        .from(stockRequests)
+        .where(eq(stockRequests.id, id))
+        .for("update");
 
-      if (!item) {
-        throw new Error(`Stock item with ID ${stockItemId} not found.`);
+      if (!request) {
+        throw new Error(`Stock request with ID ${id} not found.`);
+      }
+      if (request.status !== 'pending') {
+        throw new Error(`Stock request with ID ${id} has already been ${request.status.replace('_', ' ')}.`);
       }
 
-      // b. If fromUserId is null/undefined (movement from central inventory)
-      if (fromUserId == null) {
-        // i. Check if stockItem.quantity >= quantity
-        if (item.quantity < quantity) {
-          throw new Error(
-            `Not enough stock available in central inventory for item ID ${stockItemId}. Available: ${item.quantity}, Requested: ${quantity}`
-          );
+      let status: RequestStatus = 'rejected';
+
+      if (review.decision === 'approve') {
+        if (request.requestedBy === null) {
+          throw new Error(`Stock request with ID ${id} has no requester to allocate to.`);
         }
-        // ii. Update the stockItem's quantity
-        await tx
-          .update(stockItems)
-          .set({ quantity: item.quantity - quantity })
-          .where(eq(stockItems.id, stockItemId));
-      } else {
-        // c. If fromUserId is provided (movement from a user)
-        // i. Fetch the source user's allocation
-        const [sourceAllocation] = await tx
+        const items = await tx
           .select()
-          .from(stockAllocations)
-          .where(
-            and(
-              eq(stockAllocations.userId, fromUserId),
-              eq(stockAllocations.stockItemId, stockItemId)
-            )
-          );
+          .from(stockRequestItems)
+          .where(eq(stockRequestItems.requestId, id));
+
+        const approvedById = new Map(review.items.map(item => [item.id, item.quantityApproved]));
+        for (const itemId of Array.from(approvedById.keys())) {
+          if (!items.some(item => item.id === itemId)) {
+            throw new Error(`Item ID ${itemId} is not part of stock request ${id}.`);
+          }
+        }
 
-        // ii. Check if the source allocation exists and has enough quantity
-        if (!sourceAllocation || sourceAllocation.quantity < quantity) {
-          throw new Error(
-            `Source user ID ${fromUserId} does not have enough stock of item ID ${stockItemId}. Available: ${sourceAllocation?.quantity || 0}, Requested: ${quantity}`
-          );
+        let fullyApproved = true;
+        let anyApproved = false;
+        for (const item of items) {
+          const quantityApproved = approvedById.get(item.id) ?? 0;
+          if (quantityApproved > item.quantityRequested) {
+            throw new Error(
+              `Cannot approve more than requested for item ID ${item.stockItemId}. Requested: ${item.quantityRequested}, Approved: ${quantityApproved}`
+            );
+          }
+
+          let movementId: number | null = null;
+          if (quantityApproved > 0) {
+            const movement = await this.recordMovement(tx, {
+              type: 'allocation',
+              stockItemId: item.stockItemId,
+              toUserId: request.requestedBy,
+              quantity: quantityApproved,
+              movedBy: reviewerId,
+              notes: `Stock request #${id}`,
+            });
+            movementId = movement.id;
+            anyApproved = true;
+          }
+          if (quantityApproved < item.quantityRequested) {
+            fullyApproved = false;
+          }
+
+          await tx
+            .update(stockRequestItems)
+            .set({ quantityApproved, movementId })
+            .where(eq(stockRequestItems.id, item.id));
         }
-        // iii. Update the source user's allocation
+
+        if (!anyApproved) {
+          throw new Error("Approve at least one item, or reject the request instead.");
+        }
+        status = fullyApproved ? 'approved' : 'partially_approved';
+      } else {
         await tx
-          .update(stockAllocations)
-          .set({ quantity: sourceAllocation.quantity - quantity })
-          .where(eq(stockAllocations.id, sourceAllocation.id));
+          .update(stockRequestItems)
+          .set({ quantityApproved: 0 })
+          .where(eq(stockRequestItems.requestId, id));
       }
 
-      // d. Update/Create Target User's Allocation
-      // i. Fetch the target user's existing allocation
-      const [targetAllocation] = await tx
+      const reviewedAt = new Date();
+      const [reviewed] = await tx
+        .update(stockRequests)
+        .set({ status, reviewedBy: reviewerId, reviewedAt, reviewNotes: review.notes })
+        .where(eq(stockRequests.id, id))
+        .returning();
+      await this.audit(tx, 'update', 'stock_request', id, request, reviewed);
+
+      await tx.insert(stockRequestEvents).values({
+        requestId: id,
+        status,
+        changedBy: reviewerId,
+        notes: review.notes,
+        changedAt: reviewedAt,
+      });
+    });
+
+    return (await this.getStockRequest(id))!;
+  }
+
+  async cancelStockRequest(id: number, userId: number): Promise<StockRequestDetail> {
+    await db.transaction(async (tx) => {
+      const [request] = await tx
         .select()
-        .from(stockAllocations)
-        .where(
-          and(
-            eq(stockAllocations.userId, toUserId),
-            eq(stockAllocations.stockItemId, stockItemId)
-          )
-        );
+        .from(stockRequests)
+        .where(eq(stockRequests.id, id))
+        .for("update");
 
-      if (targetAllocation) {
-        // ii. If it exists, update it
-        await tx
-          .update(stockAllocations)
-          .set({ quantity: targetAllocation.quantity + quantity })
-          .where(eq(stockAllocations.id, targetAllocation.id));
-      } else {
-        // iii. If it doesn't exist, create it
-        await tx.insert(stockAllocations).values({
-          userId: toUserId,
-          stockItemId: stockItemId,
-          quantity: quantity,
-          allocatedBy: movedBy, // Assuming movedBy is the one allocating in this context
-          allocatedAt: new Date(),
-        });
+      if (!request) {
+        throw new Error(`Stock request with ID ${id} not found.`);
+      }
+      if (request.status !== 'pending') {
+        throw new Error(`Only pending requests can be cancelled.`);
       }
 
-      // e. Create the stock movement record
-      const [newMovement] = await tx
-        .insert(stockMovements)
-        .values({
-          stockItemId,
-          fromUserId: fromUserId,
-          toUserId,
-          quantity,
-          movedBy,
-          notes: notes,
-          movedAt: new Date(),
-        })
+      const [cancelled] = await tx
+        .update(stockRequests)
+        .set({ status: 'cancelled' })
+        .where(eq(stockRequests.id, id))
         .returning();
-      
-      return newMovement;
+      await this.audit(tx, 'update', 'stock_request', id, request, cancelled);
+
+      await tx.insert(stockRequestEvents).values({
+        requestId: id,
+        status: 'cancelled',
+        changedBy: userId,
+      });
     });
+
+    return (await this.getStockRequest(id))!;
+  }
+
+  // Audit log operations
+  async getAuditEvents(query: AuditQuery, scope: SpecialtyScope = 'all'): Promise<AuditEvent[]> {
+    const conditions = [this.auditEventsInScope(scope)];
+    if (query.entityType) conditions.push(eq(auditEvents.entityType, query.entityType));
+    if (query.entityId) conditions.push(eq(auditEvents.entityId, query.entityId));
+    if (query.actorId) conditions.push(eq(auditEvents.actorId, query.actorId));
+    if (query.action) conditions.push(eq(auditEvents.action, query.action));
+    if (query.from) conditions.push(gte(auditEvents.createdAt, query.from));
+    if (query.to) conditions.push(lte(auditEvents.createdAt, query.to));
+
+    return db
+      .select()
+      .from(auditEvents)
+      .where(and(...conditions))
+      .orderBy(desc(auditEvents.createdAt), desc(auditEvents.id))
+      .limit(query.limit);
+  }
+
+  // Sign-in activity. Login events are a log of their own rather than audit
+  // events, so recording them isn't audited.
+  async createLoginEvent(event: InsertLoginEvent): Promise<LoginEvent> {
+    const [created] = await db.insert(loginEvents).values(event).returning();
+    return created;
+  }
+
+  private loginEventConditions(query: LoginEventQuery) {
+    const conditions = [];
+    if (query.userId) conditions.push(eq(loginEvents.userId, query.userId));
+    if (query.type) conditions.push(eq(loginEvents.type, query.type));
+    return and(...conditions);
+  }
+
+  async findLoginEvents(query: LoginEventQuery): Promise<LoginEvent[]> {
+    return db
+      .select()
+      .from(loginEvents)
+      .where(this.loginEventConditions(query))
+      .orderBy(desc(loginEvents.createdAt), desc(loginEvents.id))
+      .limit(query.pageSize)
+      .offset((query.page - 1) * query.pageSize);
+  }
+
+  async countLoginEvents(query: LoginEventQuery): Promise<number> {
+    const [result] = await db
+      .select({ count: sql<number>`count(*)`.mapWith(Number) })
+      .from(loginEvents)
+      .where(this.loginEventConditions(query));
+    return result.count;
+  }
+
+  // Counts a failed sign-in, returning how many there have been in a row
+  async incrementFailedLogins(userId: number): Promise<number> {
+    const [updated] = await db
+      .update(users)
+      .set({ failedLoginCount: sql`${users.failedLoginCount} + 1` })
+      .where(eq(users.id, userId))
+      .returning({ failedLoginCount: users.failedLoginCount });
+    return updated?.failedLoginCount ?? 0;
+  }
+
+  async lockUser(userId: number, until: Date): Promise<void> {
+    await db.update(users).set({ lockedUntil: until }).where(eq(users.id, userId));
+  }
+
+  async resetFailedLogins(userId: number): Promise<void> {
+    await db
+      .update(users)
+      .set({ failedLoginCount: 0, lockedUntil: null })
+      .where(and(eq(users.id, userId), or(gt(users.failedLoginCount, 0), isNotNull(users.lockedUntil))));
+  }
+
+  // Users with the email address, ignoring case. Addresses aren't unique, so
+  // there may be several.
+  async getUsersByEmail(email: string): Promise<User[]> {
+    return db.select().from(users).where(sql`lower(${users.email}) = lower(${email})`);
+  }
+
+  // Password reset links. A new link replaces any the user hasn't used.
+  async createPasswordResetToken(userId: number, tokenHash: string, expiresAt: Date): Promise<void> {
+    await db.transaction(async (tx) => {
+      await tx
+        .delete(passwordResetTokens)
+        .where(and(eq(passwordResetTokens.userId, userId), isNull(passwordResetTokens.usedAt)));
+      await tx.insert(passwordResetTokens).values({ userId, tokenHash, expiresAt });
+    });
+  }
+
+  // Sets the password of the link's user and uses the link up, which also
+  // clears any lock from failed sign-ins. Undefined if the link is unknown,
+  // used or expired.
+  async resetPasswordWithToken(tokenHash: string, passwordHash: string): Promise<User | undefined> {
+    return db.transaction(async (tx) => {
+      const [token] = await tx
+        .update(passwordResetTokens)
+        .set({ usedAt: new Date() })
+        .where(and(
+          eq(passwordResetTokens.tokenHash, tokenHash),
+          isNull(passwordResetTokens.usedAt),
+          gt(passwordResetTokens.expiresAt, new Date())
+        ))
+        .returning();
+      if (!token) return undefined;
+
+      const [existing] = await tx.select().from(users).where(eq(users.id, token.userId));
+      if (!existing) return undefined;
+
+      const [updated] = await tx
+        .update(users)
+        .set({ password: passwordHash, passwordChangedAt: new Date(), failedLoginCount: 0, lockedUntil: null })
+        .where(eq(users.id, token.userId))
+        .returning();
+      await this.audit(tx, 'update', 'user', updated.id, existing, updated);
+      return updated;
+    });
+  }
+
+  // Invitation operations
+  async createInvitation(invitation: typeof invitations.$inferInsert): Promise<InvitationSummary> {
+    return db.transaction(async (tx) => {
+      const [created] = await tx.insert(invitations).values(invitation).returning();
+      const summary = toInvitationSummary(created);
+      await this.audit(tx, 'create', 'invitation', created.id, null, summary);
+      return summary;
+    });
+  }
+
+  // Invitations that can still be accepted, newest first
+  async getPendingInvitations(): Promise<InvitationSummary[]> {
+    const pending = await db
+      .select()
+      .from(invitations)
+      .where(and(isNull(invitations.acceptedAt), isNull(invitations.revokedAt), gt(invitations.expiresAt, new Date())))
+      .orderBy(desc(invitations.createdAt), desc(invitations.id));
+    return pending.map(toInvitationSummary);
+  }
+
+  async getInvitationByTokenHash(tokenHash: string): Promise<Invitation | undefined> {
+    const [invitation] = await db.select().from(invitations).where(eq(invitations.tokenHash, tokenHash));
+    return invitation;
+  }
+
+  async revokeInvitation(id: number): Promise<InvitationSummary | undefined> {
+    return db.transaction(async (tx) => {
+      const [existing] = await tx.select().from(invitations).where(eq(invitations.id, id));
+      if (!existing) return undefined;
+      if (existing.revokedAt || existing.acceptedAt) return toInvitationSummary(existing);
+
+      const [revoked] = await tx
+        .update(invitations)
+        .set({ revokedAt: new Date() })
+        .where(eq(invitations.id, id))
+        .returning();
+      const summary = toInvitationSummary(revoked);
+      await this.audit(tx, 'update', 'invitation', id, toInvitationSummary(existing), summary);
+      return summary;
+    });
+  }
+
+  // Makes the invited user's account and uses the invitation up. Undefined if
+  // the invitation is unknown, used, revoked or expired.
+  async acceptInvitation(tokenHash: string, user: InsertUser): Promise<User | undefined> {
+    return db.transaction(async (tx) => {
+      const [accepted] = await tx
+        .update(invitations)
+        .set({ acceptedAt: new Date() })
+        .where(and(
+          eq(invitations.tokenHash, tokenHash),
+          isNull(invitations.acceptedAt),
+          isNull(invitations.revokedAt),
+          gt(invitations.expiresAt, new Date())
+        ))
+        .returning();
+      if (!accepted) return undefined;
+
+      const [newUser] = await tx.insert(users).values(user).returning();
+      await this.audit(tx, 'create', 'user', newUser.id, null, newUser);
+      await tx.update(invitations).set({ userId: newUser.id }).where(eq(invitations.id, accepted.id));
+      return newUser;
+    });
+  }
+
+  // Notification operations. Notifications are derived from audited changes,
+  // so they are not audited themselves.
+  async getNotifications(userId: number, limit = 50): Promise<Notification[]> {
+    return db
+      .select()
+      .from(notifications)
+      .where(eq(notifications.userId, userId))
+      .orderBy(desc(notifications.createdAt), desc(notifications.id))
+      .limit(limit);
+  }
+
+  async getUnreadNotificationCount(userId: number): Promise<number> {
+    const [result] = await db
+      .select({ count: sql<number>`count(*)`.mapWith(Number) })
+      .from(notifications)
+      .where(and(eq(notifications.userId, userId), isNull(notifications.readAt)));
+    return result.count;
+  }
+
+  // Notifications whose user already has one with the same dedupe key are skipped
+  async createNotifications(rows: InsertNotification[]): Promise<Notification[]> {
+    if (rows.length === 0) return [];
+    return db
+      .insert(notifications)
+      .values(rows)
+      .onConflictDoNothing({ target: [notifications.userId, notifications.dedupeKey] })
+      .returning();
+  }
+
+  async markNotificationRead(id: number, userId: number): Promise<Notification | undefined> {
+    const [notification] = await db
+      .update(notifications)
+      .set({ readAt: new Date() })
+      .where(and(eq(notifications.id, id), eq(notifications.userId, userId)))
+      .returning();
+    return notification;
+  }
+
+  async markAllNotificationsRead(userId: number): Promise<number> {
+    const result = await db
+      .update(notifications)
+      .set({ readAt: new Date() })
+      .where(and(eq(notifications.userId, userId), isNull(notifications.readAt)))
+      .returning({ id: notifications.id });
+    return result.length;
+  }
+
+  // Removes notifications about a condition that no longer holds, so that it is
+  // reported again if it comes back
+  async clearNotifications(dedupeKeys: string[]): Promise<void> {
+    if (dedupeKeys.length === 0) return;
+    await db.delete(notifications).where(inArray(notifications.dedupeKey, dedupeKeys));
+  }
+
+  // User preference operations
+  async getUserPreferences(userId: number): Promise<UserPreferences> {
+    const [row] = await db.select().from(userPreferences).where(eq(userPreferences.userId, userId));
+    return row ? toUserPreferences(row) : { ...DEFAULT_USER_PREFERENCES };
+  }
+
+  // Preferences of every user who has saved any; everyone else has the defaults
+  async getAllUserPreferences(): Promise<Map<number, UserPreferences>> {
+    const rows = await db.select().from(userPreferences);
+    return new Map(rows.map(row => [row.userId, toUserPreferences(row)]));
+  }
+
+  async updateUserPreferences(userId: number, preferences: UserPreferences): Promise<UserPreferences> {
+    const [row] = await db
+      .insert(userPreferences)
+      .values({ ...preferences, userId })
+      .onConflictDoUpdate({
+        target: userPreferences.userId,
+        set: { ...preferences, updatedAt: new Date() },
+      })
+      .returning();
+    return toUserPreferences(row);
+  }
+
+  // Two-factor authentication
+  async getUserTwoFactor(userId: number): Promise<UserTwoFactor | undefined> {
+    const [row] = await db.select().from(userTwoFactor).where(eq(userTwoFactor.userId, userId));
+    return row;
+  }
+
+  // Starts enrollment with a new secret, replacing any unconfirmed one
+  async startTwoFactorSetup(userId: number, secret: string): Promise<UserTwoFactor> {
+    const [row] = await db
+      .insert(userTwoFactor)
+      .values({ userId, secret })
+      .onConflictDoUpdate({
+        target: userTwoFactor.userId,
+        set: { secret, recoveryCodeHashes: [], lastUsedStep: null, enabledAt: null, createdAt: new Date() },
+      })
+      .returning();
+    return row;
+  }
+
+  async enableTwoFactor(userId: number, step: number, recoveryCodeHashes: string[]): Promise<UserTwoFactor | undefined> {
+    return db.transaction(async (tx) => {
+      const [existing] = await tx.select().from(userTwoFactor).where(eq(userTwoFactor.userId, userId));
+      if (!existing) return undefined;
+
+      const [enabled] = await tx
+        .update(userTwoFactor)
+        .set({ enabledAt: new Date(), lastUsedStep: step, recoveryCodeHashes })
+        .where(eq(userTwoFactor.userId, userId))
+        .returning();
+      await this.audit(tx, 'update', 'user_two_factor', userId, existing, enabled);
+      return enabled;
+    });
+  }
+
+  // Records a code's time step as used. False if that step or a later one
+  // has been used already.
+  async useTwoFactorStep(userId: number, step: number): Promise<boolean> {
+    const updated = await db
+      .update(userTwoFactor)
+      .set({ lastUsedStep: step })
+      .where(and(
+        eq(userTwoFactor.userId, userId),
+        or(isNull(userTwoFactor.lastUsedStep), sql`${userTwoFactor.lastUsedStep} < ${step}`)
+      ))
+      .returning({ userId: userTwoFactor.userId });
+    return updated.length > 0;
+  }
+
+  // Crosses a recovery code off. False if it isn't one of the user's unused codes.
+  async useRecoveryCode(userId: number, codeHash: string): Promise<boolean> {
+    const updated = await db
+      .update(userTwoFactor)
+      .set({ recoveryCodeHashes: sql`${userTwoFactor.recoveryCodeHashes} - ${codeHash}::text` })
+      .where(and(
+        eq(userTwoFactor.userId, userId),
+        sql`${userTwoFactor.recoveryCodeHashes} @> ${JSON.stringify([codeHash])}::jsonb`
+      ))
+      .returning({ userId: userTwoFactor.userId });
+    return updated.length > 0;
+  }
+
+  async replaceRecoveryCodes(userId: number, recoveryCodeHashes: string[]): Promise<void> {
+    await db.transaction(async (tx) => {
+      const [existing] = await tx.select().from(userTwoFactor).where(eq(userTwoFactor.userId, userId));
+      if (!existing) return;
+
+      const [updated] = await tx
+        .update(userTwoFactor)
+        .set({ recoveryCodeHashes })
+        .where(eq(userTwoFactor.userId, userId))
+        .returning();
+      await this.audit(tx, 'update', 'user_two_factor', userId, existing, updated);
+    });
+  }
+
+  async disableTwoFactor(userId: number): Promise<boolean> {
+    return db.transaction(async (tx) => {
+      const [deleted] = await tx.delete(userTwoFactor).where(eq(userTwoFactor.userId, userId)).returning();
+      if (!deleted) return false;
+
+      await this.audit(tx, 'delete', 'user_two_factor', userId, deleted, null);
+      return true;
+    });
+  }
+
+  // Sessions are kept by connect-pg-simple in its own "session" table, which
+  // isn't part of the Drizzle schema
+  async getUserSessions(userId: number): Promise<StoredSession[]> {
+    const result = await db.execute<StoredSession>(sql`
+      select sid, sess, expire from "session"
+      where sess->'passport'->>'user' = ${String(userId)} and expire > now()
+      order by expire desc
+    `);
+    return result.rows.map(row => ({ ...row, expire: new Date(row.expire) }));
+  }
+
+  // Ends sessions of the user, all of them unless the session ids are given
+  async deleteUserSessions(userId: number, sids?: string[]): Promise<number> {
+    if (sids && sids.length === 0) return 0;
+    const result = await db.execute(sql`
+      delete from "session"
+      where sess->'passport'->>'user' = ${String(userId)}
+      ${sids ? sql`and sid in (${sql.join(sids.map(sid => sql`${sid}`), sql`, `)})` : sql``}
+    `);
+    return result.rowCount ?? 0;
+  }
+
+  // Report share operations
+  async createReportShare(
+    share: Omit<typeof reportShares.$inferInsert, 'id' | 'viewCount' | 'lastViewedAt' | 'revokedAt' | 'createdAt'>
+  ): Promise<ReportShareSummary> {
+    return db.transaction(async (tx) => {
+      const [created] = await tx.insert(reportShares).values(share).returning();
+      const summary = toReportShareSummary(created);
+      await this.audit(tx, 'create', 'report_share', created.id, null, summary);
+      return summary;
+    });
+  }
+
+  async getReportShareByTokenHash(tokenHash: string): Promise<ReportShare | undefined> {
+    const [share] = await db.select().from(reportShares).where(eq(reportShares.tokenHash, tokenHash));
+    return share;
+  }
+
+  async getReportShareSummaries(activeOnly = true): Promise<ReportShareSummary[]> {
+    const shares = await db
+      .select()
+      .from(reportShares)
+      .where(activeOnly ? and(isNull(reportShares.revokedAt), gt(reportShares.expiresAt, new Date())) : undefined)
+      .orderBy(desc(reportShares.createdAt));
+    return shares.map(toReportShareSummary);
+  }
+
+  async getReportShare(id: number): Promise<ReportShare | undefined> {
+    const [share] = await db.select().from(reportShares).where(eq(reportShares.id, id));
+    return share;
+  }
+
+  async recordReportShareView(id: number): Promise<void> {
+    await db
+      .update(reportShares)
+      .set({ viewCount: sql`${reportShares.viewCount} + 1`, lastViewedAt: new Date() })
+      .where(eq(reportShares.id, id));
+  }
+
+  async revokeReportShare(id: number): Promise<ReportShareSummary | undefined> {
+    return db.transaction(async (tx) => {
+      const [existing] = await tx.select().from(reportShares).where(eq(reportShares.id, id));
+      if (!existing) return undefined;
+      if (existing.revokedAt) return toReportShareSummary(existing);
+
+      const [revoked] = await tx
+        .update(reportShares)
+        .set({ revokedAt: new Date() })
+        .where(eq(reportShares.id, id))
+        .returning();
+      await this.audit(tx, 'update', 'report_share', id, toReportShareSummary(existing), toReportShareSummary(revoked));
+      return toReportShareSummary(revoked);
+    });
+  }
+
+  // Mail outbox operations. Mail is claimed by pushing its next attempt past a
+  // lease before sending, so it is retried if the sender dies mid-delivery and
+  // never picked up by two senders at once. Sensitive mail has its body blanked
+  // once it is sent or given up on, so the links in it aren't kept.
+  async queueMail(mail: InsertMail): Promise<OutboxMail> {
+    const [queued] = await db.insert(mailOutbox).values(mail).returning();
+    return queued;
+  }
+
+  async claimDueMail(limit: number, leaseMs: number): Promise<OutboxMail[]> {
+    const now = new Date();
+    return db.transaction(async (tx) => {
+      const due = await tx
+        .select({ id: mailOutbox.id })
+        .from(mailOutbox)
+        .where(and(eq(mailOutbox.status, 'pending'), lte(mailOutbox.nextAttemptAt, now)))
+        .orderBy(asc(mailOutbox.nextAttemptAt))
+        .limit(limit)
+        .for('update', { skipLocked: true });
+      if (due.length === 0) return [];
+
+      return tx
+        .update(mailOutbox)
+        .set({
+          attempts: sql`${mailOutbox.attempts} + 1`,
+          nextAttemptAt: new Date(now.getTime() + leaseMs),
+        })
+        .where(inArray(mailOutbox.id, due.map(row => row.id)))
+        .returning();
+    });
+  }
+
+  async markMailSent(id: number): Promise<void> {
+    await db
+      .update(mailOutbox)
+      .set({ status: 'sent', sentAt: new Date(), lastError: null, ...redactSensitiveMail })
+      .where(eq(mailOutbox.id, id));
+  }
+
+  // Leaves the mail pending until the retry time, or fails it for good when
+  // there is none
+  async markMailFailed(id: number, error: string, retryAt: Date | null): Promise<void> {
+    await db
+      .update(mailOutbox)
+      .set(retryAt
+        ? { lastError: error, nextAttemptAt: retryAt }
+        : { lastError: error, status: 'failed', ...redactSensitiveMail })
+      .where(eq(mailOutbox.id, id));
+  }
+
+  async getOutboxMail(limit = 100): Promise<OutboxMail[]> {
+    return db
+      .select()
+      .from(mailOutbox)
+      .orderBy(desc(mailOutbox.createdAt), desc(mailOutbox.id))
+      .limit(limit);
+  }
+
+  // Report subscription operations. A due subscription is claimed by moving
+  // its next run to the following scheduled time before the report is built,
+  // so each delivery goes out once even with several servers.
+  // Everyone's subscriptions, or only those the user made
+  async getReportSubscriptions(createdBy?: number): Promise<ReportSubscription[]> {
+    return db
+      .select()
+      .from(reportSubscriptions)
+      .where(createdBy !== undefined ? eq(reportSubscriptions.createdBy, createdBy) : undefined)
+      .orderBy(asc(reportSubscriptions.name), asc(reportSubscriptions.id));
+  }
+
+  async getReportSubscription(id: number): Promise<ReportSubscription | undefined> {
+    const [subscription] = await db.select().from(reportSubscriptions).where(eq(reportSubscriptions.id, id));
+    return subscription;
+  }
+
+  async createReportSubscription(
+    subscription: InsertReportSubscription & { createdBy: number }
+  ): Promise<ReportSubscription> {
+    return db.transaction(async (tx) => {
+      const [created] = await tx
+        .insert(reportSubscriptions)
+        .values({ ...subscription, nextRunAt: nextCronRun(subscription.schedule, new Date()) })
+        .returning();
+      await this.audit(tx, 'create', 'report_subscription', created.id, null, created);
+      return created;
+    });
+  }
+
+  async updateReportSubscription(
+    id: number,
+    subscriptionData: Partial<InsertReportSubscription>
+  ): Promise<ReportSubscription | undefined> {
+    return db.transaction(async (tx) => {
+      const [existing] = await tx.select().from(reportSubscriptions).where(eq(reportSubscriptions.id, id));
+      if (!existing) return undefined;
+
+      // A new schedule, or resuming a paused subscription, starts from now
+      const reschedule = (subscriptionData.schedule !== undefined && subscriptionData.schedule !== existing.schedule) ||
+        (subscriptionData.active === true && !existing.active);
+      const [updated] = await tx
+        .update(reportSubscriptions)
+        .set({
+          ...subscriptionData,
+          ...(reschedule && { nextRunAt: nextCronRun(subscriptionData.schedule ?? existing.schedule, new Date()) }),
+        })
+        .where(eq(reportSubscriptions.id, id))
+        .returning();
+      await this.audit(tx, 'update', 'report_subscription', id, existing, updated);
+      return updated;
+    });
+  }
+
+  async deleteReportSubscription(id: number): Promise<boolean> {
+    return db.transaction(async (tx) => {
+      const [deleted] = await tx.delete(reportSubscriptions).where(eq(reportSubscriptions.id, id)).returning();
+      if (!deleted) return false;
+
+      await this.audit(tx, 'delete', 'report_subscription', id, deleted, null);
+      return true;
+    });
+  }
+
+  async claimDueReportSubscriptions(): Promise<ReportSubscription[]> {
+    const now = new Date();
+    return db.transaction(async (tx) => {
+      const due = await tx
+        .select()
+        .from(reportSubscriptions)
+        .where(and(eq(reportSubscriptions.active, true), lte(reportSubscriptions.nextRunAt, now)))
+        .orderBy(asc(reportSubscriptions.nextRunAt))
+        .for('update', { skipLocked: true });
+
+      for (const subscription of due) {
+        await tx
+          .update(reportSubscriptions)
+          .set({ nextRunAt: nextCronRun(subscription.schedule, now) })
+          .where(eq(reportSubscriptions.id, subscription.id));
+      }
+      return due;
+    });
+  }
+
+  async recordReportSubscriptionRun(id: number, error?: string): Promise<void> {
+    await db
+      .update(reportSubscriptions)
+      .set({ lastRunAt: new Date(), lastError: error ?? null })
+      .where(eq(reportSubscriptions.id, id));
+  }
+
+  async archiveReport(archive: Omit<typeof reportArchives.$inferInsert, 'id' | 'generatedAt'>): Promise<ReportArchiveSummary> {
+    const { content, ...summaryColumns } = getTableColumns(reportArchives);
+    const [archived] = await db.insert(reportArchives).values(archive).returning(summaryColumns);
+    return archived;
+  }
+
+  // Archives of every subscription, or only of those the owner made
+  async getReportArchives(subscriptionId?: number, ownerId?: number, limit = 50): Promise<ReportArchiveSummary[]> {
+    const { content, ...summaryColumns } = getTableColumns(reportArchives);
+    const conditions = [];
+    if (subscriptionId !== undefined) conditions.push(eq(reportArchives.subscriptionId, subscriptionId));
+    if (ownerId !== undefined) {
+      conditions.push(inArray(
+        reportArchives.subscriptionId,
+        db.select({ id: reportSubscriptions.id }).from(reportSubscriptions).where(eq(reportSubscriptions.createdBy, ownerId))
+      ));
+    }
+    return db
+      .select(summaryColumns)
+      .from(reportArchives)
+      .where(and(...conditions))
+      .orderBy(desc(reportArchives.generatedAt), desc(reportArchives.id))
+      .limit(limit);
+  }
+
+  async getReportArchive(id: number): Promise<ReportArchive | undefined> {
+    const [archive] = await db.select().from(reportArchives).where(eq(reportArchives.id, id));
+    return archive;
+  }
+
+  // Backup and restore. Every table is read and replaced in foreign key order.
+  // Rows are exchanged as plain JSON, so timestamps arrive as ISO strings.
+  async getBackupTables(): Promise<Record<string, Record<string, unknown>[]>> {
+    const tables: Record<string, Record<string, unknown>[]> = {};
+    for (const [name, table] of Object.entries(BACKUP_TABLES)) {
+      const primaryKey = Object.values(getTableColumns(table)).filter((column) => column.primary);
+      tables[name] = await db.select().from(table).orderBy(...primaryKey.map((column) => asc(column)));
+    }
+    return tables;
+  }
+
+  // A fingerprint of every backed-up table's columns. Backups only restore
+  // into a database whose fingerprint matches the one they were taken from.
+  getBackupSchemaVersion(): string {
+    const description = Object.entries(BACKUP_TABLES).map(([name, table]) => {
+      const columns = Object.entries(getTableColumns(table))
+        .map(([key, column]) => `${key}:${column.getSQLType()}:${column.notNull}`)
+        .sort();
+      return `${name}(${columns.join(",")})`;
+    });
+    return createHash("sha256").update(description.join(";")).digest("hex").slice(0, 16);
+  }
+
+  getBackupTableNames(): string[] {
+    return Object.keys(BACKUP_TABLES);
+  }
+
+  // The primary key columns of a backed-up table, by property name
+  getBackupPrimaryKey(name: string): string[] {
+    const table = BACKUP_TABLES[name as BackupTableName];
+    if (!table) throw new Error(`Unknown backup table: ${name}`);
+    return Object.entries(getTableColumns(table))
+      .filter(([, column]) => column.primary)
+      .map(([key]) => key);
+  }
+
+  // Replaces the contents of every table with the backup's in one transaction.
+  // The audit log is append-only, so its rows are merged in rather than replaced.
+  // Two-factor enrolments aren't in backups; those of users the backup still
+  // has are kept.
+  async restoreBackupTables(
+    tables: Record<string, Record<string, unknown>[]>,
+    summary: Record<string, unknown>
+  ): Promise<void> {
+    const names = Object.keys(BACKUP_TABLES) as BackupTableName[];
+    const restoredUserIds = new Set((tables.users ?? []).map((row) => row.id));
+
+    await db.transaction(async (tx) => {
+      const enrolments = (await tx.select().from(userTwoFactor))
+        .filter((enrolment) => restoredUserIds.has(enrolment.userId));
+
+      for (const name of [...names].reverse()) {
+        if (name === "auditEvents") continue;
+        await tx.delete(BACKUP_TABLES[name]);
+      }
+
+      for (const name of names) {
+        const table = BACKUP_TABLES[name];
+        const columns = Object.entries(getTableColumns(table));
+        await this.insertRestoredRows(tx, table, tables[name] ?? [], name === "auditEvents");
+
+        // Serial ids carry on from the highest restored one
+        for (const [, column] of columns) {
+          if (column.columnType !== "PgSerial") continue;
+          await tx.execute(sql`
+            select setval(
+              pg_get_serial_sequence(${getTableName(table)}, ${column.name}),
+              coalesce((select max(${column}) from ${table}), 0) + 1,
+              false
+            )
+          `);
+        }
+      }
+
+      if (enrolments.length > 0) {
+        await tx.insert(userTwoFactor).values(enrolments);
+      }
+
+      await this.audit(tx, 'update', 'system', 'restore', null, summary);
+    });
+  }
+
+  // Scheduled job operations. A job is claimed by moving its next run forward
+  // before it starts, so a restart or a second server process won't run it
+  // again before it is next due.
+  async getScheduledJobs(): Promise<ScheduledJob[]> {
+    return db.select().from(scheduledJobs).orderBy(asc(scheduledJobs.name));
+  }
+
+  async claimDueJob(name: string, intervalMs: number): Promise<ScheduledJob | undefined> {
+    const now = new Date();
+    await db.insert(scheduledJobs).values({ name, nextRunAt: now }).onConflictDoNothing();
+
+    const [job] = await db
+      .update(scheduledJobs)
+      .set({ lastStartedAt: now, nextRunAt: new Date(now.getTime() + intervalMs) })
+      .where(and(eq(scheduledJobs.name, name), lte(scheduledJobs.nextRunAt, now)))
+      .returning();
+    return job;
+  }
+
+  async finishJob(name: string, startedAt: Date, error?: string): Promise<void> {
+    const finishedAt = new Date();
+    await db
+      .update(scheduledJobs)
+      .set({
+        lastFinishedAt: finishedAt,
+        lastStatus: error === undefined ? 'succeeded' : 'failed',
+        lastError: error ?? null,
+        lastDurationMs: finishedAt.getTime() - startedAt.getTime(),
+      })
+      .where(eq(scheduledJobs.name, name));
+  }
+
+  // Permission check
+  async hasPermission(userId: number, permission: keyof typeof ROLE_PERMISSIONS.ceo): Promise<boolean> {
+    const user = await this.getUser(userId);
+    if (!user) return false;
+
+    const role = user.role as RoleType;
+    return ROLE_PERMISSIONS[role][permission] === true;
+  }
+
+  async executeStockMovementTransaction(args: MovementArgs): Promise<StockMovement> {
+    if (args.quantity <= 0) {
+      throw new Error("Movement quantity must be positive.");
+    }
+
+    return db.transaction((tx) => this.recordMovement(tx, args));
+  }
+
+  // Allocates every non-zero cell of an item x recipient matrix in one
+  // transaction, so a failing leg leaves no part of the distribution behind
+  async executeBatchMovementTransaction(
+    batch: BatchMovement,
+    movedBy: number
+  ): Promise<{ batch: MovementBatch; movements: StockMovement[] }> {
+    return db.transaction(async (tx) => {
+      const [newBatch] = await tx
+        .insert(movementBatches)
+        .values({ notes: batch.notes, createdBy: movedBy })
+        .returning();
+      await this.audit(tx, 'create', 'movement_batch', newBatch.id, null, { ...newBatch, ...batch });
+
+      const movements: StockMovement[] = [];
+      for (const [i, stockItemId] of batch.stockItemIds.entries()) {
+        for (const [j, toUserId] of batch.toUserIds.entries()) {
+          const quantity = batch.quantities[i][j];
+          if (quantity === 0) continue;
+
+          movements.push(await this.recordMovement(tx, {
+            type: 'allocation',
+            stockItemId,
+            toUserId,
+            quantity,
+            movedBy,
+            notes: batch.notes,
+            batchId: newBatch.id,
+          }));
+        }
+      }
+
+      return { batch: newBatch, movements };
+    });
+  }
+
+  // Moves the stock and writes the movement record within the caller's transaction
+  private async recordMovement(tx: Transaction, args: MovementArgs): Promise<StockMovement> {
+    const { type = 'allocation', stockItemId, quantity, fromUserId, toUserId, lotId, movedBy, reason, notes, batchId } = args;
+
+    // a. Fetch the stockItem
+    const [item] = await tx
+      .select()
+      .from(stockItems)
+      .where(eq(stockItems.id, stockItemId));
+
+    if (!item) {
+      throw new Error(`Stock item with ID ${stockItemId} not found.`);
+    }
+
+    let lotChanges: { lotId: number; quantity: number }[] = [];
+
+    // b. Take the stock out of its source
+    switch (type) {
+      case 'allocation':
+      case 'adjustment_out':
+        lotChanges = await this.takeFromCentral(tx, item, quantity, lotId);
+        break;
+      case 'write_off':
+        if (fromUserId == null) {
+          lotChanges = await this.takeFromCentral(tx, item, quantity, lotId);
+        } else {
+          await this.takeFromAllocation(tx, fromUserId, stockItemId, quantity);
+          lotChanges = await this.traceHeldLots(tx, stockItemId, fromUserId, quantity, false);
+        }
+        break;
+      case 'return':
+        await this.takeFromAllocation(tx, fromUserId!, stockItemId, quantity);
+        break;
+      case 'transfer':
+        // The lots go with the stock, earliest expiry first, so that a later
+        // return by the recipient can be traced back to them
+        await this.takeFromAllocation(tx, fromUserId!, stockItemId, quantity);
+        lotChanges = await this.traceHeldLots(tx, stockItemId, fromUserId!, quantity, false);
+        break;
+      case 'adjustment_in':
+        break;
+    }
+
+    // c. Put the stock into its destination
+    switch (type) {
+      case 'allocation':
+      case 'transfer':
+        await this.addToAllocation(tx, toUserId!, stockItemId, quantity, movedBy);
+        break;
+      case 'return':
+        lotChanges = await this.returnToLots(tx, item, fromUserId!, quantity);
+        break;
+      case 'adjustment_in':
+        lotChanges = await this.addToCentral(tx, item, quantity, lotId);
+        break;
+      case 'adjustment_out':
+      case 'write_off':
+        // Stock leaves the system
+        break;
+    }
+
+    // d. Create the stock movement record
+    const [newMovement] = await tx
+      .insert(stockMovements)
+      .values({
+        type,
+        stockItemId,
+        fromUserId: fromUserId ?? null,
+        toUserId: toUserId ?? null,
+        quantity,
+        movedBy,
+        reason: reason,
+        notes: notes,
+        batchId: batchId ?? null,
+        movedAt: new Date(),
+      })
+      .returning();
+
+    // e. Record which lots the movement drew from or added to
+    if (lotChanges.length > 0) {
+      await tx.insert(stockMovementLots).values(
+        lotChanges.map(lot => ({ movementId: newMovement.id, ...lot }))
+      );
+    }
+
+    await this.audit(tx, 'create', 'stock_movement', newMovement.id, null, { ...newMovement, lots: lotChanges });
+    await this.auditItemChange(tx, item);
+    
+    return newMovement;
+  }
+
+  // Voids a movement by recording a compensating reversal that puts central stock
+  // back into the exact lots it came from and restores both users' allocations.
+  // Refuses when the recipient has already moved the stock on.
+  async voidMovement(movementId: number, movedBy: number, reason: string): Promise<StockMovement> {
+    return db.transaction(async (tx) => {
+      const [original] = await tx
+        .select()
+        .from(stockMovements)
+        .where(eq(stockMovements.id, movementId))
+        .for("update");
+
+      if (!original) {
+        throw new Error(`Stock movement with ID ${movementId} not found.`);
+      }
+      if (original.type === 'reversal') {
+        throw new Error("A reversal cannot itself be voided.");
+      }
+
+      const [existingReversal] = await tx
+        .select({ id: stockMovements.id })
+        .from(stockMovements)
+        .where(eq(stockMovements.reversalOfId, movementId));
+
+      if (existingReversal) {
+        throw new Error(`Stock movement with ID ${movementId} has already been voided.`);
+      }
+
+      // The recipient must not have moved any of this item on since receiving it
+      if (original.toUserId != null) {
+        const laterOutgoing = await tx
+          .select({ id: stockMovements.id })
+          .from(stockMovements)
+          .where(
+            and(
+              eq(stockMovements.stockItemId, original.stockItemId),
+              eq(stockMovements.fromUserId, original.toUserId),
+              gt(stockMovements.id, original.id),
+              ne(stockMovements.type, 'reversal')
+            )
+          );
+
+        if (laterOutgoing.length > 0) {
+          const voided = await tx
+            .select({ reversalOfId: stockMovements.reversalOfId })
+            .from(stockMovements)
+            .where(inArray(stockMovements.reversalOfId, laterOutgoing.map(m => m.id)));
+
+          if (voided.length < laterOutgoing.length) {
+            throw new Error(
+              `Cannot void movement ID ${movementId}: the recipient has already passed this stock on.`
+            );
+          }
+        }
+      }
+
+      const [item] = await tx
+        .select()
+        .from(stockItems)
+        .where(eq(stockItems.id, original.stockItemId))
+        .for("update");
+
+      if (!item) {
+        throw new Error(`Stock item with ID ${original.stockItemId} not found.`);
+      }
+
+      const recordedLots = await tx
+        .select({ lotId: stockMovementLots.lotId, quantity: stockMovementLots.quantity })
+        .from(stockMovementLots)
+        .where(eq(stockMovementLots.movementId, movementId));
+
+      let lotChanges = recordedLots;
+
+      // Undo the destination side
+      if (original.toUserId != null) {
+        await this.takeFromAllocation(tx, original.toUserId, item.id, original.quantity);
+      } else if (original.type === 'return' || original.type === 'adjustment_in') {
+        lotChanges = recordedLots.length > 0
+          ? await this.applyLotChanges(tx, item, recordedLots, -1)
+          : await this.takeFromCentral(tx, item, original.quantity);
+      }
+
+      // Undo the source side
+      if (original.fromUserId != null) {
+        await this.addToAllocation(tx, original.fromUserId, item.id, original.quantity, movedBy);
+      } else if (original.type === 'allocation' || original.type === 'adjustment_out' || original.type === 'write_off') {
+        lotChanges = recordedLots.length > 0
+          ? await this.applyLotChanges(tx, item, recordedLots, 1)
+          : await this.addToCentral(tx, item, original.quantity);
+      }
+
+      const [reversal] = await tx
+        .insert(stockMovements)
+        .values({
+          type: 'reversal',
+          stockItemId: item.id,
+          fromUserId: original.toUserId,
+          toUserId: original.fromUserId,
+          quantity: original.quantity,
+          movedBy,
+          reason,
+          reversalOfId: original.id,
+          movedAt: new Date(),
+        })
+        .returning();
+
+      if (lotChanges.length > 0) {
+        await tx.insert(stockMovementLots).values(
+          lotChanges.map(lot => ({ movementId: reversal.id, lotId: lot.lotId, quantity: lot.quantity }))
+        );
+      }
+
+      await this.audit(tx, 'create', 'stock_movement', reversal.id, null, { ...reversal, lots: lotChanges });
+      await this.auditItemChange(tx, item);
+      return reversal;
+    });
+  }
+
+  // Adds (sign 1) or removes (sign -1) recorded per-lot quantities and keeps the
+  // item total in step. Removing fails if a lot has since been drawn down.
+  private async applyLotChanges(
+    tx: Transaction,
+    item: StockItem,
+    changes: { lotId: number; quantity: number }[],
+    sign: 1 | -1
+  ): Promise<{ lotId: number; quantity: number }[]> {
+    let total = 0;
+    for (const change of changes) {
+      const [lot] = await tx
+        .select()
+        .from(stockLots)
+        .where(eq(stockLots.id, change.lotId))
+        .for("update");
+
+      const quantity = (lot?.quantity ?? 0) + sign * change.quantity;
+      if (!lot || quantity < 0) {
+        throw new Error(
+          `Lot ID ${change.lotId} no longer holds the ${change.quantity} units of item ID ${item.id} being reversed; the stock has already been moved on.`
+        );
+      }
+      await tx
+        .update(stockLots)
+        .set({ quantity })
+        .where(eq(stockLots.id, change.lotId));
+      total += change.quantity;
+    }
+
+    await tx
+      .update(stockItems)
+      .set({ quantity: item.quantity + sign * total })
+      .where(eq(stockItems.id, item.id));
+    await this.syncItemExpiry(tx, item.id);
+
+    return changes;
+  }
+
+  // Inserts an item, receiving its opening stock as the first lot
+  private async insertStockItem(tx: Transaction, item: InsertStockItem, lotNumber?: string): Promise<StockItem> {
+    const [newItem] = await tx.insert(stockItems).values(item).returning();
+
+    if (newItem.quantity > 0) {
+      await tx.insert(stockLots).values({
+        stockItemId: newItem.id,
+        lotNumber: lotNumber || newItem.uniqueNumber || `LOT-${newItem.id}`,
+        expiry: newItem.expiry,
+        quantity: newItem.quantity,
+        receivedBy: newItem.createdBy,
+      });
+    }
+
+    await this.audit(tx, 'create', 'stock_item', newItem.id, null, newItem);
+    return newItem;
+  }
+
+  // Applies an edit to an item, keeping its lots in step. Quantity changes go
+  // through recordMovement instead.
+  private async changeStockItem(
+    tx: Transaction,
+    id: number,
+    cleanData: Omit<Partial<StockItem>, 'quantity'>
+  ): Promise<StockItem | undefined> {
+    const [item] = await tx.select().from(stockItems).where(eq(stockItems.id, id));
+    if (!item) return undefined;
+
+    const lots = await tx.select().from(stockLots).where(eq(stockLots.stockItemId, id));
+
+    // An item received as a single lot keeps that lot's expiry in step with edits
+    if (cleanData.expiry !== undefined && lots.length === 1) {
+      await tx
+        .update(stockLots)
+        .set({ expiry: cleanData.expiry })
+        .where(eq(stockLots.id, lots[0].id));
+    }
+
+    const [updatedItem] = await tx
+      .update(stockItems)
+      .set(cleanData)
+      .where(eq(stockItems.id, id))
+      .returning();
+
+    // Once an item is lot-tracked its expiry follows the earliest lot
+    const result = lots.length > 0 && cleanData.expiry !== undefined
+      ? await this.syncItemExpiry(tx, id)
+      : updatedItem;
+
+    await this.audit(tx, 'update', 'stock_item', id, item, result);
+    return result;
+  }
+
+  private async auditItemChange(tx: Transaction, before: StockItem): Promise<void> {
+    const [after] = await tx.select().from(stockItems).where(eq(stockItems.id, before.id));
+    await this.audit(tx, 'update', 'stock_item', before.id, before, after);
+  }
+
+  // Rows in the scope's specialty. Rows without a specialty are shared by all.
+  private inSpecialtyScope(column: PgColumn, scope: SpecialtyScope) {
+    if (scope === 'all') return undefined;
+    if (scope.specialtyId === null) return isNull(column);
+    return or(isNull(column), eq(column, scope.specialtyId));
+  }
+
+  // Rows about a stock item in the scope, such as allocations and movements
+  private forItemsInScope(stockItemId: PgColumn, scope: SpecialtyScope) {
+    if (scope === 'all') return undefined;
+    return inArray(
+      stockItemId,
+      db.select({ id: stockItems.id }).from(stockItems).where(this.inSpecialtyScope(stockItems.specialtyId, scope))
+    );
+  }
+
+  // Audit events outside the scope are those about its stock, requests, users
+  // and specialties. Events about rows that have since been deleted can't be
+  // placed, so they are left out too.
+  private auditEventsInScope(scope: SpecialtyScope) {
+    if (scope === 'all') return undefined;
+    const about = (entityType: string, ids: SQLWrapper) =>
+      and(eq(auditEvents.entityType, entityType), inArray(auditEvents.entityId, ids));
+    const idOf = (id: PgColumn) => ({ id: sql<string>`${id}::text` });
+    return or(
+      notInArray(auditEvents.entityType, ['stock_item', 'stock_lot', 'stock_movement', 'stock_allocation', 'stock_request', 'user', 'specialty']),
+      about('stock_item', db.select(idOf(stockItems.id)).from(stockItems).where(this.inSpecialtyScope(stockItems.specialtyId, scope))),
+      about('stock_lot', db.select(idOf(stockLots.id)).from(stockLots).where(this.forItemsInScope(stockLots.stockItemId, scope))),
+      about('stock_movement', db.select(idOf(stockMovements.id)).from(stockMovements).where(this.forItemsInScope(stockMovements.stockItemId, scope))),
+      about('stock_allocation', db.select(idOf(stockAllocations.id)).from(stockAllocations).where(this.forItemsInScope(stockAllocations.stockItemId, scope))),
+      about('stock_request', db.select(idOf(stockRequests.id)).from(stockRequests).where(this.inSpecialtyScope(stockRequests.specialtyId, scope))),
+      about('user', db.select(idOf(users.id)).from(users).where(this.inSpecialtyScope(users.specialtyId, scope))),
+      about('specialty', db.select(idOf(specialties.id)).from(specialties).where(this.inSpecialtyScope(specialties.id, scope))),
+    );
+  }
+
+  // Inserts a table's rows from a backup in chunks. Dates come back from JSON
+  // as strings and are turned back into dates first. Merged rows that are
+  // already there are skipped rather than replaced.
+  private async insertRestoredRows<T extends PgTable>(
+    tx: Transaction,
+    table: T,
+    backupRows: Record<string, unknown>[],
+    merge: boolean
+  ): Promise<void> {
+    const columns = Object.entries(getTableColumns(table));
+    const rows = backupRows.map((row) => {
+      const values: Record<string, unknown> = { ...row };
+      for (const [key, column] of columns) {
+        if (column.dataType === "date" && typeof values[key] === "string") {
+          values[key] = new Date(values[key] as string);
+        }
+      }
+      return values as InferInsertModel<T>;
+    });
+
+    for (let start = 0; start < rows.length; start += RESTORE_CHUNK_SIZE) {
+      const insert = tx.insert(table).values(rows.slice(start, start + RESTORE_CHUNK_SIZE));
+      await (merge ? insert.onConflictDoNothing() : insert);
+    }
+  }
+
+  // Deletes every row of each table in order, returning how many went from each
+  private async deleteTables(tx: Transaction, tables: Record<string, PgTable>): Promise<Record<string, number>> {
+    const deleted: Record<string, number> = {};
+    for (const [name, table] of Object.entries(tables)) {
+      const result = await tx.delete(table);
+      deleted[name] = result.rowCount ?? 0;
+    }
+    return deleted;
+  }
+
+  // Appends to the audit log inside the caller's transaction, attributed to the
+  // user of the current request. Updates that changed nothing are skipped.
+  private async audit(
+    tx: Transaction,
+    action: AuditAction,
+    entityType: string,
+    entityId: number | string,
+    before: object | null,
+    after: object | null
+  ): Promise<void> {
+    const diff = auditDiff(before as Record<string, unknown> | null, after as Record<string, unknown> | null);
+    if (!diff) return;
+
+    const { actorId, ip } = getAuditContext();
+    await tx.insert(auditEvents).values({
+      actorId,
+      ip,
+      action,
+      entityType,
+      entityId: String(entityId),
+      before: diff.before,
+      after: diff.after,
+    });
+  }
+
+  // Removes stock from central inventory, from a single lot when one is given,
+  // otherwise earliest expiry first
+  private async takeFromCentral(
+    tx: Transaction,
+    item: StockItem,
+    quantity: number,
+    lotId?: number | null
+  ): Promise<{ lotId: number; quantity: number }[]> {
+    if (item.quantity < quantity) {
+      throw new Error(
+        `Not enough stock available in central inventory for item ID ${item.id}. Available: ${item.quantity}, Requested: ${quantity}`
+      );
+    }
+
+    let drawn: { lotId: number; quantity: number }[];
+    if (lotId != null) {
+      const [lot] = await tx
+        .select()
+        .from(stockLots)
+        .where(and(eq(stockLots.id, lotId), eq(stockLots.stockItemId, item.id)))
+        .for("update");
+
+      if (!lot || lot.quantity < quantity) {
+        throw new Error(
+          `Lot ID ${lotId} does not have enough stock of item ID ${item.id}. Available: ${lot?.quantity || 0}, Requested: ${quantity}`
+        );
+      }
+      await tx
+        .update(stockLots)
+        .set({ quantity: lot.quantity - quantity })
+        .where(eq(stockLots.id, lotId));
+      drawn = [{ lotId, quantity }];
+    } else {
+      drawn = await this.drawFromLots(tx, item.id, quantity);
+    }
+
+    await tx
+      .update(stockItems)
+      .set({ quantity: item.quantity - quantity })
+      .where(eq(stockItems.id, item.id));
+    await this.syncItemExpiry(tx, item.id);
+
+    return drawn;
+  }
+
+  // Adds stock to central inventory, into an existing lot when one is given,
+  // otherwise as a new adjustment lot
+  private async addToCentral(
+    tx: Transaction,
+    item: StockItem,
+    quantity: number,
+    lotId?: number | null
+  ): Promise<{ lotId: number; quantity: number }[]> {
+    let targetLotId: number;
+    if (lotId != null) {
+      const [lot] = await tx
+        .select()
+        .from(stockLots)
+        .where(and(eq(stockLots.id, lotId), eq(stockLots.stockItemId, item.id)));
+
+      if (!lot) {
+        throw new Error(`Lot ID ${lotId} not found for item ID ${item.id}.`);
+      }
+      await tx
+        .update(stockLots)
+        .set({ quantity: lot.quantity + quantity })
+        .where(eq(stockLots.id, lotId));
+      targetLotId = lotId;
+    } else {
+      const [lot] = await tx
+        .insert(stockLots)
+        .values({
+          stockItemId: item.id,
+          lotNumber: `ADJ-${format(new Date(), "yyyyMMdd-HHmmss")}`,
+          expiry: item.expiry,
+          quantity,
+        })
+        .returning();
+      targetLotId = lot.id;
+    }
+
+    await tx
+      .update(stockItems)
+      .set({ quantity: item.quantity + quantity })
+      .where(eq(stockItems.id, item.id));
+    await this.syncItemExpiry(tx, item.id);
+
+    return [{ lotId: targetLotId, quantity }];
+  }
+
+  // Works out which lots `quantity` units of a user's allocation came from,
+  // from the lots recorded on every movement to and from them. Stock that can't
+  // be traced, such as allocations made before lots were recorded, is left out,
+  // so the result can fall short of the quantity.
+  private async traceHeldLots(
+    tx: Transaction,
+    stockItemId: number,
+    userId: number,
+    quantity: number,
+    latestExpiryFirst: boolean
+  ): Promise<{ lotId: number; quantity: number }[]> {
+    const held = await tx
+      .select({
+        lotId: stockMovementLots.lotId,
+        quantity: sql<number>`sum(case when ${stockMovements.toUserId} = ${userId} then ${stockMovementLots.quantity} else -${stockMovementLots.quantity} end)`.mapWith(Number),
+      })
+      .from(stockMovementLots)
+      .innerJoin(stockMovements, eq(stockMovementLots.movementId, stockMovements.id))
+      .innerJoin(stockLots, eq(stockMovementLots.lotId, stockLots.id))
+      .where(
+        and(
+          eq(stockMovements.stockItemId, stockItemId),
+          or(eq(stockMovements.toUserId, userId), eq(stockMovements.fromUserId, userId))
+        )
+      )
+      .groupBy(stockMovementLots.lotId, stockLots.expiry)
+      .orderBy(latestExpiryFirst ? sql`${stockLots.expiry} desc nulls first` : sql`${stockLots.expiry} asc nulls last`);
+
+    const traced: { lotId: number; quantity: number }[] = [];
+    let remaining = quantity;
+    for (const lot of held) {
+      if (remaining === 0) break;
+      if (lot.quantity <= 0) continue;
+      const take = Math.min(lot.quantity, remaining);
+      traced.push({ lotId: lot.lotId, quantity: take });
+      remaining -= take;
+    }
+    return traced;
+  }
+
+  // Puts returned stock back into the lots the user was allocated from,
+  // latest expiry first since users hand out their earliest-expiring stock first.
+  // Anything that can't be traced to a lot is received as a new return lot.
+  private async returnToLots(
+    tx: Transaction,
+    item: StockItem,
+    userId: number,
+    quantity: number
+  ): Promise<{ lotId: number; quantity: number }[]> {
+    const held = await this.traceHeldLots(tx, item.id, userId, quantity, true);
+
+    const restored: { lotId: number; quantity: number }[] = [];
+    let remaining = quantity;
+    for (const lot of held) {
+      await tx
+        .update(stockLots)
+        .set({ quantity: sql`${stockLots.quantity} + ${lot.quantity}` })
+        .where(eq(stockLots.id, lot.lotId));
+      restored.push(lot);
+      remaining -= lot.quantity;
+    }
+
+    if (remaining > 0) {
+      const [lot] = await tx
+        .insert(stockLots)
+        .values({
+          stockItemId: item.id,
+          lotNumber: `RET-${format(new Date(), "yyyyMMdd-HHmmss")}`,
+          expiry: item.expiry,
+          quantity: remaining,
+          receivedBy: userId,
+        })
+        .returning();
+      restored.push({ lotId: lot.id, quantity: remaining });
+    }
+
+    await tx
+      .update(stockItems)
+      .set({ quantity: item.quantity + quantity })
+      .where(eq(stockItems.id, item.id));
+    await this.syncItemExpiry(tx, item.id);
+
+    return restored;
+  }
+
+  // Removes stock from a user's allocation
+  private async takeFromAllocation(
+    tx: Transaction,
+    userId: number,
+    stockItemId: number,
+    quantity: number
+  ): Promise<void> {
+    const [sourceAllocation] = await tx
+      .select()
+      .from(stockAllocations)
+      .where(
+        and(
+          eq(stockAllocations.userId, userId),
+          eq(stockAllocations.stockItemId, stockItemId)
+        )
+      )
+      .for("update");
+
+    if (!sourceAllocation || sourceAllocation.quantity < quantity) {
+      throw new Error(
+        `Source user ID ${userId} does not have enough stock of item ID ${stockItemId}. Available: ${sourceAllocation?.quantity || 0}, Requested: ${quantity}`
+      );
+    }
+
+    await tx
+      .update(stockAllocations)
+      .set({ quantity: sourceAllocation.quantity - quantity })
+      .where(eq(stockAllocations.id, sourceAllocation.id));
+  }
+
+  // Adds stock to a user's allocation, creating it if needed
+  private async addToAllocation(
+    tx: Transaction,
+    userId: number,
+    stockItemId: number,
+    quantity: number,
+    allocatedBy: number
+  ): Promise<void> {
+    const [targetAllocation] = await tx
+      .select()
+      .from(stockAllocations)
+      .where(
+        and(
+          eq(stockAllocations.userId, userId),
+          eq(stockAllocations.stockItemId, stockItemId)
+        )
+      );
+
+    if (targetAllocation) {
+      await tx
+        .update(stockAllocations)
+        .set({ quantity: targetAllocation.quantity + quantity })
+        .where(eq(stockAllocations.id, targetAllocation.id));
+    } else {
+      await tx.insert(stockAllocations).values({
+        userId,
+        stockItemId,
+        quantity,
+        allocatedBy,
+        allocatedAt: new Date(),
+      });
+    }
   }
 }
 
@@ -0,0 +1,127 @@
+// Minimal five-field cron expressions: minute, hour, day of month, month and
+// day of week. Each field takes *, numbers, ranges (a-b), steps (*/n, a-b/n)
+// and comma-separated lists of those. Sunday is 0 or 7. Times are in the
+// server's local time zone.
+
+type CronField = { min: number; max: number };
+
+const CRON_FIELDS: CronField[] = [
+  { min: 0, max: 59 }, // minute
+  { min: 0, max: 23 }, // hour
+  { min: 1, max: 31 }, // day of month
+  { min: 1, max: 12 }, // month
+  { min: 0, max: 7 }, // day of week
+];
+
+const FIELD_NAMES = ["minute", "hour", "day of month", "month", "day of week"];
+
+export type CronSchedule = {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  // Cron matches either day field when both are restricted
+  anyDayOfMonth: boolean;
+  anyDayOfWeek: boolean;
+};
+
+function parseField(text: string, field: CronField, name: string): Set<number> {
+  const values = new Set<number>();
+
+  for (const part of text.split(",")) {
+    const match = /^(\*|(\d+)(?:-(\d+))?)(?:\/(\d+))?$/.exec(part);
+    if (!match) {
+      throw new Error(`Invalid ${name} "${part}"`);
+    }
+
+    const [, range, start, end, step] = match;
+    const from = range === "*" ? field.min : Number(start);
+    const to = range === "*" ? field.max : end !== undefined ? Number(end) : step ? field.max : from;
+    const increment = step ? Number(step) : 1;
+
+    if (from < field.min || to > field.max || from > to || increment < 1) {
+      throw new Error(`Invalid ${name} "${part}"`);
+    }
+    for (let value = from; value <= to; value += increment) {
+      values.add(value);
+    }
+  }
+
+  return values;
+}
+
+export function parseCron(expression: string): CronSchedule {
+  const parts = expression.trim().split(/\s+/);
+  if (parts.length !== 5) {
+    throw new Error("A schedule needs five fields: minute, hour, day of month, month and day of week");
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = parts.map((part, index) =>
+    parseField(part, CRON_FIELDS[index], FIELD_NAMES[index])
+  );
+
+  // 7 is another way of writing Sunday
+  if (daysOfWeek.delete(7)) daysOfWeek.add(0);
+
+  return {
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    anyDayOfMonth: parts[2] === "*",
+    anyDayOfWeek: parts[4] === "*",
+  };
+}
+
+export function isValidCron(expression: string): boolean {
+  try {
+    parseCron(expression);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function matchesDay(schedule: CronSchedule, date: Date): boolean {
+  const dayOfMonth = schedule.daysOfMonth.has(date.getDate());
+  const dayOfWeek = schedule.daysOfWeek.has(date.getDay());
+
+  if (schedule.anyDayOfMonth) return dayOfWeek;
+  if (schedule.anyDayOfWeek) return dayOfMonth;
+  return dayOfMonth || dayOfWeek;
+}
+
+// Schedules that never match, such as 30 February, give up after this long
+const SEARCH_LIMIT_DAYS = 366 * 5;
+
+// The first time after `after` that the expression matches, to the minute
+export function nextCronRun(expression: string, after: Date): Date {
+  const schedule = parseCron(expression);
+  const candidate = new Date(after);
+  candidate.setSeconds(0, 0);
+  candidate.setMinutes(candidate.getMinutes() + 1);
+
+  const limit = new Date(after);
+  limit.setDate(limit.getDate() + SEARCH_LIMIT_DAYS);
+
+  while (candidate <= limit) {
+    if (!schedule.months.has(candidate.getMonth() + 1) || !matchesDay(schedule, candidate)) {
+      candidate.setDate(candidate.getDate() + 1);
+      candidate.setHours(0, 0, 0, 0);
+      continue;
+    }
+    if (!schedule.hours.has(candidate.getHours())) {
+      candidate.setHours(candidate.getHours() + 1, 0, 0, 0);
+      continue;
+    }
+    if (!schedule.minutes.has(candidate.getMinutes())) {
+      candidate.setMinutes(candidate.getMinutes() + 1, 0, 0);
+      continue;
+    }
+    return candidate;
+  }
+
+  throw new Error(`The schedule "${expression}" never runs`);
+}
@@ -0,0 +1,27 @@
+import type { PasswordPolicy } from "./schema";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Each rule of the policy the password breaks, worded for the person
+// choosing it. An empty list means the password is acceptable.
+export function passwordPolicyProblems(password: string, policy: PasswordPolicy): string[] {
+  const problems: string[] = [];
+  if (password.length < policy.passwordLength) {
+    problems.push(`Password must be at least ${policy.passwordLength} characters`);
+  }
+  if (policy.requireUppercase && !/[A-Z]/.test(password)) {
+    problems.push("Password must contain an uppercase letter");
+  }
+  if (policy.requireNumbers && !/[0-9]/.test(password)) {
+    problems.push("Password must contain a number");
+  }
+  if (policy.requireSpecialChars && !/[^A-Za-z0-9]/.test(password)) {
+    problems.push("Password must contain a special character");
+  }
+  return problems;
+}
+
+export function isPasswordExpired(changedAt: Date, policy: PasswordPolicy, now = new Date()): boolean {
+  if (policy.passwordExpiry === 0) return false;
+  return now.getTime() - changedAt.getTime() >= policy.passwordExpiry * DAY_MS;
+}
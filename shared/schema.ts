@@ -1,6 +1,7 @@
-import { pgTable, text, serial, integer, boolean, timestamp, varchar } from "drizzle-orm/pg-core";
+import { pgTable, pgEnum, text, serial, integer, boolean, timestamp, varchar, jsonb, index, uniqueIndex } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { parseCron } from "./cron";
 
 // Specialties schema
 export const specialties = pgTable("specialties", {
@@ -8,7 +9,9 @@ export const specialties = pgTable("specialties", {
   name: text("name").notNull().unique(),
   description: text("description"),
   createdAt: timestamp("created_at").defaultNow(),
-});
+}, (table) => [
+  index("specialties_name_trgm_idx").using("gin", table.name.op("gin_trgm_ops")),
+]);
 
 // User and Auth schemas
 export const users = pgTable("users", {
@@ -16,12 +19,22 @@ export const users = pgTable("users", {
   username: text("username").notNull().unique(),
   password: text("password").notNull(),
   name: text("name").notNull(),
+  email: text("email"),
   role: text("role").notNull(),
   region: text("region"),
   avatar: text("avatar"),
   specialtyId: integer("specialty_id").references(() => specialties.id),
+  // Passwords older than the policy's expiry must be changed at next login
+  passwordChangedAt: timestamp("password_changed_at").notNull().defaultNow(),
+  // Consecutive failed sign-ins, and the lock they earned
+  failedLoginCount: integer("failed_login_count").notNull().default(0),
+  lockedUntil: timestamp("locked_until"),
   createdAt: timestamp("created_at").defaultNow(),
-});
+}, (table) => [
+  // Trigram indexes back the global search
+  index("users_name_trgm_idx").using("gin", table.name.op("gin_trgm_ops")),
+  index("users_username_trgm_idx").using("gin", table.username.op("gin_trgm_ops")),
+]);
 
 export const insertSpecialtySchema = createInsertSchema(specialties).pick({
   name: true,
@@ -32,6 +45,7 @@ export const insertUserSchema = createInsertSchema(users).pick({
   username: true,
   password: true,
   name: true,
+  email: true,
   role: true,
   region: true,
   avatar: true,
@@ -43,7 +57,9 @@ export const categories = pgTable("categories", {
   id: serial("id").primaryKey(),
   name: text("name").notNull().unique(),
   color: text("color").notNull(),
-});
+}, (table) => [
+  index("categories_name_trgm_idx").using("gin", table.name.op("gin_trgm_ops")),
+]);
 
 export const insertCategorySchema = createInsertSchema(categories);
 
@@ -61,7 +77,17 @@ export const stockItems = pgTable("stock_items", {
   notes: text("notes"),
   createdAt: timestamp("created_at").defaultNow(),
   createdBy: integer("created_by").notNull(), // User ID
-});
+}, (table) => [
+  // Columns the inventory list filters and sorts on
+  index("stock_items_category_id_idx").on(table.categoryId),
+  index("stock_items_specialty_id_idx").on(table.specialtyId),
+  index("stock_items_expiry_idx").on(table.expiry),
+  index("stock_items_name_idx").on(table.name),
+  // Trigram indexes back the global search
+  index("stock_items_name_trgm_idx").using("gin", table.name.op("gin_trgm_ops")),
+  index("stock_items_unique_number_trgm_idx").using("gin", table.uniqueNumber.op("gin_trgm_ops")),
+  index("stock_items_notes_trgm_idx").using("gin", table.notes.op("gin_trgm_ops")),
+]);
 
 export const insertStockItemSchema = createInsertSchema(stockItems).pick({
   name: true,
@@ -76,6 +102,29 @@ export const insertStockItemSchema = createInsertSchema(stockItems).pick({
   createdBy: true,
 });
 
+// Stock lots - tracks each received batch of a stock item in central inventory.
+// The stock item's quantity is the sum of its lot quantities.
+export const stockLots = pgTable("stock_lots", {
+  id: serial("id").primaryKey(),
+  stockItemId: integer("stock_item_id").notNull().references(() => stockItems.id, { onDelete: "cascade" }),
+  lotNumber: text("lot_number").notNull(),
+  expiry: timestamp("expiry"),
+  quantity: integer("quantity").notNull().default(0),
+  receivedAt: timestamp("received_at").defaultNow(),
+  receivedBy: integer("received_by"), // User ID
+}, (table) => [
+  index("stock_lots_stock_item_id_idx").on(table.stockItemId),
+  index("stock_lots_expiry_idx").on(table.expiry),
+]);
+
+export const insertStockLotSchema = createInsertSchema(stockLots).pick({
+  stockItemId: true,
+  lotNumber: true,
+  expiry: true,
+  quantity: true,
+  receivedBy: true,
+});
+
 // Stock allocations - tracks which user has which stock items
 export const stockAllocations = pgTable("stock_allocations", {
   id: serial("id").primaryKey(),
@@ -93,31 +142,84 @@ export const insertStockAllocationSchema = createInsertSchema(stockAllocations).
   allocatedBy: true,
 });
 
+// Movement types
+// - allocation:     central inventory -> user
+// - return:         user -> central inventory
+// - transfer:       user -> user
+// - adjustment_in:  stock added to central inventory (e.g. a recount)
+// - adjustment_out: stock removed from central inventory (e.g. a recount)
+// - write_off:      expired or damaged stock removed from central inventory or a user
+// - reversal:       compensating entry created by voiding another movement
+export const MOVEMENT_TYPES = [
+  'allocation',
+  'return',
+  'transfer',
+  'adjustment_in',
+  'adjustment_out',
+  'write_off',
+  'reversal',
+] as const;
+
+export const movementTypeEnum = pgEnum("movement_type", MOVEMENT_TYPES);
+
+// Movement batches - groups the movements of one multi-item distribution
+export const movementBatches = pgTable("movement_batches", {
+  id: serial("id").primaryKey(),
+  notes: text("notes"),
+  createdAt: timestamp("created_at").defaultNow(),
+  createdBy: integer("created_by").notNull(),
+});
+
 // Stock movements - tracks movement history
 export const stockMovements = pgTable("stock_movements", {
   id: serial("id").primaryKey(),
+  type: movementTypeEnum("type").notNull().default('allocation'),
   stockItemId: integer("stock_item_id").notNull(),
   fromUserId: integer("from_user_id"), // Null if from central inventory
-  toUserId: integer("to_user_id").notNull(),
+  toUserId: integer("to_user_id"), // Null if to central inventory or leaving stock
   quantity: integer("quantity").notNull(),
+  reason: text("reason"), // Required for adjustments and write-offs
   notes: text("notes"),
+  reversalOfId: integer("reversal_of_id"), // Movement this entry voids, for reversals
+  batchId: integer("batch_id").references(() => movementBatches.id), // Null for single movements
   movedAt: timestamp("moved_at").defaultNow(),
   movedBy: integer("moved_by").notNull(), // User ID who initiated the move
-  // Temporarily removed type field to match existing database schema
-});
+}, (table) => [
+  // A movement can only be voided once
+  uniqueIndex("stock_movements_reversal_of_id_idx").on(table.reversalOfId),
+  index("stock_movements_batch_id_idx").on(table.batchId),
+  index("stock_movements_moved_at_idx").on(table.movedAt),
+  index("stock_movements_stock_item_id_idx").on(table.stockItemId),
+  index("stock_movements_from_user_id_idx").on(table.fromUserId),
+  index("stock_movements_to_user_id_idx").on(table.toUserId),
+  index("stock_movements_notes_trgm_idx").using("gin", table.notes.op("gin_trgm_ops")),
+]);
 
 export const insertStockMovementSchema = createInsertSchema(stockMovements).pick({
+  type: true,
   stockItemId: true,
   fromUserId: true,
   toUserId: true,
   quantity: true,
+  reason: true,
   notes: true,
   movedBy: true,
-  // type: true, // Temporarily removed to match schema
 });
 
+// Stock movement lots - records which lots a movement drew from or added to,
+// and which lots the stock moved between users came from
+export const stockMovementLots = pgTable("stock_movement_lots", {
+  id: serial("id").primaryKey(),
+  movementId: integer("movement_id").notNull().references(() => stockMovements.id, { onDelete: "cascade" }),
+  lotId: integer("lot_id").notNull().references(() => stockLots.id, { onDelete: "cascade" }),
+  quantity: integer("quantity").notNull(),
+}, (table) => [
+  index("stock_movement_lots_movement_id_idx").on(table.movementId),
+]);
+
 // Extended schemas with validation
 export const extendedInsertUserSchema = insertUserSchema.extend({
+  email: z.string().email("Invalid email address").nullish(),
   role: z.enum(['ceo', 'marketer', 'salesManager', 'stockManager', 'admin', 'medicalRep']),
 });
 
@@ -148,6 +250,646 @@ export const extendedInsertStockItemSchema = insertStockItemSchema.extend({
   ]).nullable().optional(),
 });
 
+// Bulk import of stock items from a CSV or XLSX file. Without commit the
+// import is only checked; with updateExisting, rows whose unique number
+// matches an existing item update it instead of being rejected.
+const queryFlag = z.enum(['true', 'false']).default('false').transform(value => value === 'true');
+
+export const stockImportQuerySchema = z.object({
+  commit: queryFlag,
+  updateExisting: queryFlag,
+});
+
+// Listing stock items and movements. Without a page the whole filtered list
+// is returned; with one, only that page and the total number of matches.
+const pageParams = {
+  page: z.coerce.number().int().positive().optional(),
+  pageSize: z.coerce.number().int().positive().max(200).default(50),
+  order: z.enum(['asc', 'desc']).optional(),
+};
+
+export const STOCK_ITEM_SORTS = ['name', 'quantity', 'expiry', 'createdAt'] as const;
+
+export const stockItemQuerySchema = z.object({
+  search: z.string().trim().min(1).optional(),
+  categoryId: z.coerce.number().int().positive().optional(),
+  specialtyId: z.coerce.number().int().positive().optional(),
+  // Items expiring within this many days, including those already expired
+  expiresWithin: z.coerce.number().int().min(0).optional(),
+  minQuantity: z.coerce.number().int().min(0).optional(),
+  maxQuantity: z.coerce.number().int().min(0).optional(),
+  sort: z.enum(STOCK_ITEM_SORTS).default('name'),
+  ...pageParams,
+});
+
+export const MOVEMENT_SORTS = ['movedAt', 'quantity'] as const;
+
+export const movementQuerySchema = z.object({
+  stockItemId: z.coerce.number().int().positive().optional(),
+  type: z.enum(MOVEMENT_TYPES).optional(),
+  // Movements the user sent, received or recorded
+  userId: z.coerce.number().int().positive().optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  sort: z.enum(MOVEMENT_SORTS).default('movedAt'),
+  ...pageParams,
+});
+
+// Global search from the header. Terms shorter than two characters match
+// too much to be useful.
+export const searchQuerySchema = z.object({
+  q: z.string().trim().min(2, "Search for at least two characters").max(100),
+  limit: z.coerce.number().int().positive().max(20).default(5),
+});
+
+export const extendedInsertStockLotSchema = insertStockLotSchema.extend({
+  lotNumber: z.string().trim().min(1, "Lot number is required"),
+  quantity: z.number().int().positive("Quantity must be positive"),
+  // Allow null, empty strings, and Date objects for expiry
+  expiry: z.union([
+    z.date(),
+    z.string().transform(val => {
+      if (!val) return null;
+      const date = new Date(val);
+      return isNaN(date.getTime()) ? null : date;
+    }),
+    z.null(),
+  ]).nullable().optional(),
+});
+
+// Which ends of a movement are users is fixed by its type
+export const extendedInsertStockMovementSchema = insertStockMovementSchema.extend({
+  type: z.enum(MOVEMENT_TYPES)
+    .refine(type => type !== 'reversal', "Reversals are created by voiding a movement")
+    .default('allocation'),
+  quantity: z.number().int().positive("Quantity must be positive"),
+  lotId: z.number().int().positive().nullable().optional(), // Lot to draw from instead of FEFO
+}).superRefine((movement, ctx) => {
+  const requireUser = (field: 'fromUserId' | 'toUserId', required: boolean) => {
+    const present = movement[field] != null;
+    if (present !== required) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: [field],
+        message: required
+          ? `${field} is required for ${movement.type} movements`
+          : `${field} must be empty for ${movement.type} movements`,
+      });
+    }
+  };
+
+  switch (movement.type) {
+    case 'allocation':
+      requireUser('fromUserId', false);
+      requireUser('toUserId', true);
+      break;
+    case 'return':
+      requireUser('fromUserId', true);
+      requireUser('toUserId', false);
+      break;
+    case 'transfer':
+      requireUser('fromUserId', true);
+      requireUser('toUserId', true);
+      if (movement.fromUserId != null && movement.fromUserId === movement.toUserId) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ['toUserId'],
+          message: "Cannot transfer stock to the same user",
+        });
+      }
+      break;
+    case 'adjustment_in':
+    case 'adjustment_out':
+      requireUser('fromUserId', false);
+      requireUser('toUserId', false);
+      break;
+    case 'write_off':
+      requireUser('toUserId', false);
+      break;
+  }
+
+  const needsReason = movement.type === 'adjustment_in' ||
+    movement.type === 'adjustment_out' ||
+    movement.type === 'write_off';
+  if (needsReason && !movement.reason?.trim()) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['reason'],
+      message: `A reason is required for ${movement.type} movements`,
+    });
+  }
+});
+
+export const voidStockMovementSchema = z.object({
+  reason: z.string().trim().min(1, "A reason is required to void a movement"),
+});
+
+// Batch allocation: quantities[i][j] is how much of stockItemIds[i] goes to
+// toUserIds[j]. Zero cells are skipped.
+export const batchMovementSchema = z.object({
+  stockItemIds: z.array(z.number().int().positive()).min(1, "Select at least one stock item"),
+  toUserIds: z.array(z.number().int().positive()).min(1, "Select at least one recipient"),
+  quantities: z.array(z.array(z.number().int().nonnegative("Quantities cannot be negative"))),
+  notes: z.string().optional(),
+}).superRefine((batch, ctx) => {
+  if (new Set(batch.stockItemIds).size !== batch.stockItemIds.length) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['stockItemIds'], message: "Stock items must be unique" });
+  }
+  if (new Set(batch.toUserIds).size !== batch.toUserIds.length) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['toUserIds'], message: "Recipients must be unique" });
+  }
+
+  const matchesShape = batch.quantities.length === batch.stockItemIds.length &&
+    batch.quantities.every(row => row.length === batch.toUserIds.length);
+  if (!matchesShape) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['quantities'],
+      message: "Quantities must have one row per stock item and one column per recipient",
+    });
+  } else if (!batch.quantities.some(row => row.some(quantity => quantity > 0))) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['quantities'], message: "Enter at least one quantity to move" });
+  }
+});
+
+// Stock requests - medical reps ask for stock, a manager in their specialty reviews it
+export const REQUEST_STATUSES = [
+  'pending',
+  'approved',
+  'partially_approved',
+  'rejected',
+  'cancelled',
+] as const;
+
+export const requestStatusEnum = pgEnum("request_status", REQUEST_STATUSES);
+
+export const stockRequests = pgTable("stock_requests", {
+  id: serial("id").primaryKey(),
+  // Null once the requester's account is deleted
+  requestedBy: integer("requested_by").references(() => users.id, { onDelete: "set null" }),
+  specialtyId: integer("specialty_id").references(() => specialties.id), // Requester's specialty when submitted
+  status: requestStatusEnum("status").notNull().default('pending'),
+  notes: text("notes"),
+  reviewedBy: integer("reviewed_by").references(() => users.id, { onDelete: "set null" }),
+  reviewedAt: timestamp("reviewed_at"),
+  reviewNotes: text("review_notes"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("stock_requests_requested_by_idx").on(table.requestedBy),
+  index("stock_requests_specialty_id_idx").on(table.specialtyId),
+]);
+
+export const stockRequestItems = pgTable("stock_request_items", {
+  id: serial("id").primaryKey(),
+  requestId: integer("request_id").notNull().references(() => stockRequests.id, { onDelete: "cascade" }),
+  // Requested items are kept as history, so they can't be deleted
+  stockItemId: integer("stock_item_id").notNull().references(() => stockItems.id, { onDelete: "restrict" }),
+  quantityRequested: integer("quantity_requested").notNull(),
+  quantityApproved: integer("quantity_approved"), // Null until reviewed
+  movementId: integer("movement_id").references(() => stockMovements.id), // Allocation that fulfilled it
+}, (table) => [
+  index("stock_request_items_request_id_idx").on(table.requestId),
+]);
+
+// Status history - one row per status a request has been in
+export const stockRequestEvents = pgTable("stock_request_events", {
+  id: serial("id").primaryKey(),
+  requestId: integer("request_id").notNull().references(() => stockRequests.id, { onDelete: "cascade" }),
+  status: requestStatusEnum("status").notNull(),
+  changedBy: integer("changed_by").references(() => users.id, { onDelete: "set null" }),
+  notes: text("notes"),
+  changedAt: timestamp("changed_at").defaultNow(),
+}, (table) => [
+  index("stock_request_events_request_id_idx").on(table.requestId),
+]);
+
+export const insertStockRequestSchema = z.object({
+  notes: z.string().optional(),
+  items: z.array(z.object({
+    stockItemId: z.number().int().positive(),
+    quantity: z.number().int().positive("Quantity must be positive"),
+  })).min(1, "Request at least one item"),
+}).refine(
+  request => new Set(request.items.map(item => item.stockItemId)).size === request.items.length,
+  { message: "Each item can only be requested once", path: ['items'] }
+);
+
+// Approving may lower the quantity of any line (partial approval); rejecting needs a reason
+export const reviewStockRequestSchema = z.discriminatedUnion('decision', [
+  z.object({
+    decision: z.literal('approve'),
+    items: z.array(z.object({
+      id: z.number().int().positive(), // Request item ID
+      quantityApproved: z.number().int().nonnegative("Quantity cannot be negative"),
+    })).min(1),
+    notes: z.string().optional(),
+  }),
+  z.object({
+    decision: z.literal('reject'),
+    notes: z.string().trim().min(1, "A reason is required to reject a request"),
+  }),
+]);
+
+// Audit log - append-only record of every create, update and delete
+export const AUDIT_ACTIONS = ['create', 'update', 'delete'] as const;
+
+export const auditActionEnum = pgEnum("audit_action", AUDIT_ACTIONS);
+
+export const auditEvents = pgTable("audit_events", {
+  id: serial("id").primaryKey(),
+  actorId: integer("actor_id"), // Null for system and unauthenticated changes
+  action: auditActionEnum("action").notNull(),
+  entityType: text("entity_type").notNull(), // e.g. stock_item, user, category
+  entityId: text("entity_id").notNull(),
+  before: jsonb("before"), // Changed fields before the change; null for creates
+  after: jsonb("after"), // Changed fields after the change; null for deletes
+  ip: text("ip"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  index("audit_events_entity_idx").on(table.entityType, table.entityId),
+  index("audit_events_actor_id_idx").on(table.actorId),
+  index("audit_events_created_at_idx").on(table.createdAt),
+]);
+
+export const auditQuerySchema = z.object({
+  entityType: z.string().optional(),
+  entityId: z.string().optional(),
+  actorId: z.coerce.number().int().positive().optional(),
+  action: z.enum(AUDIT_ACTIONS).optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  limit: z.coerce.number().int().positive().max(500).default(100),
+});
+
+// Sign-in activity for existing accounts. Attempts on usernames that don't
+// exist aren't kept, since what was typed may well be a password; the sign-in
+// rate limit covers them instead.
+export const LOGIN_EVENT_TYPES = ['success', 'failure', 'lockout', 'logout'] as const;
+
+export const loginEventTypeEnum = pgEnum("login_event_type", LOGIN_EVENT_TYPES);
+
+export const loginEvents = pgTable("login_events", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id, { onDelete: "set null" }),
+  username: text("username").notNull(),
+  type: loginEventTypeEnum("type").notNull(),
+  reason: text("reason"), // Why a sign-in failed
+  ip: text("ip"),
+  userAgent: text("user_agent"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  index("login_events_user_id_idx").on(table.userId),
+  index("login_events_created_at_idx").on(table.createdAt),
+]);
+
+export const loginEventQuerySchema = z.object({
+  userId: z.coerce.number().int().positive().optional(),
+  type: z.enum(LOGIN_EVENT_TYPES).optional(),
+  page: z.coerce.number().int().positive().default(1),
+  pageSize: pageParams.pageSize,
+});
+
+// Single-use links for choosing a new password. As with report shares, only
+// a hash of each link's token is stored.
+export const passwordResetTokens = pgTable("password_reset_tokens", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  tokenHash: text("token_hash").notNull().unique(),
+  expiresAt: timestamp("expires_at").notNull(),
+  usedAt: timestamp("used_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Invitations to create an account whose role, region and specialty were
+// chosen by whoever sent them. Single use, like password reset links.
+export const invitations = pgTable("invitations", {
+  id: serial("id").primaryKey(),
+  tokenHash: text("token_hash").notNull().unique(),
+  email: text("email").notNull(),
+  name: text("name").notNull(),
+  role: text("role").notNull(),
+  region: text("region"),
+  specialtyId: integer("specialty_id").references(() => specialties.id, { onDelete: "set null" }),
+  expiresAt: timestamp("expires_at").notNull(),
+  acceptedAt: timestamp("accepted_at"),
+  revokedAt: timestamp("revoked_at"),
+  // The account made from it
+  userId: integer("user_id").references(() => users.id, { onDelete: "set null" }),
+  invitedBy: integer("invited_by").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const createInvitationSchema = z.object({
+  email: z.string().email("Invalid email address"),
+  name: z.string().min(2, "Full name is required"),
+  role: extendedInsertUserSchema.shape.role,
+  region: z.string().nullish(),
+  specialtyId: z.number().int().positive().nullish(),
+});
+
+export const acceptInvitationSchema = z.object({
+  username: z.string().min(3, "Username must be at least 3 characters"),
+  password: z.string().min(1, "Enter a password"),
+});
+
+export const forgotPasswordSchema = z.object({
+  email: z.string().email("Invalid email address"),
+});
+
+export const resetPasswordSchema = z.object({
+  password: z.string().min(1, "Enter a new password"),
+});
+
+// Notifications - per-user messages shown under the header bell
+export const NOTIFICATION_TYPES = ['low_stock', 'expiring_lot', 'movement', 'approval'] as const;
+
+export const notificationTypeEnum = pgEnum("notification_type", NOTIFICATION_TYPES);
+
+export const notifications = pgTable("notifications", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  type: notificationTypeEnum("type").notNull(),
+  title: text("title").notNull(),
+  message: text("message").notNull(),
+  link: text("link"),
+  // Identifies the condition a notification is about, so scans don't repeat it
+  dedupeKey: text("dedupe_key"),
+  readAt: timestamp("read_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  uniqueIndex("notifications_user_id_dedupe_key_idx").on(table.userId, table.dedupeKey),
+  index("notifications_user_id_created_at_idx").on(table.userId, table.createdAt),
+]);
+
+export const insertNotificationSchema = createInsertSchema(notifications).omit({
+  id: true,
+  readAt: true,
+  createdAt: true,
+});
+
+// User preferences - which notifications each user wants. Users without a row
+// get the defaults.
+export const DEFAULT_USER_PREFERENCES = {
+  emailNotifications: true,
+  stockAlerts: true,
+  expiryAlerts: true,
+  movementAlerts: true,
+  dailyReports: false,
+};
+
+export const userPreferences = pgTable("user_preferences", {
+  userId: integer("user_id").primaryKey().references(() => users.id, { onDelete: "cascade" }),
+  emailNotifications: boolean("email_notifications").notNull().default(DEFAULT_USER_PREFERENCES.emailNotifications),
+  stockAlerts: boolean("stock_alerts").notNull().default(DEFAULT_USER_PREFERENCES.stockAlerts),
+  expiryAlerts: boolean("expiry_alerts").notNull().default(DEFAULT_USER_PREFERENCES.expiryAlerts),
+  movementAlerts: boolean("movement_alerts").notNull().default(DEFAULT_USER_PREFERENCES.movementAlerts),
+  dailyReports: boolean("daily_reports").notNull().default(DEFAULT_USER_PREFERENCES.dailyReports),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+// TOTP two-factor authentication. The row is made when a user starts
+// enrolling; two-factor is on once a first code has confirmed the secret.
+export const userTwoFactor = pgTable("user_two_factor", {
+  userId: integer("user_id").primaryKey().references(() => users.id, { onDelete: "cascade" }),
+  secret: text("secret").notNull(), // Base32
+  recoveryCodeHashes: jsonb("recovery_code_hashes").$type<string[]>().notNull().default([]),
+  lastUsedStep: integer("last_used_step"), // Time step of the last code accepted, so it can't be replayed
+  enabledAt: timestamp("enabled_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const userPreferencesSchema = z.object({
+  emailNotifications: z.boolean(),
+  stockAlerts: z.boolean(),
+  expiryAlerts: z.boolean(),
+  movementAlerts: z.boolean(),
+  dailyReports: z.boolean(),
+});
+
+// Mail outbox - every email is queued here first and delivered by a
+// background job, which retries failed deliveries with backoff
+export const MAIL_STATUSES = ['pending', 'sent', 'failed'] as const;
+
+export const mailStatusEnum = pgEnum("mail_status", MAIL_STATUSES);
+
+export type MailAttachment = {
+  filename: string;
+  contentType: string;
+  content: string; // Base64
+};
+
+export const mailOutbox = pgTable("mail_outbox", {
+  id: serial("id").primaryKey(),
+  template: text("template").notNull(),
+  to: text("to").notNull(),
+  subject: text("subject").notNull(),
+  text: text("text").notNull(),
+  html: text("html").notNull(),
+  attachments: jsonb("attachments").$type<MailAttachment[]>().notNull().default([]),
+  sensitive: boolean("sensitive").notNull().default(false),
+  status: mailStatusEnum("status").notNull().default('pending'),
+  attempts: integer("attempts").notNull().default(0),
+  lastError: text("last_error"),
+  nextAttemptAt: timestamp("next_attempt_at").notNull().defaultNow(),
+  sentAt: timestamp("sent_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  index("mail_outbox_status_next_attempt_at_idx").on(table.status, table.nextAttemptAt),
+]);
+
+export const emailReportSchema = z.object({
+  to: z.string().email("Invalid email address"),
+  reportType: z.string().min(1),
+  link: z.string().url().optional(),
+  message: z.string().max(2000).optional(),
+});
+
+// Report shares - read-only snapshots of a report, reachable by anyone with
+// the link until they expire or are revoked. Only a hash of the link's token
+// is stored.
+export const reportShares = pgTable("report_shares", {
+  id: serial("id").primaryKey(),
+  tokenHash: text("token_hash").notNull().unique(),
+  reportType: text("report_type").notNull(),
+  title: text("title").notNull(),
+  rows: jsonb("rows").$type<string[][]>().notNull(),
+  passwordHash: text("password_hash"),
+  expiresAt: timestamp("expires_at").notNull(),
+  revokedAt: timestamp("revoked_at"),
+  viewCount: integer("view_count").notNull().default(0),
+  lastViewedAt: timestamp("last_viewed_at"),
+  createdBy: integer("created_by").notNull().references(() => users.id, { onDelete: "cascade" }),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const createReportShareSchema = z.object({
+  reportType: z.string().min(1),
+  title: z.string().min(1).max(200),
+  // Header row first, as shown in the report table
+  rows: z.array(z.array(z.coerce.string())).min(1, "The report has no data to share"),
+  expiresInDays: z.number().int().min(1).max(90).default(7),
+  password: z.string().min(4, "Password must be at least 4 characters").optional(),
+});
+
+export const viewReportShareSchema = z.object({
+  password: z.string().optional(),
+});
+
+// Reports - generated on the server so that every download, whichever
+// screen or schedule asks for it, has the same content
+export const REPORT_TYPES = ['inventory', 'movement', 'expiry', 'allocation', 'specialty'] as const;
+export const REPORT_FILE_FORMATS = ['pdf', 'xlsx', 'csv'] as const;
+// json returns the report's rows, for showing and sharing in the app
+export const REPORT_FORMATS = [...REPORT_FILE_FORMATS, 'json'] as const;
+
+const reportDateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Dates must be YYYY-MM-DD");
+
+export const reportQuerySchema = z.object({
+  // Whole days, both inclusive
+  from: reportDateSchema.optional(),
+  to: reportDateSchema.optional(),
+  format: z.enum(REPORT_FORMATS).default('pdf'),
+}).refine(query => !query.from || !query.to || query.from <= query.to, {
+  message: "'from' must not be after 'to'",
+  path: ['from'],
+});
+
+// Report subscriptions - a report emailed to a list of recipients on a cron
+// schedule. Each delivery is kept in the report archive.
+export const reportSubscriptions = pgTable("report_subscriptions", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  reportType: text("report_type").notNull(),
+  format: text("format").notNull(),
+  // Days of data each delivery covers, ending the day before it is sent.
+  // Expiry reports look this many days ahead instead.
+  rangeDays: integer("range_days").notNull().default(30),
+  schedule: text("schedule").notNull(),
+  recipients: jsonb("recipients").$type<string[]>().notNull(),
+  active: boolean("active").notNull().default(true),
+  nextRunAt: timestamp("next_run_at").notNull(),
+  lastRunAt: timestamp("last_run_at"),
+  lastError: text("last_error"),
+  createdBy: integer("created_by").notNull().references(() => users.id, { onDelete: "cascade" }),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  index("report_subscriptions_next_run_at_idx").on(table.nextRunAt),
+]);
+
+export const reportArchives = pgTable("report_archives", {
+  id: serial("id").primaryKey(),
+  subscriptionId: integer("subscription_id").references(() => reportSubscriptions.id, { onDelete: "set null" }),
+  reportType: text("report_type").notNull(),
+  format: text("format").notNull(),
+  filename: text("filename").notNull(),
+  contentType: text("content_type").notNull(),
+  content: text("content").notNull(), // Base64
+  size: integer("size").notNull(), // Bytes before encoding
+  periodFrom: timestamp("period_from").notNull(),
+  periodTo: timestamp("period_to").notNull(),
+  recipients: jsonb("recipients").$type<string[]>().notNull(),
+  generatedAt: timestamp("generated_at").notNull().defaultNow(),
+}, (table) => [
+  index("report_archives_subscription_id_idx").on(table.subscriptionId),
+]);
+
+export const reportSubscriptionSchema = z.object({
+  name: z.string().min(1, "Name is required").max(200),
+  reportType: z.enum(REPORT_TYPES),
+  format: z.enum(REPORT_FILE_FORMATS).default('pdf'),
+  rangeDays: z.number().int().min(1).max(366).default(30),
+  schedule: z.string().superRefine((schedule, ctx) => {
+    try {
+      parseCron(schedule);
+    } catch (error) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: (error as Error).message });
+    }
+  }),
+  recipients: z.array(z.string().email("Invalid email address"))
+    .min(1, "Add at least one recipient")
+    .max(50),
+  active: z.boolean().default(true),
+});
+
+// Scheduled jobs - one row per background job, so the scheduler knows when a
+// job last ran across restarts
+export const JOB_STATUSES = ['succeeded', 'failed'] as const;
+
+export const jobStatusEnum = pgEnum("job_status", JOB_STATUSES);
+
+export const scheduledJobs = pgTable("scheduled_jobs", {
+  name: text("name").primaryKey(),
+  nextRunAt: timestamp("next_run_at").notNull().defaultNow(),
+  lastStartedAt: timestamp("last_started_at"),
+  lastFinishedAt: timestamp("last_finished_at"),
+  lastStatus: jobStatusEnum("last_status"),
+  lastError: text("last_error"),
+  lastDurationMs: integer("last_duration_ms"),
+});
+
+// Automatic backups, kept in system settings under "backupSettings". The
+// archives themselves are files on the server, not database rows.
+export const BACKUP_FREQUENCIES = ['hourly', 'daily', 'weekly', 'monthly'] as const;
+
+export const backupSettingsSchema = z.object({
+  autoBackupEnabled: z.boolean().default(false),
+  backupFrequency: z.enum(BACKUP_FREQUENCIES).default('daily'),
+  retentionPeriod: z.coerce.number().int().min(1).max(3650).default(30), // Days
+  compressBackups: z.boolean().default(true),
+  encryptBackups: z.boolean().default(false),
+});
+
+// Clearing all data and resetting the system need the user's password and
+// the phrase for the action typed out in full
+export const WIPE_CONFIRMATIONS = {
+  clear: 'CLEAR ALL DATA',
+  reset: 'RESET SYSTEM',
+} as const;
+
+export const wipeConfirmationSchema = z.object({
+  password: z.string().min(1, "Enter your password"),
+  confirmation: z.string(),
+});
+
+// Rules every new password must follow, kept in system settings under
+// "passwordPolicy". An expiry of 0 days means passwords never expire.
+export const passwordPolicySchema = z.object({
+  passwordLength: z.coerce.number().int().min(6).max(128).default(8),
+  passwordExpiry: z.coerce.number().int().min(0).max(3650).default(90), // Days
+  requireSpecialChars: z.boolean().default(false),
+  requireUppercase: z.boolean().default(true),
+  requireNumbers: z.boolean().default(true),
+});
+
+// Kept in system settings under "twoFactorPolicy". Users in these roles
+// must set up two-factor authentication before they can do anything else.
+export const twoFactorPolicySchema = z.object({
+  requiredRoles: z.array(extendedInsertUserSchema.shape.role).default([]),
+});
+
+// Kept in system settings under "sessionPolicy". Sessions keep the limits in
+// force when they were signed in.
+export const sessionPolicySchema = z.object({
+  sessionTimeout: z.coerce.number().int().min(5).max(1440).default(30), // Minutes of inactivity
+  sessionMaxAge: z.coerce.number().int().min(1).max(720).default(168), // Hours after signing in
+});
+
+// Kept in system settings under "registrationPolicy". With open registration
+// off, accounts are only made from invitations.
+export const registrationPolicySchema = z.object({
+  openRegistration: z.boolean().default(true),
+  invitationExpiry: z.coerce.number().int().min(1).max(30).default(7), // Days
+});
+
+export const twoFactorCodeSchema = z.object({
+  code: z.string().trim().min(1, "Enter a code").max(32),
+});
+
+export const changePasswordSchema = z.object({
+  currentPassword: z.string().min(1, "Enter your current password"),
+  newPassword: z.string().min(1, "Enter a new password"),
+});
+
 // Types
 export type InsertUser = z.infer<typeof extendedInsertUserSchema>;
 export type User = typeof users.$inferSelect;
@@ -161,11 +903,188 @@ export type Category = typeof categories.$inferSelect;
 export type InsertStockItem = z.infer<typeof extendedInsertStockItemSchema>;
 export type StockItem = typeof stockItems.$inferSelect;
 
+export type InsertStockLot = z.infer<typeof extendedInsertStockLotSchema>;
+export type StockLot = typeof stockLots.$inferSelect;
+export type StockMovementLot = typeof stockMovementLots.$inferSelect;
+
+// An expiring lot, reported with the fields of the item it belongs to.
+// `expiry` and `quantity` are the lot's own values.
+export type ExpiringLot = StockItem & { lotId: number; lotNumber: string };
+
 export type InsertStockAllocation = z.infer<typeof insertStockAllocationSchema>;
 export type StockAllocation = typeof stockAllocations.$inferSelect;
 
-export type InsertStockMovement = z.infer<typeof insertStockMovementSchema>;
+export type InsertStockMovement = z.infer<typeof extendedInsertStockMovementSchema>;
 export type StockMovement = typeof stockMovements.$inferSelect;
+export type MovementType = typeof MOVEMENT_TYPES[number];
+
+export type MovementBatch = typeof movementBatches.$inferSelect;
+export type BatchMovement = z.infer<typeof batchMovementSchema>;
+
+export type InsertStockRequest = z.infer<typeof insertStockRequestSchema>;
+export type ReviewStockRequest = z.infer<typeof reviewStockRequestSchema>;
+export type StockRequest = typeof stockRequests.$inferSelect;
+export type StockRequestItem = typeof stockRequestItems.$inferSelect;
+export type StockRequestEvent = typeof stockRequestEvents.$inferSelect;
+export type RequestStatus = typeof REQUEST_STATUSES[number];
+export type StockRequestWithItems = StockRequest & { items: StockRequestItem[] };
+export type StockRequestDetail = StockRequestWithItems & { history: StockRequestEvent[] };
+
+export type InsertNotification = z.infer<typeof insertNotificationSchema>;
+export type Notification = typeof notifications.$inferSelect;
+export type NotificationType = typeof NOTIFICATION_TYPES[number];
+
+export type UserPreferences = z.infer<typeof userPreferencesSchema>;
+
+export type EmailReport = z.infer<typeof emailReportSchema>;
+export type InsertMail = Pick<typeof mailOutbox.$inferInsert, 'template' | 'to' | 'subject' | 'text' | 'html' | 'attachments' | 'sensitive'>;
+export type OutboxMail = typeof mailOutbox.$inferSelect;
+export type MailStatus = typeof MAIL_STATUSES[number];
+
+export type ReportShare = typeof reportShares.$inferSelect;
+export type CreateReportShare = z.infer<typeof createReportShareSchema>;
+// What the admin list shows; the snapshot and hashes stay on the server
+export type ReportShareSummary = Omit<ReportShare, 'tokenHash' | 'rows' | 'passwordHash'> & { hasPassword: boolean };
+
+export type ReportType = typeof REPORT_TYPES[number];
+export type ReportFormat = typeof REPORT_FORMATS[number];
+export type ReportFileFormat = typeof REPORT_FILE_FORMATS[number];
+export type ReportQuery = z.infer<typeof reportQuerySchema>;
+
+export type ReportSubscription = typeof reportSubscriptions.$inferSelect;
+export type InsertReportSubscription = z.infer<typeof reportSubscriptionSchema>;
+export type ReportArchive = typeof reportArchives.$inferSelect;
+// Archive listings leave out the file itself
+export type ReportArchiveSummary = Omit<ReportArchive, 'content'>;
+
+// What restoring a backup would change, table by table, compared by primary key
+export type BackupTableDiff = {
+  table: string;
+  current: number;
+  backup: number;
+  added: number;
+  removed: number;
+  changed: number;
+};
+export type BackupDiff = {
+  createdAt: string;
+  tables: BackupTableDiff[];
+  uploads: { added: number; changed: number };
+};
+
+export type BackupFrequency = typeof BACKUP_FREQUENCIES[number];
+export type BackupSettings = z.infer<typeof backupSettingsSchema>;
+// A backup file kept in the server's backup directory
+export type StoredBackup = {
+  name: string;
+  size: number;
+  createdAt: string;
+  compressed: boolean;
+  encrypted: boolean;
+};
+
+export type WipeConfirmation = z.infer<typeof wipeConfirmationSchema>;
+
+export type PasswordPolicy = z.infer<typeof passwordPolicySchema>;
+export type ChangePassword = z.infer<typeof changePasswordSchema>;
+// The signed-in user as the server reports them
+export type CurrentUser = Omit<User, 'password'> & {
+  passwordExpired: boolean;
+  twoFactorSetupRequired: boolean;
+};
+// A correct password for an account with two-factor on asks for a code next
+export type LoginResult = CurrentUser | { twoFactorRequired: true };
+
+export type TwoFactorPolicy = z.infer<typeof twoFactorPolicySchema>;
+export type SessionPolicy = z.infer<typeof sessionPolicySchema>;
+// A signed-in session as listed to its user. The id stands in for the
+// session id, which is never sent.
+export type UserSession = {
+  id: string;
+  current: boolean;
+  signedInAt: string | null;
+  lastSeenAt: string | null;
+  expiresAt: string;
+  ip: string | null;
+  userAgent: string | null;
+};
+export type RegistrationPolicy = z.infer<typeof registrationPolicySchema>;
+export type PasswordResetToken = typeof passwordResetTokens.$inferSelect;
+export type Invitation = typeof invitations.$inferSelect;
+export type InvitationSummary = Omit<Invitation, 'tokenHash'>;
+export type CreateInvitation = z.infer<typeof createInvitationSchema>;
+export type AcceptInvitation = z.infer<typeof acceptInvitationSchema>;
+// What an invitation's link shows before the account is made
+export type InvitationDetails = {
+  email: string;
+  name: string;
+  role: string;
+  region: string | null;
+  specialty: string | null;
+  expiresAt: string;
+};
+export type UserTwoFactor = typeof userTwoFactor.$inferSelect;
+export type TwoFactorStatus = {
+  enabled: boolean;
+  required: boolean;
+  recoveryCodesRemaining: number;
+};
+export type TwoFactorSetup = {
+  secret: string;
+  uri: string;
+};
+
+export type StockItemQuery = z.infer<typeof stockItemQuerySchema>;
+export type MovementQuery = z.infer<typeof movementQuerySchema>;
+export type SearchQuery = z.infer<typeof searchQuerySchema>;
+// Global search matches, grouped by what they are
+export type SearchResults = {
+  stockItems: StockItem[];
+  users: Omit<User, 'password'>[];
+  categories: Category[];
+  specialties: Specialty[];
+  movements: (StockMovement & { stockItemName: string })[];
+};
+// The specialty whose items, movements and people a user may see. Users whose
+// role can see every specialty are not limited.
+export type SpecialtyScope = 'all' | { specialtyId: number | null };
+// One page of a list, with the number of matches across all pages
+export type Page<T> = {
+  items: T[];
+  total: number;
+  page: number;
+  pageSize: number;
+};
+
+export type StockImportQuery = z.infer<typeof stockImportQuerySchema>;
+// One data row of an import file, numbered as in the spreadsheet
+export type StockImportRow = {
+  row: number;
+  name: string;
+  uniqueNumber: string | null;
+  action: 'create' | 'update';
+  errors: string[];
+};
+export type StockImportResult = {
+  rows: StockImportRow[];
+  valid: number;
+  invalid: number;
+  committed: boolean;
+  created: number;
+  updated: number;
+};
+
+export type ScheduledJob = typeof scheduledJobs.$inferSelect;
+export type JobStatus = typeof JOB_STATUSES[number];
+
+export type AuditEvent = typeof auditEvents.$inferSelect;
+export type AuditAction = typeof AUDIT_ACTIONS[number];
+export type AuditQuery = z.infer<typeof auditQuerySchema>;
+
+export type LoginEvent = typeof loginEvents.$inferSelect;
+export type InsertLoginEvent = typeof loginEvents.$inferInsert;
+export type LoginEventType = typeof LOGIN_EVENT_TYPES[number];
+export type LoginEventQuery = z.infer<typeof loginEventQuerySchema>;
 
 // System Settings
 export const systemSettings = pgTable("system_settings", {
@@ -176,6 +1095,15 @@ export const systemSettings = pgTable("system_settings", {
 export const insertSystemSettingSchema = createInsertSchema(systemSettings);
 export type SystemSetting = typeof systemSettings.$inferSelect;
 
+// The settings read and written through /api/system-settings. Policies and
+// backup settings have routes of their own and are kept out of it.
+export const generalSettingsSchema = z.object({
+  lowStockThreshold: z.string().regex(/^\d+$/, "Low stock threshold must be a whole number"),
+  expiryAlertDays: z.string().regex(/^[1-9]\d*$/, "Expiry alert days must be a positive whole number"),
+}).partial().strict();
+
+export type GeneralSettings = z.infer<typeof generalSettingsSchema>;
+
 // Role permissions
 export const ROLE_PERMISSIONS = {
   ceo: {
@@ -188,7 +1116,10 @@ export const ROLE_PERMISSIONS = {
     canViewReports: true,
     canAccessSettings: true,
     canManageSpecialties: true,
-    canSeeAllSpecialties: true
+    canAdministerSystem: true, // Backups, restores and wiping data
+    canSeeAllSpecialties: true,
+    canRequestStock: true,
+    canApproveRequests: true
   },
   marketer: {
     canViewAll: false,
@@ -200,7 +1131,10 @@ export const ROLE_PERMISSIONS = {
     canViewReports: false,
     canAccessSettings: false,
     canManageSpecialties: false,
-    canSeeAllSpecialties: false
+    canAdministerSystem: false,
+    canSeeAllSpecialties: false,
+    canRequestStock: false,
+    canApproveRequests: true
   },
   salesManager: {
     canViewAll: false,
@@ -212,7 +1146,10 @@ export const ROLE_PERMISSIONS = {
     canViewReports: false,
     canAccessSettings: false,
     canManageSpecialties: false,
-    canSeeAllSpecialties: false
+    canAdministerSystem: false,
+    canSeeAllSpecialties: false,
+    canRequestStock: false,
+    canApproveRequests: true
   },
   stockManager: {
     canViewAll: false,
@@ -224,7 +1161,10 @@ export const ROLE_PERMISSIONS = {
     canViewReports: false,
     canAccessSettings: true,
     canManageSpecialties: false,
-    canSeeAllSpecialties: false
+    canAdministerSystem: false,
+    canSeeAllSpecialties: false,
+    canRequestStock: false,
+    canApproveRequests: false
   },
   admin: {
     canViewAll: true,
@@ -236,7 +1176,10 @@ export const ROLE_PERMISSIONS = {
     canViewReports: true,
     canAccessSettings: true,
     canManageSpecialties: true,
-    canSeeAllSpecialties: true
+    canAdministerSystem: true,
+    canSeeAllSpecialties: true,
+    canRequestStock: false,
+    canApproveRequests: false
   },
   medicalRep: {
     canViewAll: false,
@@ -248,7 +1191,10 @@ export const ROLE_PERMISSIONS = {
     canViewReports: false,
     canAccessSettings: false,
     canManageSpecialties: false,
-    canSeeAllSpecialties: false
+    canAdministerSystem: false,
+    canSeeAllSpecialties: false,
+    canRequestStock: true,
+    canApproveRequests: false
   }
 };
 